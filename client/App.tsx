@@ -1,77 +1,77 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Admin from "./pages/Admin";
-import Placeholder from "./pages/Placeholder";
+import RfidMonitor from "./pages/RfidMonitor";
+import Settings from "./pages/Settings";
+import DosProtection from "./pages/DosProtection";
+import Cardholders from "./pages/Cardholders";
 import NotFound from "./pages/NotFound";
-import { Shield, Settings } from "lucide-react";
+import ProtectedRoute from "./components/ProtectedRoute";
+import { AuthProvider } from "./hooks/use-auth";
+import { createQueryClient } from "./lib/query-client";
 
-// Create QueryClient with better defaults for development
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 1000 * 60 * 5, // 5 minutes
-      retry: (failureCount, error) => {
-        // Don't retry on 4xx errors
-        if (error && typeof error === "object" && "status" in error) {
-          const status = (error as any).status;
-          if (status >= 400 && status < 500) {
-            return false;
-          }
-        }
-        return failureCount < 3;
-      },
-    },
-  },
-});
+// Retries skip client errors; failures redirect to login or show a toast
+const queryClient = createQueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/admin" element={<Admin />} />
-          <Route
-            path="/rfid"
-            element={
-              <Placeholder
-                title="RFID Monitor"
-                description="Detailed RFID access monitoring and card management system"
-                icon={<Shield className="h-8 w-8 text-primary" />}
-              />
-            }
-          />
-          <Route
-            path="/dos"
-            element={
-              <Placeholder
-                title="DoS Protection"
-                description="Advanced Denial of Service attack detection and mitigation controls"
-                icon={<Shield className="h-8 w-8 text-destructive" />}
-              />
-            }
-          />
-          <Route
-            path="/settings"
-            element={
-              <Placeholder
-                title="System Settings"
-                description="Configure security parameters, user management, and system preferences"
-                icon={<Settings className="h-8 w-8 text-muted-foreground" />}
-              />
-            }
-          />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route
+              path="/"
+              element={
+                <ProtectedRoute>
+                  <Index />
+                </ProtectedRoute>
+              }
+            />
+            <Route path="/admin" element={<Admin />} />
+            <Route
+              path="/rfid"
+              element={
+                <ProtectedRoute permission="events:read">
+                  <RfidMonitor />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/dos"
+              element={
+                <ProtectedRoute permission="events:read">
+                  <DosProtection />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/cardholders"
+              element={
+                <ProtectedRoute permission="events:read">
+                  <Cardholders />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <ProtectedRoute>
+                  <Settings />
+                </ProtectedRoute>
+              }
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
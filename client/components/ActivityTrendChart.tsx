@@ -0,0 +1,168 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { TrendingUp } from "lucide-react";
+import { ACTIVITY_RANGES, ActivityRange } from "@shared/api";
+
+type TrendPoint<K extends string> = { start: string } & Record<K, number>;
+
+interface ActivityTrendChartProps<K extends string> {
+  title: string;
+  /** Noun for the counted things, e.g. "scans" */
+  unit: string;
+  /** Label and color of each counted field, drawn in this order */
+  series: Record<K, { label: string; color: string }>;
+  /** Undefined while loading */
+  trend?: TrendPoint<NoInfer<K>>[];
+  bucketMinutes?: number;
+  range: ActivityRange;
+  onRangeChange: (range: ActivityRange) => void;
+}
+
+export const RANGE_LABELS: Record<ActivityRange, string> = {
+  "1h": "Last hour",
+  "24h": "Last 24 hours",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+};
+
+// Day buckets only need the date, sub-day buckets the time as well
+const formatBucket = (start: string, bucketMinutes: number, long = false) => {
+  const date = new Date(start);
+  if (bucketMinutes >= 24 * 60) {
+    return date.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+  }
+  if (long || bucketMinutes >= 6 * 60) {
+    return date.toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+  return date.toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export default function ActivityTrendChart<K extends string>({
+  title,
+  unit,
+  series,
+  trend,
+  bucketMinutes,
+  range,
+  onRangeChange,
+}: ActivityTrendChartProps<K>) {
+  const keys = Object.keys(series) as K[];
+  const totals = trend
+    ? keys
+        .map((key) => {
+          const total = trend.reduce((sum, point) => sum + point[key], 0);
+          return `${total.toLocaleString()} ${series[key].label.toLowerCase()}`;
+        })
+        .join(" and ")
+    : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="h-5 w-5" />
+            <span>{title}</span>
+          </CardTitle>
+          <CardDescription>
+            {totals
+              ? `${totals} ${unit}`
+              : keys.map((key) => series[key].label).join(" vs ")}
+          </CardDescription>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={range}
+          onValueChange={(value) => {
+            // Clicking the selected range would otherwise clear it
+            if (value) onRangeChange(value as ActivityRange);
+          }}
+        >
+          {ACTIVITY_RANGES.map((option) => (
+            <ToggleGroupItem
+              key={option}
+              value={option}
+              aria-label={RANGE_LABELS[option]}
+            >
+              {option}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        {trend ? (
+          <ChartContainer
+            config={series satisfies ChartConfig}
+            className="h-64 w-full"
+          >
+            <AreaChart data={trend} margin={{ left: -20, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="start"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(start: string) =>
+                  formatBucket(start, bucketMinutes)
+                }
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, [item]) =>
+                      item
+                        ? formatBucket(item.payload.start, bucketMinutes, true)
+                        : ""
+                    }
+                  />
+                }
+              />
+              {keys.map((key) => (
+                <Area
+                  key={key}
+                  dataKey={key}
+                  type="monotone"
+                  stroke={`var(--color-${key})`}
+                  fill={`var(--color-${key})`}
+                  fillOpacity={0.25}
+                />
+              ))}
+              <ChartLegend content={<ChartLegendContent />} />
+            </AreaChart>
+          </ChartContainer>
+        ) : (
+          <div className="h-64 animate-pulse rounded bg-muted" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
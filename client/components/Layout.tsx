@@ -1,7 +1,58 @@
-import { Shield, Activity, Settings, LogOut, User } from "lucide-react";
+import {
+  Shield,
+  Activity,
+  Settings,
+  LogOut,
+  User,
+  ChevronDown,
+  IdCard,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Link, useLocation } from "react-router-dom";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { LOGIN_PATH } from "@/lib/auth-redirect";
+import { Permission, ROLE_LABELS } from "@shared/permissions";
+
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: typeof Activity;
+  /** Hidden unless the current user has it */
+  permission?: Permission;
+}
+
+const allNavigationItems: NavigationItem[] = [
+  { name: "Dashboard", href: "/", icon: Activity },
+  {
+    name: "RFID Monitor",
+    href: "/rfid",
+    icon: Shield,
+    permission: "events:read",
+  },
+  {
+    name: "DoS Protection",
+    href: "/dos",
+    icon: Shield,
+    permission: "events:read",
+  },
+  {
+    name: "Cardholders",
+    href: "/cardholders",
+    icon: IdCard,
+    permission: "events:read",
+  },
+  // Everyone may view the settings; each section checks its own permission
+  { name: "Settings", href: "/settings", icon: Settings },
+];
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -13,13 +64,17 @@ export default function Layout({
   showNavigation = true,
 }: LayoutProps) {
   const location = useLocation();
+  const navigate = useNavigate();
+  const { user, can, logout } = useAuth();
 
-  const navigationItems = [
-    { name: "Dashboard", href: "/", icon: Activity },
-    { name: "RFID Monitor", href: "/rfid", icon: Shield },
-    { name: "DoS Protection", href: "/dos", icon: Shield },
-    { name: "Settings", href: "/settings", icon: Settings },
-  ];
+  const navigationItems = allNavigationItems.filter(
+    (item) => !item.permission || can(item.permission),
+  );
+
+  const handleLogout = async () => {
+    await logout();
+    navigate(LOGIN_PATH, { replace: true });
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -66,15 +121,43 @@ export default function Layout({
               </nav>
 
               <div className="flex items-center space-x-2">
-                <Link to="/admin">
-                  <Button variant="outline" size="sm">
-                    <User className="h-4 w-4 mr-2" />
-                    Admin
-                  </Button>
-                </Link>
-                <Button variant="ghost" size="sm">
-                  <LogOut className="h-4 w-4" />
-                </Button>
+                {user ? (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <User className="h-4 w-4 mr-2" />
+                        {user.username}
+                        <ChevronDown className="h-3 w-3 ml-2 text-muted-foreground" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      <DropdownMenuLabel>
+                        <p className="font-medium">{user.username}</p>
+                        <p className="text-xs font-normal text-muted-foreground">
+                          {ROLE_LABELS[user.role] ?? user.role}
+                        </p>
+                      </DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem asChild>
+                        <Link to="/settings">
+                          <Settings className="h-4 w-4 mr-2" />
+                          Settings
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={handleLogout}>
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Sign out
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                ) : (
+                  <Link to={LOGIN_PATH}>
+                    <Button variant="outline" size="sm">
+                      <User className="h-4 w-4 mr-2" />
+                      Sign in
+                    </Button>
+                  </Link>
+                )}
               </div>
             </div>
           </div>
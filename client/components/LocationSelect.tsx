@@ -0,0 +1,57 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocations } from "@/hooks/use-security-api";
+import { LOCATION_KIND_LABELS, locationOptions } from "@/lib/locations";
+
+const ALL = "all";
+
+interface LocationSelectProps {
+  /** Selected location id; undefined for all locations */
+  value?: string;
+  onChange: (locationId: string | undefined) => void;
+  className?: string;
+}
+
+/**
+ * Pick any level of the location hierarchy; filters by a location include
+ * everything inside it
+ */
+export default function LocationSelect({
+  value,
+  onChange,
+  className,
+}: LocationSelectProps) {
+  const locations = useLocations();
+  const options = locationOptions(locations.data?.locations ?? []);
+  const selected = options.find((option) => option.location.id === value);
+
+  return (
+    <Select
+      value={value ?? ALL}
+      onValueChange={(next) => onChange(next === ALL ? undefined : next)}
+    >
+      <SelectTrigger className={className}>
+        {/* Without the indent and kind shown in the list */}
+        <SelectValue>{selected?.location.name ?? "All locations"}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All locations</SelectItem>
+        {options.map(({ location, depth }) => (
+          <SelectItem key={location.id} value={location.id}>
+            <span style={{ paddingLeft: `${depth * 0.75}rem` }}>
+              {location.name}
+            </span>
+            <span className="ml-2 text-xs text-muted-foreground">
+              {LOCATION_KIND_LABELS[location.kind]}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,46 @@
+import { Navigate, useLocation } from "react-router-dom";
+import RequirePermission from "@/components/RequirePermission";
+import { useAuth } from "@/hooks/use-auth";
+import { loginPath } from "@/lib/auth-redirect";
+import { Permission } from "@shared/permissions";
+
+interface ProtectedRouteProps {
+  /** Also require this permission, see RequirePermission */
+  permission?: Permission;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders the page for signed-in users; everyone else is sent to the login
+ * page, which brings them back here afterwards
+ */
+export default function ProtectedRoute({
+  permission,
+  children,
+}: ProtectedRouteProps) {
+  const { status } = useAuth();
+  const location = useLocation();
+
+  if (status === "verifying") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="text-muted-foreground">Checking your session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === "anonymous") {
+    return (
+      <Navigate to={loginPath(location.pathname + location.search)} replace />
+    );
+  }
+
+  return permission ? (
+    <RequirePermission permission={permission}>{children}</RequirePermission>
+  ) : (
+    <>{children}</>
+  );
+}
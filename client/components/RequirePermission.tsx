@@ -0,0 +1,63 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShieldOff, ArrowLeft } from "lucide-react";
+import { Link } from "react-router-dom";
+import Layout from "@/components/Layout";
+import { useAuth } from "@/hooks/use-auth";
+import { Permission } from "@shared/permissions";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders the page only if the current user's role grants the permission.
+ * The server enforces the same matrix; this just avoids a broken page.
+ */
+export default function RequirePermission({
+  permission,
+  children,
+}: RequirePermissionProps) {
+  const { can } = useAuth();
+
+  if (can(permission)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Layout>
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader className="space-y-4">
+            <div className="flex justify-center">
+              <div className="p-4 bg-muted rounded-2xl">
+                <ShieldOff className="h-8 w-8 text-destructive" />
+              </div>
+            </div>
+            <div>
+              <CardTitle className="text-xl">Access Denied</CardTitle>
+              <CardDescription className="mt-2">
+                Your account does not have permission to view this page.
+              </CardDescription>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Link to="/">
+              <Button variant="outline" className="w-full">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import {
+  ArrowLeft,
+  Copy,
+  KeyRound,
+  ShieldCheck,
+  Smartphone,
+} from "lucide-react";
+import apiService from "@/services/api";
+import { useLoginMfa, useStartSession } from "@/hooks/use-security-api";
+import { LoginResponse, MfaSetupResponse } from "@shared/api";
+
+const TOTP_CODE_LENGTH = 6;
+
+interface TwoFactorFormProps {
+  challengeToken: string;
+  /** The role requires MFA and the user still has to enroll */
+  setupRequired: boolean;
+  /** Set while a lockout is running */
+  disabled: boolean;
+  onFailure: (response: LoginResponse) => void;
+  onCancel: () => void;
+}
+
+// Show the secret in groups of four so it can be typed in by hand
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(" ");
+
+/**
+ * Second login step: TOTP or recovery code, with enrollment for users whose
+ * role requires MFA and recovery codes shown once enrollment completes
+ */
+export default function TwoFactorForm({
+  challengeToken,
+  setupRequired,
+  disabled,
+  onFailure,
+  onCancel,
+}: TwoFactorFormProps) {
+  const [setup, setSetup] = useState<MfaSetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const loginMfa = useLoginMfa();
+  const startSession = useStartSession();
+  const isLoading = loginMfa.isPending;
+  // Login that completed enrollment, held back until the codes are saved
+  const [enrolled, setEnrolled] = useState<LoginResponse | null>(null);
+
+  useEffect(() => {
+    if (!setupRequired) return;
+
+    apiService
+      .setupMfa(challengeToken)
+      .then(setSetup)
+      .catch(() =>
+        onFailure({
+          success: false,
+          message: "Could not start two-factor setup. Please sign in again.",
+        }),
+      );
+    // Only once per challenge
+  }, [challengeToken, setupRequired]);
+
+  const verify = async (totpCode = code) => {
+    try {
+      const response = await loginMfa.mutateAsync(
+        useRecoveryCode
+          ? { challengeToken, recoveryCode }
+          : { challengeToken, code: totpCode },
+      );
+
+      // Without recovery codes to show, the session has started and the
+      // login page moves on
+      if (response.success && response.recoveryCodes) {
+        setEnrolled(response);
+      } else if (!response.success) {
+        setCode("");
+        onFailure(response);
+      }
+    } catch (err) {
+      console.error("Two-factor verification error:", err);
+      onFailure({
+        success: false,
+        message: "Unable to connect to server. Please try again.",
+      });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verify();
+  };
+
+  if (enrolled) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start space-x-3 p-3 rounded-lg bg-success/10 border border-success/20">
+          <ShieldCheck className="h-5 w-5 text-success mt-0.5 shrink-0" />
+          <p className="text-sm">
+            Two-factor authentication is on. Save these recovery codes somewhere
+            safe: each one signs you in once if you lose your device. They will
+            not be shown again.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2 p-3 rounded-lg bg-muted font-mono text-sm">
+          {enrolled.recoveryCodes.map((recovery) => (
+            <span key={recovery}>{recovery}</span>
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() =>
+            navigator.clipboard?.writeText(enrolled.recoveryCodes.join("\n"))
+          }
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          Copy codes
+        </Button>
+        <Button className="w-full" onClick={() => startSession(enrolled)}>
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {setupRequired && (
+        <div className="space-y-3 p-3 rounded-lg bg-muted/50 border border-border">
+          <div className="flex items-start space-x-3">
+            <Smartphone className="h-5 w-5 text-primary mt-0.5 shrink-0" />
+            <p className="text-sm text-muted-foreground">
+              Add SecureGuard to your authenticator app with the setup key
+              below, then enter the code it shows.
+            </p>
+          </div>
+          {setup ? (
+            <div className="space-y-2">
+              <p className="font-mono text-sm break-all select-all">
+                {formatSecret(setup.secret)}
+              </p>
+              <a
+                href={setup.otpauthUri}
+                className="text-xs text-primary hover:underline"
+              >
+                Open in authenticator app
+              </a>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Generating your setup key...
+            </p>
+          )}
+        </div>
+      )}
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="recovery-code"
+              placeholder="xxxxx-xxxxx"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              className="pl-9 font-mono"
+              autoComplete="off"
+              required
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Authentication code</Label>
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={TOTP_CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              onComplete={(value: string) => verify(value)}
+              disabled={disabled || isLoading}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={
+          disabled ||
+          isLoading ||
+          (useRecoveryCode ? !recoveryCode : code.length !== TOTP_CODE_LENGTH)
+        }
+      >
+        {isLoading ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground mr-2"></div>
+            Verifying...
+          </>
+        ) : (
+          <>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Verify
+          </>
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-3 w-3 mr-1" />
+          Back to sign in
+        </button>
+        {!setupRequired && (
+          <button
+            type="button"
+            onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+            className="text-primary hover:underline"
+          >
+            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,28 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { Cardholder } from "@shared/api";
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+export default function CardholderAvatar({
+  cardholder,
+  className,
+}: {
+  cardholder: Pick<Cardholder, "name" | "photoUrl">;
+  className?: string;
+}) {
+  return (
+    <Avatar className={cn("h-9 w-9", className)}>
+      {cardholder.photoUrl && (
+        <AvatarImage src={cardholder.photoUrl} alt={cardholder.name} />
+      )}
+      <AvatarFallback>{initials(cardholder.name)}</AvatarFallback>
+    </Avatar>
+  );
+}
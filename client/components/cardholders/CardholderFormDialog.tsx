@@ -0,0 +1,145 @@
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  useCreateCardholder,
+  useUpdateCardholder,
+} from "@/hooks/use-security-api";
+import { Cardholder } from "@shared/api";
+
+interface CardholderFormDialogProps {
+  open: boolean;
+  /** Cardholder to edit; a new one is created without it */
+  cardholder?: Cardholder;
+  onOpenChange: (open: boolean) => void;
+}
+
+function CardholderForm({
+  cardholder,
+  onDone,
+}: {
+  cardholder?: Cardholder;
+  onDone: () => void;
+}) {
+  const createCardholder = useCreateCardholder();
+  const updateCardholder = useUpdateCardholder();
+  const [name, setName] = useState(cardholder?.name ?? "");
+  const [department, setDepartment] = useState(cardholder?.department ?? "");
+  const [photoUrl, setPhotoUrl] = useState(cardholder?.photoUrl ?? "");
+  const [active, setActive] = useState(cardholder?.status !== "inactive");
+
+  const isPending = createCardholder.isPending || updateCardholder.isPending;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    // Blank fields clear the saved value
+    const fields = {
+      name: name.trim(),
+      department: department.trim(),
+      photoUrl: photoUrl.trim(),
+      status: active ? ("active" as const) : ("inactive" as const),
+    };
+    const onSuccess = () => {
+      toast.success(`${cardholder ? "Updated" : "Added"} ${fields.name}`);
+      onDone();
+    };
+
+    if (cardholder) {
+      updateCardholder.mutate({ id: cardholder.id, ...fields }, { onSuccess });
+    } else {
+      createCardholder.mutate(fields, { onSuccess });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="cardholder-name">Name</Label>
+        <Input
+          id="cardholder-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          autoFocus
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cardholder-department">Department</Label>
+        <Input
+          id="cardholder-department"
+          value={department}
+          onChange={(e) => setDepartment(e.target.value)}
+          maxLength={100}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cardholder-photo">Photo URL</Label>
+        <Input
+          id="cardholder-photo"
+          type="url"
+          placeholder="https://"
+          value={photoUrl}
+          onChange={(e) => setPhotoUrl(e.target.value)}
+        />
+      </div>
+      <div className="flex items-center justify-between rounded-lg border border-border p-3">
+        <div>
+          <Label htmlFor="cardholder-active">Active</Label>
+          <p className="text-sm text-muted-foreground">
+            Inactive cardholders keep their cards and history
+          </p>
+        </div>
+        <Switch
+          id="cardholder-active"
+          checked={active}
+          onCheckedChange={setActive}
+        />
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Saving..." : cardholder ? "Save" : "Add cardholder"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export default function CardholderFormDialog({
+  open,
+  cardholder,
+  onOpenChange,
+}: CardholderFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {cardholder ? `Edit ${cardholder.name}` : "Add cardholder"}
+          </DialogTitle>
+          <DialogDescription>
+            Cards are issued to the cardholder once they are added.
+          </DialogDescription>
+        </DialogHeader>
+        <CardholderForm
+          cardholder={cardholder}
+          onDone={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
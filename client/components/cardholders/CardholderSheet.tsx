@@ -0,0 +1,182 @@
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, CreditCard, Pencil, Plus, Trash2 } from "lucide-react";
+import CardholderAvatar from "./CardholderAvatar";
+import CredentialStatusBadge from "./CredentialStatusBadge";
+import { CredentialStateChange } from "./CredentialStateDialog";
+import {
+  CREDENTIAL_FORMAT_LABELS,
+  CREDENTIAL_STATUS_LABELS,
+} from "@/lib/credentials";
+import { CREDENTIAL_TRANSITIONS, CardholderDetails } from "@shared/api";
+
+interface CardholderSheetProps {
+  /** Cardholder shown; null closes the sheet */
+  cardholder: CardholderDetails | null;
+  onClose: () => void;
+  /** Management actions; unset when the user may only view */
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onIssue?: () => void;
+  onChangeState?: (change: CredentialStateChange) => void;
+}
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString() : "—";
+
+export default function CardholderSheet({
+  cardholder,
+  onClose,
+  onEdit,
+  onDelete,
+  onIssue,
+  onChangeState,
+}: CardholderSheetProps) {
+  return (
+    <Sheet
+      open={cardholder !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {cardholder && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="flex items-center space-x-3">
+                <CardholderAvatar
+                  cardholder={cardholder}
+                  className="h-12 w-12"
+                />
+                <span>{cardholder.name}</span>
+                {cardholder.status === "inactive" && (
+                  <Badge variant="secondary">Inactive</Badge>
+                )}
+              </SheetTitle>
+              <SheetDescription>
+                {cardholder.department ?? "No department"}
+              </SheetDescription>
+            </SheetHeader>
+
+            {(onEdit || onDelete) && (
+              <div className="mt-4 flex gap-2">
+                {onEdit && (
+                  <Button variant="outline" size="sm" onClick={onEdit}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                )}
+                {onDelete && cardholder.credentials.length === 0 && (
+                  <Button variant="outline" size="sm" onClick={onDelete}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="mt-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">Cards</h3>
+                {onIssue && (
+                  <Button size="sm" onClick={onIssue}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Issue card
+                  </Button>
+                )}
+              </div>
+
+              {cardholder.credentials.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No cards issued
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {cardholder.credentials.map((credential) => {
+                    const transitions =
+                      CREDENTIAL_TRANSITIONS[credential.state];
+
+                    return (
+                      <li
+                        key={credential.id}
+                        className="rounded-lg border border-border p-3 space-y-2"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center font-mono text-sm">
+                            <CreditCard className="h-4 w-4 mr-2" />
+                            {credential.cardNumber}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <CredentialStatusBadge credential={credential} />
+                            {onChangeState && transitions.length > 0 && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="sm">
+                                    Change
+                                    <ChevronDown className="h-4 w-4 ml-1" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  {transitions.map((state) => (
+                                    <DropdownMenuItem
+                                      key={state}
+                                      onClick={() =>
+                                        onChangeState({ credential, state })
+                                      }
+                                    >
+                                      {state === "active"
+                                        ? "Reactivate"
+                                        : `Mark ${CREDENTIAL_STATUS_LABELS[state].toLowerCase()}`}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </div>
+                        </div>
+                        <dl className="grid grid-cols-3 gap-2 text-xs">
+                          <div>
+                            <dt className="text-muted-foreground">Format</dt>
+                            <dd>
+                              {CREDENTIAL_FORMAT_LABELS[credential.format]}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt className="text-muted-foreground">Issued</dt>
+                            <dd>{formatDate(credential.issuedAt)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-muted-foreground">Expires</dt>
+                            <dd>{formatDate(credential.expiresAt)}</dd>
+                          </div>
+                        </dl>
+                        {credential.stateReason && (
+                          <p className="text-xs text-muted-foreground">
+                            {CREDENTIAL_STATUS_LABELS[credential.state]}{" "}
+                            {formatDate(credential.stateChangedAt)}:{" "}
+                            {credential.stateReason}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
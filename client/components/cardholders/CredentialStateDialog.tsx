@@ -0,0 +1,112 @@
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useUpdateCredential } from "@/hooks/use-security-api";
+import { CREDENTIAL_STATUS_LABELS } from "@/lib/credentials";
+import { Credential, CredentialState } from "@shared/api";
+
+export interface CredentialStateChange {
+  credential: Credential;
+  state: CredentialState;
+}
+
+interface CredentialStateDialogProps {
+  /** Change to confirm; null closes the dialog */
+  change: CredentialStateChange | null;
+  onClose: () => void;
+}
+
+const DESCRIPTIONS: Record<CredentialState, string> = {
+  active: "The card opens doors again.",
+  suspended: "The card is refused until it is reactivated.",
+  lost: "The card is refused. A lost card can only be revoked afterwards.",
+  revoked: "The card is refused for good. This cannot be undone.",
+};
+
+function CredentialStateForm({
+  change: { credential, state },
+  onDone,
+}: {
+  change: CredentialStateChange;
+  onDone: () => void;
+}) {
+  const updateCredential = useUpdateCredential();
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    updateCredential.mutate(
+      { id: credential.id, state, stateReason: reason.trim() || undefined },
+      {
+        onSuccess: (saved) => {
+          toast.success(
+            `${saved.cardNumber} is now ${CREDENTIAL_STATUS_LABELS[saved.state].toLowerCase()}`,
+          );
+          onDone();
+        },
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="credential-reason">Reason</Label>
+        <Input
+          id="credential-reason"
+          placeholder="Optional"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={200}
+          autoFocus
+        />
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant={state === "active" ? "default" : "destructive"}
+          disabled={updateCredential.isPending}
+        >
+          {updateCredential.isPending
+            ? "Saving..."
+            : `Mark ${CREDENTIAL_STATUS_LABELS[state].toLowerCase()}`}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export default function CredentialStateDialog({
+  change,
+  onClose,
+}: CredentialStateDialogProps) {
+  return (
+    <Dialog open={change !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {change?.state === "active" ? "Reactivate" : "Change"}{" "}
+            {change?.credential.cardNumber}
+          </DialogTitle>
+          <DialogDescription>
+            {change && DESCRIPTIONS[change.state]}
+          </DialogDescription>
+        </DialogHeader>
+        {change && <CredentialStateForm change={change} onDone={onClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
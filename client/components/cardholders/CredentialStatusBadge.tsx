@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  CREDENTIAL_STATUS_LABELS,
+  CredentialStatus,
+  credentialStatus,
+} from "@/lib/credentials";
+import { Credential } from "@shared/api";
+
+const STATUS_COLORS: Record<CredentialStatus, string> = {
+  active: "text-success",
+  suspended: "text-warning",
+  lost: "text-destructive",
+  revoked: "text-muted-foreground",
+  expired: "text-warning",
+};
+
+export default function CredentialStatusBadge({
+  credential,
+}: {
+  credential: Pick<Credential, "state" | "expiresAt">;
+}) {
+  const status = credentialStatus(credential);
+
+  return (
+    <Badge variant="outline" className={cn(STATUS_COLORS[status])}>
+      {CREDENTIAL_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,146 @@
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useIssueCredential } from "@/hooks/use-security-api";
+import { CREDENTIAL_FORMAT_LABELS } from "@/lib/credentials";
+import { CREDENTIAL_FORMATS, Cardholder, CredentialFormat } from "@shared/api";
+
+interface IssueCredentialDialogProps {
+  /** Cardholder receiving the card; null closes the dialog */
+  cardholder: Cardholder | null;
+  onClose: () => void;
+}
+
+// A date picked in the form expires at the end of that day, local time
+const endOfDay = (date: string) => new Date(`${date}T23:59:59`).toISOString();
+
+function IssueCredentialForm({
+  cardholder,
+  onDone,
+}: {
+  cardholder: Cardholder;
+  onDone: () => void;
+}) {
+  const issueCredential = useIssueCredential();
+  const [cardNumber, setCardNumber] = useState("");
+  const [format, setFormat] = useState<CredentialFormat>("mifare_desfire");
+  const [expiresOn, setExpiresOn] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    issueCredential.mutate(
+      {
+        cardNumber: cardNumber.trim(),
+        cardholderId: cardholder.id,
+        format,
+        expiresAt: expiresOn ? endOfDay(expiresOn) : undefined,
+      },
+      {
+        onSuccess: (credential) => {
+          toast.success(
+            `Issued ${credential.cardNumber} to ${cardholder.name}`,
+          );
+          onDone();
+        },
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="credential-number">Card number</Label>
+        <Input
+          id="credential-number"
+          placeholder="CARD-A1B2C3"
+          value={cardNumber}
+          onChange={(e) => setCardNumber(e.target.value)}
+          className="font-mono uppercase"
+          pattern="[A-Za-z0-9\-]{1,64}"
+          title="Letters, digits or dash"
+          autoFocus
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="credential-format">Format</Label>
+        <Select
+          value={format}
+          onValueChange={(value) => setFormat(value as CredentialFormat)}
+        >
+          <SelectTrigger id="credential-format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CREDENTIAL_FORMATS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {CREDENTIAL_FORMAT_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="credential-expiry">Expires on</Label>
+        <Input
+          id="credential-expiry"
+          type="date"
+          value={expiresOn}
+          onChange={(e) => setExpiresOn(e.target.value)}
+        />
+        <p className="text-sm text-muted-foreground">
+          Leave empty for a card that does not expire
+        </p>
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={issueCredential.isPending}>
+          {issueCredential.isPending ? "Issuing..." : "Issue card"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export default function IssueCredentialDialog({
+  cardholder,
+  onClose,
+}: IssueCredentialDialogProps) {
+  return (
+    <Dialog
+      open={cardholder !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Issue card to {cardholder?.name}</DialogTitle>
+          <DialogDescription>
+            The card number is what readers report when the card is scanned.
+          </DialogDescription>
+        </DialogHeader>
+        {cardholder && (
+          <IssueCredentialForm cardholder={cardholder} onDone={onClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Building2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ActivityBreakdownCard from "@/components/rfid/ActivityBreakdownCard";
+import { RANGE_LABELS } from "@/components/ActivityTrendChart";
+import { useRfidActivity } from "@/hooks/use-security-api";
+import { LOCATION_KIND_LABELS } from "@/lib/locations";
+import { LOCATION_KINDS, LocationKind } from "@shared/api";
+
+const RANGE = "24h";
+
+/**
+ * Scans of the last day rolled up to a level of the location hierarchy.
+ * Selecting a location opens the RFID monitor filtered to it.
+ */
+export default function LocationActivityCard() {
+  const navigate = useNavigate();
+  const [level, setLevel] = useState<LocationKind>("floor");
+  const activity = useRfidActivity({ range: RANGE, level });
+
+  return (
+    <ActivityBreakdownCard
+      title="Activity by Location"
+      description={`${RANGE_LABELS[RANGE]} • select one to see its events`}
+      icon={<Building2 className="h-5 w-5" />}
+      action={
+        <Select
+          value={level}
+          onValueChange={(value) => setLevel(value as LocationKind)}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOCATION_KINDS.map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {LOCATION_KIND_LABELS[kind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      }
+      groups={activity.data?.locations}
+      onSelect={(group) =>
+        navigate(
+          `/rfid?${new URLSearchParams({ locationId: group.locationId })}`,
+        )
+      }
+    />
+  );
+}
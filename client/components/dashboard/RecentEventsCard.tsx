@@ -0,0 +1,238 @@
+import { useEffect, useRef } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Shield,
+  Activity,
+  AlertTriangle,
+  CheckCircle,
+  Wifi,
+  Clock,
+  KeyRound,
+  Lock,
+  Radio,
+  WifiOff,
+  Binary,
+  Copy,
+  Route,
+} from "lucide-react";
+import { SecurityEvent } from "@shared/api";
+
+interface RecentEventsCardProps {
+  events: SecurityEvent[];
+  hasOlder: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+}
+
+export const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case "critical":
+      return "text-destructive";
+    case "high":
+      return "text-warning";
+    case "medium":
+      return "text-info";
+    default:
+      return "text-success";
+  }
+};
+
+const EVENT_LABELS: Record<SecurityEvent["type"], string> = {
+  rfid: "RFID Access",
+  dos: "DoS Attack",
+  auth: "Login Attempts",
+  reader: "RFID Reader",
+  anomaly: "Card Anomaly",
+};
+
+export const getStatusBadge = (event: SecurityEvent) => {
+  if (event.type === "auth") {
+    return (
+      <Badge variant="destructive">
+        <Lock className="h-3 w-3 mr-1" />
+        Locked Out
+      </Badge>
+    );
+  } else if (event.type === "anomaly") {
+    // Concurrent scans are critical, travel that was merely too fast high
+    return event.severity === "critical" ? (
+      <Badge variant="destructive">
+        <Copy className="h-3 w-3 mr-1" />
+        Possible Clone
+      </Badge>
+    ) : (
+      <Badge variant="destructive">
+        <Route className="h-3 w-3 mr-1" />
+        Impossible Travel
+      </Badge>
+    );
+  } else if (event.type === "reader") {
+    return event.status === "online" ? (
+      <Badge variant="outline" className="text-success border-success">
+        <Radio className="h-3 w-3 mr-1" />
+        Online
+      </Badge>
+    ) : (
+      <Badge variant="destructive">
+        <WifiOff className="h-3 w-3 mr-1" />
+        Offline
+      </Badge>
+    );
+  } else if (event.type === "rfid") {
+    if (event.status === "parity_error") {
+      return (
+        <Badge variant="outline" className="text-warning border-warning">
+          <Binary className="h-3 w-3 mr-1" />
+          Parity Error
+        </Badge>
+      );
+    }
+    return event.status === "authorized" ? (
+      <Badge variant="outline" className="text-success border-success">
+        <CheckCircle className="h-3 w-3 mr-1" />
+        Authorized
+      </Badge>
+    ) : (
+      <Badge variant="destructive">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Unauthorized
+      </Badge>
+    );
+  } else {
+    return event.status === "blocked" ? (
+      <Badge variant="outline" className="text-success border-success">
+        <Shield className="h-3 w-3 mr-1" />
+        Blocked
+      </Badge>
+    ) : (
+      <Badge variant="destructive">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Detected
+      </Badge>
+    );
+  }
+};
+
+function EventRow({ event }: { event: SecurityEvent }) {
+  return (
+    <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-card/50">
+      <div className="flex items-center space-x-3">
+        <div
+          className={`p-2 rounded-full ${event.type === "rfid" ? "bg-primary/10" : "bg-destructive/10"}`}
+        >
+          {event.type === "rfid" ? (
+            <Wifi
+              className={`h-4 w-4 ${event.status === "authorized" ? "text-success" : "text-destructive"}`}
+            />
+          ) : event.type === "auth" ? (
+            <KeyRound className="h-4 w-4 text-destructive" />
+          ) : event.type === "anomaly" ? (
+            <Route className="h-4 w-4 text-destructive" />
+          ) : event.type === "reader" ? (
+            <Radio
+              className={`h-4 w-4 ${event.status === "online" ? "text-success" : "text-destructive"}`}
+            />
+          ) : (
+            <Shield className="h-4 w-4 text-destructive" />
+          )}
+        </div>
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">{EVENT_LABELS[event.type]}</span>
+            {getStatusBadge(event)}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {event.type === "rfid" && event.status === "parity_error"
+              ? `${event.location} • ${event.description}`
+              : event.type === "rfid"
+                ? `${event.location} • ${event.cardholderName ? `${event.cardholderName} (${event.cardId})` : `Card: ${event.cardId}`}`
+                : event.type === "auth" ||
+                    event.type === "reader" ||
+                    event.type === "anomaly"
+                  ? event.description
+                  : `Source IP: ${event.ipAddress}`}
+          </p>
+        </div>
+      </div>
+      <div className="text-right">
+        <p className="text-sm text-muted-foreground">
+          <Clock className="h-3 w-3 inline mr-1" />
+          {new Date(event.timestamp).toLocaleTimeString()}
+        </p>
+        <p
+          className={`text-xs font-medium ${getSeverityColor(event.severity)}`}
+        >
+          {event.severity.toUpperCase()}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default function RecentEventsCard({
+  events,
+  hasOlder,
+  isLoadingOlder,
+  onLoadOlder,
+}: RecentEventsCardProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page of older events when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasOlder || isLoadingOlder) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onLoadOlder();
+      },
+      { root: scrollRef.current, rootMargin: "100px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasOlder, isLoadingOlder, onLoadOlder]);
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="h-5 w-5" />
+          <span>Recent Security Events</span>
+        </CardTitle>
+        <CardDescription>
+          Live feed of RFID access attempts and DoS attack detection
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div ref={scrollRef} className="space-y-3 max-h-96 overflow-y-auto">
+          {events.map((event) => (
+            <EventRow key={event.id} event={event} />
+          ))}
+          <div ref={sentinelRef} className="flex justify-center py-1">
+            {hasOlder ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onLoadOlder}
+                disabled={isLoadingOlder}
+              >
+                {isLoadingOlder ? "Loading..." : "Load older events"}
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">No older events</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBlockIp } from "@/hooks/use-security-api";
+
+const DURATIONS = [
+  { value: "15", label: "15 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "1440", label: "24 hours" },
+  { value: "10080", label: "7 days" },
+  { value: "permanent", label: "Until unblocked" },
+];
+
+interface BlockIpDialogProps {
+  open: boolean;
+  /** Address to fill in, e.g. from the offenders table */
+  ipAddress?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+function BlockIpForm({
+  ipAddress: initialIp = "",
+  onDone,
+}: {
+  ipAddress?: string;
+  onDone: () => void;
+}) {
+  const blockIp = useBlockIp();
+  const [ipAddress, setIpAddress] = useState(initialIp);
+  const [duration, setDuration] = useState("60");
+  const [reason, setReason] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    blockIp.mutate(
+      {
+        ipAddress: ipAddress.trim(),
+        durationMinutes:
+          duration === "permanent" ? undefined : Number(duration),
+        reason: reason.trim() || undefined,
+      },
+      {
+        onSuccess: (block) => {
+          toast.success(`Blocked ${block.ipAddress}`);
+          onDone();
+        },
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="block-ip-address">IP address</Label>
+        <Input
+          id="block-ip-address"
+          placeholder="203.0.113.7 or 203.0.113.0/24"
+          value={ipAddress}
+          onChange={(e) => setIpAddress(e.target.value)}
+          className="font-mono"
+          autoFocus={!initialIp}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="block-ip-duration">Duration</Label>
+        <Select value={duration} onValueChange={setDuration}>
+          <SelectTrigger id="block-ip-duration">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURATIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="block-ip-reason">Reason (optional)</Label>
+        <Input
+          id="block-ip-reason"
+          placeholder="e.g. SYN flood against the API gateway"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={200}
+        />
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={blockIp.isPending || !ipAddress.trim()}
+        >
+          {blockIp.isPending ? "Blocking..." : "Block"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export default function BlockIpDialog({
+  open,
+  ipAddress,
+  onOpenChange,
+}: BlockIpDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Block IP address</DialogTitle>
+          <DialogDescription>
+            Requests from a blocked address are refused by every API endpoint.
+          </DialogDescription>
+        </DialogHeader>
+        {/* The content unmounts when closed, so each opening starts afresh */}
+        <BlockIpForm ipAddress={ipAddress} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Ban, Clock, Plus } from "lucide-react";
+import { formatRemaining } from "@/lib/duration";
+import { useUnblockIp } from "@/hooks/use-security-api";
+import { IpBlock } from "@shared/api";
+
+interface BlockedIpsCardProps {
+  blocks?: IpBlock[];
+  /** Unset when the user may not block or unblock addresses */
+  onBlock?: () => void;
+}
+
+// Ticks the countdowns; the server drops expired blocks by itself
+function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(Date.now);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+export default function BlockedIpsCard({
+  blocks,
+  onBlock,
+}: BlockedIpsCardProps) {
+  const now = useNow();
+  const unblockIp = useUnblockIp();
+
+  const unblock = (ipAddress: string) =>
+    unblockIp.mutate(ipAddress, {
+      onSuccess: () => toast.success(`Unblocked ${ipAddress}`),
+    });
+
+  // Expired blocks disappear at the next refetch; hide them right away
+  const active = blocks?.filter(
+    (block) => !block.expiresAt || Date.parse(block.expiresAt) > now,
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center space-x-2">
+            <Ban className="h-5 w-5" />
+            <span>Blocked IPs</span>
+          </CardTitle>
+          <CardDescription>Addresses refused by the API</CardDescription>
+        </div>
+        {onBlock && (
+          <Button size="sm" onClick={onBlock}>
+            <Plus className="h-4 w-4 mr-1" />
+            Block IP
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {!active ? (
+          Array.from({ length: 3 }, (_, index) => (
+            <div
+              key={index}
+              className="h-14 animate-pulse rounded-lg bg-muted"
+            />
+          ))
+        ) : active.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No addresses are blocked
+          </p>
+        ) : (
+          active.map((block) => (
+            <div
+              key={block.ipAddress}
+              className="flex items-center justify-between rounded-lg border border-border p-3"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="font-mono text-sm font-medium">
+                  {block.ipAddress}
+                </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {block.reason ? `${block.reason} • ` : ""}
+                  by {block.blockedBy}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center space-x-3">
+                <span className="flex items-center text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3 mr-1" />
+                  {block.expiresAt
+                    ? formatRemaining(block.expiresAt, now)
+                    : "Permanent"}
+                </span>
+                {onBlock && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => unblock(block.ipAddress)}
+                    disabled={
+                      unblockIp.isPending &&
+                      unblockIp.variables === block.ipAddress
+                    }
+                  >
+                    Unblock
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
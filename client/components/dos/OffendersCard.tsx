@@ -0,0 +1,120 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Ban, Globe } from "lucide-react";
+import { DosOffender, IpBlock } from "@shared/api";
+import { ipMatches } from "@shared/event-query";
+
+interface OffendersCardProps {
+  description: string;
+  offenders?: DosOffender[];
+  blocks?: IpBlock[];
+  /** Unset when the user may not block addresses */
+  onBlock?: (ipAddress: string) => void;
+}
+
+export default function OffendersCard({
+  description,
+  offenders,
+  blocks = [],
+  onBlock,
+}: OffendersCardProps) {
+  const isBlocked = (ipAddress: string) =>
+    blocks.some((block) => ipMatches(ipAddress, block.ipAddress));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Globe className="h-5 w-5" />
+          <span>Top Offenders</span>
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!offenders ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }, (_, index) => (
+              <div
+                key={index}
+                className="h-10 animate-pulse rounded bg-muted"
+              />
+            ))}
+          </div>
+        ) : offenders.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No attack traffic in this range
+          </p>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>IP address</TableHead>
+                  <TableHead className="text-right">Blocked</TableHead>
+                  <TableHead className="text-right">Detected</TableHead>
+                  <TableHead className="hidden md:table-cell">
+                    First seen
+                  </TableHead>
+                  <TableHead>Last seen</TableHead>
+                  {onBlock && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {offenders.map((offender) => (
+                  <TableRow key={offender.ipAddress}>
+                    <TableCell className="font-mono text-xs">
+                      {offender.ipAddress}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {offender.blocked.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right text-warning">
+                      {offender.detected.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell whitespace-nowrap text-muted-foreground">
+                      {new Date(offender.firstSeen).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {new Date(offender.lastSeen).toLocaleString()}
+                    </TableCell>
+                    {onBlock && (
+                      <TableCell className="text-right">
+                        {isBlocked(offender.ipAddress) ? (
+                          <Badge variant="secondary">Blocked</Badge>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onBlock(offender.ipAddress)}
+                          >
+                            <Ban className="h-3 w-3 mr-1" />
+                            Block
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
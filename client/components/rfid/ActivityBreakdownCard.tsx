@@ -0,0 +1,134 @@
+import { ReactNode } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { RfidActivityGroup } from "@shared/api";
+
+interface ActivityBreakdownCardProps {
+  title: string;
+  description: string;
+  icon: ReactNode;
+  /** Shown next to the title, e.g. a choice of grouping */
+  action?: ReactNode;
+  groups?: RfidActivityGroup[];
+  /** Highlighted group, e.g. the location the table is filtered by */
+  selected?: string;
+  onSelect: (group: RfidActivityGroup) => void;
+}
+
+function GroupRow({
+  group,
+  busiest,
+  isSelected,
+  onSelect,
+}: {
+  group: RfidActivityGroup;
+  busiest: number;
+  isSelected: boolean;
+  onSelect: (group: RfidActivityGroup) => void;
+}) {
+  const total = group.authorized + group.unauthorized;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(group)}
+      className={cn(
+        "w-full rounded-lg border border-border p-3 text-left transition-colors hover:bg-accent",
+        isSelected && "border-primary bg-primary/5",
+      )}
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium truncate">{group.key}</span>
+        <span className="text-muted-foreground">
+          {total.toLocaleString()} scans
+        </span>
+      </div>
+      {/* Bar length relative to the busiest group, split by outcome */}
+      <div
+        className="mt-2 flex h-1.5 overflow-hidden rounded-full bg-muted"
+        style={{ width: `${Math.max(4, (total / busiest) * 100)}%` }}
+      >
+        <div
+          className="bg-success"
+          style={{ width: `${(group.authorized / total) * 100}%` }}
+        />
+        <div className="flex-1 bg-destructive" />
+      </div>
+      <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {group.unauthorized > 0 ? (
+            <span className="text-destructive">
+              {group.unauthorized} unauthorized
+            </span>
+          ) : (
+            "All authorized"
+          )}
+        </span>
+        <span>Last seen {new Date(group.lastSeen).toLocaleString()}</span>
+      </div>
+    </button>
+  );
+}
+
+export default function ActivityBreakdownCard({
+  title,
+  description,
+  icon,
+  action,
+  groups,
+  selected,
+  onSelect,
+}: ActivityBreakdownCardProps) {
+  const busiest = Math.max(
+    1,
+    ...(groups ?? []).map((group) => group.authorized + group.unauthorized),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              {icon}
+              <span>{title}</span>
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          {action}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {!groups ? (
+          Array.from({ length: 3 }, (_, index) => (
+            <div
+              key={index}
+              className="h-16 animate-pulse rounded-lg bg-muted"
+            />
+          ))
+        ) : groups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No scans in this range
+          </p>
+        ) : (
+          groups.map((group) => (
+            <GroupRow
+              // Rolled-up locations in different buildings may share a name
+              key={group.locationId ?? group.key}
+              group={group}
+              busiest={busiest}
+              isSelected={group.key === selected}
+              onSelect={onSelect}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Clock, CreditCard, MapPin } from "lucide-react";
+import {
+  useCardholders,
+  useRfidActivity,
+  useSecurityEvents,
+} from "@/hooks/use-security-api";
+import { getStatusBadge } from "@/components/dashboard/RecentEventsCard";
+import CardholderAvatar from "@/components/cardholders/CardholderAvatar";
+import CredentialStatusBadge from "@/components/cardholders/CredentialStatusBadge";
+import { findCardHolder } from "@/lib/credentials";
+
+interface CardHistorySheetProps {
+  /** Card whose history is shown; null closes the sheet */
+  cardId: string | null;
+  onClose: () => void;
+  onLocationSelect: (location: string) => void;
+}
+
+function CardHistory({
+  cardId,
+  onLocationSelect,
+}: Omit<CardHistorySheetProps, "onClose">) {
+  const history = useSecurityEvents({ type: ["rfid"], cardId });
+  const activity = useRfidActivity({ range: "30d", cardId });
+  const directory = useCardholders({ q: cardId });
+
+  const events = history.data?.pages.flatMap((page) => page.events) ?? [];
+  const total = history.data?.pages[0]?.total;
+  const summary = activity.data?.cards[0];
+  const holder =
+    directory.data && findCardHolder(directory.data.cardholders, cardId);
+
+  return (
+    <div className="mt-6 space-y-6">
+      {holder ? (
+        <div className="flex items-center justify-between rounded-lg border border-border p-3">
+          <div className="flex items-center space-x-3">
+            <CardholderAvatar cardholder={holder.cardholder} />
+            <div>
+              <p className="font-medium">{holder.cardholder.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {holder.cardholder.department ?? "No department"}
+              </p>
+            </div>
+          </div>
+          <CredentialStatusBadge credential={holder.credential} />
+        </div>
+      ) : (
+        directory.data && (
+          <p className="rounded-lg border border-dashed border-border p-3 text-sm text-muted-foreground">
+            This card is not issued to anyone in the directory
+          </p>
+        )
+      )}
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-lg border border-border p-3">
+          <p className="text-2xl font-bold">{total ?? "—"}</p>
+          <p className="text-xs text-muted-foreground">Total scans</p>
+        </div>
+        <div className="rounded-lg border border-border p-3">
+          <p className="text-2xl font-bold text-success">
+            {summary?.authorized ?? 0}
+          </p>
+          <p className="text-xs text-muted-foreground">Authorized (30d)</p>
+        </div>
+        <div className="rounded-lg border border-border p-3">
+          <p className="text-2xl font-bold text-destructive">
+            {summary?.unauthorized ?? 0}
+          </p>
+          <p className="text-xs text-muted-foreground">Unauthorized (30d)</p>
+        </div>
+      </div>
+
+      {activity.data && activity.data.locations.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-sm font-medium">Locations (30 days)</h3>
+          <div className="flex flex-wrap gap-2">
+            {activity.data.locations.map((location) => (
+              <Button
+                key={location.key}
+                variant="outline"
+                size="sm"
+                onClick={() => onLocationSelect(location.key)}
+              >
+                <MapPin className="h-3 w-3 mr-1" />
+                {location.key}
+                <span className="ml-2 text-muted-foreground">
+                  {location.authorized + location.unauthorized}
+                </span>
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="mb-2 text-sm font-medium">Access history</h3>
+        {history.isPending ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }, (_, index) => (
+              <div
+                key={index}
+                className="h-14 animate-pulse rounded-lg bg-muted"
+              />
+            ))}
+          </div>
+        ) : events.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No scans recorded for this card
+          </p>
+        ) : (
+          <ScrollArea className="h-[calc(100vh-22rem)] pr-3">
+            <ol className="space-y-2">
+              {events.map((event) => (
+                <li
+                  key={event.id}
+                  className="flex items-center justify-between rounded-lg border border-border p-3"
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      {event.location ?? "Unknown location"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3 inline mr-1" />
+                      {new Date(event.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                  {getStatusBadge(event)}
+                </li>
+              ))}
+            </ol>
+            <div className="flex justify-center py-3">
+              {history.hasNextPage ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => history.fetchNextPage()}
+                  disabled={history.isFetchingNextPage}
+                >
+                  {history.isFetchingNextPage
+                    ? "Loading..."
+                    : "Load older scans"}
+                </Button>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Start of history
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function CardHistorySheet({
+  cardId,
+  onClose,
+  onLocationSelect,
+}: CardHistorySheetProps) {
+  return (
+    <Sheet open={cardId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="flex items-center space-x-2">
+            <CreditCard className="h-5 w-5" />
+            <span className="font-mono">{cardId}</span>
+          </SheetTitle>
+          <SheetDescription>Every recorded scan of this card</SheetDescription>
+        </SheetHeader>
+        {cardId && (
+          // Remount per card so no figures of the previous card show
+          <CardHistory
+            key={cardId}
+            cardId={cardId}
+            onLocationSelect={onLocationSelect}
+          />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
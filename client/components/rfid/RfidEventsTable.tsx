@@ -0,0 +1,241 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { pageWindow } from "@/lib/pagination";
+import { SecurityEvent, SecurityEventSortField, SortOrder } from "@shared/api";
+import {
+  getSeverityColor,
+  getStatusBadge,
+} from "@/components/dashboard/RecentEventsCard";
+
+interface RfidEventsTableProps {
+  events: SecurityEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+  sort: SecurityEventSortField;
+  order: SortOrder;
+  /** Set while a new page or sort order is loading */
+  isUpdating: boolean;
+  onSortChange: (sort: SecurityEventSortField) => void;
+  onPageChange: (page: number) => void;
+  onCardSelect: (cardId: string) => void;
+  onLocationSelect: (location: string) => void;
+}
+
+function SortableHead({
+  field,
+  label,
+  sort,
+  order,
+  onSortChange,
+}: {
+  field: SecurityEventSortField;
+  label: string;
+  sort: SecurityEventSortField;
+  order: SortOrder;
+  onSortChange: (sort: SecurityEventSortField) => void;
+}) {
+  const Icon =
+    sort !== field ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      aria-sort={
+        sort === field
+          ? order === "asc"
+            ? "ascending"
+            : "descending"
+          : undefined
+      }
+    >
+      <button
+        type="button"
+        onClick={() => onSortChange(field)}
+        className="inline-flex items-center space-x-1 hover:text-foreground"
+      >
+        <span>{label}</span>
+        <Icon
+          className={cn(
+            "h-3 w-3",
+            sort !== field && "text-muted-foreground/50",
+          )}
+        />
+      </button>
+    </TableHead>
+  );
+}
+
+export default function RfidEventsTable({
+  events,
+  total,
+  page,
+  pageSize,
+  sort,
+  order,
+  isUpdating,
+  onSortChange,
+  onPageChange,
+  onCardSelect,
+  onLocationSelect,
+}: RfidEventsTableProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const sortProps = { sort, order, onSortChange };
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        className={cn(
+          "rounded-md border border-border transition-opacity",
+          isUpdating && "opacity-60",
+        )}
+      >
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortableHead field="timestamp" label="Time" {...sortProps} />
+              <SortableHead field="cardId" label="Card" {...sortProps} />
+              <SortableHead field="location" label="Location" {...sortProps} />
+              <TableHead>Status</TableHead>
+              <SortableHead field="severity" label="Severity" {...sortProps} />
+              <TableHead className="hidden lg:table-cell">
+                Description
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  No RFID events match these filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow
+                  key={event.id}
+                  className="cursor-pointer"
+                  onClick={() => event.cardId && onCardSelect(event.cardId)}
+                >
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(event.timestamp).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {event.cardholderName && (
+                      <p className="text-sm font-medium">
+                        {event.cardholderName}
+                      </p>
+                    )}
+                    <p className="font-mono text-xs">{event.cardId ?? "—"}</p>
+                  </TableCell>
+                  <TableCell>
+                    {event.location ? (
+                      <button
+                        type="button"
+                        className="hover:underline"
+                        onClick={(e) => {
+                          // Filter by the location instead of opening the card
+                          e.stopPropagation();
+                          onLocationSelect(event.location);
+                        }}
+                      >
+                        {event.location}
+                      </button>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell>{getStatusBadge(event)}</TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-xs font-medium",
+                      getSeverityColor(event.severity),
+                    )}
+                  >
+                    {event.severity.toUpperCase()}
+                  </TableCell>
+                  <TableCell className="hidden lg:table-cell text-muted-foreground">
+                    {event.description}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-col items-center justify-between gap-2 sm:flex-row">
+        <p className="text-sm text-muted-foreground">
+          {total === 0
+            ? "No events"
+            : `Showing ${(page - 1) * pageSize + 1}-${Math.min(page * pageSize, total)} of ${total.toLocaleString()} events`}
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={goTo(page - 1)}
+                  aria-disabled={page === 1}
+                  className={cn(page === 1 && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+              {pageWindow(page, pageCount).map((item, index) => (
+                <PaginationItem key={`${item}-${index}`}>
+                  {item === "ellipsis" ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={item === page}
+                      onClick={goTo(item)}
+                    >
+                      {item}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={goTo(page + 1)}
+                  aria-disabled={page === pageCount}
+                  className={cn(
+                    page === pageCount && "pointer-events-none opacity-50",
+                  )}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FIELD_LABELS } from "@/lib/settings";
+import { SECURITY_EVENT_SEVERITIES, SecurityEvent } from "@shared/api";
+import { SectionFieldsProps, SettingsField } from "./SettingsSectionCard";
+
+function NumberInput({
+  id,
+  value,
+  onChange,
+  disabled,
+}: {
+  id: string;
+  value: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+}) {
+  return (
+    <Input
+      id={id}
+      type="number"
+      inputMode="numeric"
+      // A cleared field is NaN, which validation reports as not a number
+      value={Number.isNaN(value) ? "" : value}
+      onChange={(e) =>
+        onChange(e.target.value === "" ? NaN : Number(e.target.value))
+      }
+      disabled={disabled}
+      className="max-w-xs"
+    />
+  );
+}
+
+function SwitchField({
+  id,
+  label,
+  description,
+  checked,
+  onCheckedChange,
+  disabled,
+  children,
+}: {
+  id: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  disabled: boolean;
+  /** Shown below while the switch is on, e.g. the integration URL */
+  children?: ReactNode;
+}) {
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="flex items-center justify-between space-x-4">
+        <div className="space-y-1">
+          <Label htmlFor={id}>{label}</Label>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <Switch
+          id={id}
+          checked={checked}
+          onCheckedChange={onCheckedChange}
+          disabled={disabled}
+        />
+      </div>
+      {checked && children}
+    </div>
+  );
+}
+
+export function DetectionFields({
+  value,
+  onChange,
+  errors,
+  disabled,
+}: SectionFieldsProps<"detection">) {
+  const labels = FIELD_LABELS.detection;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <SettingsField
+        id="activeThreatWindowMinutes"
+        label={labels.activeThreatWindowMinutes}
+        description="Threats newer than this count as active"
+        error={errors.activeThreatWindowMinutes}
+      >
+        <NumberInput
+          id="activeThreatWindowMinutes"
+          value={value.activeThreatWindowMinutes}
+          onChange={(activeThreatWindowMinutes) =>
+            onChange({ activeThreatWindowMinutes })
+          }
+          disabled={disabled}
+        />
+      </SettingsField>
+      <SettingsField
+        id="warningThreats"
+        label={labels.warningThreats}
+        description="Active threats that raise the status to warning"
+        error={errors.warningThreats}
+      >
+        <NumberInput
+          id="warningThreats"
+          value={value.warningThreats}
+          onChange={(warningThreats) => onChange({ warningThreats })}
+          disabled={disabled}
+        />
+      </SettingsField>
+      <SettingsField
+        id="criticalThreats"
+        label={labels.criticalThreats}
+        description="Active threats that raise the status to critical"
+        error={errors.criticalThreats}
+      >
+        <NumberInput
+          id="criticalThreats"
+          value={value.criticalThreats}
+          onChange={(criticalThreats) => onChange({ criticalThreats })}
+          disabled={disabled}
+        />
+      </SettingsField>
+      <SettingsField
+        id="readerOfflineSeconds"
+        label={labels.readerOfflineSeconds}
+        description="Readers silent for this long are reported offline"
+        error={errors.readerOfflineSeconds}
+      >
+        <NumberInput
+          id="readerOfflineSeconds"
+          value={value.readerOfflineSeconds}
+          onChange={(readerOfflineSeconds) =>
+            onChange({ readerOfflineSeconds })
+          }
+          disabled={disabled}
+        />
+      </SettingsField>
+    </div>
+  );
+}
+
+export function AlertingFields({
+  value,
+  onChange,
+  errors,
+  disabled,
+}: SectionFieldsProps<"alerting">) {
+  const labels = FIELD_LABELS.alerting;
+
+  return (
+    <div className="space-y-6">
+      <SwitchField
+        id="alertsEnabled"
+        label={labels.enabled}
+        description="Notify the recipients below about matching events"
+        checked={value.enabled}
+        onCheckedChange={(enabled) => onChange({ enabled })}
+        disabled={disabled}
+      />
+      <SettingsField
+        id="minimumSeverity"
+        label={labels.minimumSeverity}
+        description="Less severe events never raise an alert"
+        error={errors.minimumSeverity}
+      >
+        <Select
+          value={value.minimumSeverity}
+          onValueChange={(minimumSeverity) =>
+            onChange({
+              minimumSeverity: minimumSeverity as SecurityEvent["severity"],
+            })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="minimumSeverity" className="max-w-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SECURITY_EVENT_SEVERITIES.map((severity) => (
+              <SelectItem key={severity} value={severity}>
+                {severity.charAt(0).toUpperCase() + severity.slice(1)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </SettingsField>
+      <div className="grid gap-4 md:grid-cols-2">
+        <SwitchField
+          id="unauthorizedAccess"
+          label={labels.unauthorizedAccess}
+          description="Unauthorized RFID scans"
+          checked={value.unauthorizedAccess}
+          onCheckedChange={(unauthorizedAccess) =>
+            onChange({ unauthorizedAccess })
+          }
+          disabled={disabled}
+        />
+        <SwitchField
+          id="dosAttacks"
+          label={labels.dosAttacks}
+          description="Detected or blocked DoS traffic"
+          checked={value.dosAttacks}
+          onCheckedChange={(dosAttacks) => onChange({ dosAttacks })}
+          disabled={disabled}
+        />
+      </div>
+      <SettingsField
+        id="emailRecipients"
+        label={labels.emailRecipients}
+        description="One address per line"
+        error={errors.emailRecipients}
+      >
+        <Textarea
+          id="emailRecipients"
+          rows={4}
+          placeholder="soc@example.com"
+          value={value.emailRecipients.join("\n")}
+          onChange={(e) =>
+            onChange({ emailRecipients: e.target.value.split("\n") })
+          }
+          disabled={disabled}
+          className="max-w-md font-mono text-sm"
+        />
+      </SettingsField>
+    </div>
+  );
+}
+
+export function RetentionFields({
+  value,
+  onChange,
+  errors,
+  disabled,
+}: SectionFieldsProps<"retention">) {
+  const labels = FIELD_LABELS.retention;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <SettingsField
+        id="maxEvents"
+        label={labels.maxEvents}
+        description="The oldest events are discarded beyond this, immediately when lowered"
+        error={errors.maxEvents}
+      >
+        <NumberInput
+          id="maxEvents"
+          value={value.maxEvents}
+          onChange={(maxEvents) => onChange({ maxEvents })}
+          disabled={disabled}
+        />
+      </SettingsField>
+      <SettingsField
+        id="historyEntries"
+        label={labels.historyEntries}
+        description="Settings changes kept in the history"
+        error={errors.historyEntries}
+      >
+        <NumberInput
+          id="historyEntries"
+          value={value.historyEntries}
+          onChange={(historyEntries) => onChange({ historyEntries })}
+          disabled={disabled}
+        />
+      </SettingsField>
+    </div>
+  );
+}
+
+export function IntegrationFields({
+  value,
+  onChange,
+  errors,
+  disabled,
+}: SectionFieldsProps<"integrations">) {
+  const labels = FIELD_LABELS.integrations;
+
+  return (
+    <div className="space-y-4">
+      <SwitchField
+        id="siemEnabled"
+        label={labels.siemEnabled}
+        description="Send every security event to a SIEM webhook as JSON"
+        checked={value.siemEnabled}
+        onCheckedChange={(siemEnabled) => onChange({ siemEnabled })}
+        disabled={disabled}
+      >
+        <SettingsField
+          id="siemUrl"
+          label={labels.siemUrl}
+          error={errors.siemUrl}
+        >
+          <Input
+            id="siemUrl"
+            type="url"
+            placeholder="https://siem.example.com/hooks/secureguard"
+            value={value.siemUrl}
+            onChange={(e) => onChange({ siemUrl: e.target.value })}
+            disabled={disabled}
+          />
+        </SettingsField>
+      </SwitchField>
+      <SwitchField
+        id="rfidGatewayEnabled"
+        label={labels.rfidGatewayEnabled}
+        description="Receive scans from RFID reader hardware"
+        checked={value.rfidGatewayEnabled}
+        onCheckedChange={(rfidGatewayEnabled) =>
+          onChange({ rfidGatewayEnabled })
+        }
+        disabled={disabled}
+      >
+        <SettingsField
+          id="rfidGatewayUrl"
+          label={labels.rfidGatewayUrl}
+          error={errors.rfidGatewayUrl}
+        >
+          <Input
+            id="rfidGatewayUrl"
+            type="url"
+            placeholder="https://rfid-gateway.local"
+            value={value.rfidGatewayUrl}
+            onChange={(e) => onChange({ rfidGatewayUrl: e.target.value })}
+            disabled={disabled}
+          />
+        </SettingsField>
+      </SwitchField>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRight, History } from "lucide-react";
+import { useSettingsHistory } from "@/hooks/use-security-api";
+import { SECTION_LABELS, fieldLabel, formatSettingValue } from "@/lib/settings";
+
+export default function SettingsHistoryCard() {
+  const history = useSettingsHistory();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Change History</span>
+        </CardTitle>
+        <CardDescription>
+          Who changed which settings, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {history.isPending ? (
+          Array.from({ length: 3 }, (_, index) => (
+            <div
+              key={index}
+              className="h-20 animate-pulse rounded-lg bg-muted"
+            />
+          ))
+        ) : history.isError ? (
+          <div className="py-6 text-center space-y-4">
+            <p className="text-muted-foreground">Failed to load the history.</p>
+            <Button variant="outline" onClick={() => history.refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : history.data.changes.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No settings have been changed yet
+          </p>
+        ) : (
+          history.data.changes.map((change) => (
+            <div
+              key={change.id}
+              className="rounded-lg border border-border p-3 space-y-2"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">
+                    {SECTION_LABELS[change.section]}
+                  </Badge>
+                  <span className="font-medium">{change.changedBy}</span>
+                </div>
+                <span className="text-muted-foreground">
+                  {new Date(change.changedAt).toLocaleString()}
+                </span>
+              </div>
+              <ul className="space-y-1 text-sm">
+                {change.changes.map((fieldChange) => (
+                  <li
+                    key={fieldChange.field}
+                    className="flex flex-wrap items-center gap-x-2"
+                  >
+                    <span className="text-muted-foreground">
+                      {fieldLabel(change.section, fieldChange.field)}:
+                    </span>
+                    <span className="line-through decoration-muted-foreground/50">
+                      {formatSettingValue(fieldChange.from)}
+                    </span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span className="font-medium">
+                      {formatSettingValue(fieldChange.to)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { FormEvent, ReactNode, useState } from "react";
+import { z } from "zod";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useUpdateSettings } from "@/hooks/use-security-api";
+import { isApiError } from "@/services/api";
+import { SECTION_LABELS } from "@/lib/settings";
+import {
+  SettingsSection,
+  SystemSettings,
+  UpdateSettingsRequest,
+} from "@shared/api";
+import { SETTINGS_SECTION_PERMISSIONS } from "@shared/permissions";
+import {
+  alertingSettingsSchema,
+  integrationSettingsSchema,
+  retentionSettingsSchema,
+  statsRulesSchema,
+} from "@shared/schemas";
+import { FieldErrors, parseWith } from "@shared/validation";
+
+const SECTION_SCHEMAS: Record<SettingsSection, z.ZodTypeAny> = {
+  detection: statsRulesSchema,
+  alerting: alertingSettingsSchema,
+  retention: retentionSettingsSchema,
+  integrations: integrationSettingsSchema,
+};
+
+export interface SectionFieldsProps<S extends SettingsSection> {
+  value: SystemSettings[S];
+  onChange: (changes: Partial<SystemSettings[S]>) => void;
+  /** First problem per field of the section */
+  errors: Record<string, string>;
+  disabled: boolean;
+}
+
+interface SettingsSectionCardProps<S extends SettingsSection> {
+  section: S;
+  description: string;
+  settings: SystemSettings[S];
+  children: (props: SectionFieldsProps<S>) => ReactNode;
+}
+
+/**
+ * Problems keyed by the field of the section, e.g. "emailRecipients" for
+ * "alerting.emailRecipients.2"
+ */
+const errorsByField = (errors: FieldErrors, prefix = "") => {
+  const result: Record<string, string> = {};
+  for (const [path, message] of Object.entries(errors)) {
+    if (!path.startsWith(prefix)) continue;
+    result[path.slice(prefix.length).split(".")[0]] ??= message;
+  }
+  return result;
+};
+
+export function SettingsField({
+  id,
+  label,
+  description,
+  error,
+  children,
+}: {
+  id: string;
+  label: string;
+  description?: string;
+  error?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {children}
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        description && (
+          <p className="text-sm text-muted-foreground">{description}</p>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function SettingsSectionCard<S extends SettingsSection>({
+  section,
+  description,
+  settings,
+  children,
+}: SettingsSectionCardProps<S>) {
+  const { can } = useAuth();
+  const permission = SETTINGS_SECTION_PERMISSIONS[section];
+  const canEdit = can(permission);
+  const updateSettings = useUpdateSettings();
+
+  // A saved or refetched value that differs replaces the draft
+  const savedKey = JSON.stringify(settings);
+  const [edit, setEdit] = useState({ savedKey, draft: settings });
+  const draft = edit.savedKey === savedKey ? edit.draft : settings;
+  const isDirty = JSON.stringify(draft) !== savedKey;
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [failure, setFailure] = useState<string | null>(null);
+
+  const onChange = (changes: Partial<SystemSettings[S]>) =>
+    setEdit({ savedKey, draft: { ...draft, ...changes } });
+
+  const reset = () => {
+    setEdit({ savedKey, draft: settings });
+    setErrors({});
+    setFailure(null);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setFailure(null);
+
+    const parsed = parseWith(SECTION_SCHEMAS[section], draft);
+    if (parsed.success === false) {
+      setErrors(errorsByField(parsed.errors));
+      return;
+    }
+    setErrors({});
+
+    const request: UpdateSettingsRequest = { [section]: parsed.data };
+    updateSettings.mutate(request, {
+      onSuccess: () =>
+        toast.success(`${SECTION_LABELS[section]} settings saved`),
+      onError: (error) => {
+        if (isApiError(error) && error.fields) {
+          setErrors(errorsByField(error.fields, `${section}.`));
+        } else {
+          setFailure(error.message);
+        }
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>{SECTION_LABELS[section]}</span>
+            {!canEdit && <Badge variant="secondary">Read only</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {description}
+            {!canEdit && ` Changing them needs the ${permission} permission.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {failure && (
+            <Alert variant="destructive">
+              <AlertDescription>{failure}</AlertDescription>
+            </Alert>
+          )}
+
+          {children({ value: draft, onChange, errors, disabled: !canEdit })}
+
+          {canEdit && (
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={reset}
+                disabled={!isDirty || updateSettings.isPending}
+              >
+                Reset
+              </Button>
+              <Button
+                type="submit"
+                disabled={!isDirty || updateSettings.isPending}
+              >
+                {updateSettings.isPending ? "Saving..." : "Save changes"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </form>
+    </Card>
+  );
+}
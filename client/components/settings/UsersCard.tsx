@@ -0,0 +1,426 @@
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { KeyRound, ShieldOff, UserPlus, Users } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useCreateUser,
+  useResetUserMfa,
+  useResetUserPassword,
+  useUpdateUser,
+  useUsers,
+} from "@/hooks/use-security-api";
+import { ManagedUser } from "@shared/api";
+import { ROLES, ROLE_LABELS, Role } from "@shared/permissions";
+import { MIN_PASSWORD_LENGTH } from "@shared/schemas";
+
+function RoleSelect({
+  id,
+  value,
+  onChange,
+  disabled,
+}: {
+  id?: string;
+  value: Role;
+  onChange: (role: Role) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(role) => onChange(role as Role)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id} className="w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function CreateUserForm({ onDone }: { onDone: () => void }) {
+  const createUser = useCreateUser();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<Role>("security_officer");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    createUser.mutate(
+      { username: username.trim(), password, role },
+      {
+        onSuccess: () => {
+          toast.success(`Created ${username.trim()}`);
+          onDone();
+        },
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="new-username">Username</Label>
+        <Input
+          id="new-username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="off"
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-password">Password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="new-password"
+          minLength={MIN_PASSWORD_LENGTH}
+          required
+        />
+        <p className="text-sm text-muted-foreground">
+          At least {MIN_PASSWORD_LENGTH} characters
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-role">Role</Label>
+        <RoleSelect id="new-role" value={role} onChange={setRole} />
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={createUser.isPending}>
+          {createUser.isPending ? "Creating..." : "Create user"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+function ResetPasswordForm({
+  user,
+  onDone,
+}: {
+  user: ManagedUser;
+  onDone: () => void;
+}) {
+  const resetPassword = useResetUserPassword();
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    resetPassword.mutate(
+      { id: user.id, password },
+      {
+        onSuccess: () => {
+          toast.success(`Password of ${user.username} reset`);
+          onDone();
+        },
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="reset-password">New password</Label>
+        <Input
+          id="reset-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="new-password"
+          minLength={MIN_PASSWORD_LENGTH}
+          required
+        />
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={resetPassword.isPending}>
+          {resetPassword.isPending ? "Saving..." : "Reset password"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export default function UsersCard() {
+  const { user: currentUser } = useAuth();
+  const users = useUsers();
+  const updateUser = useUpdateUser();
+  const resetMfa = useResetUserMfa();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [passwordUser, setPasswordUser] = useState<ManagedUser | null>(null);
+  const [mfaUser, setMfaUser] = useState<ManagedUser | null>(null);
+
+  const update = (
+    user: ManagedUser,
+    updates: { role?: Role; disabled?: boolean },
+    message: string,
+  ) =>
+    updateUser.mutate(
+      { id: user.id, ...updates },
+      { onSuccess: () => toast.success(message) },
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Users</span>
+          </CardTitle>
+          <CardDescription>
+            Accounts, roles and sign-in. Disabling a user or resetting their
+            password ends their sessions.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsCreating(true)}>
+          <UserPlus className="h-4 w-4 mr-1" />
+          Add user
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {users.isPending ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }, (_, index) => (
+              <div
+                key={index}
+                className="h-12 animate-pulse rounded bg-muted"
+              />
+            ))}
+          </div>
+        ) : users.isError ? (
+          <div className="py-6 text-center space-y-4">
+            <p className="text-muted-foreground">Failed to load users.</p>
+            <Button variant="outline" onClick={() => users.refetch()}>
+              Try Again
+            </Button>
+          </div>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Two-factor</TableHead>
+                  <TableHead className="hidden md:table-cell">
+                    Created
+                  </TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.data.users.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">
+                        {user.username}
+                        {isSelf && (
+                          <Badge variant="secondary" className="ml-2">
+                            You
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={user.role}
+                          onChange={(role) =>
+                            update(
+                              user,
+                              { role },
+                              `${user.username} is now a ${ROLE_LABELS[role]}`,
+                            )
+                          }
+                          // Changing your own role could lock you out
+                          disabled={isSelf}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={!user.disabled}
+                          onCheckedChange={(active) =>
+                            update(
+                              user,
+                              { disabled: !active },
+                              `${user.username} ${active ? "enabled" : "disabled"}`,
+                            )
+                          }
+                          disabled={isSelf}
+                          aria-label={`${user.username} active`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {user.mfaEnabled ? (
+                          <Badge variant="outline" className="text-success">
+                            Enabled
+                          </Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            Off
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-muted-foreground">
+                        {new Date(user.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPasswordUser(user)}
+                        >
+                          <KeyRound className="h-4 w-4 mr-1" />
+                          Password
+                        </Button>
+                        {user.mfaEnabled && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setMfaUser(user)}
+                          >
+                            <ShieldOff className="h-4 w-4 mr-1" />
+                            Reset 2FA
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add user</DialogTitle>
+            <DialogDescription>
+              The user signs in with this password and can change it later.
+            </DialogDescription>
+          </DialogHeader>
+          <CreateUserForm onDone={() => setIsCreating(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={passwordUser !== null}
+        onOpenChange={(open) => !open && setPasswordUser(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Reset password of {passwordUser?.username}
+            </DialogTitle>
+            <DialogDescription>
+              Their current sessions end and they sign in with the new password.
+            </DialogDescription>
+          </DialogHeader>
+          {passwordUser && (
+            <ResetPasswordForm
+              user={passwordUser}
+              onDone={() => setPasswordUser(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={mfaUser !== null}
+        onOpenChange={(open) => !open && setMfaUser(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Reset two-factor authentication of {mfaUser?.username}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Their authenticator app and recovery codes stop working. Roles
+              that require two-factor authentication enroll again at the next
+              sign-in.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                resetMfa.mutate(mfaUser.id, {
+                  onSuccess: () =>
+                    toast.success(
+                      `Two-factor authentication of ${mfaUser.username} reset`,
+                    ),
+                })
+              }
+            >
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { AuthUser } from "@shared/api";
+import { Permission, hasPermission } from "@shared/permissions";
+import apiService, { isApiError } from "@/services/api";
+
+export type AuthStatus = "verifying" | "authenticated" | "anonymous";
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  status: AuthStatus;
+  can: (permission: Permission) => boolean;
+  /** Ends the session on the server and drops everything cached for it */
+  logout: () => Promise<void>;
+}
+
+const AuthContext = React.createContext<AuthContextValue | null>(null);
+
+const currentStatus = (): AuthStatus =>
+  apiService.getAuthToken() && apiService.getCurrentUser()
+    ? "authenticated"
+    : "anonymous";
+
+/**
+ * Session state for the app. A stored token is checked against
+ * /api/auth/verify on boot, which also picks up role changes made since
+ * the last login; sign-in and sign-out anywhere update it.
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [user, setUser] = React.useState(() => apiService.getCurrentUser());
+  const [status, setStatus] = React.useState<AuthStatus>(() =>
+    apiService.getAuthToken() ? "verifying" : "anonymous",
+  );
+
+  React.useEffect(
+    () =>
+      apiService.onAuthChange(() => {
+        setUser(apiService.getCurrentUser());
+        setStatus(currentStatus());
+      }),
+    [],
+  );
+
+  React.useEffect(() => {
+    if (!apiService.getAuthToken()) return;
+
+    apiService
+      .verifyToken()
+      .then((response) => {
+        if (response.valid && response.user) {
+          apiService.setCurrentUser(response.user);
+        } else {
+          apiService.clearAuthToken();
+        }
+      })
+      .catch((error) => {
+        // A rejected token ends the session; if the server is just
+        // unreachable, keep the stored user and let requests retry
+        if (isApiError(error) && error.status === 401) {
+          apiService.clearAuthToken();
+        } else {
+          setStatus(currentStatus());
+        }
+      });
+  }, []);
+
+  const logout = React.useCallback(async () => {
+    try {
+      await apiService.logout();
+    } catch (error) {
+      // The local session is cleared either way
+      console.error("Logout failed:", error);
+    }
+    queryClient.clear();
+  }, [queryClient]);
+
+  const value = React.useMemo<AuthContextValue>(
+    () => ({
+      user,
+      status,
+      can: (permission) => hasPermission(user, permission),
+      logout,
+    }),
+    [user, status, logout],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
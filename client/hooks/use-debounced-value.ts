@@ -0,0 +1,16 @@
+import * as React from "react";
+
+/**
+ * `value` once it has stopped changing for `delay` ms, e.g. so a search box
+ * does not send a request per keystroke
+ */
+export function useDebouncedValue<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = React.useState(value);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { SecurityEvent, SecurityEventsResponse } from "@shared/api";
+import { decodeEventCursor } from "@shared/event-query";
+import { SecurityEventPages, prependEvent } from "./use-security-api";
+
+const event = (id: number): SecurityEvent => ({
+  id: String(id),
+  type: "rfid",
+  status: "authorized",
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, id)).toISOString(),
+  severity: "low",
+});
+
+const page = (ids: number[], before?: string): SecurityEventsResponse => ({
+  events: ids.map(event),
+  total: 100,
+  page: 1,
+  limit: ids.length,
+  cursors: { before },
+});
+
+const feed = (...pages: SecurityEventsResponse[]): SecurityEventPages => ({
+  pages,
+  pageParams: pages.map((_, index) => (index === 0 ? undefined : `p${index}`)),
+});
+
+describe("prependEvent", () => {
+  it("should add new events to the first page once", () => {
+    const data = feed(page([9, 8], "c1"), page([7, 6]));
+
+    const updated = prependEvent(data, event(10));
+    expect(updated.pages[0].events.map((e) => e.id)).toEqual(["10", "9", "8"]);
+    expect(updated.pages[0].total).toBe(101);
+    expect(prependEvent(updated, event(10))).toBe(updated);
+  });
+
+  it("should drop whole older pages past the limit", () => {
+    const data = feed(page([9, 8], "c1"), page([7, 6], "c2"), page([5, 4]));
+
+    const updated = prependEvent(data, event(10), 5);
+    expect(updated.pages).toHaveLength(2);
+    expect(updated.pageParams).toEqual([undefined, "p1"]);
+    expect(updated.pages[1].cursors.before).toBe("c2");
+  });
+
+  it("should trim an oversized first page and point its cursor at the gap", () => {
+    const data = feed(page([9, 8, 7]));
+
+    const updated = prependEvent(data, event(10), 3);
+    expect(updated.pages[0].events.map((e) => e.id)).toEqual(["10", "9", "8"]);
+    expect(decodeEventCursor(updated.pages[0].cursors.before)).toEqual({
+      timestamp: event(8).timestamp,
+      id: "8",
+    });
+  });
+});
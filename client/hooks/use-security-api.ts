@@ -0,0 +1,501 @@
+import {
+  InfiniteData,
+  QueryClient,
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  BlockIpRequest,
+  CardholdersQuery,
+  CreateCardholderRequest,
+  CreateUserRequest,
+  DosActivityQuery,
+  IssueCredentialRequest,
+  LoginRequest,
+  LoginResponse,
+  MfaLoginRequest,
+  AddSecurityEventRequest,
+  RfidActivityQuery,
+  SecurityEvent,
+  SecurityEventFilter,
+  SecurityEventsQuery,
+  SecurityEventsResponse,
+  SecurityStatsQuery,
+  SecurityStatsResponse,
+  SystemHealthResponse,
+  SystemSettings,
+  UpdateCardholderRequest,
+  UpdateCredentialRequest,
+  UpdateSettingsRequest,
+  UpdateUserRequest,
+} from "@shared/api";
+import {
+  DEFAULT_EVENTS_LIMIT,
+  encodeEventCursor,
+  matchesEventFilter,
+} from "@shared/event-query";
+import apiService, { SecurityStreamOptions } from "@/services/api";
+import { useSecurityStream } from "@/hooks/use-security-stream";
+
+/**
+ * Query keys for the security endpoints. Everything lives under
+ * `securityKeys.all`, so one invalidation refreshes the whole dashboard.
+ */
+export const securityKeys = {
+  all: ["security"] as const,
+  events: () => [...securityKeys.all, "events"] as const,
+  feeds: () => [...securityKeys.events(), "feed"] as const,
+  eventList: (filter: SecurityEventFilter) =>
+    [...securityKeys.feeds(), filter] as const,
+  eventPage: (query: SecurityEventsQuery) =>
+    [...securityKeys.events(), "page", query] as const,
+  rfid: () => [...securityKeys.all, "rfid"] as const,
+  rfidActivity: (query: RfidActivityQuery) =>
+    [...securityKeys.rfid(), "activity", query] as const,
+  dos: () => [...securityKeys.all, "dos"] as const,
+  dosActivity: (query: DosActivityQuery) =>
+    [...securityKeys.dos(), "activity", query] as const,
+  ipBlocks: () => [...securityKeys.dos(), "blocks"] as const,
+  stats: () => [...securityKeys.all, "stats"] as const,
+  statsFor: (query: SecurityStatsQuery) =>
+    [...securityKeys.stats(), query] as const,
+  health: () => [...securityKeys.all, "health"] as const,
+  settings: () => [...securityKeys.all, "settings"] as const,
+  settingsHistory: () => [...securityKeys.settings(), "history"] as const,
+  users: () => [...securityKeys.all, "users"] as const,
+  cardholders: () => [...securityKeys.all, "cardholders"] as const,
+  cardholderList: (query: CardholdersQuery) =>
+    [...securityKeys.cardholders(), query] as const,
+  locations: () => [...securityKeys.all, "locations"] as const,
+};
+
+/** Cached feed: pages of newest-first events, older pages appended */
+export type SecurityEventPages = InfiniteData<
+  SecurityEventsResponse,
+  string | undefined
+>;
+
+// Oldest events are dropped past this; loading older pages fetches them again
+export const MAX_CACHED_EVENTS = 500;
+
+// The stream pushes changes as they happen; refetching (on focus, and on an
+// interval for the cheap endpoints) is only a safety net
+const STALE_MS = 30 * 1000;
+const BACKGROUND_REFETCH_MS = 60 * 1000;
+
+/**
+ * Newest-first feed of events matching the filter. Older pages are fetched
+ * by cursor, so events arriving meanwhile cannot shift them.
+ */
+export function useSecurityEvents(
+  filter: SecurityEventFilter = {},
+  { limit = DEFAULT_EVENTS_LIMIT, enabled = true } = {},
+) {
+  return useInfiniteQuery({
+    queryKey: securityKeys.eventList(filter),
+    queryFn: ({ pageParam }) =>
+      apiService.getSecurityEvents({ ...filter, limit, before: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursors.before,
+    // A refetch reloads every loaded page, so no interval here
+    staleTime: STALE_MS,
+    enabled,
+  });
+}
+
+/**
+ * One page of events, e.g. for a paginated table. Unlike the feed it is not
+ * updated from the stream, so rows do not move while being read; it is
+ * refetched in the background instead.
+ */
+export function useSecurityEventPage(query: SecurityEventsQuery) {
+  return useQuery({
+    queryKey: securityKeys.eventPage(query),
+    queryFn: () => apiService.getSecurityEvents(query),
+    placeholderData: keepPreviousData,
+    staleTime: STALE_MS,
+    refetchInterval: BACKGROUND_REFETCH_MS,
+  });
+}
+
+export function useSecurityStats(query: SecurityStatsQuery = {}) {
+  return useQuery({
+    queryKey: securityKeys.statsFor(query),
+    queryFn: () => apiService.getSecurityStats(query),
+    staleTime: STALE_MS,
+    refetchInterval: BACKGROUND_REFETCH_MS,
+  });
+}
+
+/**
+ * RFID scan trend and busiest locations and cards. The previous range stays
+ * on screen while a newly selected one loads.
+ */
+export function useRfidActivity(query: RfidActivityQuery = {}) {
+  return useQuery({
+    queryKey: securityKeys.rfidActivity(query),
+    queryFn: () => apiService.getRfidActivity(query),
+    placeholderData: keepPreviousData,
+    staleTime: STALE_MS,
+    refetchInterval: BACKGROUND_REFETCH_MS,
+  });
+}
+
+/** Blocked and detected DoS traffic over time, and the top source addresses */
+export function useDosActivity(query: DosActivityQuery = {}) {
+  return useQuery({
+    queryKey: securityKeys.dosActivity(query),
+    queryFn: () => apiService.getDosActivity(query),
+    placeholderData: keepPreviousData,
+    staleTime: STALE_MS,
+    refetchInterval: BACKGROUND_REFETCH_MS,
+  });
+}
+
+export function useIpBlocks() {
+  return useQuery({
+    queryKey: securityKeys.ipBlocks(),
+    queryFn: () => apiService.getIpBlocks(),
+    staleTime: STALE_MS,
+    refetchInterval: BACKGROUND_REFETCH_MS,
+  });
+}
+
+export function useSystemHealth() {
+  return useQuery({
+    queryKey: securityKeys.health(),
+    queryFn: () => apiService.getSystemHealth(),
+    staleTime: STALE_MS,
+    refetchInterval: BACKGROUND_REFETCH_MS,
+  });
+}
+
+/**
+ * Add an event to the front of a cached feed, trimming it to `maxEvents`.
+ * Whole pages are dropped from the end so the last page's cursor still
+ * points at the first missing event.
+ */
+export const prependEvent = (
+  data: SecurityEventPages,
+  event: SecurityEvent,
+  maxEvents = MAX_CACHED_EVENTS,
+): SecurityEventPages => {
+  const [first, ...older] = data.pages;
+  if (
+    !first ||
+    data.pages.some((p) => p.events.some((e) => e.id === event.id))
+  ) {
+    return data;
+  }
+
+  const pages = [
+    { ...first, events: [event, ...first.events], total: first.total + 1 },
+    ...older,
+  ];
+
+  let kept = 1;
+  let count = pages[0].events.length;
+  while (
+    kept < pages.length &&
+    count + pages[kept].events.length <= maxEvents
+  ) {
+    count += pages[kept].events.length;
+    kept++;
+  }
+
+  if (pages[0].events.length > maxEvents) {
+    const events = pages[0].events.slice(0, maxEvents);
+    pages[0] = {
+      ...pages[0],
+      events,
+      cursors: {
+        ...pages[0].cursors,
+        before: encodeEventCursor(events[events.length - 1]),
+      },
+    };
+  }
+
+  return {
+    pages: pages.slice(0, kept),
+    pageParams: data.pageParams.slice(0, kept),
+  };
+};
+
+const addLiveEvent = (queryClient: QueryClient, event: SecurityEvent) => {
+  const feeds = queryClient
+    .getQueryCache()
+    .findAll({ queryKey: securityKeys.feeds() });
+
+  for (const { queryKey } of feeds) {
+    const filter = queryKey[3] as SecurityEventFilter;
+    if (!matchesEventFilter(event, filter)) continue;
+
+    queryClient.setQueryData<SecurityEventPages>(queryKey, (data) =>
+      data ? prependEvent(data, event) : data,
+    );
+  }
+};
+
+/**
+ * Keep the cached feeds, stats and health current from the live stream.
+ * Returns the stream status.
+ */
+export function useLiveSecurityUpdates(
+  options: SecurityStreamOptions & { enabled?: boolean } = {},
+) {
+  const queryClient = useQueryClient();
+
+  return useSecurityStream(
+    {
+      onEvent: (event) => addLiveEvent(queryClient, event),
+      onStats: (delta) =>
+        queryClient.setQueryData<SecurityStatsResponse>(
+          securityKeys.statsFor({}),
+          (stats) => (stats ? { ...stats, ...delta } : stats),
+        ),
+      onHealth: (health) =>
+        queryClient.setQueryData<SystemHealthResponse>(
+          securityKeys.health(),
+          health,
+        ),
+      onReset: () =>
+        queryClient.invalidateQueries({ queryKey: securityKeys.events() }),
+    },
+    options,
+  );
+}
+
+/**
+ * Store the session of a completed login. Cached data belonged to the
+ * previous (or no) user, so it is dropped.
+ */
+const startSession = (queryClient: QueryClient, response: LoginResponse) => {
+  if (!response.success || !response.token) return;
+
+  apiService.setAuthToken(response.token, response.refreshToken);
+  apiService.setCurrentUser(response.user);
+  queryClient.removeQueries();
+};
+
+/**
+ * Password step. Rejections resolve with `success: false`; a response with
+ * `mfaRequired` continues with useLoginMfa.
+ */
+export function useLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (credentials: LoginRequest) => apiService.login(credentials),
+    onSuccess: (response) => startSession(queryClient, response),
+    meta: { silent: true },
+  });
+}
+
+/**
+ * Second login step. A login that completed enrollment carries recovery
+ * codes; its session starts with useStartSession once they are saved.
+ */
+export function useLoginMfa() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: MfaLoginRequest) => apiService.loginMfa(request),
+    onSuccess: (response) => {
+      if (!response.recoveryCodes) startSession(queryClient, response);
+    },
+    meta: { silent: true },
+  });
+}
+
+export function useStartSession() {
+  const queryClient = useQueryClient();
+  return (response: LoginResponse) => startSession(queryClient, response);
+}
+
+export function useAddEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (event: AddSecurityEventRequest) =>
+      apiService.addSecurityEvent(event),
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: securityKeys.events() }),
+        queryClient.invalidateQueries({ queryKey: securityKeys.stats() }),
+        queryClient.invalidateQueries({ queryKey: securityKeys.rfid() }),
+      ]),
+  });
+}
+
+export function useBlockIp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: BlockIpRequest) => apiService.blockIp(request),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: securityKeys.ipBlocks() }),
+  });
+}
+
+export function useUnblockIp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ipAddress: string) => apiService.unblockIp(ipAddress),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: securityKeys.ipBlocks() }),
+  });
+}
+
+export function useSettings() {
+  return useQuery({
+    queryKey: securityKeys.settings(),
+    queryFn: () => apiService.getSettings(),
+    staleTime: STALE_MS,
+  });
+}
+
+export function useSettingsHistory() {
+  return useQuery({
+    queryKey: securityKeys.settingsHistory(),
+    queryFn: () => apiService.getSettingsHistory(),
+    staleTime: STALE_MS,
+  });
+}
+
+/**
+ * Save whole settings sections. Failures are left to the form, which shows
+ * them next to the fields.
+ */
+export function useUpdateSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (updates: UpdateSettingsRequest) =>
+      apiService.updateSettings(updates),
+    onSuccess: (settings) => {
+      queryClient.setQueryData<SystemSettings>(
+        securityKeys.settings(),
+        settings,
+      );
+      return Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: securityKeys.settingsHistory(),
+        }),
+        // Detection thresholds change the derived system status
+        queryClient.invalidateQueries({ queryKey: securityKeys.stats() }),
+      ]);
+    },
+    meta: { silent: true },
+  });
+}
+
+export function useUsers() {
+  return useQuery({
+    queryKey: securityKeys.users(),
+    queryFn: () => apiService.getUsers(),
+    staleTime: STALE_MS,
+  });
+}
+
+/**
+ * Mutations of the user list; each refreshes it on success
+ */
+function useUserMutation<T>(mutationFn: (variables: T) => Promise<unknown>) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: securityKeys.users() }),
+  });
+}
+
+export function useCreateUser() {
+  return useUserMutation((user: CreateUserRequest) =>
+    apiService.createUser(user),
+  );
+}
+
+export function useUpdateUser() {
+  return useUserMutation(
+    ({ id, ...updates }: UpdateUserRequest & { id: string }) =>
+      apiService.updateUser(id, updates),
+  );
+}
+
+export function useResetUserPassword() {
+  return useUserMutation(({ id, password }: { id: string; password: string }) =>
+    apiService.resetUserPassword(id, password),
+  );
+}
+
+export function useResetUserMfa() {
+  return useUserMutation((id: string) => apiService.resetUserMfa(id));
+}
+
+/** Cardholders with their credentials; the previous search stays on screen */
+export function useCardholders(query: CardholdersQuery = {}) {
+  return useQuery({
+    queryKey: securityKeys.cardholderList(query),
+    queryFn: () => apiService.getCardholders(query),
+    placeholderData: keepPreviousData,
+    staleTime: STALE_MS,
+  });
+}
+
+/**
+ * Mutations of cardholders and their credentials; each refreshes the
+ * directory on success
+ */
+function useCardholderMutation<T, R>(mutationFn: (variables: T) => Promise<R>) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: securityKeys.cardholders() }),
+  });
+}
+
+export function useCreateCardholder() {
+  return useCardholderMutation((cardholder: CreateCardholderRequest) =>
+    apiService.createCardholder(cardholder),
+  );
+}
+
+export function useUpdateCardholder() {
+  return useCardholderMutation(
+    ({ id, ...updates }: UpdateCardholderRequest & { id: string }) =>
+      apiService.updateCardholder(id, updates),
+  );
+}
+
+export function useDeleteCardholder() {
+  return useCardholderMutation((id: string) => apiService.deleteCardholder(id));
+}
+
+export function useIssueCredential() {
+  return useCardholderMutation((request: IssueCredentialRequest) =>
+    apiService.issueCredential(request),
+  );
+}
+
+export function useUpdateCredential() {
+  return useCardholderMutation(
+    ({ id, ...updates }: UpdateCredentialRequest & { id: string }) =>
+      apiService.updateCredential(id, updates),
+  );
+}
+
+/** The location hierarchy as a flat list, linked by parentId */
+export function useLocations() {
+  return useQuery({
+    queryKey: securityKeys.locations(),
+    queryFn: () => apiService.getLocations(),
+    staleTime: STALE_MS,
+  });
+}
@@ -0,0 +1,43 @@
+import * as React from "react";
+import apiService, {
+  SecurityStreamHandlers,
+  SecurityStreamOptions,
+  SecurityStreamStatus,
+} from "@/services/api";
+
+/**
+ * Live security updates for the lifetime of the component.
+ * Handlers may change between renders without reopening the stream.
+ */
+export function useSecurityStream(
+  handlers: Omit<SecurityStreamHandlers, "onStatusChange">,
+  options: SecurityStreamOptions & { enabled?: boolean } = {},
+) {
+  const { enabled = true, lastEvent, pollInterval } = options;
+  const [status, setStatus] =
+    React.useState<SecurityStreamStatus>("connecting");
+
+  const handlersRef = React.useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Only read when (re)subscribing, so it is kept out of the dependencies
+  const lastEventRef = React.useRef(lastEvent);
+  lastEventRef.current = lastEvent;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    return apiService.subscribeToSecurityStream(
+      {
+        onEvent: (event) => handlersRef.current.onEvent?.(event),
+        onStats: (stats) => handlersRef.current.onStats?.(stats),
+        onHealth: (health) => handlersRef.current.onHealth?.(health),
+        onReset: () => handlersRef.current.onReset?.(),
+        onStatusChange: setStatus,
+      },
+      { lastEvent: lastEventRef.current, pollInterval },
+    );
+  }, [enabled, pollInterval]);
+
+  return status;
+}
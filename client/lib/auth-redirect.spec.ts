@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { loginPath, redirectTarget } from "./auth-redirect";
+
+describe("loginPath", () => {
+  it("should remember where the user was", () => {
+    expect(loginPath("/rfid?type=rfid")).toBe(
+      "/admin?redirect=%2Frfid%3Ftype%3Drfid",
+    );
+    expect(loginPath("/")).toBe("/admin");
+  });
+});
+
+describe("redirectTarget", () => {
+  it("should round trip through loginPath", () => {
+    const url = new URL(loginPath("/dos?ip=1"), "http://localhost");
+    expect(redirectTarget(url.search)).toBe("/dos?ip=1");
+  });
+
+  it("should only allow paths on this site", () => {
+    expect(redirectTarget("?redirect=https://evil.example")).toBe("/");
+    expect(redirectTarget("?redirect=//evil.example")).toBe("/");
+    expect(redirectTarget("?redirect=/admin")).toBe("/");
+    expect(redirectTarget("")).toBe("/");
+  });
+});
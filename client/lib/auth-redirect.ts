@@ -0,0 +1,21 @@
+export const LOGIN_PATH = "/admin";
+
+/**
+ * Login page URL that returns to `from` after signing in
+ */
+export const loginPath = (from: string) =>
+  from && from !== "/" && from !== LOGIN_PATH
+    ? `${LOGIN_PATH}?redirect=${encodeURIComponent(from)}`
+    : LOGIN_PATH;
+
+/**
+ * Where to go after login. Only paths on this site are accepted, so a
+ * crafted link cannot send the user elsewhere.
+ */
+export const redirectTarget = (search: string): string => {
+  const target = new URLSearchParams(search).get("redirect");
+  if (!target || !target.startsWith("/") || target.startsWith("//")) {
+    return "/";
+  }
+  return target.startsWith(LOGIN_PATH) ? "/" : target;
+};
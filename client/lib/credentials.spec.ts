@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { CardholderDetails } from "@shared/api";
+import { credentialStatus, findCardHolder } from "./credentials";
+
+const now = Date.parse("2024-06-01T00:00:00Z");
+
+describe("credentialStatus", () => {
+  it("should show active cards past their expiry as expired", () => {
+    expect(
+      credentialStatus(
+        { state: "active", expiresAt: "2024-05-31T23:59:59Z" },
+        now,
+      ),
+    ).toBe("expired");
+    expect(
+      credentialStatus(
+        { state: "active", expiresAt: "2024-06-02T00:00:00Z" },
+        now,
+      ),
+    ).toBe("active");
+    expect(credentialStatus({ state: "active" }, now)).toBe("active");
+  });
+
+  it("should keep the stored state of cards out of use", () => {
+    expect(
+      credentialStatus(
+        { state: "revoked", expiresAt: "2024-01-01T00:00:00Z" },
+        now,
+      ),
+    ).toBe("revoked");
+  });
+});
+
+describe("findCardHolder", () => {
+  it("should match card numbers regardless of case", () => {
+    const cardholder = {
+      id: "ch-1",
+      name: "Alice",
+      credentials: [{ id: "cred-1", cardNumber: "CARD-A1" }],
+    } as CardholderDetails;
+
+    expect(findCardHolder([cardholder], "card-a1")).toMatchObject({
+      cardholder: { id: "ch-1" },
+      credential: { id: "cred-1" },
+    });
+    expect(findCardHolder([cardholder], "CARD-B2")).toBeUndefined();
+  });
+});
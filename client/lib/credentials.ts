@@ -0,0 +1,56 @@
+import {
+  CardholderDetails,
+  Credential,
+  CredentialFormat,
+  CredentialState,
+} from "@shared/api";
+
+/** What a card currently does at a reader; expiry is derived, not stored */
+export type CredentialStatus = CredentialState | "expired";
+
+export const CREDENTIAL_STATUS_LABELS: Record<CredentialStatus, string> = {
+  active: "Active",
+  suspended: "Suspended",
+  lost: "Lost",
+  revoked: "Revoked",
+  expired: "Expired",
+};
+
+export const CREDENTIAL_FORMAT_LABELS: Record<CredentialFormat, string> = {
+  wiegand26: "Wiegand 26-bit",
+  wiegand34: "Wiegand 34-bit",
+  wiegand37: "Wiegand 37-bit",
+  mifare_classic: "MIFARE Classic",
+  mifare_desfire: "MIFARE DESFire",
+  iclass: "iCLASS",
+};
+
+/**
+ * State of the card, with active cards past their expiry shown as expired
+ */
+export const credentialStatus = (
+  credential: Pick<Credential, "state" | "expiresAt">,
+  now = Date.now(),
+): CredentialStatus =>
+  credential.state === "active" &&
+  credential.expiresAt &&
+  Date.parse(credential.expiresAt) <= now
+    ? "expired"
+    : credential.state;
+
+/**
+ * Cardholder and credential of a card number, ignoring case
+ */
+export const findCardHolder = (
+  cardholders: CardholderDetails[],
+  cardNumber: string,
+): { cardholder: CardholderDetails; credential: Credential } | undefined => {
+  const wanted = cardNumber.toUpperCase();
+  for (const cardholder of cardholders) {
+    const credential = cardholder.credentials.find(
+      (c) => c.cardNumber.toUpperCase() === wanted,
+    );
+    if (credential) return { cardholder, credential };
+  }
+  return undefined;
+};
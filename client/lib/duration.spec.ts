@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { formatRemaining } from "./duration";
+
+const now = Date.parse("2024-01-01T10:00:00Z");
+const after = (ms: number) => new Date(now + ms).toISOString();
+
+describe("formatRemaining", () => {
+  it("should show the two largest units", () => {
+    expect(formatRemaining(after(26 * 3600_000 + 5 * 60_000), now)).toBe(
+      "1d 2h",
+    );
+    expect(formatRemaining(after(2 * 3600_000 + 15 * 60_000), now)).toBe(
+      "2h 15m",
+    );
+    expect(formatRemaining(after(90_500), now)).toBe("1m 30s");
+  });
+
+  it("should report a passed time as expired", () => {
+    expect(formatRemaining(after(0), now)).toBe("expired");
+    expect(formatRemaining(after(-1000), now)).toBe("expired");
+  });
+});
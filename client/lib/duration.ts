@@ -0,0 +1,24 @@
+const UNITS: [label: string, ms: number][] = [
+  ["d", 24 * 60 * 60 * 1000],
+  ["h", 60 * 60 * 1000],
+  ["m", 60 * 1000],
+  ["s", 1000],
+];
+
+/**
+ * Compact time left until `until`, e.g. "2h 15m". Only the two largest units
+ * are shown; seconds only once less than an hour remains.
+ */
+export const formatRemaining = (until: string, now = Date.now()): string => {
+  let left = Date.parse(until) - now;
+  if (left <= 0) return "expired";
+
+  const parts: string[] = [];
+  for (const [label, ms] of UNITS) {
+    if (parts.length === 2 || (label === "s" && left >= 60 * 60 * 1000)) break;
+    const count = Math.floor(left / ms);
+    if (count > 0 || parts.length > 0) parts.push(`${count}${label}`);
+    left -= count * ms;
+  }
+  return parts.join(" ") || "0s";
+};
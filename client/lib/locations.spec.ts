@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { LocationNode } from "@shared/api";
+import { locationOptions } from "./locations";
+
+const node = (
+  id: string,
+  kind: LocationNode["kind"],
+  parentId?: string,
+): LocationNode => ({
+  id,
+  name: id,
+  kind,
+  parentId,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("locationOptions", () => {
+  it("should list each location before what it contains", () => {
+    const options = locationOptions([
+      node("room-1", "door", "floor-1"),
+      node("floor-2", "floor", "hq"),
+      node("hq", "site"),
+      node("floor-1", "floor", "hq"),
+    ]);
+
+    expect(options.map(({ location, depth }) => [location.id, depth])).toEqual([
+      ["hq", 0],
+      ["floor-2", 1],
+      ["floor-1", 1],
+      ["room-1", 2],
+    ]);
+  });
+
+  it("should show locations with a missing parent at the top", () => {
+    expect(
+      locationOptions([node("room-1", "door", "gone")]).map((o) => o.depth),
+    ).toEqual([0]);
+  });
+});
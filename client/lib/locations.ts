@@ -0,0 +1,41 @@
+import { LocationKind, LocationNode } from "@shared/api";
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  site: "Site",
+  building: "Building",
+  floor: "Floor",
+  zone: "Zone",
+  door: "Door",
+};
+
+export interface LocationOption {
+  location: LocationNode;
+  /** Levels below the top of the hierarchy, for indenting */
+  depth: number;
+}
+
+/**
+ * Locations in tree order, each followed by what it contains, keeping the
+ * order of the list among siblings. Locations whose parent is missing are
+ * shown at the top.
+ */
+export const locationOptions = (
+  locations: LocationNode[],
+): LocationOption[] => {
+  const ids = new Set(locations.map((location) => location.id));
+  const children = new Map<string | undefined, LocationNode[]>();
+  for (const location of locations) {
+    const parentId = ids.has(location.parentId) ? location.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), location]);
+  }
+
+  const options: LocationOption[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const location of children.get(parentId) ?? []) {
+      options.push({ location, depth });
+      visit(location.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return options;
+};
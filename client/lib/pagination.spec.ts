@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { pageWindow } from "./pagination";
+
+describe("pageWindow", () => {
+  it("should show every page when there are few", () => {
+    expect(pageWindow(1, 1)).toEqual([1]);
+    expect(pageWindow(2, 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should collapse long gaps around the current page", () => {
+    expect(pageWindow(10, 20)).toEqual([
+      1,
+      "ellipsis",
+      9,
+      10,
+      11,
+      "ellipsis",
+      20,
+    ]);
+    expect(pageWindow(1, 20)).toEqual([1, 2, "ellipsis", 20]);
+  });
+
+  it("should show a single skipped page instead of an ellipsis", () => {
+    expect(pageWindow(4, 7)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("should cope with an empty result", () => {
+    expect(pageWindow(1, 0)).toEqual([1]);
+  });
+});
@@ -0,0 +1,28 @@
+export type PageItem = number | "ellipsis";
+
+/**
+ * Page numbers to offer around the current page. The first and last page are
+ * always shown; longer gaps collapse into an ellipsis, a gap of a single page
+ * shows that page instead.
+ */
+export const pageWindow = (
+  page: number,
+  pageCount: number,
+  siblings = 1,
+): PageItem[] => {
+  const shown = new Set([1, pageCount]);
+  for (let p = page - siblings; p <= page + siblings; p++) {
+    if (p >= 1 && p <= pageCount) shown.add(p);
+  }
+
+  const items: PageItem[] = [];
+  let previous = 0;
+  for (const p of [...shown].sort((a, b) => a - b)) {
+    if (p < 1) continue;
+    if (p - previous === 2) items.push(p - 1);
+    if (p - previous > 2) items.push("ellipsis");
+    items.push(p);
+    previous = p;
+  }
+  return items;
+};
@@ -0,0 +1,81 @@
+import { MutationCache, QueryCache, QueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import apiService, { ApiError, isApiError } from "@/services/api";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: QueryErrorMeta;
+    mutationMeta: QueryErrorMeta;
+  }
+}
+
+export interface QueryErrorMeta extends Record<string, unknown> {
+  /** The component shows its own error state, so skip the global toast */
+  silent?: boolean;
+}
+
+const errorTitle = (error: ApiError) => {
+  switch (error.code) {
+    case "network_error":
+      return "Server unreachable";
+    case "forbidden":
+      return "Permission denied";
+    case "invalid_request":
+      return "Invalid input";
+    case "invalid_response":
+      return "Unexpected server response";
+    default:
+      return error.status >= 500 ? "Server error" : "Request failed";
+  }
+};
+
+/**
+ * Global handling for failed queries and mutations: an expired session
+ * goes back to the login page, anything else shows a toast
+ */
+export const handleApiError = (error: unknown, meta?: QueryErrorMeta) => {
+  if (isApiError(error) && error.status === 401) {
+    // Ending the session makes ProtectedRoute send the user to log in
+    apiService.clearAuthToken();
+    return;
+  }
+  if (meta?.silent) return;
+
+  if (!isApiError(error)) {
+    toast.error("Something went wrong", {
+      description: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  const fields = error.fields ? Object.values(error.fields).join(". ") : "";
+  toast.error(errorTitle(error), {
+    // Repeated failures (e.g. polling while offline) update one toast
+    id: `${error.code}:${error.status}`,
+    description: [
+      fields || error.message,
+      error.requestId && `Request ID: ${error.requestId}`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+  });
+};
+
+export const createQueryClient = () =>
+  new QueryClient({
+    queryCache: new QueryCache({
+      onError: (error, query) => handleApiError(error, query.meta),
+    }),
+    mutationCache: new MutationCache({
+      onError: (error, _variables, _context, mutation) =>
+        handleApiError(error, mutation.meta),
+    }),
+    defaultOptions: {
+      queries: {
+        staleTime: 1000 * 60 * 5, // 5 minutes
+        // Client errors fail the same way again, so only retry the rest
+        retry: (failureCount, error) =>
+          !(isApiError(error) && error.isClientError) && failureCount < 3,
+      },
+    },
+  });
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { fieldLabel, formatSettingValue } from "./settings";
+
+describe("formatSettingValue", () => {
+  it("should show flags, lists and blanks readably", () => {
+    expect(formatSettingValue(true)).toBe("On");
+    expect(formatSettingValue(false)).toBe("Off");
+    expect(formatSettingValue(["a@example.com", "b@example.com"])).toBe(
+      "a@example.com, b@example.com",
+    );
+    expect(formatSettingValue([])).toBe("None");
+    expect(formatSettingValue("")).toBe("Not set");
+    expect(formatSettingValue("high")).toBe("high");
+  });
+});
+
+describe("fieldLabel", () => {
+  it("should fall back to the field name", () => {
+    expect(fieldLabel("retention", "maxEvents")).toBe("Stored events");
+    expect(fieldLabel("retention", "removedField")).toBe("removedField");
+  });
+});
@@ -0,0 +1,52 @@
+import { SettingsSection, SystemSettings } from "@shared/api";
+
+export const SECTION_LABELS: Record<SettingsSection, string> = {
+  detection: "Detection",
+  alerting: "Alerting",
+  retention: "Retention",
+  integrations: "Integrations",
+};
+
+type FieldLabels = {
+  [S in SettingsSection]: Record<keyof SystemSettings[S], string>;
+};
+
+export const FIELD_LABELS: FieldLabels = {
+  detection: {
+    activeThreatWindowMinutes: "Active threat window (minutes)",
+    warningThreats: "Warning threshold",
+    criticalThreats: "Critical threshold",
+    readerOfflineSeconds: "Reader offline after (seconds)",
+  },
+  alerting: {
+    enabled: "Alerts enabled",
+    minimumSeverity: "Minimum severity",
+    unauthorizedAccess: "Unauthorized access alerts",
+    dosAttacks: "DoS attack alerts",
+    emailRecipients: "Email recipients",
+  },
+  retention: {
+    maxEvents: "Stored events",
+    historyEntries: "Change history entries",
+  },
+  integrations: {
+    siemEnabled: "SIEM forwarding",
+    siemUrl: "SIEM webhook URL",
+    rfidGatewayEnabled: "RFID gateway",
+    rfidGatewayUrl: "RFID gateway URL",
+  },
+};
+
+export const fieldLabel = (section: SettingsSection, field: string) =>
+  (FIELD_LABELS[section] as Record<string, string>)[field] ?? field;
+
+/**
+ * Setting value as shown in the change history
+ */
+export const formatSettingValue = (value: unknown): string => {
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "None";
+  if (value === "" || value === undefined || value === null) return "Not set";
+  if (typeof value === "number") return value.toLocaleString();
+  return String(value);
+};
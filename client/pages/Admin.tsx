@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,55 +10,115 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Shield, Eye, EyeOff, Lock, User, AlertCircle } from "lucide-react";
+import {
+  Shield,
+  Eye,
+  EyeOff,
+  Lock,
+  User,
+  AlertCircle,
+  Timer,
+} from "lucide-react";
+import { Navigate, useLocation } from "react-router-dom";
 import Layout from "@/components/Layout";
-import apiService from "@/services/api";
+import TwoFactorForm from "@/components/admin/TwoFactorForm";
+import { useLogin } from "@/hooks/use-security-api";
+import { useAuth } from "@/hooks/use-auth";
+import { redirectTarget } from "@/lib/auth-redirect";
+import { LoginResponse } from "@shared/api";
+
+const formatWait = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return minutes > 0 ? `${minutes}:${rest} minutes` : `${seconds} seconds`;
+};
 
 export default function Admin() {
+  const location = useLocation();
+  const { status } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
   const [formData, setFormData] = useState({
     username: "",
     password: "",
     rememberMe: false,
   });
-  const [isLoading, setIsLoading] = useState(false);
+  const login = useLogin();
+  const isLoading = login.isPending;
   const [error, setError] = useState<string | null>(null);
+  // Epoch ms until which the server refuses further attempts
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Set once the password is accepted and a TOTP code is needed
+  const [challenge, setChallenge] = useState<{
+    token: string;
+    setupRequired: boolean;
+  } | null>(null);
+
+  const remainingSeconds = lockedUntil
+    ? Math.max(0, Math.ceil((lockedUntil - now) / 1000))
+    : 0;
+  const isLockedOut = remainingSeconds > 0;
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const showFailure = (response: LoginResponse) => {
+    if (response.lockedOut && response.retryAfter) {
+      setNow(Date.now());
+      setLockedUntil(Date.now() + response.retryAfter * 1000);
+      setError(response.message || "Too many failed login attempts");
+    } else {
+      setError(response.message || "Login failed");
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
 
     try {
-      const response = await apiService.login({
+      const response = await login.mutateAsync({
         username: formData.username,
         password: formData.password,
         rememberMe: formData.rememberMe,
       });
 
-      if (response.success && response.token) {
-        // Store auth token
-        apiService.setAuthToken(response.token);
-        localStorage.setItem("user_data", JSON.stringify(response.user));
-
-        // Redirect to dashboard
-        window.location.href = "/";
-      } else {
-        setError(response.message || "Login failed");
+      // A successful login starts the session, which redirects below
+      if (response.mfaRequired && response.challengeToken) {
+        setError(null);
+        setChallenge({
+          token: response.challengeToken,
+          setupRequired: !!response.mfaSetupRequired,
+        });
+      } else if (!response.success) {
+        showFailure(response);
       }
     } catch (err) {
       console.error("Login error:", err);
       setError("Unable to connect to server. Please try again.");
-    } finally {
-      setIsLoading(false);
     }
   };
 
   const handleInputChange = (field: string, value: string | boolean) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
-    // Clear error when user starts typing
-    if (error) setError(null);
+    // Clear error when user starts typing, but keep the lockout visible
+    if (error && !isLockedOut) setError(null);
   };
 
+  // Back to the page that asked for a login once signed in
+  if (status === "authenticated") {
+    return <Navigate to={redirectTarget(location.search)} replace />;
+  }
+
   return (
     <Layout showNavigation={false}>
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted/50 p-4">
@@ -83,102 +143,141 @@ export default function Admin() {
           {/* Login Form */}
           <Card className="border-border/50 shadow-lg">
             <CardHeader className="space-y-1">
-              <CardTitle className="text-xl">Administrator Login</CardTitle>
+              <CardTitle className="text-xl">
+                {challenge
+                  ? "Two-Factor Authentication"
+                  : "Administrator Login"}
+              </CardTitle>
               <CardDescription>
-                Enter your credentials to access the admin dashboard
+                {!challenge
+                  ? "Enter your credentials to access the admin dashboard"
+                  : challenge.setupRequired
+                    ? "Your role requires a second factor - set it up to continue"
+                    : "Enter the 6-digit code from your authenticator app"}
               </CardDescription>
             </CardHeader>
             <CardContent>
               {error && (
                 <div className="mb-4 p-3 rounded-lg bg-destructive/10 border border-destructive/20 flex items-center space-x-2">
-                  <AlertCircle className="h-4 w-4 text-destructive" />
-                  <p className="text-sm text-destructive">{error}</p>
+                  {isLockedOut ? (
+                    <Timer className="h-4 w-4 text-destructive shrink-0" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-destructive shrink-0" />
+                  )}
+                  <div className="space-y-1">
+                    <p className="text-sm text-destructive">
+                      {isLockedOut
+                        ? "Too many failed login attempts. Sign-in is temporarily locked."
+                        : error}
+                    </p>
+                    {isLockedOut && (
+                      <p className="text-xs text-muted-foreground">
+                        Try again in {formatWait(remainingSeconds)}
+                      </p>
+                    )}
+                  </div>
                 </div>
               )}
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="username">Username</Label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="username"
-                      type="text"
-                      placeholder="Enter your username"
-                      value={formData.username}
-                      onChange={(e) =>
-                        handleInputChange("username", e.target.value)
-                      }
-                      className="pl-9"
-                      required
-                    />
+              {challenge ? (
+                <TwoFactorForm
+                  challengeToken={challenge.token}
+                  setupRequired={challenge.setupRequired}
+                  disabled={isLockedOut}
+                  onFailure={showFailure}
+                  onCancel={() => {
+                    setChallenge(null);
+                    setError(null);
+                  }}
+                />
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="username">Username</Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="username"
+                        type="text"
+                        placeholder="Enter your username"
+                        value={formData.username}
+                        onChange={(e) =>
+                          handleInputChange("username", e.target.value)
+                        }
+                        className="pl-9"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Enter your password"
+                        value={formData.password}
+                        onChange={(e) =>
+                          handleInputChange("password", e.target.value)
+                        }
+                        className="pl-9 pr-9"
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-3 text-muted-foreground hover:text-foreground"
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Enter your password"
-                      value={formData.password}
-                      onChange={(e) =>
-                        handleInputChange("password", e.target.value)
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="remember"
+                      checked={formData.rememberMe}
+                      onCheckedChange={(checked) =>
+                        handleInputChange("rememberMe", checked as boolean)
                       }
-                      className="pl-9 pr-9"
-                      required
                     />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-3 text-muted-foreground hover:text-foreground"
+                    <Label
+                      htmlFor="remember"
+                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                     >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </button>
+                      Remember me for 30 days
+                    </Label>
                   </div>
-                </div>
 
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="remember"
-                    checked={formData.rememberMe}
-                    onCheckedChange={(checked) =>
-                      handleInputChange("rememberMe", checked as boolean)
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={
+                      isLoading ||
+                      isLockedOut ||
+                      !formData.username ||
+                      !formData.password
                     }
-                  />
-                  <Label
-                    htmlFor="remember"
-                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                   >
-                    Remember me for 30 days
-                  </Label>
-                </div>
-
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={
-                    isLoading || !formData.username || !formData.password
-                  }
-                >
-                  {isLoading ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground mr-2"></div>
-                      Authenticating...
-                    </>
-                  ) : (
-                    <>
-                      <Shield className="h-4 w-4 mr-2" />
-                      Sign In
-                    </>
-                  )}
-                </Button>
-              </form>
+                    {isLoading ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground mr-2"></div>
+                        Authenticating...
+                      </>
+                    ) : (
+                      <>
+                        <Shield className="h-4 w-4 mr-2" />
+                        Sign In
+                      </>
+                    )}
+                  </Button>
+                </form>
+              )}
             </CardContent>
           </Card>
 
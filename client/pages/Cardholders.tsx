@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { IdCard, Search, UserPlus } from "lucide-react";
+import Layout from "@/components/Layout";
+import CardholderAvatar from "@/components/cardholders/CardholderAvatar";
+import CardholderFormDialog from "@/components/cardholders/CardholderFormDialog";
+import CardholderSheet from "@/components/cardholders/CardholderSheet";
+import CredentialStatusBadge from "@/components/cardholders/CredentialStatusBadge";
+import CredentialStateDialog, {
+  CredentialStateChange,
+} from "@/components/cardholders/CredentialStateDialog";
+import IssueCredentialDialog from "@/components/cardholders/IssueCredentialDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useCardholders, useDeleteCardholder } from "@/hooks/use-security-api";
+import { CardholderDetails, CardholderStatus } from "@shared/api";
+
+type StatusFilter = "all" | CardholderStatus;
+
+export default function Cardholders() {
+  const { can } = useAuth();
+  const canManage = can("cardholders:manage");
+
+  const [searchInput, setSearchInput] = useState("");
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const q = useDebouncedValue(searchInput.trim()) || undefined;
+
+  const cardholders = useCardholders({
+    q,
+    status: status === "all" ? undefined : status,
+  });
+  const deleteCardholder = useDeleteCardholder();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CardholderDetails | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [issuingTo, setIssuingTo] = useState<CardholderDetails | null>(null);
+  const [stateChange, setStateChange] = useState<CredentialStateChange | null>(
+    null,
+  );
+  const [deleting, setDeleting] = useState<CardholderDetails | null>(null);
+
+  // Looked up in the list so the sheet shows changes as soon as they are saved
+  const selected =
+    cardholders.data?.cardholders.find((c) => c.id === selectedId) ?? null;
+
+  const confirmDelete = () => {
+    if (!deleting) return;
+    const { id, name } = deleting;
+    deleteCardholder.mutate(id, {
+      onSuccess: () => {
+        toast.success(`Deleted ${name}`);
+        setSelectedId(null);
+      },
+    });
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Cardholders</h1>
+            <p className="text-muted-foreground">
+              People with access cards and the state of each card
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={() => setIsCreating(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add cardholder
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <IdCard className="h-5 w-5" />
+              <span>Directory</span>
+            </CardTitle>
+            <CardDescription>
+              Select a cardholder to see and manage their cards
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative w-full sm:w-72">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search name, department or card"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as StatusFilter)}
+              >
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All cardholders</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="inactive">Inactive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {cardholders.isPending ? (
+              <div className="space-y-2">
+                {Array.from({ length: 6 }, (_, index) => (
+                  <div
+                    key={index}
+                    className="h-12 animate-pulse rounded bg-muted"
+                  />
+                ))}
+              </div>
+            ) : cardholders.isError ? (
+              <div className="py-12 text-center space-y-4">
+                <p className="text-muted-foreground">
+                  Failed to load cardholders.
+                </p>
+                <Button variant="outline" onClick={() => cardholders.refetch()}>
+                  Try Again
+                </Button>
+              </div>
+            ) : (
+              <div className="rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="hidden md:table-cell">
+                        Department
+                      </TableHead>
+                      <TableHead>Cards</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cardholders.data.cardholders.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={4}
+                          className="h-24 text-center text-muted-foreground"
+                        >
+                          No cardholders match
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      cardholders.data.cardholders.map((cardholder) => (
+                        <TableRow
+                          key={cardholder.id}
+                          className="cursor-pointer"
+                          onClick={() => setSelectedId(cardholder.id)}
+                        >
+                          <TableCell>
+                            <div className="flex items-center space-x-3">
+                              <CardholderAvatar cardholder={cardholder} />
+                              <span className="font-medium">
+                                {cardholder.name}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="hidden md:table-cell text-muted-foreground">
+                            {cardholder.department ?? "—"}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-2">
+                              {cardholder.credentials.length === 0 && (
+                                <span className="text-sm text-muted-foreground">
+                                  None
+                                </span>
+                              )}
+                              {cardholder.credentials.map((credential) => (
+                                <span
+                                  key={credential.id}
+                                  className="flex items-center gap-1"
+                                >
+                                  <span className="font-mono text-xs">
+                                    {credential.cardNumber}
+                                  </span>
+                                  <CredentialStatusBadge
+                                    credential={credential}
+                                  />
+                                </span>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {cardholder.status === "active" ? (
+                              <Badge variant="outline" className="text-success">
+                                Active
+                              </Badge>
+                            ) : (
+                              <Badge variant="secondary">Inactive</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <CardholderSheet
+        cardholder={selected}
+        onClose={() => setSelectedId(null)}
+        onEdit={canManage ? () => setEditing(selected) : undefined}
+        onDelete={canManage ? () => setDeleting(selected) : undefined}
+        onIssue={canManage ? () => setIssuingTo(selected) : undefined}
+        onChangeState={canManage ? setStateChange : undefined}
+      />
+
+      <CardholderFormDialog
+        open={isCreating || editing !== null}
+        cardholder={editing ?? undefined}
+        onOpenChange={(open) => {
+          if (open) return;
+          setIsCreating(false);
+          setEditing(null);
+        }}
+      />
+      <IssueCredentialDialog
+        cardholder={issuingTo}
+        onClose={() => setIssuingTo(null)}
+      />
+      <CredentialStateDialog
+        change={stateChange}
+        onClose={() => setStateChange(null)}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The cardholder is removed from the directory.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
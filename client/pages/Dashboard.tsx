@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useCallback } from "react";
+import { useIsFetching, useQueryClient } from "@tanstack/react-query";
 import {
   Card,
   CardContent,
@@ -11,111 +12,69 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import {
   Shield,
-  Activity,
   AlertTriangle,
   CheckCircle,
   Wifi,
-  Clock,
-  TrendingUp,
-  TrendingDown,
   RefreshCw,
+  Radio,
 } from "lucide-react";
 import Layout from "@/components/Layout";
-import { SecurityEvent, SecurityStats, SystemHealth } from "@shared/api";
-import apiService from "@/services/api";
+import { SecurityEventFilter, SecurityStats } from "@shared/api";
+import {
+  securityKeys,
+  useLiveSecurityUpdates,
+  useSecurityEvents,
+  useSecurityStats,
+  useSystemHealth,
+} from "@/hooks/use-security-api";
+import RecentEventsCard from "@/components/dashboard/RecentEventsCard";
+import LocationActivityCard from "@/components/dashboard/LocationActivityCard";
 
-export default function Dashboard() {
-  const [events, setEvents] = useState<SecurityEvent[]>([]);
-  const [stats, setStats] = useState<SecurityStats>({
-    totalScans: 0,
-    authorizedScans: 0,
-    unauthorizedScans: 0,
-    dosAttacks: 0,
-    activeThreats: 0,
-    systemStatus: "operational",
-  });
-  const [systemHealth, setSystemHealth] = useState<SystemHealth | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// The feed shows every event
+const FEED_FILTER: SecurityEventFilter = {};
 
-  // Fetch all data
-  const fetchData = async () => {
-    try {
-      setError(null);
-      const [eventsResponse, statsResponse, healthResponse] = await Promise.all(
-        [
-          apiService.getSecurityEvents(1, 20),
-          apiService.getSecurityStats(),
-          apiService.getSystemHealth(),
-        ],
-      );
+const EMPTY_STATS: SecurityStats = {
+  totalScans: 0,
+  authorizedScans: 0,
+  unauthorizedScans: 0,
+  dosAttacks: 0,
+  activeThreats: 0,
+  systemStatus: "operational",
+};
 
-      setEvents(eventsResponse.events);
-      setStats(statsResponse);
-      setSystemHealth(healthResponse);
-    } catch (err) {
-      console.error("Error fetching dashboard data:", err);
-      setError("Failed to load dashboard data. Please try again.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+export default function Dashboard() {
+  const queryClient = useQueryClient();
+  const feed = useSecurityEvents(FEED_FILTER);
+  const statsQuery = useSecurityStats();
+  const healthQuery = useSystemHealth();
+  const isRefreshing = useIsFetching({ queryKey: securityKeys.all }) > 0;
 
-  // Initial data load
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const events = feed.data?.pages.flatMap((page) => page.events) ?? [];
+  const stats = statsQuery.data ?? EMPTY_STATS;
+  const systemHealth = healthQuery.data ?? null;
+  // The feed is newest first
+  const lastAttack = events.find((event) => event.type === "dos");
 
-  // Auto-refresh data every 10 seconds
-  useEffect(() => {
-    const interval = setInterval(fetchData, 10000);
-    return () => clearInterval(interval);
-  }, []);
+  // Only the first load blocks the page; refreshes update it in place
+  const isLoading = feed.isPending || statsQuery.isPending;
+  const error =
+    (feed.isError && !feed.data) || (statsQuery.isError && !statsQuery.data)
+      ? "Failed to load dashboard data. Please try again."
+      : null;
 
-  const handleRefresh = () => {
-    setIsLoading(true);
-    fetchData();
-  };
+  // Live updates once the initial snapshot is loaded
+  const streamStatus = useLiveSecurityUpdates({
+    enabled: feed.isSuccess,
+    lastEvent: events[0],
+  });
 
-  const getSeverityColor = (severity: string) => {
-    switch (severity) {
-      case "critical":
-        return "text-destructive";
-      case "high":
-        return "text-warning";
-      case "medium":
-        return "text-info";
-      default:
-        return "text-success";
-    }
-  };
+  const { fetchNextPage } = feed;
+  const loadOlderEvents = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
 
-  const getStatusBadge = (event: SecurityEvent) => {
-    if (event.type === "rfid") {
-      return event.status === "authorized" ? (
-        <Badge variant="outline" className="text-success border-success">
-          <CheckCircle className="h-3 w-3 mr-1" />
-          Authorized
-        </Badge>
-      ) : (
-        <Badge variant="destructive">
-          <AlertTriangle className="h-3 w-3 mr-1" />
-          Unauthorized
-        </Badge>
-      );
-    } else {
-      return event.status === "blocked" ? (
-        <Badge variant="outline" className="text-success border-success">
-          <Shield className="h-3 w-3 mr-1" />
-          Blocked
-        </Badge>
-      ) : (
-        <Badge variant="destructive">
-          <AlertTriangle className="h-3 w-3 mr-1" />
-          Detected
-        </Badge>
-      );
-    }
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: securityKeys.all });
   };
 
   if (isLoading) {
@@ -145,8 +104,10 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-muted-foreground">{error}</p>
-              <Button onClick={handleRefresh}>
-                <RefreshCw className="h-4 w-4 mr-2" />
+              <Button onClick={handleRefresh} disabled={isRefreshing}>
+                <RefreshCw
+                  className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`}
+                />
                 Try Again
               </Button>
             </CardContent>
@@ -169,12 +130,29 @@ export default function Dashboard() {
               Real-time monitoring of RFID access and DoS protection
             </p>
           </div>
-          <Button onClick={handleRefresh} disabled={isLoading}>
-            <RefreshCw
-              className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`}
-            />
-            Refresh
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Badge
+              variant="outline"
+              className={
+                streamStatus === "live"
+                  ? "text-success border-success"
+                  : "text-warning border-warning"
+              }
+            >
+              <Radio className="h-3 w-3 mr-1" />
+              {streamStatus === "live"
+                ? "Live"
+                : streamStatus === "polling"
+                  ? "Polling"
+                  : "Connecting"}
+            </Badge>
+            <Button onClick={handleRefresh} disabled={isRefreshing}>
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Status Cards */}
@@ -190,10 +168,6 @@ export default function Dashboard() {
               <div className="text-2xl font-bold">
                 {stats.totalScans.toLocaleString()}
               </div>
-              <p className="text-xs text-muted-foreground">
-                <TrendingUp className="h-3 w-3 inline mr-1" />
-                +12% from last hour
-              </p>
             </CardContent>
           </Card>
 
@@ -209,8 +183,9 @@ export default function Dashboard() {
                 {stats.authorizedScans.toLocaleString()}
               </div>
               <p className="text-xs text-muted-foreground">
-                {((stats.authorizedScans / stats.totalScans) * 100).toFixed(1)}%
-                success rate
+                {stats.totalScans > 0
+                  ? `${((stats.authorizedScans / stats.totalScans) * 100).toFixed(1)}% success rate`
+                  : "No scans yet"}
               </p>
             </CardContent>
           </Card>
@@ -226,10 +201,6 @@ export default function Dashboard() {
               <div className="text-2xl font-bold text-destructive">
                 {stats.unauthorizedScans}
               </div>
-              <p className="text-xs text-muted-foreground">
-                <TrendingDown className="h-3 w-3 inline mr-1" />
-                -5% from yesterday
-              </p>
             </CardContent>
           </Card>
 
@@ -243,7 +214,9 @@ export default function Dashboard() {
             <CardContent>
               <div className="text-2xl font-bold">{stats.dosAttacks}</div>
               <p className="text-xs text-muted-foreground">
-                Last attack: 2 hours ago
+                {lastAttack
+                  ? `Last attack: ${new Date(lastAttack.timestamp).toLocaleString()}`
+                  : "No attacks in recent events"}
               </p>
             </CardContent>
           </Card>
@@ -251,67 +224,12 @@ export default function Dashboard() {
 
         {/* System Health */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <Activity className="h-5 w-5" />
-                <span>Recent Security Events</span>
-              </CardTitle>
-              <CardDescription>
-                Live feed of RFID access attempts and DoS attack detection
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3 max-h-96 overflow-y-auto">
-                {events.map((event) => (
-                  <div
-                    key={event.id}
-                    className="flex items-center justify-between p-3 rounded-lg border border-border bg-card/50"
-                  >
-                    <div className="flex items-center space-x-3">
-                      <div
-                        className={`p-2 rounded-full ${event.type === "rfid" ? "bg-primary/10" : "bg-destructive/10"}`}
-                      >
-                        {event.type === "rfid" ? (
-                          <Wifi
-                            className={`h-4 w-4 ${event.status === "authorized" ? "text-success" : "text-destructive"}`}
-                          />
-                        ) : (
-                          <Shield className="h-4 w-4 text-destructive" />
-                        )}
-                      </div>
-                      <div>
-                        <div className="flex items-center space-x-2">
-                          <span className="font-medium">
-                            {event.type === "rfid"
-                              ? "RFID Access"
-                              : "DoS Attack"}
-                          </span>
-                          {getStatusBadge(event)}
-                        </div>
-                        <p className="text-sm text-muted-foreground">
-                          {event.type === "rfid"
-                            ? `${event.location} • Card: ${event.cardId}`
-                            : `Source IP: ${event.ipAddress}`}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <p className="text-sm text-muted-foreground">
-                        <Clock className="h-3 w-3 inline mr-1" />
-                        {new Date(event.timestamp).toLocaleTimeString()}
-                      </p>
-                      <p
-                        className={`text-xs font-medium ${getSeverityColor(event.severity)}`}
-                      >
-                        {event.severity.toUpperCase()}
-                      </p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <RecentEventsCard
+            events={events}
+            hasOlder={feed.hasNextPage}
+            isLoadingOlder={feed.isFetchingNextPage}
+            onLoadOlder={loadOlderEvents}
+          />
 
           <Card>
             <CardHeader>
@@ -427,6 +345,8 @@ export default function Dashboard() {
             </CardContent>
           </Card>
         </div>
+
+        <LocationActivityCard />
       </div>
     </Layout>
   );
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useIsFetching, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { RefreshCw, Shield } from "lucide-react";
+import Layout from "@/components/Layout";
+import ActivityTrendChart, {
+  RANGE_LABELS,
+} from "@/components/ActivityTrendChart";
+import OffendersCard from "@/components/dos/OffendersCard";
+import BlockedIpsCard from "@/components/dos/BlockedIpsCard";
+import BlockIpDialog from "@/components/dos/BlockIpDialog";
+import {
+  securityKeys,
+  useDosActivity,
+  useIpBlocks,
+  useSystemHealth,
+} from "@/hooks/use-security-api";
+import { useAuth } from "@/hooks/use-auth";
+import { ActivityRange, SystemHealth } from "@shared/api";
+
+const TREND_SERIES = {
+  blocked: { label: "Blocked", color: "hsl(var(--destructive))" },
+  detected: { label: "Detected", color: "hsl(var(--warning))" },
+};
+
+const STATUS_LABELS: Record<SystemHealth["dosProtection"]["status"], string> = {
+  active: "Active",
+  inactive: "Inactive",
+  maintenance: "Maintenance",
+};
+
+function ProtectionStatusCard({
+  protection,
+  blockedCount,
+}: {
+  protection?: SystemHealth["dosProtection"];
+  blockedCount?: number;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Shield className="h-5 w-5" />
+          <span>Protection Status</span>
+        </CardTitle>
+        <CardDescription>Mitigation currently in effect</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {protection ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span
+                className={`text-2xl font-bold ${protection.status === "active" ? "text-success" : "text-warning"}`}
+              >
+                {STATUS_LABELS[protection.status]}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {protection.percentage.toFixed(0)}% coverage
+              </span>
+            </div>
+            <Progress value={protection.percentage} className="h-2" />
+            <p className="text-sm text-muted-foreground">
+              {blockedCount === undefined
+                ? "Loading blocked addresses..."
+                : blockedCount === 1
+                  ? "1 address blocked"
+                  : `${blockedCount} addresses blocked`}
+            </p>
+          </>
+        ) : (
+          <div className="h-20 animate-pulse rounded-lg bg-muted" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DosProtection() {
+  const queryClient = useQueryClient();
+  const isRefreshing = useIsFetching({ queryKey: securityKeys.all }) > 0;
+  const { can } = useAuth();
+  const canBlock = can("ip:block");
+
+  const [range, setRange] = useState<ActivityRange>("24h");
+  // Address to block; "" opens the dialog empty, null closes it
+  const [blockTarget, setBlockTarget] = useState<string | null>(null);
+
+  const activity = useDosActivity({ range });
+  const blocks = useIpBlocks();
+  const health = useSystemHealth();
+
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: securityKeys.all });
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">
+              DoS Protection
+            </h1>
+            <p className="text-muted-foreground">
+              Attack traffic, offending addresses and active blocks
+            </p>
+          </div>
+          <Button onClick={handleRefresh} disabled={isRefreshing}>
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <ActivityTrendChart
+              title="Attack Timeline"
+              unit="events"
+              series={TREND_SERIES}
+              trend={activity.data?.trend}
+              bucketMinutes={activity.data?.bucketMinutes}
+              range={range}
+              onRangeChange={setRange}
+            />
+          </div>
+          <ProtectionStatusCard
+            protection={health.data?.dosProtection}
+            blockedCount={blocks.data?.blocks.length}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <OffendersCard
+              description={`${RANGE_LABELS[range]} • by number of events`}
+              offenders={activity.data?.offenders}
+              blocks={blocks.data?.blocks}
+              onBlock={canBlock ? setBlockTarget : undefined}
+            />
+          </div>
+          <BlockedIpsCard
+            blocks={blocks.data?.blocks}
+            onBlock={canBlock ? () => setBlockTarget("") : undefined}
+          />
+        </div>
+      </div>
+
+      <BlockIpDialog
+        open={blockTarget !== null}
+        ipAddress={blockTarget ?? undefined}
+        onOpenChange={(open) => !open && setBlockTarget(null)}
+      />
+    </Layout>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useIsFetching, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CreditCard, MapPin, RefreshCw, Search, Wifi, X } from "lucide-react";
+import Layout from "@/components/Layout";
+import ActivityTrendChart, {
+  RANGE_LABELS,
+} from "@/components/ActivityTrendChart";
+import ActivityBreakdownCard from "@/components/rfid/ActivityBreakdownCard";
+import RfidEventsTable from "@/components/rfid/RfidEventsTable";
+import CardHistorySheet from "@/components/rfid/CardHistorySheet";
+import LocationSelect from "@/components/LocationSelect";
+import {
+  securityKeys,
+  useLiveSecurityUpdates,
+  useRfidActivity,
+  useSecurityEventPage,
+} from "@/hooks/use-security-api";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  ActivityRange,
+  SECURITY_EVENT_SEVERITIES,
+  SecurityEvent,
+  SecurityEventFilter,
+  SecurityEventSortField,
+  SortOrder,
+} from "@shared/api";
+
+const PAGE_SIZE = 25;
+
+type StatusFilter = "all" | "authorized" | "unauthorized" | "parity_error";
+type SeverityFilter = "all" | SecurityEvent["severity"];
+
+const TREND_SERIES = {
+  authorized: { label: "Authorized", color: "hsl(var(--success))" },
+  unauthorized: { label: "Unauthorized", color: "hsl(var(--destructive))" },
+};
+
+// Text columns read best A-Z, the others newest or most severe first
+const DEFAULT_ORDER: Record<SecurityEventSortField, SortOrder> = {
+  timestamp: "desc",
+  severity: "desc",
+  location: "asc",
+  cardId: "asc",
+};
+
+export default function RfidMonitor() {
+  const queryClient = useQueryClient();
+  const isRefreshing = useIsFetching({ queryKey: securityKeys.all }) > 0;
+  // Other pages link here filtered to a location, e.g. the dashboard
+  const [searchParams] = useSearchParams();
+
+  const [range, setRange] = useState<ActivityRange>("24h");
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [severity, setSeverity] = useState<SeverityFilter>("all");
+  const [locationId, setLocationId] = useState<string | undefined>(
+    () => searchParams.get("locationId") ?? undefined,
+  );
+  const [locationInput, setLocationInput] = useState("");
+  const [cardInput, setCardInput] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [sort, setSort] = useState<SecurityEventSortField>("timestamp");
+  const [order, setOrder] = useState<SortOrder>("desc");
+  const [historyCard, setHistoryCard] = useState<string | null>(null);
+
+  const location = useDebouncedValue(locationInput.trim()) || undefined;
+  const cardId = useDebouncedValue(cardInput.trim()) || undefined;
+  const q = useDebouncedValue(searchInput.trim()) || undefined;
+
+  const filter: SecurityEventFilter = {
+    type: ["rfid"],
+    status: status === "all" ? undefined : [status],
+    severity: severity === "all" ? undefined : [severity],
+    location,
+    locationId,
+    cardId,
+    q,
+  };
+
+  // Any change of filter or order starts again at the first page
+  const listKey = JSON.stringify([filter, sort, order]);
+  const [paging, setPaging] = useState({ listKey, page: 1 });
+  const page = paging.listKey === listKey ? paging.page : 1;
+
+  const eventsQuery = useSecurityEventPage({
+    ...filter,
+    sort,
+    order,
+    page,
+    limit: PAGE_SIZE,
+  });
+  const activity = useRfidActivity({ range, location, locationId, cardId });
+
+  // Keeps an open card history current
+  useLiveSecurityUpdates();
+
+  const hasFilters =
+    status !== "all" ||
+    severity !== "all" ||
+    Boolean(locationId || locationInput || cardInput || searchInput);
+
+  const clearFilters = () => {
+    setStatus("all");
+    setSeverity("all");
+    setLocationId(undefined);
+    setLocationInput("");
+    setCardInput("");
+    setSearchInput("");
+  };
+
+  const filterByLocation = (selected: string) => {
+    setLocationInput(selected);
+    setHistoryCard(null);
+  };
+
+  // Selecting the location that is already filtered removes the filter
+  const toggleLocation = (selected: string) =>
+    filterByLocation(location === selected ? "" : selected);
+
+  const changeSort = (field: SecurityEventSortField) => {
+    if (field === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder(DEFAULT_ORDER[field]);
+    }
+  };
+
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: securityKeys.all });
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">RFID Monitor</h1>
+            <p className="text-muted-foreground">
+              Card scans by location and card, with full access history
+            </p>
+          </div>
+          <Button onClick={handleRefresh} disabled={isRefreshing}>
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+        </div>
+
+        <ActivityTrendChart
+          title="Access Trend"
+          unit="scans"
+          series={TREND_SERIES}
+          trend={activity.data?.trend}
+          bucketMinutes={activity.data?.bucketMinutes}
+          range={range}
+          onRangeChange={setRange}
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ActivityBreakdownCard
+            title="Busiest Locations"
+            description={`${RANGE_LABELS[range]} • select one to filter the events`}
+            icon={<MapPin className="h-5 w-5" />}
+            groups={activity.data?.locations}
+            selected={location}
+            onSelect={(group) => toggleLocation(group.key)}
+          />
+          <ActivityBreakdownCard
+            title="Most Active Cards"
+            description={`${RANGE_LABELS[range]} • select one for its history`}
+            icon={<CreditCard className="h-5 w-5" />}
+            groups={activity.data?.cards}
+            selected={historyCard ?? undefined}
+            onSelect={(group) => setHistoryCard(group.key)}
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Wifi className="h-5 w-5" />
+              <span>Access Events</span>
+            </CardTitle>
+            <CardDescription>
+              Select a row to see the card's access history
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative w-full sm:w-56">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search descriptions and names"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+              <LocationSelect
+                value={locationId}
+                onChange={setLocationId}
+                className="w-full sm:w-48"
+              />
+              <Input
+                placeholder="Location"
+                value={locationInput}
+                onChange={(e) => setLocationInput(e.target.value)}
+                className="w-full sm:w-48"
+              />
+              <Input
+                placeholder="Card ID"
+                value={cardInput}
+                onChange={(e) => setCardInput(e.target.value)}
+                className="w-full sm:w-40"
+              />
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as StatusFilter)}
+              >
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="authorized">Authorized</SelectItem>
+                  <SelectItem value="unauthorized">Unauthorized</SelectItem>
+                  <SelectItem value="parity_error">Parity error</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={severity}
+                onValueChange={(value) => setSeverity(value as SeverityFilter)}
+              >
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All severities</SelectItem>
+                  {SECURITY_EVENT_SEVERITIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option.charAt(0).toUpperCase() + option.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            {eventsQuery.data ? (
+              <RfidEventsTable
+                events={eventsQuery.data.events}
+                total={eventsQuery.data.total}
+                page={page}
+                pageSize={PAGE_SIZE}
+                sort={sort}
+                order={order}
+                isUpdating={eventsQuery.isPlaceholderData}
+                onSortChange={changeSort}
+                onPageChange={(target) => setPaging({ listKey, page: target })}
+                onCardSelect={setHistoryCard}
+                onLocationSelect={filterByLocation}
+              />
+            ) : eventsQuery.isError ? (
+              <div className="py-12 text-center space-y-4">
+                <p className="text-muted-foreground">
+                  Failed to load RFID events.
+                </p>
+                <Button variant="outline" onClick={() => eventsQuery.refetch()}>
+                  Try Again
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {Array.from({ length: 6 }, (_, index) => (
+                  <div
+                    key={index}
+                    className="h-10 animate-pulse rounded bg-muted"
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <CardHistorySheet
+        cardId={historyCard}
+        onClose={() => setHistoryCard(null)}
+        onLocationSelect={filterByLocation}
+      />
+    </Layout>
+  );
+}
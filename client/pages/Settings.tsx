@@ -0,0 +1,138 @@
+import { useSearchParams } from "react-router-dom";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import Layout from "@/components/Layout";
+import SettingsSectionCard from "@/components/settings/SettingsSectionCard";
+import {
+  AlertingFields,
+  DetectionFields,
+  IntegrationFields,
+  RetentionFields,
+} from "@/components/settings/SectionFields";
+import SettingsHistoryCard from "@/components/settings/SettingsHistoryCard";
+import UsersCard from "@/components/settings/UsersCard";
+import { useAuth } from "@/hooks/use-auth";
+import { useSettings } from "@/hooks/use-security-api";
+
+const TABS = [
+  "detection",
+  "alerting",
+  "retention",
+  "users",
+  "integrations",
+  "history",
+] as const;
+
+type SettingsTab = (typeof TABS)[number];
+
+export default function Settings() {
+  const { can } = useAuth();
+  const settings = useSettings();
+  const canManageUsers = can("users:manage");
+
+  // The open tab lives in the URL so it survives reloads and can be linked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requested = searchParams.get("tab") as SettingsTab;
+  const tab: SettingsTab =
+    TABS.includes(requested) && (requested !== "users" || canManageUsers)
+      ? requested
+      : "detection";
+
+  // Users and history load on their own
+  const showsSettings = tab !== "users" && tab !== "history";
+
+  const selectTab = (value: string) =>
+    setSearchParams({ tab: value }, { replace: true });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            System Settings
+          </h1>
+          <p className="text-muted-foreground">
+            Detection thresholds, alerting, retention, users and integrations
+          </p>
+        </div>
+
+        <Tabs value={tab} onValueChange={selectTab} className="space-y-4">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="detection">Detection</TabsTrigger>
+            <TabsTrigger value="alerting">Alerting</TabsTrigger>
+            <TabsTrigger value="retention">Retention</TabsTrigger>
+            {canManageUsers && <TabsTrigger value="users">Users</TabsTrigger>}
+            <TabsTrigger value="integrations">Integrations</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          {canManageUsers && (
+            <TabsContent value="users">
+              <UsersCard />
+            </TabsContent>
+          )}
+          <TabsContent value="history">
+            <SettingsHistoryCard />
+          </TabsContent>
+
+          {settings.isError ? (
+            showsSettings && (
+              <div className="py-12 text-center space-y-4">
+                <p className="text-muted-foreground">
+                  Failed to load settings.
+                </p>
+                <Button variant="outline" onClick={() => settings.refetch()}>
+                  Try Again
+                </Button>
+              </div>
+            )
+          ) : !settings.data ? (
+            showsSettings && (
+              <div className="h-64 animate-pulse rounded-lg bg-muted" />
+            )
+          ) : (
+            <>
+              <TabsContent value="detection">
+                <SettingsSectionCard
+                  section="detection"
+                  description="When active threats raise the system status to warning or critical."
+                  settings={settings.data.detection}
+                >
+                  {(props) => <DetectionFields {...props} />}
+                </SettingsSectionCard>
+              </TabsContent>
+              <TabsContent value="alerting">
+                <SettingsSectionCard
+                  section="alerting"
+                  description="Which events notify the security team."
+                  settings={settings.data.alerting}
+                >
+                  {(props) => <AlertingFields {...props} />}
+                </SettingsSectionCard>
+              </TabsContent>
+              <TabsContent value="retention">
+                <SettingsSectionCard
+                  section="retention"
+                  description="How much history the server keeps."
+                  settings={settings.data.retention}
+                >
+                  {(props) => <RetentionFields {...props} />}
+                </SettingsSectionCard>
+              </TabsContent>
+              <TabsContent value="integrations">
+                <SettingsSectionCard
+                  section="integrations"
+                  description="Connections to outside systems."
+                  settings={settings.data.integrations}
+                >
+                  {(props) => <IntegrationFields {...props} />}
+                </SettingsSectionCard>
+              </TabsContent>
+            </>
+          )}
+        </Tabs>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { ApiError } from "./api-error";
+
+const jsonResponse = (
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+describe("ApiError.fromResponse", () => {
+  it("should keep the auth error code and message", async () => {
+    const error = await ApiError.fromResponse(
+      jsonResponse(
+        403,
+        {
+          error: "Forbidden",
+          code: "forbidden",
+          message: "Requires the users:manage permission",
+        },
+        { "X-Request-Id": "req-1" },
+      ),
+    );
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 403,
+      code: "forbidden",
+      message: "Requires the users:manage permission",
+      requestId: "req-1",
+      isClientError: true,
+    });
+  });
+
+  it("should expose validation field errors", async () => {
+    const error = await ApiError.fromResponse(
+      jsonResponse(400, {
+        error: "Invalid request body",
+        fields: { status: "Required" },
+      }),
+    );
+
+    expect(error.code).toBe("invalid_request");
+    expect(error.fields).toEqual({ status: "Required" });
+  });
+
+  it("should cope with bodies that are not JSON", async () => {
+    const error = await ApiError.fromResponse(
+      new Response("Bad Gateway", { status: 502 }),
+    );
+
+    expect(error).toMatchObject({
+      status: 502,
+      code: "http_error",
+      message: "Request failed with status 502",
+      isClientError: false,
+    });
+  });
+});
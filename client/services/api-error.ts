@@ -0,0 +1,78 @@
+import { ApiErrorResponse, AuthErrorCode } from "@shared/api";
+
+export type ApiErrorCode =
+  | AuthErrorCode
+  /** The caller's IP address is blocked by DoS protection */
+  | "ip_blocked"
+  /** Rejected by request validation; see `fields` */
+  | "invalid_request"
+  /** The server could not be reached */
+  | "network_error"
+  /** The response did not match the expected schema */
+  | "invalid_response"
+  /** Any other non-2xx response */
+  | "http_error";
+
+interface ApiErrorDetails {
+  code?: ApiErrorCode;
+  serverMessage?: string;
+  fields?: Record<string, string>;
+  requestId?: string;
+}
+
+/**
+ * Error thrown by ApiService for failed requests. `status` is the HTTP
+ * status, or 0 when no response was received.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  /** Explanation sent by the server, if any */
+  readonly serverMessage?: string;
+  /** Validation problems per field */
+  readonly fields?: Record<string, string>;
+  /** X-Request-Id of the response, for matching server logs */
+  readonly requestId?: string;
+
+  constructor(status: number, message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = details.code ?? "http_error";
+    this.serverMessage = details.serverMessage;
+    this.fields = details.fields;
+    this.requestId = details.requestId;
+  }
+
+  static async fromResponse(response: Response): Promise<ApiError> {
+    const body: Partial<ApiErrorResponse> = await response
+      .clone()
+      .json()
+      .catch(() => ({}));
+
+    const serverMessage = body.message ?? body.error;
+    const code =
+      (body.code as ApiErrorCode) ??
+      (body.fields ? "invalid_request" : undefined);
+
+    return new ApiError(
+      response.status,
+      serverMessage ?? `Request failed with status ${response.status}`,
+      {
+        code,
+        serverMessage,
+        fields: body.fields,
+        requestId:
+          body.requestId ?? response.headers.get("X-Request-Id") ?? undefined,
+      },
+    );
+  }
+
+  /** Client errors are not worth retrying: the same request fails again */
+  get isClientError(): boolean {
+    return this.status >= 400 && this.status < 500;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
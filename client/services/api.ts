@@ -1,3 +1,4 @@
+import { z } from "zod";
 import {
   SecurityEventsResponse,
   SecurityStatsResponse,
@@ -5,21 +6,129 @@ import {
   LoginRequest,
   LoginResponse,
   SecurityEvent,
+  SecurityStatsQuery,
+  StatsRules,
+  SecurityStreamEventType,
+  SecurityStreamPayloads,
+  SecurityEventsQuery,
+  RefreshTokenResponse,
+  VerifyTokenResponse,
+  LogoutRequest,
+  AuthErrorResponse,
+  AuthUser,
+  ManagedUser,
+  UsersResponse,
+  CreateUserRequest,
+  UpdateUserRequest,
+  MfaLoginRequest,
+  MfaSetupRequest,
+  MfaSetupResponse,
+  MfaRecoveryCodesResponse,
+  MfaStatusResponse,
+  AddSecurityEventRequest,
+  ValidationErrorResponse,
+  RfidActivityQuery,
+  RfidActivityResponse,
+  DosActivityQuery,
+  DosActivityResponse,
+  IpBlock,
+  IpBlocksResponse,
+  BlockIpRequest,
+  SystemSettings,
+  UpdateSettingsRequest,
+  SettingsHistoryResponse,
+  CardholderDetails,
+  CardholdersQuery,
+  CardholdersResponse,
+  CreateCardholderRequest,
+  UpdateCardholderRequest,
+  Credential,
+  IssueCredentialRequest,
+  UpdateCredentialRequest,
+  LocationsResponse,
 } from "@shared/api";
+import {
+  DEFAULT_EVENTS_LIMIT,
+  MAX_EVENTS_LIMIT,
+  encodeEventCursor,
+  toSearchParams,
+} from "@shared/event-query";
+import { ApiError } from "./api-error";
+import {
+  cardholderDetailsSchema,
+  cardholdersResponseSchema,
+  credentialSchema,
+  dosActivityResponseSchema,
+  ipBlockSchema,
+  ipBlocksResponseSchema,
+  locationsResponseSchema,
+  managedUserSchema,
+  messageResponseSchema,
+  mfaRecoveryCodesResponseSchema,
+  mfaSetupResponseSchema,
+  mfaStatusResponseSchema,
+  refreshTokenResponseSchema,
+  rfidActivityResponseSchema,
+  securityEventSchema,
+  securityEventsResponseSchema,
+  securityStatsResponseSchema,
+  settingsHistoryResponseSchema,
+  statsRulesSchema,
+  systemHealthResponseSchema,
+  systemSettingsSchema,
+  usersResponseSchema,
+  verifyTokenResponseSchema,
+} from "@shared/schemas";
 
 const BASE_URL = "/api";
 
+// Endpoints whose 401 means bad credentials rather than an expired token
+const NO_REFRESH_ENDPOINTS = [
+  "/auth/login",
+  "/auth/refresh",
+  "/auth/logout",
+  "/auth/mfa/setup",
+];
+
+interface RequestOptions extends RequestInit {
+  /** Checks the response body, so malformed data fails here, not in the UI */
+  schema?: z.ZodTypeAny;
+}
+
+export type SecurityStreamStatus = "connecting" | "live" | "polling";
+
+export interface SecurityStreamHandlers {
+  onEvent?: (event: SecurityEvent) => void;
+  onStats?: (stats: SecurityStreamPayloads["stats"]) => void;
+  onHealth?: (health: SystemHealthResponse) => void;
+  /** The stream could not resume where the caller left off; reload events */
+  onReset?: () => void;
+  onStatusChange?: (status: SecurityStreamStatus) => void;
+}
+
+export interface SecurityStreamOptions {
+  /** Newest event the caller already has; only newer events are delivered */
+  lastEvent?: SecurityEvent;
+  /** Polling interval used while the stream is unavailable */
+  pollInterval?: number;
+}
+
 class ApiService {
+  // In-flight refresh shared by all requests that hit a 401 at the same time
+  private refreshing: Promise<boolean> | null = null;
+  private authListeners = new Set<() => void>();
+
   private async request<T>(
     endpoint: string,
-    options?: RequestInit,
+    { schema, ...options }: RequestOptions = {},
+    retryOnUnauthorized = true,
   ): Promise<T> {
     const url = `${BASE_URL}${endpoint}`;
 
     const config: RequestInit = {
       headers: {
         "Content-Type": "application/json",
-        ...options?.headers,
+        ...options.headers,
       },
       ...options,
     };
@@ -34,13 +143,53 @@ class ApiService {
     }
 
     try {
-      const response = await fetch(url, config);
+      const response = await fetch(url, config).catch((error) => {
+        throw new ApiError(0, "Unable to connect to server", {
+          code: "network_error",
+          serverMessage: String(error),
+        });
+      });
+
+      if (
+        response.status === 401 &&
+        token &&
+        !NO_REFRESH_ENDPOINTS.includes(endpoint)
+      ) {
+        const body: Partial<AuthErrorResponse> = await response
+          .clone()
+          .json()
+          .catch(() => ({}));
+
+        // Access tokens are short-lived: refresh once and replay the request
+        if (body.code === "token_expired") {
+          if (retryOnUnauthorized && (await this.refreshAccessToken())) {
+            return this.request<T>(endpoint, { schema, ...options }, false);
+          }
+        } else if (
+          body.code === "invalid_token" ||
+          body.code === "token_revoked"
+        ) {
+          // The session is gone for good - drop the stale credentials
+          this.clearAuthToken();
+        }
+      }
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await ApiError.fromResponse(response);
       }
 
-      return await response.json();
+      const body = await response.json();
+      if (!schema) return body;
+
+      const parsed = schema.safeParse(body);
+      if (!parsed.success) {
+        console.error(`Unexpected response from ${endpoint}:`, parsed.error);
+        throw new ApiError(response.status, "Unexpected response from server", {
+          code: "invalid_response",
+          requestId: response.headers.get("X-Request-Id") ?? undefined,
+        });
+      }
+      return parsed.data;
     } catch (error) {
       console.error(`API request failed for ${endpoint}:`, error);
       throw error;
@@ -49,80 +198,569 @@ class ApiService {
 
   // Security Events
   async getSecurityEvents(
-    page = 1,
-    limit = 20,
+    query: SecurityEventsQuery = {},
   ): Promise<SecurityEventsResponse> {
+    const search = toSearchParams(query).toString();
     return this.request<SecurityEventsResponse>(
-      `/security/events?page=${page}&limit=${limit}`,
+      `/security/events${search ? `?${search}` : ""}`,
+      { schema: securityEventsResponseSchema },
     );
   }
 
   async addSecurityEvent(
-    event: Partial<SecurityEvent>,
+    event: AddSecurityEventRequest,
   ): Promise<SecurityEvent> {
     return this.request<SecurityEvent>("/security/events", {
       method: "POST",
       body: JSON.stringify(event),
+      schema: securityEventSchema,
     });
   }
 
-  // Security Stats
-  async getSecurityStats(): Promise<SecurityStatsResponse> {
-    return this.request<SecurityStatsResponse>("/security/stats");
+  /**
+   * Subscribe to live events, stats and health over Server-Sent Events.
+   * While the stream is down, falls back to polling the REST endpoints and
+   * resumes from the last received event once it reconnects.
+   * Returns a function that closes the subscription.
+   */
+  subscribeToSecurityStream(
+    handlers: SecurityStreamHandlers,
+    options: SecurityStreamOptions = {},
+  ): () => void {
+    const pollInterval = options.pollInterval ?? 10000;
+    let lastEvent = options.lastEvent;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const setStatus = (status: SecurityStreamStatus) => {
+      if (!closed) handlers.onStatusChange?.(status);
+    };
+
+    const deliverEvent = (event: SecurityEvent) => {
+      lastEvent = event;
+      handlers.onEvent?.(event);
+    };
+
+    const poll = async () => {
+      try {
+        const [eventsResponse, stats, health] = await Promise.all([
+          this.getSecurityEvents(
+            lastEvent
+              ? { after: encodeEventCursor(lastEvent), limit: MAX_EVENTS_LIMIT }
+              : { limit: DEFAULT_EVENTS_LIMIT },
+          ),
+          this.getSecurityStats(),
+          this.getSystemHealth(),
+        ]);
+        if (closed) return;
+
+        [...eventsResponse.events].reverse().forEach(deliverEvent);
+        handlers.onStats?.(stats);
+        handlers.onHealth?.(health);
+      } catch (error) {
+        console.error("Security polling failed:", error);
+      }
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      setStatus("polling");
+      poll();
+      pollTimer = setInterval(poll, pollInterval);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const listen = <T extends SecurityStreamEventType>(
+      stream: EventSource,
+      type: T,
+      handler: (data: SecurityStreamPayloads[T]) => void,
+    ) => {
+      stream.addEventListener(type, (message: MessageEvent<string>) => {
+        handler(JSON.parse(message.data));
+      });
+    };
+
+    const connect = () => {
+      // EventSource cannot send headers, so the token goes in the query
+      const params = new URLSearchParams();
+      if (lastEvent) params.set("lastEventId", lastEvent.id);
+      const token = this.getAuthToken();
+      if (token) params.set("access_token", token);
+      const search = params.toString();
+
+      const stream = new EventSource(
+        `${BASE_URL}/security/stream${search ? `?${search}` : ""}`,
+      );
+      source = stream;
+
+      stream.onopen = () => {
+        stopPolling();
+        setStatus("live");
+      };
+
+      listen(stream, "security-event", deliverEvent);
+      listen(stream, "stats", (stats) => handlers.onStats?.(stats));
+      listen(stream, "health", (health) => handlers.onHealth?.(health));
+      listen(stream, "reset", () => handlers.onReset?.());
+
+      stream.onerror = () => {
+        startPolling();
+
+        // The browser retries transient failures itself; after a fatal one
+        // (e.g. a non-200 response) reconnect manually
+        if (stream.readyState === EventSource.CLOSED) {
+          stream.close();
+          reconnectTimer = setTimeout(connect, pollInterval);
+        }
+      };
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      setStatus("connecting");
+      connect();
+    }
+
+    return () => {
+      closed = true;
+      source?.close();
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
   }
 
-  async updateSecurityStats(
-    stats: Partial<SecurityStatsResponse>,
+  // Security Stats
+  async getSecurityStats(
+    query: SecurityStatsQuery = {},
   ): Promise<SecurityStatsResponse> {
-    return this.request<SecurityStatsResponse>("/security/stats", {
+    const params = new URLSearchParams();
+    if (query.since) params.set("since", query.since);
+    if (query.until) params.set("until", query.until);
+    const search = params.toString();
+
+    return this.request<SecurityStatsResponse>(
+      `/security/stats${search ? `?${search}` : ""}`,
+      { schema: securityStatsResponseSchema },
+    );
+  }
+
+  async getStatsRules(): Promise<StatsRules> {
+    return this.request<StatsRules>("/security/stats/rules", {
+      schema: statsRulesSchema,
+    });
+  }
+
+  async updateStatsRules(rules: Partial<StatsRules>): Promise<StatsRules> {
+    return this.request<StatsRules>("/security/stats/rules", {
       method: "PUT",
-      body: JSON.stringify(stats),
+      body: JSON.stringify(rules),
+      schema: statsRulesSchema,
     });
   }
 
+  // RFID Activity
+  async getRfidActivity(
+    query: RfidActivityQuery = {},
+  ): Promise<RfidActivityResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+    const search = params.toString();
+
+    return this.request<RfidActivityResponse>(
+      `/security/rfid/activity${search ? `?${search}` : ""}`,
+      { schema: rfidActivityResponseSchema },
+    );
+  }
+
+  // DoS Protection
+  async getDosActivity(
+    query: DosActivityQuery = {},
+  ): Promise<DosActivityResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+    const search = params.toString();
+
+    return this.request<DosActivityResponse>(
+      `/security/dos/activity${search ? `?${search}` : ""}`,
+      { schema: dosActivityResponseSchema },
+    );
+  }
+
+  async getIpBlocks(): Promise<IpBlocksResponse> {
+    return this.request<IpBlocksResponse>("/security/dos/blocks", {
+      schema: ipBlocksResponseSchema,
+    });
+  }
+
+  async blockIp(request: BlockIpRequest): Promise<IpBlock> {
+    return this.request<IpBlock>("/security/dos/blocks", {
+      method: "POST",
+      body: JSON.stringify(request),
+      schema: ipBlockSchema,
+    });
+  }
+
+  async unblockIp(ipAddress: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(
+      `/security/dos/blocks/${encodeURIComponent(ipAddress)}`,
+      { method: "DELETE", schema: messageResponseSchema },
+    );
+  }
+
   // System Health
   async getSystemHealth(): Promise<SystemHealthResponse> {
-    return this.request<SystemHealthResponse>("/security/health");
+    return this.request<SystemHealthResponse>("/security/health", {
+      schema: systemHealthResponseSchema,
+    });
   }
 
   // Authentication
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
-    return this.request<LoginResponse>("/auth/login", {
+  /**
+   * Rejected logins (bad credentials, disabled account, lockout, wrong code)
+   * resolve with `success: false` and the server's explanation; only server
+   * and network failures throw an ApiError
+   */
+  private async loginStep(
+    endpoint: string,
+    body: LoginRequest | MfaLoginRequest,
+  ): Promise<LoginResponse> {
+    const response = await fetch(`${BASE_URL}${endpoint}`, {
       method: "POST",
-      body: JSON.stringify(credentials),
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }).catch((error) => {
+      throw new ApiError(0, "Unable to connect to server", {
+        code: "network_error",
+        serverMessage: String(error),
+      });
     });
+
+    if (response.status >= 500) {
+      throw await ApiError.fromResponse(response);
+    }
+
+    const result: LoginResponse | ValidationErrorResponse =
+      await response.json();
+    if ("fields" in result) {
+      // Rejected by request validation, e.g. an empty field
+      return { success: false, message: Object.values(result.fields)[0] };
+    }
+    return result;
+  }
+
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
+    return this.loginStep("/auth/login", credentials);
   }
 
-  async verifyToken(): Promise<{ valid: boolean; user?: any }> {
-    return this.request<{ valid: boolean; user?: any }>("/auth/verify");
+  /**
+   * Second login step after a response with `mfaRequired`
+   */
+  async loginMfa(request: MfaLoginRequest): Promise<LoginResponse> {
+    return this.loginStep("/auth/login/mfa", request);
+  }
+
+  async verifyToken(): Promise<VerifyTokenResponse> {
+    return this.request<VerifyTokenResponse>("/auth/verify", {
+      schema: verifyTokenResponseSchema,
+    });
   }
 
   async logout(): Promise<{ message: string }> {
-    const result = await this.request<{ message: string }>("/auth/logout", {
+    const body: LogoutRequest = {
+      refreshToken: localStorage.getItem("refresh_token") ?? undefined,
+    };
+
+    try {
+      return await this.request<{ message: string }>("/auth/logout", {
+        method: "POST",
+        body: JSON.stringify(body),
+        schema: messageResponseSchema,
+      });
+    } finally {
+      // Clear local storage even if the server could not be reached
+      this.clearAuthToken();
+    }
+  }
+
+  // Two-factor authentication
+  async getMfaStatus(): Promise<MfaStatusResponse> {
+    return this.request<MfaStatusResponse>("/auth/mfa", {
+      schema: mfaStatusResponseSchema,
+    });
+  }
+
+  /**
+   * Start enrollment for the signed-in user, or with the challenge of a
+   * login that requires it
+   */
+  async setupMfa(challengeToken?: string): Promise<MfaSetupResponse> {
+    const body: MfaSetupRequest = { challengeToken };
+    return this.request<MfaSetupResponse>("/auth/mfa/setup", {
       method: "POST",
+      body: JSON.stringify(body),
+      schema: mfaSetupResponseSchema,
     });
+  }
 
-    // Clear local storage
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("user_data");
+  async confirmMfa(code: string): Promise<MfaRecoveryCodesResponse> {
+    return this.request<MfaRecoveryCodesResponse>("/auth/mfa/confirm", {
+      method: "POST",
+      body: JSON.stringify({ code }),
+      schema: mfaRecoveryCodesResponseSchema,
+    });
+  }
 
-    return result;
+  async regenerateRecoveryCodes(
+    code: string,
+  ): Promise<MfaRecoveryCodesResponse> {
+    return this.request<MfaRecoveryCodesResponse>("/auth/mfa/recovery-codes", {
+      method: "POST",
+      body: JSON.stringify({ code }),
+      schema: mfaRecoveryCodesResponseSchema,
+    });
+  }
+
+  async disableMfa(code?: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>("/auth/mfa", {
+      method: "DELETE",
+      body: JSON.stringify({ code }),
+      schema: messageResponseSchema,
+    });
+  }
+
+  // System Settings
+  async getSettings(): Promise<SystemSettings> {
+    return this.request<SystemSettings>("/settings", {
+      schema: systemSettingsSchema,
+    });
+  }
+
+  async updateSettings(
+    updates: UpdateSettingsRequest,
+  ): Promise<SystemSettings> {
+    return this.request<SystemSettings>("/settings", {
+      method: "PUT",
+      body: JSON.stringify(updates),
+      schema: systemSettingsSchema,
+    });
+  }
+
+  async getSettingsHistory(): Promise<SettingsHistoryResponse> {
+    return this.request<SettingsHistoryResponse>("/settings/history", {
+      schema: settingsHistoryResponseSchema,
+    });
+  }
+
+  // Cardholders and Credentials
+  async getCardholders(
+    query: CardholdersQuery = {},
+  ): Promise<CardholdersResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+    const search = params.toString();
+
+    return this.request<CardholdersResponse>(
+      `/cardholders${search ? `?${search}` : ""}`,
+      { schema: cardholdersResponseSchema },
+    );
+  }
+
+  async createCardholder(
+    cardholder: CreateCardholderRequest,
+  ): Promise<CardholderDetails> {
+    return this.request<CardholderDetails>("/cardholders", {
+      method: "POST",
+      body: JSON.stringify(cardholder),
+      schema: cardholderDetailsSchema,
+    });
+  }
+
+  async updateCardholder(
+    id: string,
+    updates: UpdateCardholderRequest,
+  ): Promise<CardholderDetails> {
+    return this.request<CardholderDetails>(
+      `/cardholders/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+        schema: cardholderDetailsSchema,
+      },
+    );
+  }
+
+  async deleteCardholder(id: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(
+      `/cardholders/${encodeURIComponent(id)}`,
+      { method: "DELETE", schema: messageResponseSchema },
+    );
+  }
+
+  async issueCredential(request: IssueCredentialRequest): Promise<Credential> {
+    return this.request<Credential>("/credentials", {
+      method: "POST",
+      body: JSON.stringify(request),
+      schema: credentialSchema,
+    });
+  }
+
+  async updateCredential(
+    id: string,
+    updates: UpdateCredentialRequest,
+  ): Promise<Credential> {
+    return this.request<Credential>(`/credentials/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(updates),
+      schema: credentialSchema,
+    });
+  }
+
+  // Locations
+  async getLocations(): Promise<LocationsResponse> {
+    return this.request<LocationsResponse>("/locations", {
+      schema: locationsResponseSchema,
+    });
+  }
+
+  // User Management
+  async getUsers(): Promise<UsersResponse> {
+    return this.request<UsersResponse>("/users", {
+      schema: usersResponseSchema,
+    });
+  }
+
+  async createUser(user: CreateUserRequest): Promise<ManagedUser> {
+    return this.request<ManagedUser>("/users", {
+      method: "POST",
+      body: JSON.stringify(user),
+      schema: managedUserSchema,
+    });
+  }
+
+  async updateUser(
+    id: string,
+    updates: UpdateUserRequest,
+  ): Promise<ManagedUser> {
+    return this.request<ManagedUser>(`/users/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(updates),
+      schema: managedUserSchema,
+    });
+  }
+
+  async resetUserMfa(id: string): Promise<ManagedUser> {
+    return this.request<ManagedUser>(`/users/${encodeURIComponent(id)}/mfa`, {
+      method: "DELETE",
+      schema: managedUserSchema,
+    });
+  }
+
+  async resetUserPassword(id: string, password: string): Promise<ManagedUser> {
+    return this.request<ManagedUser>(
+      `/users/${encodeURIComponent(id)}/password`,
+      {
+        method: "POST",
+        body: JSON.stringify({ password }),
+        schema: managedUserSchema,
+      },
+    );
+  }
+
+  /**
+   * Exchange the stored refresh token for a new token pair.
+   * Resolves false (and signs out locally) when the session has ended.
+   */
+  refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = localStorage.getItem("refresh_token");
+    if (!refreshToken) return false;
+
+    try {
+      const response = await this.request<RefreshTokenResponse>(
+        "/auth/refresh",
+        {
+          method: "POST",
+          body: JSON.stringify({ refreshToken }),
+          schema: refreshTokenResponseSchema,
+        },
+      );
+      this.setAuthToken(response.token, response.refreshToken);
+      return true;
+    } catch {
+      this.clearAuthToken();
+      return false;
+    }
   }
 
   // Helper methods for token management
-  setAuthToken(token: string): void {
+  setAuthToken(token: string, refreshToken?: string): void {
     localStorage.setItem("auth_token", token);
+    if (refreshToken) localStorage.setItem("refresh_token", refreshToken);
   }
 
   getAuthToken(): string | null {
     return localStorage.getItem("auth_token");
   }
 
+  /**
+   * User returned by the last login, including the role's permissions
+   */
+  getCurrentUser(): AuthUser | null {
+    try {
+      return JSON.parse(localStorage.getItem("user_data") ?? "null");
+    } catch {
+      return null;
+    }
+  }
+
+  setCurrentUser(user: AuthUser): void {
+    localStorage.setItem("user_data", JSON.stringify(user));
+    this.notifyAuthChange();
+  }
+
   clearAuthToken(): void {
     localStorage.removeItem("auth_token");
+    localStorage.removeItem("refresh_token");
     localStorage.removeItem("user_data");
+    this.notifyAuthChange();
+  }
+
+  /**
+   * Called when the user signs in or the session ends, including when a
+   * refresh fails in the background. Returns an unsubscribe function.
+   */
+  onAuthChange(listener: () => void): () => void {
+    this.authListeners.add(listener);
+    return () => this.authListeners.delete(listener);
+  }
+
+  private notifyAuthChange(): void {
+    this.authListeners.forEach((listener) => listener());
   }
 }
 
+export { ApiError, isApiError } from "./api-error";
+
 export const apiService = new ApiService();
 export default apiService;
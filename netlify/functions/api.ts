@@ -1,5 +1,10 @@
 import serverless from "serverless-http";
 
 import { createServer } from "../../server";
+import { storageConfigFromEnv } from "../../server/storage";
 
-export const handler = serverless(createServer());
+// Function bundles are read-only; only /tmp is writable
+const storage = storageConfigFromEnv();
+storage.path = storage.path ?? "/tmp/secureguard";
+
+export const handler = serverless(createServer({ storage }));
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { MemoryStore } from "./storage/memory";
+import { decideAccess } from "./access";
+import { resolveLocation } from "./locations";
+
+// Seeded directory and policy: ch-1 (Engineering on call) holds CARD-A1B2C3,
+// ch-4 (Finance, business hours) CARD-K1L2M3, ch-7's card is suspended
+const MONDAY_NOON = new Date("2024-06-03T12:00:00Z");
+const SUNDAY_NOON = new Date("2024-06-02T12:00:00Z");
+
+const decide = (
+  store: MemoryStore,
+  cardId: string,
+  location: string,
+  now = MONDAY_NOON,
+) => decideAccess(store, { cardId, location }, now);
+
+describe("decideAccess", () => {
+  it("should grant access through a group covering the zone", async () => {
+    const store = new MemoryStore();
+    const decision = await decide(store, "card-a1b2c3", "Floor 5 - Room 110");
+
+    expect(decision).toMatchObject({
+      allowed: true,
+      reason: "granted",
+      zoneId: "server-rooms",
+      groupId: "engineering",
+    });
+    expect(decision.event).toMatchObject({
+      status: "authorized",
+      severity: "low",
+      cardholderName: "Alice Moreno",
+      description: "Access granted (granted)",
+    });
+    expect((await store.listEvents()).events).toHaveLength(1);
+  });
+
+  it("should match zones by the display string of a door", async () => {
+    const store = new MemoryStore();
+    const door = await resolveLocation(store, "loc-door-501");
+    const decision = await decideAccess(
+      store,
+      { cardId: "CARD-A1B2C3", ...door },
+      MONDAY_NOON,
+    );
+
+    expect(decision).toMatchObject({ allowed: true, zoneId: "server-rooms" });
+    expect(decision.event).toMatchObject({
+      location: "Floor 5 - Server Wing - Room 501",
+      locationId: "loc-door-501",
+      locationPath: [
+        "loc-hq",
+        "loc-main",
+        "loc-floor-5",
+        "loc-server-wing",
+        "loc-door-501",
+      ],
+    });
+  });
+
+  it("should tell apart rooms of the same name in two buildings", async () => {
+    const store = new MemoryStore();
+    const node = {
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    };
+    await store.saveLocation({
+      ...node,
+      id: "loc-annex",
+      name: "Annex",
+      kind: "building",
+      parentId: "loc-hq",
+    });
+    await store.saveLocation({
+      ...node,
+      id: "loc-annex-floor-1",
+      name: "Floor 1",
+      kind: "floor",
+      parentId: "loc-annex",
+    });
+    await store.saveLocation({
+      ...node,
+      id: "loc-annex-door-101",
+      name: "Room 101",
+      kind: "door",
+      parentId: "loc-annex-floor-1",
+    });
+    const scan = async (locationId: string) =>
+      decideAccess(
+        store,
+        {
+          cardId: "CARD-A1B2C3",
+          ...(await resolveLocation(store, locationId)),
+        },
+        MONDAY_NOON,
+      );
+
+    // The ground floor zone covers Floor 1 of the Main Building only
+    const main = await scan("loc-door-101");
+    const annex = await scan("loc-annex-door-101");
+
+    expect(main.event.location).toBe("Floor 1 - Room 101");
+    expect(annex.event.location).toBe("Floor 1 - Room 101");
+    expect(main).toMatchObject({ allowed: true, zoneId: "ground-floor" });
+    expect(annex).toMatchObject({
+      allowed: false,
+      reason: "unknown_location",
+    });
+  });
+
+  it("should deny by the first failing check", async () => {
+    const store = new MemoryStore();
+    const reasons = await Promise.all([
+      decide(store, "CARD-NOBODY", "Floor 1 - Room 100"),
+      decide(store, "CARD-U1V2W3", "Floor 1 - Room 100"),
+      decide(store, "CARD-K1L2M3", "Basement"),
+      decide(store, "CARD-K1L2M3", "Floor 5 - Room 100"),
+      decide(store, "CARD-K1L2M3", "Floor 4 - Room 100", SUNDAY_NOON),
+    ]);
+
+    expect(reasons.map((d) => d.reason)).toEqual([
+      "unknown_card",
+      "credential_suspended",
+      "unknown_location",
+      "no_zone_access",
+      "outside_schedule",
+    ]);
+    expect(reasons.every((d) => d.event.status === "unauthorized")).toBe(true);
+    expect(reasons[0].event.severity).toBe("high");
+  });
+
+  it("should refuse cards of inactive cardholders and expired cards", async () => {
+    const store = new MemoryStore();
+    const ben = await store.findCardholder("ch-2");
+    await store.saveCardholder({ ...ben, status: "inactive" });
+    const [card] = await store.listCredentials("ch-1");
+    await store.saveCredential({
+      ...card,
+      expiresAt: "2024-06-01T00:00:00.000Z",
+    });
+
+    expect(
+      (await decide(store, "CARD-D4E5F6", "Floor 1 - Room 100")).reason,
+    ).toBe("cardholder_inactive");
+    expect(
+      (await decide(store, "CARD-A1B2C3", "Floor 1 - Room 100")).reason,
+    ).toBe("credential_expired");
+  });
+});
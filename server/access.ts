@@ -0,0 +1,167 @@
+import { randomUUID } from "crypto";
+import {
+  AccessDecisionResponse,
+  AccessPolicy,
+  AccessReason,
+  Cardholder,
+  Credential,
+  SecurityEvent,
+} from "@shared/api";
+import {
+  ACCESS_REASON_MESSAGES,
+  scheduleAllows,
+  zonesForLocation,
+} from "@shared/access";
+import { SecurityStore } from "./storage";
+import { EventLocation } from "./locations";
+
+/** Where a card was scanned: a location of the hierarchy or a plain string */
+export type ScanLocation = Pick<EventLocation, "location" | "locationPath">;
+
+export interface AccessEvaluation {
+  reason: AccessReason;
+  zoneId?: string;
+  groupId?: string;
+}
+
+const CREDENTIAL_DENIALS: Record<
+  Exclude<Credential["state"], "active">,
+  AccessReason
+> = {
+  suspended: "credential_suspended",
+  lost: "credential_lost",
+  revoked: "credential_revoked",
+};
+
+// Cards that should not be in anyone's hands get the most attention
+const DENIAL_SEVERITY: Partial<
+  Record<AccessReason, SecurityEvent["severity"]>
+> = {
+  unknown_card: "high",
+  credential_lost: "high",
+  credential_revoked: "high",
+};
+
+/**
+ * Decide a scan of `credential` at `location`. Checks run from the card to
+ * the door: the card and its holder first, then the zone, the groups
+ * granting it and finally their schedules.
+ */
+export const evaluateAccess = (
+  policy: AccessPolicy,
+  credential: Credential | undefined,
+  cardholder: Cardholder | undefined,
+  location: ScanLocation,
+  now: Date,
+): AccessEvaluation => {
+  if (!credential || !cardholder) return { reason: "unknown_card" };
+  if (cardholder.status !== "active") return { reason: "cardholder_inactive" };
+  if (credential.state !== "active") {
+    return { reason: CREDENTIAL_DENIALS[credential.state] };
+  }
+  if (Date.parse(credential.issuedAt) > now.getTime()) {
+    return { reason: "credential_not_yet_valid" };
+  }
+  if (
+    credential.expiresAt &&
+    Date.parse(credential.expiresAt) <= now.getTime()
+  ) {
+    return { reason: "credential_expired" };
+  }
+
+  const zones = zonesForLocation(policy.zones, location);
+  if (zones.length === 0) return { reason: "unknown_location" };
+
+  let closed: AccessEvaluation | undefined;
+  for (const zone of zones) {
+    const groups = policy.groups.filter(
+      (group) =>
+        group.cardholderIds.includes(cardholder.id) &&
+        group.zoneIds.includes(zone.id),
+    );
+
+    for (const group of groups) {
+      const schedule = policy.schedules.find((s) => s.id === group.scheduleId);
+      // A group whose schedule went missing grants nothing
+      const open = group.scheduleId
+        ? !!schedule && scheduleAllows(schedule, now)
+        : true;
+      if (open) {
+        return { reason: "granted", zoneId: zone.id, groupId: group.id };
+      }
+
+      closed ??= { reason: "outside_schedule", zoneId: zone.id };
+    }
+  }
+
+  return closed ?? { reason: "no_zone_access", zoneId: zones[0].id };
+};
+
+/**
+ * Decide a scan of `cardId` at `location` against the stored directory and
+ * policy
+ */
+export const evaluateScan = async (
+  store: SecurityStore,
+  cardId: string,
+  location: ScanLocation,
+  now = new Date(),
+): Promise<AccessEvaluation & { cardholder?: Cardholder }> => {
+  const credential = await store.findCredentialByCardNumber(cardId);
+  const [cardholder, policy] = await Promise.all([
+    credential && store.findCardholder(credential.cardholderId),
+    store.getAccessPolicy(),
+  ]);
+
+  return {
+    ...evaluateAccess(policy, credential, cardholder, location, now),
+    cardholder,
+  };
+};
+
+/** How a decision reads as an RFID event */
+export const accessOutcome = ({
+  reason,
+}: AccessEvaluation): Pick<
+  SecurityEvent,
+  "status" | "severity" | "description"
+> => {
+  const allowed = reason === "granted";
+  return {
+    status: allowed ? "authorized" : "unauthorized",
+    severity: allowed ? "low" : (DENIAL_SEVERITY[reason] ?? "medium"),
+    description: `${ACCESS_REASON_MESSAGES[reason]} (${reason})`,
+  };
+};
+
+/**
+ * Decide a scan and record it as an RFID event with the reason in its
+ * description. Locations resolved from a locationId match zones by their
+ * place in the hierarchy, plain location strings by the zones' patterns.
+ */
+export const decideAccess = async (
+  store: SecurityStore,
+  { cardId, ...scanLocation }: { cardId: string } & EventLocation,
+  now = new Date(),
+): Promise<AccessDecisionResponse> => {
+  const { cardholder, ...evaluation } = await evaluateScan(
+    store,
+    cardId,
+    scanLocation,
+    now,
+  );
+
+  const event: SecurityEvent = {
+    id: randomUUID(),
+    type: "rfid",
+    timestamp: now.toISOString(),
+    ...scanLocation,
+    cardId,
+    ...accessOutcome(evaluation),
+    cardholderId: cardholder?.id,
+    cardholderName: cardholder?.name,
+  };
+  await store.addEvent(event);
+
+  return { allowed: evaluation.reason === "granted", ...evaluation, event };
+};
@@ -0,0 +1,51 @@
+import { randomBytes } from "crypto";
+import { Request } from "express";
+import type { Role } from "@shared/permissions";
+
+export interface AuthConfig {
+  /** HMAC secret for signing access tokens */
+  secret: string;
+  /** Access token lifetime in seconds */
+  accessTokenTtl: number;
+  /** Refresh session lifetime in seconds */
+  sessionTtl: number;
+  /** Refresh session lifetime with "Remember me", in seconds */
+  rememberMeTtl: number;
+  /** Roles that must sign in with a TOTP code */
+  mfaRequiredRoles: Role[];
+}
+
+const seconds = (value: string | undefined, fallback: number) =>
+  value ? parseInt(value) || fallback : fallback;
+
+/**
+ * Auth configuration from JWT_SECRET, JWT_ACCESS_TTL, SESSION_TIMEOUT,
+ * REMEMBER_ME_TIMEOUT and MFA_REQUIRED_ROLES. Without JWT_SECRET a random secret is generated, so
+ * every restart signs everybody out.
+ */
+export const authConfigFromEnv = (): AuthConfig => {
+  let secret = process.env.JWT_SECRET;
+  if (!secret) {
+    console.warn(
+      "⚠️  JWT_SECRET is not set - using a random secret, sessions will not survive a restart",
+    );
+    secret = randomBytes(32).toString("hex");
+  }
+
+  return {
+    secret,
+    accessTokenTtl: seconds(process.env.JWT_ACCESS_TTL, 15 * 60),
+    sessionTtl: seconds(process.env.SESSION_TIMEOUT, 24 * 60 * 60),
+    rememberMeTtl: seconds(process.env.REMEMBER_ME_TIMEOUT, 30 * 24 * 60 * 60),
+    // Comma separated; set to an empty value to make MFA optional for all
+    mfaRequiredRoles: (process.env.MFA_REQUIRED_ROLES ?? "administrator")
+      .split(",")
+      .map((role) => role.trim())
+      .filter(Boolean) as Role[],
+  };
+};
+
+/**
+ * Auth configuration attached to the Express app by createServer()
+ */
+export const getAuthConfig = (req: Request): AuthConfig => req.app.locals.auth;
@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Minimal HS256 JSON Web Tokens on top of node:crypto
+ */
+
+export interface JwtClaims {
+  /** User id */
+  sub: string;
+  /** Unique token id, used for revocation */
+  jti: string;
+  /** Issued at / expires at, seconds since epoch */
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Claims of an access token
+ */
+export interface JwtPayload extends JwtClaims {
+  /** Refresh session the token was issued for */
+  sid: string;
+  role: string;
+}
+
+export class JwtError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: "malformed" | "signature" | "expired",
+  ) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+const HEADER = { alg: "HS256", typ: "JWT" };
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const sign = (data: string, secret: string) =>
+  createHmac("sha256", secret).update(data).digest();
+
+export const signJwt = (payload: JwtClaims, secret: string): string => {
+  const data = `${encode(HEADER)}.${encode(payload)}`;
+  return `${data}.${sign(data, secret).toString("base64url")}`;
+};
+
+export const verifyJwt = <T extends JwtClaims = JwtPayload>(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): T => {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtError("Malformed token", "malformed");
+
+  const [header, payload, signature] = parts;
+  let decodedHeader: { alg?: string };
+  let decoded: T;
+  try {
+    decodedHeader = JSON.parse(Buffer.from(header, "base64url").toString());
+    decoded = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    throw new JwtError("Malformed token", "malformed");
+  }
+
+  // Only accept the algorithm we issue - never trust "none" or others
+  if (decodedHeader.alg !== HEADER.alg) {
+    throw new JwtError("Unsupported algorithm", "malformed");
+  }
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new JwtError("Invalid signature", "signature");
+  }
+
+  if (typeof decoded.exp !== "number" || decoded.exp * 1000 <= now) {
+    throw new JwtError("Token expired", "expired");
+  }
+
+  return decoded;
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStore, StoredUser } from "../storage";
+import { AuthConfig } from "./config";
+import {
+  completeMfaEnrollment,
+  issueMfaChallenge,
+  startMfaEnrollment,
+  verifyMfaChallenge,
+  verifySecondFactor,
+} from "./mfa";
+import { authenticateToken } from "./tokens";
+import { totp } from "./totp";
+
+const config: AuthConfig = {
+  secret: "test-secret",
+  accessTokenTtl: 60,
+  sessionTtl: 3600,
+  rememberMeTtl: 3600,
+  mfaRequiredRoles: ["administrator"],
+};
+
+describe("mfa", () => {
+  let store: MemoryStore;
+  let user: StoredUser;
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    user = await store.findUserByUsername("admin");
+  });
+
+  const reload = () => store.findUserById(user.id);
+
+  it("should accept a TOTP code only once", async () => {
+    const { secret } = await startMfaEnrollment(store, user);
+    const code = totp(secret);
+
+    expect(await verifySecondFactor(store, await reload(), { code })).toBe(
+      true,
+    );
+    expect(await verifySecondFactor(store, await reload(), { code })).toBe(
+      false,
+    );
+  });
+
+  it("should consume recovery codes once enrollment completes", async () => {
+    await startMfaEnrollment(store, user);
+    const [first] = await completeMfaEnrollment(store, await reload());
+
+    expect((await reload()).mfa).toMatchObject({ enabled: true });
+    expect(
+      await verifySecondFactor(store, await reload(), {
+        recoveryCode: first.toUpperCase(),
+      }),
+    ).toBe(true);
+    expect(
+      await verifySecondFactor(store, await reload(), { recoveryCode: first }),
+    ).toBe(false);
+    expect((await reload()).mfa.recoveryCodes).toHaveLength(9);
+  });
+
+  it("should keep login challenges and access tokens apart", async () => {
+    const challenge = issueMfaChallenge(user, config, true);
+
+    await expect(
+      verifyMfaChallenge(store, config, challenge),
+    ).resolves.toMatchObject({ payload: { sub: user.id, rememberMe: true } });
+    await expect(
+      authenticateToken(store, config, challenge),
+    ).rejects.toMatchObject({ code: "invalid_token" });
+  });
+});
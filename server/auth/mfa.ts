@@ -0,0 +1,184 @@
+import { createHash, createHmac, randomBytes, randomUUID } from "crypto";
+import { SecurityStore, StoredUser } from "../storage";
+import { AuthConfig } from "./config";
+import { JwtClaims, JwtError, signJwt, verifyJwt } from "./jwt";
+import { AuthError } from "./tokens";
+import { generateTotpSecret, matchTotp, otpauthUri } from "./totp";
+
+export const MFA_ISSUER = "SecureGuard";
+/** Time allowed between the password and the code step, in seconds */
+const CHALLENGE_TTL = 5 * 60;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Claims of the token that proves the password step of a login
+ */
+export interface MfaChallengePayload extends JwtClaims {
+  rememberMe: boolean;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Challenges are signed with a derived key so they can never pass as access
+// tokens and vice versa
+const challengeSecret = (config: AuthConfig) =>
+  createHmac("sha256", config.secret).update("mfa-challenge").digest("hex");
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+
+export const isMfaRequired = (user: StoredUser, config: AuthConfig) =>
+  config.mfaRequiredRoles.includes(user.role);
+
+export const isMfaEnabled = (user: StoredUser) => !!user.mfa?.enabled;
+
+export const issueMfaChallenge = (
+  user: StoredUser,
+  config: AuthConfig,
+  rememberMe = false,
+): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: MfaChallengePayload = {
+    sub: user.id,
+    jti: randomUUID(),
+    iat: now,
+    exp: now + CHALLENGE_TTL,
+    rememberMe,
+  };
+  return signJwt(payload, challengeSecret(config));
+};
+
+/**
+ * Resolve the user a login challenge was issued to
+ */
+export const verifyMfaChallenge = async (
+  store: SecurityStore,
+  config: AuthConfig,
+  token: string | undefined,
+): Promise<{ user: StoredUser; payload: MfaChallengePayload }> => {
+  if (!token) throw new AuthError("missing_token", "No challenge provided");
+
+  let payload: MfaChallengePayload;
+  try {
+    payload = verifyJwt<MfaChallengePayload>(token, challengeSecret(config));
+  } catch (error) {
+    if (error instanceof JwtError && error.reason === "expired") {
+      throw new AuthError("token_expired", "Login challenge expired");
+    }
+    throw new AuthError("invalid_token", "Invalid login challenge");
+  }
+
+  const user = await store.findUserById(payload.sub);
+  if (!user || user.disabled) {
+    throw new AuthError("invalid_token", "Invalid login challenge");
+  }
+  return { user, payload };
+};
+
+/**
+ * Give the user a new secret to add to their authenticator app. MFA is not
+ * enforced until the first code has been confirmed.
+ */
+export const startMfaEnrollment = async (
+  store: SecurityStore,
+  user: StoredUser,
+): Promise<{ secret: string; otpauthUri: string }> => {
+  const secret = generateTotpSecret();
+  await store.saveUser({
+    ...user,
+    mfa: { secret, enabled: false, lastUsedStep: 0, recoveryCodes: [] },
+    updatedAt: new Date().toISOString(),
+  });
+  return { secret, otpauthUri: otpauthUri(MFA_ISSUER, user.username, secret) };
+};
+
+/**
+ * Check a TOTP code or recovery code and mark it used. Codes are accepted
+ * once; pending enrollments accept TOTP codes only.
+ */
+export const verifySecondFactor = async (
+  store: SecurityStore,
+  user: StoredUser,
+  { code, recoveryCode }: SecondFactor,
+): Promise<boolean> => {
+  const mfa = user.mfa;
+  if (!mfa) return false;
+
+  if (code) {
+    const step = matchTotp(mfa.secret, code);
+    if (step === undefined || step <= mfa.lastUsedStep) return false;
+
+    await store.saveUser({ ...user, mfa: { ...mfa, lastUsedStep: step } });
+    return true;
+  }
+
+  if (recoveryCode && mfa.enabled) {
+    const hash = hashRecoveryCode(recoveryCode);
+    if (!mfa.recoveryCodes.includes(hash)) return false;
+
+    await store.saveUser({
+      ...user,
+      mfa: {
+        ...mfa,
+        recoveryCodes: mfa.recoveryCodes.filter((h) => h !== hash),
+      },
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Replace the user's recovery codes. The plain codes are returned once and
+ * only their hashes are kept.
+ */
+export const regenerateRecoveryCodes = async (
+  store: SecurityStore,
+  user: StoredUser,
+): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  const current = await store.findUserById(user.id);
+  await store.saveUser({
+    ...current,
+    mfa: { ...current.mfa, recoveryCodes: codes.map(hashRecoveryCode) },
+  });
+  return codes;
+};
+
+/**
+ * Turn on MFA after the first code of a pending enrollment was verified
+ */
+export const completeMfaEnrollment = async (
+  store: SecurityStore,
+  user: StoredUser,
+): Promise<string[]> => {
+  const current = await store.findUserById(user.id);
+  const now = new Date().toISOString();
+  await store.saveUser({
+    ...current,
+    mfa: { ...current.mfa, enabled: true, enabledAt: now },
+    updatedAt: now,
+  });
+  return regenerateRecoveryCodes(store, current);
+};
+
+export const removeMfa = async (
+  store: SecurityStore,
+  user: StoredUser,
+): Promise<void> => {
+  await store.saveUser({
+    ...user,
+    mfa: undefined,
+    updatedAt: new Date().toISOString(),
+  });
+};
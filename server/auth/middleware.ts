@@ -0,0 +1,125 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AuthErrorResponse, AuthUser } from "@shared/api";
+import { Permission, hasPermission } from "@shared/permissions";
+import { getStore } from "../storage";
+import { getAuthConfig } from "./config";
+import { JwtPayload } from "./jwt";
+import {
+  AuthError,
+  authenticateToken,
+  bearerToken,
+  toAuthUser,
+} from "./tokens";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Authenticated user, set by requireAuth/optionalAuth */
+      user?: AuthUser;
+      /** Verified access token claims */
+      auth?: JwtPayload;
+    }
+  }
+}
+
+export interface AuthOptions {
+  /**
+   * Also accept the token as ?access_token= - only for endpoints that
+   * browsers cannot send headers to, such as EventSource streams
+   */
+  allowQueryToken?: boolean;
+}
+
+const tokenFrom = (req: Request, options: AuthOptions) =>
+  bearerToken(req.headers.authorization) ??
+  (options.allowQueryToken && typeof req.query.access_token === "string"
+    ? req.query.access_token
+    : undefined);
+
+export const sendUnauthorized = (res: Response, error: AuthError) => {
+  const body: AuthErrorResponse = {
+    error: "Unauthorized",
+    code: error.code,
+    message: error.message,
+  };
+  res
+    .status(401)
+    .set(
+      "WWW-Authenticate",
+      error.code === "missing_token"
+        ? "Bearer"
+        : `Bearer error="invalid_token", error_description="${error.message}"`,
+    )
+    .json(body);
+};
+
+export const sendForbidden = (res: Response, message: string) => {
+  const body: AuthErrorResponse = {
+    error: "Forbidden",
+    code: "forbidden",
+    message,
+  };
+  res.status(403).json(body);
+};
+
+const authenticate = async (req: Request, options: AuthOptions) => {
+  const { user, payload } = await authenticateToken(
+    getStore(req),
+    getAuthConfig(req),
+    tokenFrom(req, options),
+  );
+  req.user = toAuthUser(user);
+  req.auth = payload;
+};
+
+/**
+ * Reject requests without a valid access token
+ */
+export const requireAuth =
+  (options: AuthOptions = {}): RequestHandler =>
+  async (req, res, next) => {
+    try {
+      await authenticate(req, options);
+    } catch (error) {
+      if (error instanceof AuthError) return sendUnauthorized(res, error);
+      return next(error);
+    }
+    next();
+  };
+
+/**
+ * Attach the user when a valid token is present, but let anonymous
+ * requests through
+ */
+export const optionalAuth =
+  (options: AuthOptions = {}): RequestHandler =>
+  async (req, _res, next: NextFunction) => {
+    try {
+      await authenticate(req, options);
+    } catch (error) {
+      if (!(error instanceof AuthError)) return next(error);
+    }
+    next();
+  };
+
+/**
+ * Only let users whose role grants the permission through; use after
+ * requireAuth
+ */
+export const requirePermission =
+  (permission: Permission): RequestHandler =>
+  (req, res, next) => {
+    if (!req.user) {
+      return sendUnauthorized(
+        res,
+        new AuthError("missing_token", "No token provided"),
+      );
+    }
+    if (!hasPermission(req.user, permission)) {
+      return sendForbidden(
+        res,
+        `Your role (${req.user.role}) does not have the ${permission} permission`,
+      );
+    }
+    next();
+  };
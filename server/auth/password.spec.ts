@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { hashPassword, verifyPassword } from "./password";
+
+describe("password hashing", () => {
+  it("should verify the original password only", async () => {
+    const hash = await hashPassword("correct horse");
+
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("should salt every hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+
+  it("should not match malformed hashes", async () => {
+    expect(await verifyPassword("admin123", "admin123")).toBe(false);
+    expect(await verifyPassword("x", "scrypt$0$0$0$AA==$AA==")).toBe(false);
+  });
+});
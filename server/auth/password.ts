@@ -0,0 +1,84 @@
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from "crypto";
+
+// scrypt cost parameters; stored with each hash so they can be raised later
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * Hash of a random, discarded password. Checked when the username is
+ * unknown so response times do not reveal which accounts exist.
+ */
+export const DECOY_PASSWORD_HASH =
+  "scrypt$16384$8$1$sunNQUBLQCzbhgjuSpsgUg==$EvVEVJNQK27PUG4IoCjGzp7xaAA7bTh+fT6t6x1Taj6YsjN5JzCv8OwdJRjJtEZh2vAEP5omMki9aBDOVFjqYQ==";
+
+const derive = (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: { N: number; r: number; p: number },
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+
+const format = (salt: Buffer, key: Buffer) =>
+  [
+    "scrypt",
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+
+/**
+ * Hash a password as `scrypt$N$r$p$salt$key` with a random salt
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await derive(password, salt, KEY_LENGTH, {
+    N: COST,
+    r: BLOCK_SIZE,
+    p: PARALLELIZATION,
+  });
+  return format(salt, key);
+};
+
+/**
+ * Blocking variant, only for migrating records while a store loads
+ */
+export const hashPasswordSync = (password: string): string => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = scryptSync(password, salt, KEY_LENGTH, {
+    N: COST,
+    r: BLOCK_SIZE,
+    p: PARALLELIZATION,
+  });
+  return format(salt, key);
+};
+
+/**
+ * Check a password against a stored hash in constant time.
+ * Malformed hashes never match.
+ */
+export const verifyPassword = async (
+  password: string,
+  stored: string,
+): Promise<boolean> => {
+  const [scheme, n, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await derive(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+    { N: Number(n), r: Number(r), p: Number(p) },
+  ).catch(() => null);
+  return !!actual && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { LoginThrottle } from "./throttle";
+
+describe("LoginThrottle", () => {
+  let now: number;
+  let throttle: LoginThrottle;
+
+  beforeEach(() => {
+    now = 0;
+    throttle = new LoginThrottle(
+      { maxUserAttempts: 3, maxIpAttempts: 5, baseLockout: 10, maxLockout: 60 },
+      () => now,
+    );
+  });
+
+  const fail = (times: number, username = "admin", ip = "10.0.0.1") => {
+    let started = [];
+    for (let i = 0; i < times; i++) {
+      started = throttle.recordFailure(username, ip);
+    }
+    return started;
+  };
+
+  it("should lock a username once its threshold is reached", () => {
+    expect(fail(2)).toEqual([]);
+    expect(throttle.check("admin", "10.0.0.2")).toBeUndefined();
+
+    expect(fail(1)).toMatchObject([
+      { scope: "user", key: "admin", retryAfter: 10, repeated: false },
+    ]);
+    // Usernames are matched case-insensitively, from any address
+    expect(throttle.check("Admin", "10.0.0.2")).toMatchObject({
+      scope: "user",
+      retryAfter: 10,
+    });
+
+    now = 10_000;
+    expect(throttle.check("admin", "10.0.0.2")).toBeUndefined();
+  });
+
+  it("should double the lockout with every further failure", () => {
+    fail(3);
+    now = 10_000;
+    expect(fail(1)[0]).toMatchObject({ retryAfter: 20, repeated: true });
+    now = 30_000;
+    expect(fail(1)[0]).toMatchObject({ retryAfter: 40 });
+    now = 70_000;
+    expect(fail(1)[0]).toMatchObject({ scope: "user", retryAfter: 60 });
+  });
+
+  it("should lock an address trying many usernames", () => {
+    ["a", "b", "c", "d"].forEach((username) => fail(1, username));
+    expect(throttle.check("e", "10.0.0.1")).toBeUndefined();
+
+    expect(fail(1, "e")).toMatchObject([{ scope: "ip", key: "10.0.0.1" }]);
+    expect(throttle.check("f", "10.0.0.1")).toMatchObject({ scope: "ip" });
+    expect(throttle.check("f", "10.0.0.2")).toBeUndefined();
+  });
+
+  it("should forget failures after a success or a quiet period", () => {
+    fail(2);
+    throttle.recordSuccess("admin");
+    expect(fail(2)).toEqual([]);
+
+    now = 61_000;
+    expect(fail(2)).toEqual([]);
+  });
+});
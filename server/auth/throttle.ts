@@ -0,0 +1,178 @@
+import { Request } from "express";
+
+export interface LoginThrottleConfig {
+  /** Failed logins for one username before it is locked */
+  maxUserAttempts: number;
+  /** Failed logins from one IP address (any username) before it is locked */
+  maxIpAttempts: number;
+  /** First lockout in seconds; doubles with every further failure */
+  baseLockout: number;
+  /** Longest lockout in seconds; failures older than this are forgotten */
+  maxLockout: number;
+}
+
+export const loginThrottleConfigFromEnv = (): LoginThrottleConfig => ({
+  maxUserAttempts: Number(process.env.LOGIN_MAX_ATTEMPTS) || 5,
+  maxIpAttempts: Number(process.env.LOGIN_MAX_IP_ATTEMPTS) || 20,
+  baseLockout: Number(process.env.LOGIN_LOCKOUT_BASE) || 30,
+  maxLockout: Number(process.env.LOGIN_LOCKOUT_MAX) || 15 * 60,
+});
+
+export type LockoutScope = "user" | "ip";
+
+export interface Lockout {
+  scope: LockoutScope;
+  /** Username or IP address that is locked */
+  key: string;
+  /** Failed attempts that led to the lockout */
+  failures: number;
+  /** Whether this key had already been locked since its failures began */
+  repeated: boolean;
+  /** Epoch milliseconds */
+  lockedUntil: number;
+  /** Whole seconds until the lockout ends */
+  retryAfter: number;
+}
+
+interface FailureRecord {
+  failures: number;
+  lastFailure: number;
+  lockedUntil: number;
+}
+
+/**
+ * Tracks failed logins per username and per IP address and locks either
+ * out for an exponentially growing period once its threshold is reached.
+ *
+ * State is kept in memory: a restart clears all lockouts.
+ */
+export class LoginThrottle {
+  private readonly records = new Map<string, FailureRecord>();
+
+  constructor(
+    private readonly config: LoginThrottleConfig,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * The longest active lockout for the username or IP, if any
+   */
+  check(username: string, ip: string | undefined): Lockout | undefined {
+    return this.keys(username, ip)
+      .map(([scope, key]) => this.lockout(scope, key))
+      .filter((lockout) => lockout)
+      .sort(byLockedUntil)[0];
+  }
+
+  /**
+   * Count a failed login. Returns the lockouts this failure started.
+   */
+  recordFailure(username: string, ip: string | undefined): Lockout[] {
+    const now = this.now();
+    const started: Lockout[] = [];
+
+    for (const [scope, key] of this.keys(username, ip)) {
+      const record = this.current(scope, key) ?? {
+        failures: 0,
+        lastFailure: now,
+        lockedUntil: 0,
+      };
+      record.failures += 1;
+      record.lastFailure = now;
+
+      const threshold = this.threshold(scope);
+      if (record.failures >= threshold) {
+        const seconds = Math.min(
+          this.config.baseLockout * 2 ** (record.failures - threshold),
+          this.config.maxLockout,
+        );
+        record.lockedUntil = now + seconds * 1000;
+        started.push(this.toLockout(scope, key, record, threshold));
+      }
+
+      this.records.set(this.id(scope, key), record);
+    }
+
+    this.prune(now);
+    return started;
+  }
+
+  /**
+   * Forget the username's failures after a successful login. The IP
+   * counter is kept so an attacker cannot reset it with their own account.
+   */
+  recordSuccess(username: string): void {
+    this.records.delete(this.id("user", normalize(username)));
+  }
+
+  private keys(username: string, ip: string | undefined) {
+    const keys: [LockoutScope, string][] = [["user", normalize(username)]];
+    if (ip) keys.push(["ip", ip]);
+    return keys;
+  }
+
+  private id(scope: LockoutScope, key: string) {
+    return `${scope}:${key}`;
+  }
+
+  /**
+   * The record, unless its failures are old enough to be forgotten
+   */
+  private current(scope: LockoutScope, key: string) {
+    const record = this.records.get(this.id(scope, key));
+    if (!record || this.expired(record, this.now())) return undefined;
+    return record;
+  }
+
+  private lockout(scope: LockoutScope, key: string) {
+    const record = this.current(scope, key);
+    if (!record || record.lockedUntil <= this.now()) return undefined;
+    return this.toLockout(scope, key, record, this.threshold(scope));
+  }
+
+  private threshold(scope: LockoutScope) {
+    return scope === "user"
+      ? this.config.maxUserAttempts
+      : this.config.maxIpAttempts;
+  }
+
+  private toLockout(
+    scope: LockoutScope,
+    key: string,
+    record: FailureRecord,
+    threshold: number,
+  ): Lockout {
+    return {
+      scope,
+      key,
+      failures: record.failures,
+      repeated: record.failures > threshold,
+      lockedUntil: record.lockedUntil,
+      retryAfter: Math.ceil((record.lockedUntil - this.now()) / 1000),
+    };
+  }
+
+  private expired(record: FailureRecord, now: number) {
+    return (
+      record.lockedUntil <= now &&
+      now - record.lastFailure > this.config.maxLockout * 1000
+    );
+  }
+
+  private prune(now: number) {
+    for (const [id, record] of this.records) {
+      if (this.expired(record, now)) this.records.delete(id);
+    }
+  }
+}
+
+/**
+ * Longest lockout first
+ */
+export const byLockedUntil = (a: Lockout, b: Lockout) =>
+  b.lockedUntil - a.lockedUntil;
+
+const normalize = (username: string) => username.trim().toLowerCase();
+
+export const getLoginThrottle = (req: Request): LoginThrottle =>
+  req.app.locals.loginThrottle;
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStore, StoredUser } from "../storage";
+import { AuthConfig } from "./config";
+import { signJwt, verifyJwt } from "./jwt";
+import {
+  authenticateToken,
+  checkTokenClaims,
+  endRefreshSession,
+  issueTokens,
+  revokeSession,
+  rotateTokens,
+  toAuthUser,
+} from "./tokens";
+
+const config: AuthConfig = {
+  secret: "test-secret",
+  accessTokenTtl: 60,
+  sessionTtl: 3600,
+  rememberMeTtl: 30 * 24 * 3600,
+  mfaRequiredRoles: [],
+};
+
+describe("jwt", () => {
+  const payload = {
+    sub: "1",
+    jti: "a",
+    sid: "s",
+    role: "administrator",
+    iat: 0,
+    exp: Math.floor(Date.now() / 1000) + 60,
+  };
+
+  it("should round trip a signed token", () => {
+    expect(verifyJwt(signJwt(payload, "k"), "k")).toEqual(payload);
+  });
+
+  it("should reject tampered and foreign tokens", () => {
+    const [header, , signature] = signJwt(payload, "k").split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...payload, role: "root" }),
+    ).toString("base64url");
+
+    expect(() => verifyJwt(`${header}.${forged}.${signature}`, "k")).toThrow(
+      "Invalid signature",
+    );
+    expect(() => verifyJwt(signJwt(payload, "other"), "k")).toThrow();
+  });
+
+  it("should reject expired tokens", () => {
+    expect(() => verifyJwt(signJwt({ ...payload, exp: 1 }, "k"), "k")).toThrow(
+      "Token expired",
+    );
+  });
+});
+
+describe("token sessions", () => {
+  let store: MemoryStore;
+  let user: StoredUser;
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    user = await store.findUserByUsername("admin");
+  });
+
+  it("should honour remember me in the session lifetime", async () => {
+    const { refreshToken } = await issueTokens(store, config, user, true);
+    const session = await store.findSession(refreshToken.split(".")[0]);
+
+    const days =
+      (Date.parse(session.expiresAt) - Date.parse(session.createdAt)) /
+      (24 * 3600 * 1000);
+    expect(days).toBe(30);
+  });
+
+  it("should rotate refresh tokens and end the session on reuse", async () => {
+    const first = await issueTokens(store, config, user);
+    const { tokens: second } = await rotateTokens(
+      store,
+      config,
+      first.refreshToken,
+    );
+
+    await expect(
+      rotateTokens(store, config, first.refreshToken),
+    ).rejects.toMatchObject({ code: "token_revoked" });
+    // The thief's replay also kills the legitimate holder's session
+    await expect(
+      rotateTokens(store, config, second.refreshToken),
+    ).rejects.toMatchObject({ code: "invalid_token" });
+  });
+
+  it("should only end a session for its current refresh token", async () => {
+    const { refreshToken } = await issueTokens(store, config, user);
+    const [sessionId] = refreshToken.split(".");
+
+    expect(await endRefreshSession(store, `${sessionId}.guessed`)).toBe(false);
+    expect(await store.findSession(sessionId)).toBeDefined();
+
+    expect(await endRefreshSession(store, refreshToken)).toBe(true);
+    expect(await store.findSession(sessionId)).toBeUndefined();
+  });
+
+  it("should reject revoked access tokens", async () => {
+    const { accessToken } = await issueTokens(store, config, user);
+    const { payload } = await authenticateToken(store, config, accessToken);
+
+    await revokeSession(store, payload);
+
+    await expect(
+      authenticateToken(store, config, accessToken),
+    ).rejects.toMatchObject({ code: "token_revoked" });
+  });
+
+  it("should reject every access token of a session that has ended", async () => {
+    const first = await issueTokens(store, config, user);
+    const { tokens: second } = await rotateTokens(
+      store,
+      config,
+      first.refreshToken,
+    );
+    const { payload } = await authenticateToken(
+      store,
+      config,
+      second.accessToken,
+    );
+
+    await revokeSession(store, payload);
+
+    await expect(
+      authenticateToken(store, config, first.accessToken),
+    ).rejects.toMatchObject({ code: "token_revoked" });
+  });
+
+  it("should reject the access tokens of a session ended for token reuse", async () => {
+    const { accessToken, refreshToken } = await issueTokens(
+      store,
+      config,
+      user,
+    );
+    await rotateTokens(store, config, refreshToken);
+
+    await expect(
+      rotateTokens(store, config, refreshToken),
+    ).rejects.toMatchObject({ code: "token_revoked" });
+    await expect(
+      authenticateToken(store, config, accessToken),
+    ).rejects.toMatchObject({ code: "token_revoked" });
+  });
+
+  it("should find claims that stopped holding after the token was checked", async () => {
+    const { accessToken } = await issueTokens(store, config, user);
+    const { payload } = await authenticateToken(store, config, accessToken);
+
+    await expect(
+      checkTokenClaims(store, payload, new Date((payload.exp + 1) * 1000)),
+    ).rejects.toMatchObject({ code: "token_expired" });
+
+    await store.saveUser({ ...user, disabled: true });
+    await expect(checkTokenClaims(store, payload)).rejects.toMatchObject({
+      code: "invalid_token",
+    });
+  });
+
+  it("should expose the permissions of the user's current role", async () => {
+    const { accessToken } = await issueTokens(store, config, user);
+    await store.saveUser({ ...user, role: "security_officer" });
+
+    const { user: current } = await authenticateToken(
+      store,
+      config,
+      accessToken,
+    );
+    const { permissions } = toAuthUser(current);
+
+    expect(permissions).toContain("events:write");
+    expect(permissions).not.toContain("users:manage");
+  });
+
+  it("should reject tokens of disabled users", async () => {
+    const { accessToken, refreshToken } = await issueTokens(
+      store,
+      config,
+      user,
+    );
+    await store.saveUser({ ...user, disabled: true });
+
+    await expect(
+      authenticateToken(store, config, accessToken),
+    ).rejects.toMatchObject({ code: "invalid_token" });
+    await expect(
+      rotateTokens(store, config, refreshToken),
+    ).rejects.toMatchObject({ code: "invalid_token" });
+  });
+
+  it("should reject access tokens issued before a password change", async () => {
+    const { accessToken } = await issueTokens(store, config, user);
+    await store.saveUser({
+      ...user,
+      passwordChangedAt: new Date(Date.now() + 1000).toISOString(),
+    });
+
+    await expect(
+      authenticateToken(store, config, accessToken),
+    ).rejects.toMatchObject({ code: "token_revoked" });
+  });
+});
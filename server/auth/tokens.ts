@@ -0,0 +1,227 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { AuthErrorCode, AuthUser } from "@shared/api";
+import { permissionsForRole } from "@shared/permissions";
+import { SecurityStore, StoredSession, StoredUser } from "../storage";
+import { AuthConfig } from "./config";
+import { JwtError, JwtPayload, signJwt, verifyJwt } from "./jwt";
+
+export class AuthError extends Error {
+  constructor(
+    public readonly code: AuthErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+}
+
+export const toAuthUser = (user: StoredUser): AuthUser => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  permissions: permissionsForRole(user.role),
+  mfaEnabled: !!user.mfa?.enabled,
+});
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// Whether the refresh token is the current one of its session
+const isCurrentToken = (session: StoredSession, refreshToken: string) =>
+  timingSafeEqual(
+    Buffer.from(session.tokenHash, "hex"),
+    Buffer.from(hashToken(refreshToken), "hex"),
+  );
+
+const signAccessToken = (
+  user: StoredUser,
+  sessionId: string,
+  config: AuthConfig,
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JwtPayload = {
+    sub: user.id,
+    jti: randomUUID(),
+    sid: sessionId,
+    role: user.role,
+    iat: now,
+    exp: now + config.accessTokenTtl,
+  };
+  return signJwt(payload, config.secret);
+};
+
+/**
+ * Start a refresh session for the user and issue its first token pair
+ */
+export const issueTokens = async (
+  store: SecurityStore,
+  config: AuthConfig,
+  user: StoredUser,
+  rememberMe = false,
+): Promise<IssuedTokens> => {
+  const sessionId = randomUUID();
+  const secret = randomBytes(32).toString("base64url");
+  const refreshToken = `${sessionId}.${secret}`;
+  const ttl = rememberMe ? config.rememberMeTtl : config.sessionTtl;
+  const now = Date.now();
+
+  await store.saveSession({
+    id: sessionId,
+    userId: user.id,
+    tokenHash: hashToken(refreshToken),
+    rememberMe,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl * 1000).toISOString(),
+  });
+
+  return {
+    accessToken: signAccessToken(user, sessionId, config),
+    refreshToken,
+    expiresIn: config.accessTokenTtl,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. The presented token is
+ * consumed; presenting it again is treated as theft and ends the session.
+ */
+export const rotateTokens = async (
+  store: SecurityStore,
+  config: AuthConfig,
+  refreshToken: string,
+): Promise<{ tokens: IssuedTokens; user: StoredUser }> => {
+  const [sessionId] = refreshToken.split(".");
+  const session = sessionId && (await store.findSession(sessionId));
+  if (!session) {
+    throw new AuthError("invalid_token", "Invalid refresh token");
+  }
+
+  if (!isCurrentToken(session, refreshToken)) {
+    await store.deleteSession(session.id);
+    throw new AuthError("token_revoked", "Refresh token has already been used");
+  }
+
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    await store.deleteSession(session.id);
+    throw new AuthError("token_expired", "Session expired");
+  }
+
+  const user = await store.findUserById(session.userId);
+  if (!user || user.disabled) {
+    await store.deleteSession(session.id);
+    throw new AuthError("invalid_token", "Invalid refresh token");
+  }
+
+  const nextToken = `${session.id}.${randomBytes(32).toString("base64url")}`;
+  await store.saveSession({ ...session, tokenHash: hashToken(nextToken) });
+
+  return {
+    user,
+    tokens: {
+      accessToken: signAccessToken(user, session.id, config),
+      refreshToken: nextToken,
+      expiresIn: config.accessTokenTtl,
+    },
+  };
+};
+
+/**
+ * Verify an access token's signature, expiry and revocation status, and
+ * that its refresh session is still open
+ */
+export const authenticateToken = async (
+  store: SecurityStore,
+  config: AuthConfig,
+  token: string | undefined,
+): Promise<{ user: StoredUser; payload: JwtPayload }> => {
+  if (!token) throw new AuthError("missing_token", "No token provided");
+
+  let payload: JwtPayload;
+  try {
+    payload = verifyJwt(token, config.secret);
+  } catch (error) {
+    if (error instanceof JwtError && error.reason === "expired") {
+      throw new AuthError("token_expired", "Token expired");
+    }
+    throw new AuthError("invalid_token", "Invalid token");
+  }
+
+  return { user: await checkTokenClaims(store, payload), payload };
+};
+
+/**
+ * Check that the claims of a verified access token still hold, for requests
+ * that outlive the check made when they started. Returns the token's user;
+ * throws an AuthError otherwise.
+ */
+export const checkTokenClaims = async (
+  store: SecurityStore,
+  payload: JwtPayload,
+  now = new Date(),
+): Promise<StoredUser> => {
+  if (payload.exp * 1000 <= now.getTime()) {
+    throw new AuthError("token_expired", "Token expired");
+  }
+  if (await store.isTokenRevoked(payload.jti)) {
+    throw new AuthError("token_revoked", "Token has been revoked");
+  }
+  // Ending the session (logout, refresh token reuse) ends all its tokens
+  if (!(await store.findSession(payload.sid))) {
+    throw new AuthError("token_revoked", "Session has ended");
+  }
+
+  const user = await store.findUserById(payload.sub);
+  if (!user || user.disabled) {
+    throw new AuthError("invalid_token", "Invalid token");
+  }
+  // A password reset invalidates access tokens issued before it
+  if (payload.iat < Math.floor(Date.parse(user.passwordChangedAt) / 1000)) {
+    throw new AuthError("token_revoked", "Token has been revoked");
+  }
+
+  return user;
+};
+
+/**
+ * Revoke the access token and end the refresh session it belongs to
+ */
+export const revokeSession = async (
+  store: SecurityStore,
+  payload: JwtPayload,
+): Promise<void> => {
+  await store.revokeToken(
+    payload.jti,
+    new Date(payload.exp * 1000).toISOString(),
+  );
+  await store.deleteSession(payload.sid);
+};
+
+/**
+ * End the refresh session of a token presented at logout. Tokens that are
+ * not the session's current one are ignored, so knowing a session id is not
+ * enough to end someone else's session. Returns whether a session ended.
+ */
+export const endRefreshSession = async (
+  store: SecurityStore,
+  refreshToken: string,
+): Promise<boolean> => {
+  const [sessionId] = refreshToken.split(".");
+  const session = sessionId && (await store.findSession(sessionId));
+  if (!session || !isCurrentToken(session, refreshToken)) return false;
+
+  await store.deleteSession(session.id);
+  return true;
+};
+
+/**
+ * Bearer token from the Authorization header
+ */
+export const bearerToken = (header: string | undefined): string | undefined =>
+  header?.startsWith("Bearer ") ? header.substring(7) : undefined;
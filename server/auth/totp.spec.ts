@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  hotp,
+  matchTotp,
+  otpauthUri,
+  totp,
+} from "./totp";
+
+// RFC 4226 / RFC 6238 test secret "12345678901234567890"
+const SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("should round trip base32", () => {
+    expect(SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(SECRET).toString()).toBe("12345678901234567890");
+  });
+
+  it("should match the RFC test vectors", () => {
+    expect(hotp(SECRET, 0)).toBe("755224");
+    expect(hotp(SECRET, 9)).toBe("520489");
+    expect(totp(SECRET, 59_000)).toBe("287082");
+    expect(totp(SECRET, 1111111109_000)).toBe("081804");
+  });
+
+  it("should accept one step of clock drift only", () => {
+    const now = 1111111109_000;
+    const step = Math.floor(now / 30_000);
+
+    expect(matchTotp(SECRET, "081804", now)).toBe(step);
+    expect(matchTotp(SECRET, totp(SECRET, now - 30_000), now)).toBe(step - 1);
+    expect(matchTotp(SECRET, totp(SECRET, now - 60_000), now)).toBeUndefined();
+    expect(matchTotp(SECRET, "12345", now)).toBeUndefined();
+  });
+
+  it("should build an otpauth URI", () => {
+    expect(otpauthUri("SecureGuard", "admin", "ABC")).toBe(
+      "otpauth://totp/SecureGuard%3Aadmin?secret=ABC&issuer=SecureGuard&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
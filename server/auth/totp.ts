@@ -0,0 +1,125 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+ * HMAC-SHA1, 6 digits, 30 second steps.
+ */
+
+export const TOTP_DIGITS = 6;
+export const TOTP_STEP_SECONDS = 30;
+/** Steps either side of now that are accepted, to allow for clock drift */
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.replace(/[\s=-]/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * New random secret, base32 encoded (160 bits as RFC 4226 recommends)
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+export const totpStep = (now = Date.now()): number =>
+  Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+
+/**
+ * HOTP code for a counter (RFC 4226)
+ */
+export const hotp = (secret: string, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", base32Decode(secret))
+    .update(message)
+    .digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+};
+
+export const totp = (secret: string, now = Date.now()): string =>
+  hotp(secret, totpStep(now));
+
+/**
+ * Find the time step a code belongs to, within the allowed drift.
+ * Returns undefined if the code does not match.
+ */
+export const matchTotp = (
+  secret: string,
+  code: string,
+  now = Date.now(),
+): number | undefined => {
+  const candidate = Buffer.from(code.replace(/\s/g, ""));
+  const current = totpStep(now);
+
+  for (
+    let step = current - DRIFT_STEPS;
+    step <= current + DRIFT_STEPS;
+    step++
+  ) {
+    const expected = Buffer.from(hotp(secret, step));
+    if (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    ) {
+      return step;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Key URI understood by authenticator apps, usually shown as a QR code
+ */
+export const otpauthUri = (
+  issuer: string,
+  account: string,
+  secret: string,
+): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+};
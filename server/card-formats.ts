@@ -0,0 +1,120 @@
+import { CardFormat, ListedCardFormat, NewSecurityEvent } from "@shared/api";
+import { ParseResult } from "@shared/validation";
+import {
+  BUILT_IN_CARD_FORMATS,
+  WiegandDecodeResult,
+  decodeWiegand,
+} from "@shared/wiegand";
+import { SecurityStore } from "./storage";
+
+/** Standard formats first, then the custom ones */
+export const listedCardFormats = async (
+  store: SecurityStore,
+): Promise<ListedCardFormat[]> => [
+  ...BUILT_IN_CARD_FORMATS.map((format) => ({ ...format, builtIn: true })),
+  ...(await store.listCardFormats()).map((format) => ({
+    ...format,
+    builtIn: false,
+  })),
+];
+
+export const isBuiltInFormat = (id: string) =>
+  BUILT_IN_CARD_FORMATS.some((format) => format.id === id.toUpperCase());
+
+/**
+ * The format to decode `rawBits` with: the one named, or else the only one
+ * of their length
+ */
+const selectFormat = (
+  formats: CardFormat[],
+  rawBits: string,
+  formatId: string | undefined,
+): ParseResult<CardFormat> => {
+  if (formatId !== undefined) {
+    const format = formats.find((f) => f.id === formatId.toUpperCase());
+    if (!format) {
+      return {
+        success: false,
+        errors: { cardFormat: "Unknown card format" },
+      };
+    }
+    if (format.length !== rawBits.length) {
+      return {
+        success: false,
+        errors: { rawBits: `Must be ${format.length} bits for ${format.id}` },
+      };
+    }
+    return { success: true, data: format };
+  }
+
+  const candidates = formats.filter((f) => f.length === rawBits.length);
+  if (candidates.length === 1) return { success: true, data: candidates[0] };
+  return {
+    success: false,
+    errors:
+      candidates.length === 0
+        ? { rawBits: `No card format is ${rawBits.length} bits long` }
+        : {
+            cardFormat: `Required for ${rawBits.length} bits: ${candidates
+              .map((f) => f.id)
+              .join(", ")}`,
+          },
+  };
+};
+
+/**
+ * Decode raw bits with the format named by `formatId`, or else the only
+ * one of their length. Failures are keyed by the field at fault.
+ */
+export const decodeRawBits = async (
+  store: SecurityStore,
+  rawBits: string,
+  formatId?: string,
+): Promise<
+  ParseResult<{ format: CardFormat; decoded: WiegandDecodeResult }>
+> => {
+  const selected = selectFormat(
+    await listedCardFormats(store),
+    rawBits,
+    formatId,
+  );
+  if (selected.success === false) return selected;
+
+  const format = selected.data;
+  return {
+    success: true,
+    data: { format, decoded: decodeWiegand(rawBits, format) },
+  };
+};
+
+/**
+ * Replace the raw bits of a card read with the cardId they decode to. A
+ * read that fails parity becomes a "parity_error" event without a cardId,
+ * since its card number cannot be trusted. Events without raw bits pass
+ * through unchanged.
+ */
+export const decodeCardRead = async (
+  store: SecurityStore,
+  event: NewSecurityEvent,
+): Promise<ParseResult<NewSecurityEvent>> => {
+  const { rawBits, cardFormat, ...rest } = event;
+  if (rawBits === undefined) return { success: true, data: event };
+
+  const result = await decodeRawBits(store, rawBits, cardFormat);
+  if (result.success === false) return result;
+
+  const { format, decoded } = result.data;
+  const read = { ...rest, rawBits, cardFormat: format.id };
+
+  if (decoded.success === false) {
+    return {
+      success: true,
+      data: {
+        ...read,
+        status: "parity_error",
+        description: `Parity check failed for ${format.id} at bit ${decoded.failedParityBits.join(", ")}`,
+      },
+    };
+  }
+  return { success: true, data: { ...read, cardId: decoded.card.cardId } };
+};
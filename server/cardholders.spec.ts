@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { MemoryStore } from "./storage/memory";
+import { credentialInUse, withCardholder } from "./cardholders";
+
+// Seeded: ch-1 (Alice) holds CARD-A1B2C3, ch-8 (Henry) lost CARD-X4Y5Z6
+const NOW = new Date("2024-06-03T12:00:00Z");
+
+describe("credentialInUse", () => {
+  it("should keep numbers of active and suspended cards taken", async () => {
+    const store = new MemoryStore();
+
+    expect(
+      await credentialInUse(store, "card-a1b2c3", undefined, NOW),
+    ).toMatchObject({ id: "cred-1" });
+    expect(
+      await credentialInUse(store, "CARD-U1V2W3", undefined, NOW),
+    ).toMatchObject({ state: "suspended" });
+    expect(
+      await credentialInUse(store, "CARD-A1B2C3", "cred-1", NOW),
+    ).toBeUndefined();
+  });
+
+  it("should free the numbers of lost, revoked and expired cards", async () => {
+    const store = new MemoryStore();
+    const alices = await store.findCredential("cred-1");
+    await store.saveCredential({
+      ...alices,
+      expiresAt: "2024-06-01T00:00:00.000Z",
+    });
+
+    expect(
+      await credentialInUse(store, "CARD-X4Y5Z6", undefined, NOW),
+    ).toBeUndefined();
+    expect(
+      await credentialInUse(store, "CARD-A1B2C3", undefined, NOW),
+    ).toBeUndefined();
+  });
+
+  it("should let a revoked number be issued again to someone else", async () => {
+    const store = new MemoryStore();
+    const alices = await store.findCredential("cred-1");
+    await store.saveCredential({ ...alices, state: "revoked" });
+    expect(
+      await credentialInUse(store, "CARD-A1B2C3", undefined, NOW),
+    ).toBeUndefined();
+
+    await store.saveCredential({
+      ...alices,
+      id: "cred-reissued",
+      cardholderId: "ch-2",
+      issuedAt: NOW.toISOString(),
+      state: "active",
+    });
+
+    expect(await store.findCredentialByCardNumber("CARD-A1B2C3")).toMatchObject(
+      { id: "cred-reissued" },
+    );
+    expect(
+      await withCardholder(store, {
+        type: "rfid",
+        status: "authorized",
+        cardId: "CARD-A1B2C3",
+      }),
+    ).toMatchObject({ cardholderId: "ch-2", cardholderName: "Ben Okafor" });
+    expect(
+      await credentialInUse(store, "CARD-A1B2C3", undefined, NOW),
+    ).toMatchObject({ id: "cred-reissued" });
+  });
+});
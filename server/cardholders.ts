@@ -0,0 +1,49 @@
+import {
+  Credential,
+  NewSecurityEvent,
+  SecurityEvent,
+  isCredentialInUse,
+} from "@shared/api";
+import { SecurityStore } from "./storage";
+
+/**
+ * Credential other than `exceptId` holding the card number, which keeps it
+ * from being issued or brought back into use
+ */
+export const credentialInUse = async (
+  store: SecurityStore,
+  cardNumber: string,
+  exceptId?: string,
+  now = new Date(),
+): Promise<Credential | undefined> => {
+  const wanted = cardNumber.toUpperCase();
+  return (await store.listCredentials()).find(
+    (credential) =>
+      credential.id !== exceptId &&
+      credential.cardNumber.toUpperCase() === wanted &&
+      isCredentialInUse(credential, now),
+  );
+};
+
+/**
+ * Attach the holder of the event's card, if the card is registered. Done
+ * once when the event is stored, so the feed keeps showing who scanned the
+ * card even after it is reissued to someone else.
+ */
+export const withCardholder = async <T extends NewSecurityEvent>(
+  store: SecurityStore,
+  event: T,
+): Promise<T & Pick<SecurityEvent, "cardholderId" | "cardholderName">> => {
+  if (!event.cardId) return event;
+
+  const credential = await store.findCredentialByCardNumber(event.cardId);
+  const cardholder =
+    credential && (await store.findCardholder(credential.cardholderId));
+  if (!cardholder) return event;
+
+  return {
+    ...event,
+    cardholderId: cardholder.id,
+    cardholderName: cardholder.name,
+  };
+};
@@ -0,0 +1,55 @@
+import { ErrorRequestHandler, RequestHandler } from "express";
+import { randomUUID } from "crypto";
+import { ApiErrorResponse, ValidationErrorResponse } from "@shared/api";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Ids from a proxy are kept if they look like ids, so they can't forge log lines
+const REQUEST_ID_PATTERN = /^[\w.-]{1,64}$/;
+
+/**
+ * Give every response an id that also appears in the server log, so a
+ * failure a user reports can be traced
+ */
+export const assignRequestId: RequestHandler = (req, res, next) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.locals.requestId = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+  next();
+};
+
+/**
+ * JSON bodies for errors that escape the route handlers, instead of
+ * Express's HTML error page
+ */
+export const handleErrors: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+
+  const requestId: string = res.locals.requestId;
+
+  // Malformed JSON from express.json()
+  if (error?.type === "entity.parse.failed") {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields: { body: "Must be valid JSON" },
+    };
+    return res.status(400).json(body);
+  }
+
+  const status =
+    Number.isInteger(error?.status) && error.status >= 400 ? error.status : 500;
+  if (status >= 500) {
+    console.error(
+      `Request ${requestId} (${req.method} ${req.path}) failed:`,
+      error,
+    );
+  }
+
+  const body: ApiErrorResponse = {
+    error: status >= 500 ? "Internal server error" : error.message,
+    requestId,
+  };
+  res.status(status).json(body);
+};
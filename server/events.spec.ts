@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { MemoryStore } from "./storage/memory";
+import { recordPostedEvent } from "./events";
+
+// Seeded: ch-1 (Alice, Engineering on call) holds CARD-A1B2C3, ch-8 (Henry)
+// lost CARD-X4Y5Z6
+const MONDAY_NOON = new Date("2024-06-03T12:00:00Z");
+
+describe("recordPostedEvent", () => {
+  it("should decide card scans by the access policy", async () => {
+    const store = new MemoryStore();
+
+    const granted = await recordPostedEvent(
+      store,
+      {
+        type: "rfid",
+        cardId: "CARD-A1B2C3",
+        location: "Floor 5 - Room 110",
+        severity: "critical",
+      },
+      MONDAY_NOON,
+    );
+    const denied = await recordPostedEvent(
+      store,
+      { type: "rfid", cardId: "CARD-X4Y5Z6", location: "Floor 5 - Room 110" },
+      MONDAY_NOON,
+    );
+
+    expect(granted).toMatchObject({
+      success: true,
+      data: {
+        status: "authorized",
+        severity: "low",
+        cardholderName: "Alice Moreno",
+        description: "Access granted (granted)",
+      },
+    });
+    expect(denied).toMatchObject({
+      success: true,
+      data: { status: "unauthorized" },
+    });
+  });
+
+  it("should refuse scans at an unknown location", async () => {
+    const store = new MemoryStore();
+
+    expect(
+      await recordPostedEvent(
+        store,
+        { type: "rfid", cardId: "CARD-A1B2C3", locationId: "loc-nowhere" },
+        MONDAY_NOON,
+      ),
+    ).toEqual({
+      success: false,
+      errors: { locationId: "Unknown location" },
+    });
+    expect((await store.listEvents()).events).toHaveLength(0);
+  });
+
+  it("should store other events as posted", async () => {
+    const store = new MemoryStore();
+
+    expect(
+      await recordPostedEvent(
+        store,
+        { type: "dos", status: "blocked", ipAddress: "10.0.0.9" },
+        MONDAY_NOON,
+      ),
+    ).toMatchObject({
+      success: true,
+      data: { type: "dos", status: "blocked", severity: "medium" },
+    });
+  });
+});
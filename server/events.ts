@@ -0,0 +1,91 @@
+import { randomUUID } from "crypto";
+import {
+  AddSecurityEventRequest,
+  NewSecurityEvent,
+  SecurityEvent,
+} from "@shared/api";
+import { ParseResult } from "@shared/validation";
+import { SecurityStore } from "./storage";
+import { withCardholder } from "./cardholders";
+import { resolveLocation } from "./locations";
+import { decodeCardRead } from "./card-formats";
+import { accessOutcome, evaluateScan } from "./access";
+
+/**
+ * Store an event reported from outside: decode raw card bits, resolve the
+ * location and look up the cardholder. Failures are keyed by the field at
+ * fault, as validation errors are. Shared by POST /api/security/events and
+ * the OSDP bridge so both record reads the same way.
+ */
+export const recordSecurityEvent = async (
+  store: SecurityStore,
+  reported: NewSecurityEvent,
+  now = new Date(),
+): Promise<ParseResult<SecurityEvent>> => {
+  const read = await decodeCardRead(store, reported);
+  if (read.success === false) return read;
+  const event = read.data;
+
+  const eventLocation = event.locationId
+    ? await resolveLocation(store, event.locationId)
+    : {};
+  if (!eventLocation) {
+    return { success: false, errors: { locationId: "Unknown location" } };
+  }
+
+  const newEvent: SecurityEvent = {
+    severity: "medium",
+    ...(await withCardholder(store, event)),
+    ...eventLocation,
+    id: randomUUID(),
+    timestamp: now.toISOString(),
+  };
+  await store.addEvent(newEvent);
+
+  return { success: true, data: newEvent };
+};
+
+/**
+ * Store an event posted to POST /api/security/events. Card scans are decided
+ * by the access policy, as the OSDP bridge decides them, rather than taking
+ * the poster's word for whether the door opened; reads that fail their
+ * parity check are stored as such.
+ */
+export const recordPostedEvent = async (
+  store: SecurityStore,
+  { status, ...posted }: AddSecurityEventRequest,
+  now = new Date(),
+): Promise<ParseResult<SecurityEvent>> => {
+  if (posted.type !== "rfid") {
+    return recordSecurityEvent(store, { ...posted, status }, now);
+  }
+
+  // Decoding sets the status of reads that fail their parity check
+  const read = await decodeCardRead(store, {
+    ...posted,
+    status: "unauthorized",
+  });
+  if (read.success === false) return read;
+  if (read.data.cardId === undefined) {
+    return recordSecurityEvent(store, read.data, now);
+  }
+
+  const scanLocation = posted.locationId
+    ? await resolveLocation(store, posted.locationId)
+    : { location: posted.location };
+  if (!scanLocation) {
+    return { success: false, errors: { locationId: "Unknown location" } };
+  }
+
+  const evaluation = await evaluateScan(
+    store,
+    read.data.cardId,
+    scanLocation,
+    now,
+  );
+  return recordSecurityEvent(
+    store,
+    { ...posted, ...accessOutcome(evaluation) },
+    now,
+  );
+};
@@ -2,19 +2,196 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { getSecurityEvents, addSecurityEvent } from "./routes/security-events";
+import {
+  getSecurityEvents,
+  addSecurityEvent,
+  startEventSimulation,
+} from "./routes/security-events";
 import {
   getSecurityStats,
   getSystemHealth,
-  updateSecurityStats,
+  getStatsRules,
+  updateStatsRules,
+  startHealthSimulation,
 } from "./routes/security-stats";
-import { login, verifyToken, logout } from "./routes/auth";
+import { streamSecurityEvents } from "./routes/security-stream";
+import { getRfidActivity } from "./routes/rfid-activity";
+import {
+  blockIp,
+  getDosActivity,
+  listIpBlocks,
+  unblockIp,
+} from "./routes/dos-protection";
+import {
+  login,
+  loginMfa,
+  refreshToken,
+  verifyToken,
+  logout,
+} from "./routes/auth";
+import {
+  getMfaStatus,
+  setupMfa,
+  confirmMfa,
+  regenerateMfaRecoveryCodes,
+  disableMfa,
+} from "./routes/mfa";
+import {
+  listUsers,
+  createUser,
+  updateUser,
+  resetUserPassword,
+  resetUserMfa,
+} from "./routes/users";
+import {
+  getSettings,
+  getSettingsHistory,
+  updateSettings,
+} from "./routes/settings";
+import {
+  createCardholder,
+  deleteCardholder,
+  getCardholder,
+  issueCredential,
+  listCardholders,
+  updateCardholder,
+  updateCredential,
+} from "./routes/cardholders";
+import { decide, getAccessPolicy, updateAccessPolicy } from "./routes/access";
+import {
+  createLocation,
+  deleteLocation,
+  listLocations,
+  updateLocation,
+} from "./routes/locations";
+import {
+  deleteReader,
+  listReaders,
+  readerHeartbeat,
+  registerReader,
+  updateReader,
+} from "./routes/readers";
+import { startReaderMonitor } from "./readers";
+import { startOsdpSimulation } from "./osdp/simulation";
+import { startTravelMonitor } from "./travel";
+import { getTravelRules, updateTravelRules } from "./routes/travel-rules";
+import {
+  createCardFormat,
+  deleteCardFormat,
+  listCardFormats,
+  updateCardFormat,
+} from "./routes/card-formats";
+import { StorageConfig, createStore, storageConfigFromEnv } from "./storage";
+import { AuthConfig, authConfigFromEnv } from "./auth/config";
+import {
+  LoginThrottle,
+  LoginThrottleConfig,
+  loginThrottleConfigFromEnv,
+} from "./auth/throttle";
+import {
+  AuthOptions,
+  optionalAuth,
+  requireAuth,
+  requirePermission,
+} from "./auth/middleware";
+import { Permission } from "@shared/permissions";
+import { validateBody, validateQuery } from "./validation";
+import { REQUEST_ID_HEADER, assignRequestId, handleErrors } from "./errors";
+import { rejectBlockedClients } from "./ip-blocks";
+import {
+  accessDecisionRequestSchema,
+  accessPolicySchema,
+  blockIpRequestSchema,
+  cardFormatSchema,
+  cardholdersQuerySchema,
+  createCardholderRequestSchema,
+  createLocationRequestSchema,
+  createUserRequestSchema,
+  dosActivityQuerySchema,
+  issueCredentialRequestSchema,
+  loginRequestSchema,
+  logoutRequestSchema,
+  mfaCodeRequestSchema,
+  mfaDisableRequestSchema,
+  mfaLoginRequestSchema,
+  mfaSetupRequestSchema,
+  newSecurityEventSchema,
+  readerHeartbeatRequestSchema,
+  refreshTokenRequestSchema,
+  registerReaderRequestSchema,
+  rfidActivityQuerySchema,
+  resetPasswordRequestSchema,
+  securityStatsQuerySchema,
+  statsRulesUpdateSchema,
+  travelRulesSchema,
+  updateCardholderRequestSchema,
+  updateCredentialRequestSchema,
+  updateLocationRequestSchema,
+  updateReaderRequestSchema,
+  updateSettingsRequestSchema,
+  updateUserRequestSchema,
+} from "@shared/schemas";
+import { securityEventsQuerySchema } from "@shared/event-query";
+
+export interface ServerOptions {
+  /** Storage driver to use; defaults to the STORAGE_* environment variables */
+  storage?: StorageConfig;
+  /** Token settings; defaults to the JWT_* and SESSION_* environment variables */
+  auth?: AuthConfig;
+  /** Failed login limits; defaults to the LOGIN_* environment variables */
+  loginThrottle?: LoginThrottleConfig;
+  /**
+   * Require a token for read routes too. Off by default: only when the
+   * AUTH_PROTECT_READS environment variable is "true"
+   */
+  protectReads?: boolean;
+  /** Generate mock events and health readings in the background (default true) */
+  simulate?: boolean;
+  /**
+   * Watch for silent readers and impossible travel in the background
+   * (default true); off for servers that only live as long as a request
+   * or a test
+   */
+  monitor?: boolean;
+}
 
-export function createServer() {
+export function createServer(options: ServerOptions = {}) {
   const app = express();
 
+  // Persistence
+  const store = createStore(options.storage ?? storageConfigFromEnv());
+  app.locals.store = store;
+  app.locals.auth = options.auth ?? authConfigFromEnv();
+  app.locals.loginThrottle = new LoginThrottle(
+    options.loginThrottle ?? loginThrottleConfigFromEnv(),
+  );
+
+  if (options.simulate ?? process.env.SIMULATE_EVENTS !== "false") {
+    startEventSimulation(store);
+    startHealthSimulation(store);
+    if (process.env.SIMULATE_OSDP === "true") startOsdpSimulation(store);
+  }
+  if (options.monitor ?? true) {
+    startReaderMonitor(store);
+    startTravelMonitor(store);
+  }
+
+  // Behind a reverse proxy, take the client address from X-Forwarded-For so
+  // login throttling and event source IPs see the real client
+  if (process.env.TRUST_PROXY) {
+    const hops = Number(process.env.TRUST_PROXY);
+    app.set(
+      "trust proxy",
+      process.env.TRUST_PROXY === "true"
+        ? true
+        : hops || process.env.TRUST_PROXY,
+    );
+  }
+
   // Middleware
-  app.use(cors());
+  app.use(assignRequestId);
+  app.use(cors({ exposedHeaders: [REQUEST_ID_HEADER] }));
+  app.use("/api", rejectBlockedClients);
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -26,21 +203,280 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Writes always need a token and the permission; reads only when
+  // configured, otherwise the user is attached if a token is sent
+  const protectReads =
+    options.protectReads ?? process.env.AUTH_PROTECT_READS === "true";
+  const allow = (permission: Permission, auth: AuthOptions = {}) => [
+    requireAuth(auth),
+    requirePermission(permission),
+  ];
+  const allowRead = (permission: Permission, auth: AuthOptions = {}) =>
+    protectReads ? allow(permission, auth) : [optionalAuth(auth)];
+
   // Security Events API
-  app.get("/api/security/events", getSecurityEvents);
-  app.post("/api/security/events", addSecurityEvent);
+  app.get(
+    "/api/security/events",
+    allowRead("events:read"),
+    validateQuery(securityEventsQuerySchema),
+    getSecurityEvents,
+  );
+  app.post(
+    "/api/security/events",
+    allow("events:write"),
+    validateBody(newSecurityEventSchema),
+    addSecurityEvent,
+  );
+
+  // Real-time stream of events, stats and health (Server-Sent Events)
+  app.get(
+    "/api/security/stream",
+    allowRead("events:read", { allowQueryToken: true }),
+    streamSecurityEvents,
+  );
 
   // Security Stats API
-  app.get("/api/security/stats", getSecurityStats);
-  app.put("/api/security/stats", updateSecurityStats);
+  app.get(
+    "/api/security/stats",
+    allowRead("stats:read"),
+    validateQuery(securityStatsQuerySchema),
+    getSecurityStats,
+  );
+  app.get("/api/security/stats/rules", allowRead("stats:read"), getStatsRules);
+  app.put(
+    "/api/security/stats/rules",
+    allow("stats:write"),
+    validateBody(statsRulesUpdateSchema),
+    updateStatsRules,
+  );
+
+  // Travel times for flagging cards scanned at two places too close together
+  app.get(
+    "/api/security/travel-rules",
+    allowRead("stats:read"),
+    getTravelRules,
+  );
+  app.put(
+    "/api/security/travel-rules",
+    allow("stats:write"),
+    validateBody(travelRulesSchema),
+    updateTravelRules,
+  );
+
+  // RFID activity trend and busiest locations and cards
+  app.get(
+    "/api/security/rfid/activity",
+    allowRead("events:read"),
+    validateQuery(rfidActivityQuerySchema),
+    getRfidActivity,
+  );
+
+  // DoS activity and blocked client addresses
+  app.get(
+    "/api/security/dos/activity",
+    allowRead("events:read"),
+    validateQuery(dosActivityQuerySchema),
+    getDosActivity,
+  );
+  app.get("/api/security/dos/blocks", allowRead("events:read"), listIpBlocks);
+  app.post(
+    "/api/security/dos/blocks",
+    allow("ip:block"),
+    validateBody(blockIpRequestSchema),
+    blockIp,
+  );
+  app.delete("/api/security/dos/blocks/:ip", allow("ip:block"), unblockIp);
 
   // System Health API
-  app.get("/api/security/health", getSystemHealth);
+  app.get("/api/security/health", allowRead("health:read"), getSystemHealth);
 
   // Authentication API
-  app.post("/api/auth/login", login);
+  app.post("/api/auth/login", validateBody(loginRequestSchema), login);
+  app.post(
+    "/api/auth/login/mfa",
+    validateBody(mfaLoginRequestSchema),
+    loginMfa,
+  );
+  app.post(
+    "/api/auth/refresh",
+    validateBody(refreshTokenRequestSchema),
+    refreshToken,
+  );
   app.get("/api/auth/verify", verifyToken);
-  app.post("/api/auth/logout", logout);
+  app.post("/api/auth/logout", validateBody(logoutRequestSchema), logout);
+
+  // Two-factor authentication for the signed-in user
+  app.get("/api/auth/mfa", requireAuth(), getMfaStatus);
+  app.post(
+    "/api/auth/mfa/setup",
+    optionalAuth(),
+    validateBody(mfaSetupRequestSchema),
+    setupMfa,
+  );
+  app.post(
+    "/api/auth/mfa/confirm",
+    requireAuth(),
+    validateBody(mfaCodeRequestSchema),
+    confirmMfa,
+  );
+  app.post(
+    "/api/auth/mfa/recovery-codes",
+    requireAuth(),
+    validateBody(mfaCodeRequestSchema),
+    regenerateMfaRecoveryCodes,
+  );
+  app.delete(
+    "/api/auth/mfa",
+    requireAuth(),
+    validateBody(mfaDisableRequestSchema),
+    disableMfa,
+  );
+
+  // User Management API
+  app.get("/api/users", allow("users:manage"), listUsers);
+  app.post(
+    "/api/users",
+    allow("users:manage"),
+    validateBody(createUserRequestSchema),
+    createUser,
+  );
+  app.patch(
+    "/api/users/:id",
+    allow("users:manage"),
+    validateBody(updateUserRequestSchema),
+    updateUser,
+  );
+  app.post(
+    "/api/users/:id/password",
+    allow("users:manage"),
+    validateBody(resetPasswordRequestSchema),
+    resetUserPassword,
+  );
+  app.delete("/api/users/:id/mfa", allow("users:manage"), resetUserMfa);
+
+  // System settings; each section is checked against its own permission
+  app.get("/api/settings", requireAuth(), getSettings);
+  app.put(
+    "/api/settings",
+    requireAuth(),
+    validateBody(updateSettingsRequestSchema),
+    updateSettings,
+  );
+  app.get("/api/settings/history", requireAuth(), getSettingsHistory);
+
+  // Cardholder directory and credentials
+  app.get(
+    "/api/cardholders",
+    allowRead("events:read"),
+    validateQuery(cardholdersQuerySchema),
+    listCardholders,
+  );
+  app.post(
+    "/api/cardholders",
+    allow("cardholders:manage"),
+    validateBody(createCardholderRequestSchema),
+    createCardholder,
+  );
+  app.get("/api/cardholders/:id", allowRead("events:read"), getCardholder);
+  app.patch(
+    "/api/cardholders/:id",
+    allow("cardholders:manage"),
+    validateBody(updateCardholderRequestSchema),
+    updateCardholder,
+  );
+  app.delete(
+    "/api/cardholders/:id",
+    allow("cardholders:manage"),
+    deleteCardholder,
+  );
+  app.post(
+    "/api/credentials",
+    allow("cardholders:manage"),
+    validateBody(issueCredentialRequestSchema),
+    issueCredential,
+  );
+  app.patch(
+    "/api/credentials/:id",
+    allow("cardholders:manage"),
+    validateBody(updateCredentialRequestSchema),
+    updateCredential,
+  );
+
+  // Access decisions and the policy behind them
+  app.post(
+    "/api/access/decide",
+    allow("events:write"),
+    validateBody(accessDecisionRequestSchema),
+    decide,
+  );
+  app.get("/api/access/policy", allowRead("events:read"), getAccessPolicy);
+  app.put(
+    "/api/access/policy",
+    allow("access:manage"),
+    validateBody(accessPolicySchema),
+    updateAccessPolicy,
+  );
+
+  // Location hierarchy: sites, buildings, floors, zones and doors
+  app.get("/api/locations", allowRead("events:read"), listLocations);
+  app.post(
+    "/api/locations",
+    allow("locations:manage"),
+    validateBody(createLocationRequestSchema),
+    createLocation,
+  );
+  app.patch(
+    "/api/locations/:id",
+    allow("locations:manage"),
+    validateBody(updateLocationRequestSchema),
+    updateLocation,
+  );
+  app.delete("/api/locations/:id", allow("locations:manage"), deleteLocation);
+
+  // RFID reader registry; readers report in with heartbeats
+  app.get("/api/readers", allowRead("events:read"), listReaders);
+  app.post(
+    "/api/readers",
+    allow("readers:manage"),
+    validateBody(registerReaderRequestSchema),
+    registerReader,
+  );
+  app.patch(
+    "/api/readers/:id",
+    allow("readers:manage"),
+    validateBody(updateReaderRequestSchema),
+    updateReader,
+  );
+  app.delete("/api/readers/:id", allow("readers:manage"), deleteReader);
+  app.post(
+    "/api/readers/:id/heartbeat",
+    allow("events:write"),
+    validateBody(readerHeartbeatRequestSchema),
+    readerHeartbeat,
+  );
+
+  // Wiegand card formats for decoding raw reader bits; the standard ones
+  // are built in
+  app.get("/api/card-formats", allowRead("events:read"), listCardFormats);
+  app.post(
+    "/api/card-formats",
+    allow("readers:manage"),
+    validateBody(cardFormatSchema),
+    createCardFormat,
+  );
+  app.put(
+    "/api/card-formats/:id",
+    allow("readers:manage"),
+    validateBody(cardFormatSchema),
+    updateCardFormat,
+  );
+  app.delete(
+    "/api/card-formats/:id",
+    allow("readers:manage"),
+    deleteCardFormat,
+  );
+
+  app.use(handleErrors);
 
   return app;
 }
@@ -0,0 +1,32 @@
+import { Request, RequestHandler } from "express";
+import { ApiErrorResponse } from "@shared/api";
+import { ipMatches } from "@shared/event-query";
+import { getStore } from "./storage";
+
+/**
+ * Address of the client. IPv4 clients of a dual-stack server show up as
+ * IPv4-mapped IPv6 addresses, which IPv4 block patterns would not match.
+ */
+export const clientIp = (req: Request): string | undefined =>
+  req.ip?.replace(/^::ffff:/, "");
+
+/**
+ * Refuse requests from addresses covered by an active block
+ */
+export const rejectBlockedClients: RequestHandler = async (req, res, next) => {
+  const ip = clientIp(req);
+  if (!ip) return next();
+
+  const blocks = await getStore(req).listIpBlocks();
+  const block = blocks.find((b) => ipMatches(ip, b.ipAddress));
+  if (!block) return next();
+
+  const response: ApiErrorResponse = {
+    error: "Forbidden",
+    code: "ip_blocked",
+    message: block.expiresAt
+      ? `Your address is blocked until ${block.expiresAt}`
+      : "Your address is blocked",
+  };
+  res.status(403).json(response);
+};
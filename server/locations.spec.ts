@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { MemoryStore } from "./storage/memory";
+import { locationInUse } from "./locations";
+
+// Seeded: Floor 1 holds doors loc-door-101..104, each with its reader
+describe("locationInUse", () => {
+  it("should keep locations with locations inside them", async () => {
+    const store = new MemoryStore();
+
+    expect(await locationInUse(store, "loc-floor-1")).toBe(
+      "Location contains other locations; move or delete them first",
+    );
+  });
+
+  it("should keep locations readers are installed at", async () => {
+    const store = new MemoryStore();
+
+    expect(await locationInUse(store, "loc-door-101")).toBe(
+      "Reader 101 (rdr-101) is installed here; move or delete it first",
+    );
+
+    await store.deleteReader("rdr-101");
+    expect(await locationInUse(store, "loc-door-101")).toBeUndefined();
+  });
+
+  it("should keep locations access zones cover", async () => {
+    const store = new MemoryStore();
+    await store.saveLocation({
+      id: "loc-vault",
+      name: "Vault door",
+      kind: "door",
+      parentId: "loc-floor-5",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    });
+    const policy = await store.getAccessPolicy();
+    const [zone, ...others] = policy.zones;
+    await store.saveAccessPolicy({
+      ...policy,
+      zones: [
+        { ...zone, locationIds: [...(zone.locationIds ?? []), "loc-vault"] },
+        ...others,
+      ],
+    });
+
+    expect(await locationInUse(store, "loc-vault")).toBe(
+      `Access zone ${zone.name} (${zone.id}) covers this location; remove it from the zone first`,
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { SecurityEvent } from "@shared/api";
+import { locationLabel, locationPath } from "@shared/locations";
+import { SecurityStore } from "./storage";
+
+export type EventLocation = Pick<
+  SecurityEvent,
+  "location" | "locationId" | "locationPath"
+>;
+
+/**
+ * Location fields of an event at `locationId`, or undefined when it is not
+ * in the hierarchy. The display string and path are stored with the event,
+ * so its history still reads the same after locations are renamed or moved.
+ */
+export const resolveLocation = async (
+  store: SecurityStore,
+  locationId: string,
+): Promise<EventLocation | undefined> => {
+  const path = locationPath(await store.listLocations(), locationId);
+  if (path.length === 0) return undefined;
+
+  return {
+    location: locationLabel(path),
+    locationId,
+    locationPath: path.map((location) => location.id),
+  };
+};
+
+/**
+ * Why the location cannot be removed yet, if anything still needs it:
+ * locations inside it, readers installed at it or access zones covering it
+ */
+export const locationInUse = async (
+  store: SecurityStore,
+  locationId: string,
+): Promise<string | undefined> => {
+  const [locations, readers, policy] = await Promise.all([
+    store.listLocations(),
+    store.listReaders(),
+    store.getAccessPolicy(),
+  ]);
+  if (locations.some((child) => child.parentId === locationId)) {
+    return "Location contains other locations; move or delete them first";
+  }
+  const reader = readers.find((r) => r.locationId === locationId);
+  if (reader) {
+    return `${reader.name} (${reader.id}) is installed here; move or delete it first`;
+  }
+  const zone = policy.zones.find((z) => z.locationIds?.includes(locationId));
+  if (zone) {
+    return `Access zone ${zone.name} (${zone.id}) covers this location; remove it from the zone first`;
+  }
+  return undefined;
+};
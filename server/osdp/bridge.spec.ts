@@ -0,0 +1,168 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { encodeWiegand, BUILT_IN_CARD_FORMATS } from "@shared/wiegand";
+import { MemoryStore } from "../storage/memory";
+import { OsdpBridge } from "./bridge";
+import { createPortPair } from "./port";
+import { SimulatedReader } from "./simulated-reader";
+
+const SEEDED_AT = "2024-01-01T00:00:00.000Z";
+const H10301 = BUILT_IN_CARD_FORMATS[0];
+const ALICES_CARD = encodeWiegand(H10301, {
+  facilityCode: 12,
+  cardNumber: 3456,
+});
+
+// Reader rdr-501 sits at Room 501, in the server rooms zone Alice's
+// engineering group may always enter
+const setup = async (options: { replyTimeoutMs?: number } = {}) => {
+  const store = new MemoryStore();
+  await store.saveCredential({
+    id: "cred-wiegand",
+    cardNumber: "12-3456",
+    cardholderId: "ch-1",
+    format: "wiegand26",
+    issuedAt: SEEDED_AT,
+    state: "active",
+    stateChangedAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  });
+
+  const [panelPort, readerPort] = createPortPair(5);
+  const bridge = new OsdpBridge(store, panelPort, {
+    address: 1,
+    readerId: "rdr-501",
+    log: { warn: () => {}, error: () => {} },
+    ...options,
+  });
+  const reader = new SimulatedReader(readerPort, 1);
+  cleanups.push(() => {
+    bridge.stop();
+    reader.close();
+  });
+  return { store, bridge, reader };
+};
+
+const cleanups: (() => void)[] = [];
+afterEach(() => cleanups.splice(0).forEach((cleanup) => cleanup()));
+
+const rfidEvents = async (store: MemoryStore) =>
+  (await store.listEvents({ filter: { type: ["rfid"] } })).events;
+
+describe("OsdpBridge", () => {
+  it("should record a granted card read and answer with green and a beep", async () => {
+    const { store, bridge, reader } = await setup();
+    reader.presentCard(ALICES_CARD);
+
+    expect(await bridge.poll()).toMatchObject({
+      kind: "cardRead",
+      bits: ALICES_CARD,
+    });
+    const [event] = await rfidEvents(store);
+    expect(event).toMatchObject({
+      type: "rfid",
+      status: "authorized",
+      cardId: "12-3456",
+      cardholderId: "ch-1",
+      cardholderName: "Alice Moreno",
+      location: "Floor 5 - Server Wing - Room 501",
+      locationId: "loc-door-501",
+      rawBits: ALICES_CARD,
+      cardFormat: "H10301",
+    });
+
+    await bridge.poll();
+    await bridge.poll();
+    expect(reader.received.slice(1)).toMatchObject([
+      { kind: "led", records: [{ temporary: { onColor: "green" } }] },
+      { kind: "buzzer", count: 1 },
+    ]);
+  });
+
+  it("should deny unknown cards with red and three beeps", async () => {
+    const { store, bridge, reader } = await setup();
+    reader.presentCard(
+      encodeWiegand(H10301, { facilityCode: 12, cardNumber: 9999 }),
+    );
+
+    await bridge.poll();
+    await bridge.poll();
+    await bridge.poll();
+
+    expect(await rfidEvents(store)).toMatchObject([
+      { status: "unauthorized", cardId: "12-9999" },
+    ]);
+    expect(reader.received.slice(1)).toMatchObject([
+      { kind: "led", records: [{ temporary: { onColor: "red" } }] },
+      { kind: "buzzer", count: 3 },
+    ]);
+  });
+
+  it("should record reads that fail parity as parity errors", async () => {
+    const { store, bridge, reader } = await setup();
+    const flipped = `${ALICES_CARD.slice(0, 10)}${ALICES_CARD[10] === "1" ? "0" : "1"}${ALICES_CARD.slice(11)}`;
+    reader.presentCard(flipped);
+
+    await bridge.poll();
+
+    const [event] = await rfidEvents(store);
+    expect(event).toMatchObject({
+      status: "parity_error",
+      rawBits: flipped,
+      cardFormat: "H10301",
+      locationId: "loc-door-501",
+    });
+    expect(event.cardId).toBeUndefined();
+  });
+
+  it("should count replies as heartbeats of the registered reader", async () => {
+    const { store, bridge } = await setup();
+
+    await bridge.poll();
+
+    const reader = await store.findReader("rdr-501");
+    expect(Date.parse(reader.lastHeartbeat)).toBeGreaterThan(
+      Date.parse(SEEDED_AT),
+    );
+  });
+
+  it("should record tamper changes but not keypad entries", async () => {
+    const { store, bridge, reader } = await setup();
+    reader.enterKeys("1234#");
+    reader.setTamper(true);
+    reader.setTamper(false);
+
+    expect(await bridge.poll()).toEqual({
+      kind: "keypad",
+      reader: 0,
+      keys: "1234#",
+    });
+    await bridge.poll();
+    await bridge.poll();
+
+    const { events } = await store.listEvents();
+    expect(events).toMatchObject([
+      {
+        type: "anomaly",
+        severity: "low",
+        description: "Reader 501 (rdr-501) tamper cleared",
+      },
+      {
+        type: "anomaly",
+        status: "detected",
+        severity: "high",
+        locationId: "loc-door-501",
+        description: "Reader 501 (rdr-501) tamper detected",
+      },
+    ]);
+  });
+
+  it("should give up on a silent reader and poll again", async () => {
+    const { bridge, reader } = await setup({ replyTimeoutMs: 20 });
+    reader.connected = false;
+
+    expect(await bridge.poll()).toBeUndefined();
+
+    reader.connected = true;
+    expect(await bridge.poll()).toEqual({ kind: "ack" });
+  });
+});
@@ -0,0 +1,325 @@
+import { NewSecurityEvent } from "@shared/api";
+import { SecurityStore } from "../storage";
+import { accessOutcome, evaluateScan } from "../access";
+import { decodeRawBits } from "../card-formats";
+import { recordSecurityEvent } from "../events";
+import { resolveLocation } from "../locations";
+import { recordHeartbeat } from "../readers";
+import { FrameReader, OsdpFrame, encodeFrame } from "./frame";
+import {
+  NAK_ERRORS,
+  OsdpCommand,
+  OsdpReply,
+  encodeCommand,
+  parseReply,
+} from "./messages";
+import { OsdpPort } from "./port";
+
+export interface OsdpBridgeOptions {
+  /** Address of the reader on the bus */
+  address: number;
+  /**
+   * Registered reader at that address. Its replies count as heartbeats and
+   * its location is where its cards are read.
+   */
+  readerId?: string;
+  pollMs?: number;
+  replyTimeoutMs?: number;
+  /** Where line and protocol problems are reported, console by default */
+  log?: Pick<Console, "warn" | "error">;
+}
+
+const DEFAULT_POLL_MS = 200;
+const DEFAULT_REPLY_TIMEOUT_MS = 200;
+// Readers answer every poll; the registry only needs to hear now and then
+const HEARTBEAT_MS = 10000;
+
+const FEEDBACK_MS = 3000;
+
+const GRANTED_FEEDBACK: OsdpCommand[] = [
+  {
+    kind: "led",
+    records: [
+      {
+        reader: 0,
+        led: 0,
+        temporary: {
+          onMs: FEEDBACK_MS,
+          offMs: 0,
+          onColor: "green",
+          offColor: "black",
+          durationMs: FEEDBACK_MS,
+        },
+      },
+    ],
+  },
+  { kind: "buzzer", reader: 0, tone: "default", onMs: 200, offMs: 0, count: 1 },
+];
+
+const DENIED_FEEDBACK: OsdpCommand[] = [
+  {
+    kind: "led",
+    records: [
+      {
+        reader: 0,
+        led: 0,
+        temporary: {
+          onMs: 300,
+          offMs: 300,
+          onColor: "red",
+          offColor: "black",
+          durationMs: FEEDBACK_MS,
+        },
+      },
+    ],
+  },
+  {
+    kind: "buzzer",
+    reader: 0,
+    tone: "default",
+    onMs: 100,
+    offMs: 100,
+    count: 3,
+  },
+];
+
+interface PendingReply {
+  sequence: number;
+  resolve: (reply: OsdpReply | undefined) => void;
+}
+
+/**
+ * Control panel side of an OSDP line to one reader. Polls the reader,
+ * records the cards it reads as RFID events through the same path as
+ * POST /api/security/events, decides them with the access policy and
+ * answers with the LED and buzzer. Tamper changes are recorded as security
+ * events too; keypad entries are ignored.
+ */
+export class OsdpBridge {
+  private readonly frames = new FrameReader();
+  private readonly queue: OsdpCommand[] = [];
+  private readonly unsubscribe: () => void;
+  private sequence = 0;
+  private pending?: PendingReply;
+  private tamper = false;
+  private lastHeartbeat = 0;
+  private timer?: NodeJS.Timeout;
+  private readonly log: Pick<Console, "warn" | "error">;
+
+  constructor(
+    private readonly store: SecurityStore,
+    private readonly port: OsdpPort,
+    private readonly options: OsdpBridgeOptions,
+  ) {
+    this.log = options.log ?? console;
+    this.unsubscribe = port.onData((chunk) => this.receive(chunk));
+  }
+
+  /** Poll continuously until stopped */
+  start() {
+    const loop = () => {
+      this.poll()
+        .catch((error) => this.log.error("OSDP poll failed:", error))
+        .finally(() => {
+          if (!this.timer) return;
+          this.timer = setTimeout(loop, this.options.pollMs ?? DEFAULT_POLL_MS);
+          this.timer.unref();
+        });
+    };
+    this.timer = setTimeout(loop, 0);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.unsubscribe();
+  }
+
+  /** Send `command` in place of the next poll */
+  enqueue(...commands: OsdpCommand[]) {
+    this.queue.push(...commands);
+  }
+
+  /**
+   * Send the next queued command, or a poll, and act on the reply.
+   * Resolves once the reply has been handled, or the reader timed out.
+   */
+  async poll(): Promise<OsdpReply | undefined> {
+    const command = this.queue.shift() ?? { kind: "poll" };
+    const reply = await this.send(command);
+    if (reply) await this.handleReply(reply);
+    return reply;
+  }
+
+  private send(command: OsdpCommand): Promise<OsdpReply | undefined> {
+    const sequence = this.sequence;
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        // Start over with sequence 0, which resets the reader's side too
+        this.pending = undefined;
+        this.sequence = 0;
+        resolve(undefined);
+      }, this.options.replyTimeoutMs ?? DEFAULT_REPLY_TIMEOUT_MS);
+
+      this.pending = {
+        sequence,
+        resolve: (reply) => {
+          clearTimeout(timeout);
+          this.pending = undefined;
+          this.sequence = sequence === 3 ? 1 : sequence + 1;
+          resolve(reply);
+        },
+      };
+      this.port.write(
+        encodeFrame({
+          address: this.options.address,
+          sequence,
+          ...encodeCommand(command),
+        }),
+      );
+    });
+  }
+
+  private receive(chunk: Buffer) {
+    const { frames, errors } = this.frames.push(chunk);
+    errors.forEach((error) =>
+      this.log.warn(`OSDP reader ${this.options.address}: ${error}`),
+    );
+    frames.forEach((frame) => this.receiveFrame(frame));
+  }
+
+  private receiveFrame(frame: OsdpFrame) {
+    if (!frame.reply || frame.address !== this.options.address) return;
+    // Late replies to a command that already timed out are dropped
+    if (!this.pending || frame.sequence !== this.pending.sequence) return;
+
+    const parsed = parseReply(frame.code, frame.data);
+    if (parsed.success === false) {
+      this.log.warn(`OSDP reader ${this.options.address}: ${parsed.error}`);
+      this.pending.resolve(undefined);
+      return;
+    }
+    this.pending.resolve(parsed.message);
+  }
+
+  private async handleReply(reply: OsdpReply) {
+    await this.heartbeat();
+
+    switch (reply.kind) {
+      case "cardRead":
+        await this.handleCardRead(reply.bits);
+        break;
+      case "localStatus":
+        if (reply.tamper !== this.tamper) {
+          this.tamper = reply.tamper;
+          await this.recordTamper(reply.tamper);
+        }
+        break;
+      case "nak":
+        this.log.warn(
+          `OSDP reader ${this.options.address} refused a command: ${NAK_ERRORS[reply.error] ?? `error ${reply.error}`}`,
+        );
+        break;
+    }
+  }
+
+  private async heartbeat() {
+    const { readerId } = this.options;
+    if (!readerId || Date.now() - this.lastHeartbeat < HEARTBEAT_MS) return;
+
+    const reader = await this.store.findReader(readerId);
+    if (!reader) return;
+    this.lastHeartbeat = Date.now();
+    await recordHeartbeat(this.store, reader);
+  }
+
+  /**
+   * Record the reader's tamper switch opening or closing again. An opened
+   * housing may be someone getting at the wiring behind the door.
+   */
+  private async recordTamper(tamper: boolean) {
+    const reader = this.options.readerId
+      ? await this.store.findReader(this.options.readerId)
+      : undefined;
+    const name = reader
+      ? `${reader.name} (${reader.id})`
+      : `OSDP reader ${this.options.address}`;
+
+    const recorded = await recordSecurityEvent(this.store, {
+      type: "anomaly",
+      status: "detected",
+      severity: tamper ? "high" : "low",
+      locationId: reader?.locationId,
+      location: reader && !reader.locationId ? reader.name : undefined,
+      description: `${name} tamper ${tamper ? "detected" : "cleared"}`,
+    });
+    if (recorded.success === false) {
+      this.log.warn(
+        `OSDP reader ${this.options.address}: ${Object.values(recorded.errors).join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Decide a card read and record it. The bits are decoded here to decide
+   * and again when the event is recorded, so the event is exactly what
+   * posting them to the API would have stored.
+   */
+  private async handleCardRead(bits: string) {
+    const now = new Date();
+    const reader = this.options.readerId
+      ? await this.store.findReader(this.options.readerId)
+      : undefined;
+    const location = reader?.locationId
+      ? await resolveLocation(this.store, reader.locationId)
+      : undefined;
+
+    const result = await decodeRawBits(this.store, bits);
+    if (result.success === false) {
+      this.log.warn(
+        `OSDP reader ${this.options.address}: ${Object.values(result.errors).join(", ")}`,
+      );
+      this.enqueue(...DENIED_FEEDBACK);
+      return;
+    }
+
+    const { format, decoded } = result.data;
+    const outcome: Pick<
+      NewSecurityEvent,
+      "status" | "severity" | "description"
+    > =
+      decoded.success === true
+        ? accessOutcome(
+            await evaluateScan(
+              this.store,
+              decoded.card.cardId,
+              location ?? { location: reader?.name },
+              now,
+            ),
+          )
+        : { status: "parity_error", severity: "medium" };
+
+    const recorded = await recordSecurityEvent(
+      this.store,
+      {
+        type: "rfid",
+        ...outcome,
+        rawBits: bits,
+        cardFormat: format.id,
+        locationId: reader?.locationId,
+        location: reader && !reader.locationId ? reader.name : undefined,
+      },
+      now,
+    );
+    if (recorded.success === false) {
+      this.log.warn(
+        `OSDP reader ${this.options.address}: ${Object.values(recorded.errors).join(", ")}`,
+      );
+    }
+
+    this.enqueue(
+      ...(outcome.status === "authorized" ? GRANTED_FEEDBACK : DENIED_FEEDBACK),
+    );
+  }
+}
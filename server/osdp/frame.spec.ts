@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { FrameReader, crc16, decodeFrame, encodeFrame } from "./frame";
+import { parseCommand, parseReply } from "./messages";
+
+const bytes = (hex: string) => Buffer.from(hex.replace(/\s/g, ""), "hex");
+
+// Packets as they appear on the line
+const FIXTURES = {
+  // Panel polls reader 0, sequence 0, CRC
+  poll: "53 00 08 00 04 60 eb aa",
+  // Same with the 8-bit checksum, sequence 1
+  pollChecksum: "53 00 07 00 01 60 45",
+  ack: "53 80 08 00 04 40 59 ac",
+  // Reader 1 reads 26 bits of Wiegand: facility 12, card 3456
+  cardRead: "53 81 10 00 06 50 00 01 1a 00 06 06 c0 40 a4 5d",
+  // Reader 1 reports "1234#"
+  keypad: "53 81 0f 00 07 53 00 05 31 32 33 34 0d 69 fd",
+  // Reader 1 reports its housing open
+  tamper: "53 81 0a 00 05 48 01 00 ca 4c",
+  // Three beeps of 200 ms with 100 ms between
+  buzzer: "53 01 0d 00 05 6a 00 02 02 01 03 8f 50",
+  // Red flashing every half second for three seconds
+  led: "53 01 16 00 06 69 00 00 02 05 05 01 00 1e 00 00 00 00 00 00 00 66",
+};
+
+const frameOf = (hex: string) => {
+  const result = decodeFrame(bytes(hex));
+  if (result.success === false) throw new Error(result.error);
+  return result.frame;
+};
+
+// Packet with a security block, CRC appended
+const withSecurityBlock = (type: number, mac: number[] = []) => {
+  const body = [0x53, 0x00, 0, 0x00, 0x0c, 0x02, type, 0x60, ...mac];
+  body[2] = body.length + 2;
+  const crc = crc16(Buffer.from(body));
+  return Buffer.from([...body, crc & 0xff, crc >> 8]);
+};
+
+describe("crc16", () => {
+  it("should match the CRC-16/AUG-CCITT check value", () => {
+    expect(crc16(Buffer.from("123456789"))).toBe(0xe5cc);
+  });
+});
+
+describe("decodeFrame", () => {
+  it("should decode commands with a CRC or a checksum", () => {
+    expect(frameOf(FIXTURES.poll)).toMatchObject({
+      address: 0,
+      reply: false,
+      sequence: 0,
+      crc: true,
+      code: 0x60,
+    });
+    expect(frameOf(FIXTURES.pollChecksum)).toMatchObject({
+      sequence: 1,
+      crc: false,
+      code: 0x60,
+    });
+  });
+
+  it("should parse replies from their data", () => {
+    const reply = (hex: string) => {
+      const frame = frameOf(hex);
+      return parseReply(frame.code, frame.data);
+    };
+
+    expect(frameOf(FIXTURES.cardRead)).toMatchObject({
+      address: 1,
+      reply: true,
+      sequence: 2,
+    });
+    expect(reply(FIXTURES.ack)).toEqual({
+      success: true,
+      message: { kind: "ack" },
+    });
+    expect(reply(FIXTURES.cardRead)).toEqual({
+      success: true,
+      message: {
+        kind: "cardRead",
+        reader: 0,
+        format: "wiegand",
+        bits: "00000110000001101100000001",
+      },
+    });
+    expect(reply(FIXTURES.keypad)).toEqual({
+      success: true,
+      message: { kind: "keypad", reader: 0, keys: "1234#" },
+    });
+    expect(reply(FIXTURES.tamper)).toEqual({
+      success: true,
+      message: { kind: "localStatus", tamper: true, powerFailure: false },
+    });
+  });
+
+  it("should parse LED and buzzer commands", () => {
+    const command = (hex: string) => {
+      const frame = frameOf(hex);
+      return parseCommand(frame.code, frame.data);
+    };
+
+    expect(command(FIXTURES.buzzer)).toEqual({
+      success: true,
+      message: {
+        kind: "buzzer",
+        reader: 0,
+        tone: "default",
+        onMs: 200,
+        offMs: 100,
+        count: 3,
+      },
+    });
+    expect(command(FIXTURES.led)).toEqual({
+      success: true,
+      message: {
+        kind: "led",
+        records: [
+          {
+            reader: 0,
+            led: 0,
+            temporary: {
+              onMs: 500,
+              offMs: 500,
+              onColor: "red",
+              offColor: "black",
+              durationMs: 3000,
+            },
+            permanent: undefined,
+          },
+        ],
+      },
+    });
+  });
+
+  it("should encode packets byte for byte", () => {
+    for (const hex of Object.values(FIXTURES)) {
+      const frame = frameOf(hex);
+      expect(encodeFrame(frame).equals(bytes(hex))).toBe(true);
+    }
+  });
+
+  it("should reject corrupted packets", () => {
+    const corrupted = bytes(FIXTURES.cardRead);
+    corrupted[10] ^= 0x01;
+    expect(decodeFrame(corrupted)).toEqual({
+      success: false,
+      error: "CRC mismatch",
+    });
+
+    const checksummed = bytes(FIXTURES.pollChecksum);
+    checksummed[6] += 1;
+    expect(decodeFrame(checksummed)).toEqual({
+      success: false,
+      error: "Bad checksum",
+    });
+  });
+
+  it("should skip security blocks and take the MAC off the data", () => {
+    expect(decodeFrame(withSecurityBlock(0x11))).toMatchObject({
+      success: true,
+      frame: {
+        securityBlock: { type: 0x11 },
+        mac: undefined,
+        code: 0x60,
+        data: Buffer.alloc(0),
+      },
+    });
+    expect(decodeFrame(withSecurityBlock(0x15, [1, 2, 3, 4]))).toMatchObject({
+      success: true,
+      frame: { mac: Buffer.from([1, 2, 3, 4]), data: Buffer.alloc(0) },
+    });
+  });
+});
+
+describe("FrameReader", () => {
+  it("should reassemble packets split across chunks and skip noise", () => {
+    const stream = Buffer.concat([
+      bytes("ff ff"),
+      bytes(FIXTURES.ack),
+      bytes("00 12"),
+      bytes(FIXTURES.cardRead),
+    ]);
+    const reader = new FrameReader();
+
+    const frames = [];
+    for (let i = 0; i < stream.length; i += 3) {
+      frames.push(...reader.push(stream.subarray(i, i + 3)).frames);
+    }
+
+    expect(frames.map((frame) => frame.code)).toEqual([0x40, 0x50]);
+  });
+
+  it("should get back in step after a corrupted packet", () => {
+    const corrupted = bytes(FIXTURES.keypad);
+    corrupted[8] ^= 0xff;
+    const reader = new FrameReader();
+
+    const { frames, errors } = reader.push(
+      Buffer.concat([corrupted, bytes(FIXTURES.tamper)]),
+    );
+
+    expect(frames.map((frame) => frame.code)).toEqual([0x48]);
+    expect(errors[0]).toBe("CRC mismatch");
+  });
+});
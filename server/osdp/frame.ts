@@ -0,0 +1,204 @@
+/**
+ * OSDP (Open Supervised Device Protocol, SIA OSDP 2.2) packet framing: the
+ * envelope around every command a control panel sends and every reply a
+ * reader returns.
+ *
+ *   SOM ADDR LEN_LSB LEN_MSB CTRL [SCB] CODE DATA... [MAC] CKSUM | CRC_LSB CRC_MSB
+ *
+ * LEN counts the whole packet from SOM to the check bytes.
+ */
+
+export const SOM = 0x53;
+/** Sent before SOM to wake up line drivers; skipped when reading */
+export const MARK = 0xff;
+export const BROADCAST_ADDRESS = 0x7f;
+
+// Set on the address byte of replies
+const REPLY_FLAG = 0x80;
+
+const CTRL_SEQUENCE = 0x03;
+const CTRL_CRC = 0x04;
+const CTRL_SECURITY_BLOCK = 0x08;
+
+// Secure channel blocks of these types are followed by a 4 byte MAC
+const MAC_BLOCK_TYPES = [0x15, 0x16, 0x17, 0x18];
+const MAC_LENGTH = 4;
+
+const HEADER_LENGTH = 5;
+/** Longer than anything a reader sends; guards against a corrupt length */
+export const MAX_FRAME_LENGTH = 1440;
+
+export interface OsdpFrame {
+  /** 0-0x7E, or BROADCAST_ADDRESS; without the reply flag */
+  address: number;
+  /** Sent by a reader (PD) rather than the control panel (CP) */
+  reply: boolean;
+  /** 0 on the first command after a reset, then 1, 2, 3, 1, ... */
+  sequence: number;
+  /** CRC-16 rather than the 8-bit checksum */
+  crc: boolean;
+  /** Secure channel block; secure channel itself is not supported */
+  securityBlock?: { type: number; data: Buffer };
+  mac?: Buffer;
+  /** Command or reply code */
+  code: number;
+  data: Buffer;
+}
+
+export type FrameInput = Pick<OsdpFrame, "address" | "sequence" | "code"> &
+  Partial<Pick<OsdpFrame, "reply" | "crc" | "data">>;
+
+/** CRC-16/AUG-CCITT as OSDP uses it: polynomial 0x1021, initial 0x1D0F */
+export const crc16 = (bytes: Uint8Array) => {
+  let crc = 0x1d0f;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+  return crc;
+};
+
+/** Makes the sum of all bytes of the packet 0 modulo 256 */
+export const checksum = (bytes: Uint8Array) =>
+  (0x100 - (bytes.reduce((sum, byte) => sum + byte, 0) & 0xff)) & 0xff;
+
+/** Packet bytes for a frame, check bytes included (no secure channel) */
+export const encodeFrame = ({
+  address,
+  reply = false,
+  sequence,
+  crc = true,
+  code,
+  data = Buffer.alloc(0),
+}: FrameInput): Buffer => {
+  const length = HEADER_LENGTH + 1 + data.length + (crc ? 2 : 1);
+  const packet = Buffer.alloc(length);
+  packet[0] = SOM;
+  packet[1] = (address & 0x7f) | (reply ? REPLY_FLAG : 0);
+  packet.writeUInt16LE(length, 2);
+  packet[4] = (sequence & CTRL_SEQUENCE) | (crc ? CTRL_CRC : 0);
+  packet[5] = code;
+  data.copy(packet, 6);
+
+  const body = packet.subarray(0, length - (crc ? 2 : 1));
+  if (crc) packet.writeUInt16LE(crc16(body), length - 2);
+  else packet[length - 1] = checksum(body);
+  return packet;
+};
+
+export type FrameDecodeResult =
+  | { success: true; frame: OsdpFrame }
+  | { success: false; error: string };
+
+/**
+ * Decode one complete packet, starting at SOM and exactly as long as its
+ * LEN field says
+ */
+export const decodeFrame = (packet: Buffer): FrameDecodeResult => {
+  if (packet.length < HEADER_LENGTH + 2 || packet[0] !== SOM) {
+    return { success: false, error: "Not an OSDP packet" };
+  }
+  const length = packet.readUInt16LE(2);
+  if (length !== packet.length) {
+    return {
+      success: false,
+      error: `Length field says ${length} bytes, got ${packet.length}`,
+    };
+  }
+
+  const control = packet[4];
+  const crc = (control & CTRL_CRC) !== 0;
+  const body = packet.subarray(0, length - (crc ? 2 : 1));
+  const valid = crc
+    ? packet.readUInt16LE(length - 2) === crc16(body)
+    : packet[length - 1] === checksum(body);
+  if (!valid) {
+    return { success: false, error: crc ? "CRC mismatch" : "Bad checksum" };
+  }
+
+  let offset = HEADER_LENGTH;
+  let securityBlock: OsdpFrame["securityBlock"];
+  if (control & CTRL_SECURITY_BLOCK) {
+    const blockLength = body[offset];
+    if (blockLength < 2 || offset + blockLength >= body.length) {
+      return { success: false, error: "Security block overruns the packet" };
+    }
+    securityBlock = {
+      type: body[offset + 1],
+      data: Buffer.from(body.subarray(offset + 2, offset + blockLength)),
+    };
+    offset += blockLength;
+  }
+
+  const macLength =
+    securityBlock && MAC_BLOCK_TYPES.includes(securityBlock.type)
+      ? MAC_LENGTH
+      : 0;
+  if (offset + 1 + macLength > body.length) {
+    return { success: false, error: "Packet has no command or reply code" };
+  }
+
+  return {
+    success: true,
+    frame: {
+      address: packet[1] & 0x7f,
+      reply: (packet[1] & REPLY_FLAG) !== 0,
+      sequence: control & CTRL_SEQUENCE,
+      crc,
+      securityBlock,
+      mac: macLength
+        ? Buffer.from(body.subarray(body.length - macLength))
+        : undefined,
+      code: body[offset],
+      data: Buffer.from(body.subarray(offset + 1, body.length - macLength)),
+    },
+  };
+};
+
+/**
+ * Splits a byte stream into frames. Serial lines deliver packets in
+ * arbitrary chunks and with noise in between; bytes that do not start a
+ * valid packet are skipped one at a time until the stream is back in step.
+ */
+export class FrameReader {
+  private buffer = Buffer.alloc(0);
+
+  /** Frames completed by `chunk`, and why any bytes were dropped */
+  push(chunk: Uint8Array): { frames: OsdpFrame[]; errors: string[] } {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const frames: OsdpFrame[] = [];
+    const errors: string[] = [];
+
+    for (;;) {
+      const start = this.buffer.indexOf(SOM);
+      if (start === -1) {
+        this.buffer = Buffer.alloc(0);
+        break;
+      }
+      this.buffer = this.buffer.subarray(start);
+      if (this.buffer.length < 4) break;
+
+      const length = this.buffer.readUInt16LE(2);
+      if (length < HEADER_LENGTH + 2 || length > MAX_FRAME_LENGTH) {
+        errors.push(`Implausible packet length ${length}`);
+        this.buffer = this.buffer.subarray(1);
+        continue;
+      }
+      if (this.buffer.length < length) break;
+
+      const result = decodeFrame(this.buffer.subarray(0, length));
+      if (result.success === false) {
+        errors.push(result.error);
+        this.buffer = this.buffer.subarray(1);
+        continue;
+      }
+      frames.push(result.frame);
+      this.buffer = this.buffer.subarray(length);
+    }
+
+    return { frames, errors };
+  }
+}
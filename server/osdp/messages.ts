@@ -0,0 +1,363 @@
+/**
+ * OSDP commands (control panel to reader) and replies (reader to control
+ * panel) carried in the data of a frame, limited to what the bridge uses:
+ * polling, card reads, keypad entry, tamper status and LED and buzzer
+ * feedback.
+ */
+
+export const COMMAND_CODES = {
+  poll: 0x60,
+  localStatus: 0x64,
+  led: 0x69,
+  buzzer: 0x6a,
+} as const;
+
+export const REPLY_CODES = {
+  ack: 0x40,
+  nak: 0x41,
+  localStatus: 0x48,
+  cardRead: 0x50,
+  keypad: 0x53,
+  busy: 0x79,
+} as const;
+
+/** NAK error codes */
+export const NAK_ERRORS: Record<number, string> = {
+  1: "Bad checksum or CRC",
+  2: "Command length error",
+  3: "Unknown command code",
+  4: "Unexpected sequence number",
+  5: "Security block not supported",
+  6: "Secure channel required",
+  9: "Unable to process command",
+};
+export const NAK_UNKNOWN_COMMAND = 3;
+
+export type LedColor =
+  | "black"
+  | "red"
+  | "green"
+  | "amber"
+  | "blue"
+  | "magenta"
+  | "cyan"
+  | "white";
+
+// Index is the color's code
+const LED_COLORS: LedColor[] = [
+  "black",
+  "red",
+  "green",
+  "amber",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+];
+
+/** Flashing pattern; times are sent in tenths of a second */
+export interface LedPattern {
+  onMs: number;
+  offMs: number;
+  onColor: LedColor;
+  offColor: LedColor;
+}
+
+export interface LedRecord {
+  reader: number;
+  led: number;
+  /** Shown for `durationMs`, then the permanent state returns */
+  temporary?: LedPattern & { durationMs: number };
+  permanent?: LedPattern;
+}
+
+export type OsdpCommand =
+  | { kind: "poll" }
+  | { kind: "localStatus" }
+  | { kind: "led"; records: LedRecord[] }
+  | {
+      kind: "buzzer";
+      reader: number;
+      /** Off silences it; the tone is the reader's default */
+      tone: "off" | "default";
+      onMs: number;
+      offMs: number;
+      /** 0 sounds until told otherwise */
+      count: number;
+    }
+  | { kind: "unknown"; code: number; data: Buffer };
+
+export type OsdpReply =
+  | { kind: "ack" }
+  | { kind: "nak"; error: number }
+  | { kind: "localStatus"; tamper: boolean; powerFailure: boolean }
+  | {
+      kind: "cardRead";
+      reader: number;
+      /** Wiegand, or raw bits in no format the reader knows */
+      format: "raw" | "wiegand";
+      bits: string;
+    }
+  /** "*" and "#" are sent as 0x7F and 0x0D */
+  | { kind: "keypad"; reader: number; keys: string }
+  | { kind: "busy" }
+  | { kind: "unknown"; code: number; data: Buffer };
+
+export type MessageParseResult<T> =
+  | { success: true; message: T }
+  | { success: false; error: string };
+
+export interface EncodedMessage {
+  code: number;
+  data: Buffer;
+}
+
+const LED_RECORD_LENGTH = 14;
+const BUZZER_LENGTH = 5;
+const TENTHS = 100;
+
+const tenths = (ms: number) => Math.min(255, Math.round(ms / TENTHS));
+
+/** Card data bits, first bit in the high bit of the first byte */
+export const bytesToBits = (data: Uint8Array, count: number) =>
+  Array.from(data, (byte) => byte.toString(2).padStart(8, "0"))
+    .join("")
+    .slice(0, count);
+
+export const bitsToBytes = (bits: string) => {
+  const padded = bits.padEnd(Math.ceil(bits.length / 8) * 8, "0");
+  return Buffer.from(
+    Array.from({ length: padded.length / 8 }, (_, i) =>
+      parseInt(padded.slice(i * 8, i * 8 + 8), 2),
+    ),
+  );
+};
+
+const KEY_CODES: Record<string, number> = { "*": 0x7f, "#": 0x0d };
+const KEYS = Object.fromEntries(
+  Object.entries(KEY_CODES).map(([key, code]) => [code, key]),
+);
+
+const writePattern = (
+  record: Buffer,
+  offset: number,
+  pattern: LedPattern | undefined,
+) => {
+  if (!pattern) return;
+  record[offset] = tenths(pattern.onMs);
+  record[offset + 1] = tenths(pattern.offMs);
+  record[offset + 2] = LED_COLORS.indexOf(pattern.onColor);
+  record[offset + 3] = LED_COLORS.indexOf(pattern.offColor);
+};
+
+const readPattern = (record: Buffer, offset: number): LedPattern => ({
+  onMs: record[offset] * TENTHS,
+  offMs: record[offset + 1] * TENTHS,
+  onColor: LED_COLORS[record[offset + 2]] ?? "black",
+  offColor: LED_COLORS[record[offset + 3]] ?? "black",
+});
+
+export const encodeCommand = (command: OsdpCommand): EncodedMessage => {
+  switch (command.kind) {
+    case "poll":
+    case "localStatus":
+      return { code: COMMAND_CODES[command.kind], data: Buffer.alloc(0) };
+    case "led": {
+      const data = Buffer.alloc(command.records.length * LED_RECORD_LENGTH);
+      command.records.forEach((led, i) => {
+        const record = data.subarray(i * LED_RECORD_LENGTH);
+        record[0] = led.reader;
+        record[1] = led.led;
+        // Control codes: 0 leaves the state alone, 2 sets the temporary
+        // state and 1 the permanent one
+        record[2] = led.temporary ? 2 : 0;
+        writePattern(record, 3, led.temporary);
+        if (led.temporary) {
+          record.writeUInt16LE(
+            Math.min(0xffff, Math.round(led.temporary.durationMs / TENTHS)),
+            7,
+          );
+        }
+        record[9] = led.permanent ? 1 : 0;
+        writePattern(record, 10, led.permanent);
+      });
+      return { code: COMMAND_CODES.led, data };
+    }
+    case "buzzer":
+      return {
+        code: COMMAND_CODES.buzzer,
+        data: Buffer.from([
+          command.reader,
+          command.tone === "off" ? 1 : 2,
+          tenths(command.onMs),
+          tenths(command.offMs),
+          command.count,
+        ]),
+      };
+    case "unknown":
+      return { code: command.code, data: command.data };
+  }
+};
+
+export const parseCommand = (
+  code: number,
+  data: Buffer,
+): MessageParseResult<OsdpCommand> => {
+  switch (code) {
+    case COMMAND_CODES.poll:
+      return { success: true, message: { kind: "poll" } };
+    case COMMAND_CODES.localStatus:
+      return { success: true, message: { kind: "localStatus" } };
+    case COMMAND_CODES.led: {
+      if (data.length === 0 || data.length % LED_RECORD_LENGTH !== 0) {
+        return { success: false, error: "LED records are 14 bytes each" };
+      }
+      const records = Array.from(
+        { length: data.length / LED_RECORD_LENGTH },
+        (_, i): LedRecord => {
+          const record = data.subarray(i * LED_RECORD_LENGTH);
+          return {
+            reader: record[0],
+            led: record[1],
+            temporary:
+              record[2] === 2
+                ? {
+                    ...readPattern(record, 3),
+                    durationMs: record.readUInt16LE(7) * TENTHS,
+                  }
+                : undefined,
+            permanent: record[9] === 1 ? readPattern(record, 10) : undefined,
+          };
+        },
+      );
+      return { success: true, message: { kind: "led", records } };
+    }
+    case COMMAND_CODES.buzzer:
+      if (data.length !== BUZZER_LENGTH) {
+        return { success: false, error: "Buzzer command is 5 bytes" };
+      }
+      return {
+        success: true,
+        message: {
+          kind: "buzzer",
+          reader: data[0],
+          tone: data[1] === 1 ? "off" : "default",
+          onMs: data[2] * TENTHS,
+          offMs: data[3] * TENTHS,
+          count: data[4],
+        },
+      };
+    default:
+      return { success: true, message: { kind: "unknown", code, data } };
+  }
+};
+
+export const encodeReply = (reply: OsdpReply): EncodedMessage => {
+  switch (reply.kind) {
+    case "ack":
+    case "busy":
+      return { code: REPLY_CODES[reply.kind], data: Buffer.alloc(0) };
+    case "nak":
+      return { code: REPLY_CODES.nak, data: Buffer.from([reply.error]) };
+    case "localStatus":
+      return {
+        code: REPLY_CODES.localStatus,
+        data: Buffer.from([reply.tamper ? 1 : 0, reply.powerFailure ? 1 : 0]),
+      };
+    case "cardRead": {
+      const header = Buffer.from([
+        reply.reader,
+        reply.format === "wiegand" ? 1 : 0,
+        0,
+        0,
+      ]);
+      header.writeUInt16LE(reply.bits.length, 2);
+      return {
+        code: REPLY_CODES.cardRead,
+        data: Buffer.concat([header, bitsToBytes(reply.bits)]),
+      };
+    }
+    case "keypad":
+      return {
+        code: REPLY_CODES.keypad,
+        data: Buffer.from([
+          reply.reader,
+          reply.keys.length,
+          ...Array.from(
+            reply.keys,
+            (key) => KEY_CODES[key] ?? key.charCodeAt(0),
+          ),
+        ]),
+      };
+    case "unknown":
+      return { code: reply.code, data: reply.data };
+  }
+};
+
+export const parseReply = (
+  code: number,
+  data: Buffer,
+): MessageParseResult<OsdpReply> => {
+  switch (code) {
+    case REPLY_CODES.ack:
+      return { success: true, message: { kind: "ack" } };
+    case REPLY_CODES.busy:
+      return { success: true, message: { kind: "busy" } };
+    case REPLY_CODES.nak:
+      if (data.length < 1)
+        return { success: false, error: "NAK without error" };
+      return { success: true, message: { kind: "nak", error: data[0] } };
+    case REPLY_CODES.localStatus:
+      if (data.length < 2) {
+        return { success: false, error: "Local status is 2 bytes" };
+      }
+      return {
+        success: true,
+        message: {
+          kind: "localStatus",
+          tamper: data[0] !== 0,
+          powerFailure: data[1] !== 0,
+        },
+      };
+    case REPLY_CODES.cardRead: {
+      if (data.length < 4) {
+        return { success: false, error: "Card read without a header" };
+      }
+      const count = data.readUInt16LE(2);
+      const bytes = data.subarray(4);
+      if (count === 0 || bytes.length !== Math.ceil(count / 8)) {
+        return {
+          success: false,
+          error: `Card read of ${count} bits has ${bytes.length} data bytes`,
+        };
+      }
+      return {
+        success: true,
+        message: {
+          kind: "cardRead",
+          reader: data[0],
+          format: data[1] === 1 ? "wiegand" : "raw",
+          bits: bytesToBits(bytes, count),
+        },
+      };
+    }
+    case REPLY_CODES.keypad: {
+      if (data.length < 2 || data.length !== 2 + data[1]) {
+        return { success: false, error: "Keypad digit count does not match" };
+      }
+      return {
+        success: true,
+        message: {
+          kind: "keypad",
+          reader: data[0],
+          keys: Array.from(
+            data.subarray(2),
+            (byte) => KEYS[byte] ?? String.fromCharCode(byte),
+          ).join(""),
+        },
+      };
+    }
+    default:
+      return { success: true, message: { kind: "unknown", code, data } };
+  }
+};
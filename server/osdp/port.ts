@@ -0,0 +1,37 @@
+/**
+ * What the bridge needs from a serial port. A node-serialport `SerialPort`
+ * fits with a thin wrapper; tests and the simulation use a port pair.
+ */
+export interface OsdpPort {
+  write(bytes: Uint8Array): void;
+  /** Returns a function that stops listening */
+  onData(listener: (chunk: Buffer) => void): () => void;
+}
+
+/**
+ * Two ports wired to each other, standing in for an RS-485 line. Bytes
+ * arrive asynchronously as on a real line, cut into chunks of at most
+ * `chunkSize` bytes so readers have to reassemble packets.
+ */
+export const createPortPair = (chunkSize = 64): [OsdpPort, OsdpPort] => {
+  const listeners: [
+    Set<(chunk: Buffer) => void>,
+    Set<(chunk: Buffer) => void>,
+  ] = [new Set(), new Set()];
+
+  const port = (side: 0 | 1): OsdpPort => ({
+    write(bytes) {
+      const other = listeners[side === 0 ? 1 : 0];
+      for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+        const chunk = Buffer.from(bytes.subarray(offset, offset + chunkSize));
+        setImmediate(() => other.forEach((listener) => listener(chunk)));
+      }
+    },
+    onData(listener) {
+      listeners[side].add(listener);
+      return () => listeners[side].delete(listener);
+    },
+  });
+
+  return [port(0), port(1)];
+};
@@ -0,0 +1,102 @@
+import {
+  BROADCAST_ADDRESS,
+  FrameReader,
+  OsdpFrame,
+  encodeFrame,
+} from "./frame";
+import {
+  NAK_UNKNOWN_COMMAND,
+  OsdpCommand,
+  OsdpReply,
+  encodeReply,
+  parseCommand,
+} from "./messages";
+import { OsdpPort } from "./port";
+
+// NAK for a command whose data does not parse
+const NAK_COMMAND_LENGTH = 2;
+
+/**
+ * A reader (OSDP peripheral device) on the far end of a port. Cards and
+ * keys presented to it are reported in reply to the next polls, the way a
+ * real reader reports them.
+ */
+export class SimulatedReader {
+  /** Commands addressed to this reader, oldest first */
+  readonly received: OsdpCommand[] = [];
+  /** While false the reader stays silent, as if unplugged */
+  connected = true;
+
+  private readonly frames = new FrameReader();
+  private readonly pending: OsdpReply[] = [];
+  private tamper = false;
+  private readonly unsubscribe: () => void;
+
+  constructor(
+    private readonly port: OsdpPort,
+    readonly address = 0,
+  ) {
+    this.unsubscribe = port.onData((chunk) =>
+      this.frames.push(chunk).frames.forEach((frame) => this.handle(frame)),
+    );
+  }
+
+  presentCard(bits: string) {
+    this.pending.push({ kind: "cardRead", reader: 0, format: "wiegand", bits });
+  }
+
+  enterKeys(keys: string) {
+    this.pending.push({ kind: "keypad", reader: 0, keys });
+  }
+
+  /** Opening or closing the housing is reported unprompted */
+  setTamper(tamper: boolean) {
+    this.tamper = tamper;
+    this.pending.push({ kind: "localStatus", tamper, powerFailure: false });
+  }
+
+  close() {
+    this.unsubscribe();
+  }
+
+  private handle(frame: OsdpFrame) {
+    const addressed =
+      frame.address === this.address || frame.address === BROADCAST_ADDRESS;
+    if (frame.reply || !addressed || !this.connected) return;
+
+    const parsed = parseCommand(frame.code, frame.data);
+    if (parsed.success === true) this.received.push(parsed.message);
+    const reply: OsdpReply =
+      parsed.success === false
+        ? { kind: "nak", error: NAK_COMMAND_LENGTH }
+        : this.replyTo(parsed.message);
+
+    this.port.write(
+      encodeFrame({
+        address: this.address,
+        reply: true,
+        sequence: frame.sequence,
+        crc: frame.crc,
+        ...encodeReply(reply),
+      }),
+    );
+  }
+
+  private replyTo(command: OsdpCommand): OsdpReply {
+    switch (command.kind) {
+      case "poll":
+        return this.pending.shift() ?? { kind: "ack" };
+      case "localStatus":
+        return {
+          kind: "localStatus",
+          tamper: this.tamper,
+          powerFailure: false,
+        };
+      case "led":
+      case "buzzer":
+        return { kind: "ack" };
+      default:
+        return { kind: "nak", error: NAK_UNKNOWN_COMMAND };
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { SecurityStore } from "../storage";
+import { BUILT_IN_CARD_FORMATS, encodeWiegand } from "@shared/wiegand";
+import { OsdpBridge } from "./bridge";
+import { createPortPair } from "./port";
+import { SimulatedReader } from "./simulated-reader";
+
+const READER_ID = "rdr-501";
+const H10301 = BUILT_IN_CARD_FORMATS[0];
+// Cards issued with a Wiegand number, "<facility>-<number>"
+const WIEGAND_CARD = /^(\d+)-(\d+)$/;
+
+const randomInt = (max: number) => Math.floor(Math.random() * max);
+
+/**
+ * Demo OSDP line: a simulated reader at the seeded reader rdr-501 talking
+ * to a bridge over a port pair. Now and then it reads one of the cards
+ * issued with a 26-bit Wiegand number, or a stranger's, with the odd bit
+ * flipped on the way.
+ */
+export const startOsdpSimulation = (store: SecurityStore) => {
+  const [panelPort, readerPort] = createPortPair();
+  const reader = new SimulatedReader(readerPort);
+  const bridge = new OsdpBridge(store, panelPort, {
+    address: reader.address,
+    readerId: READER_ID,
+  });
+
+  const presentCard = async () => {
+    const issued = (await store.listCredentials())
+      .map((credential) => WIEGAND_CARD.exec(credential.cardNumber))
+      .filter((match) => match && +match[1] < 256 && +match[2] < 65536);
+    const card =
+      issued.length > 0 && Math.random() > 0.2
+        ? issued[randomInt(issued.length)]
+        : undefined;
+
+    let bits = encodeWiegand(H10301, {
+      facilityCode: card ? +card[1] : randomInt(256),
+      cardNumber: card ? +card[2] : randomInt(65536),
+    });
+    if (Math.random() < 0.05) {
+      const bit = randomInt(bits.length);
+      bits =
+        bits.slice(0, bit) +
+        (bits[bit] === "1" ? "0" : "1") +
+        bits.slice(bit + 1);
+    }
+    reader.presentCard(bits);
+  };
+
+  bridge.start();
+  const timer = setInterval(() => {
+    presentCard().catch((error) => {
+      console.error("Failed to simulate an OSDP card read:", error);
+    });
+  }, 20000);
+  timer.unref();
+
+  return () => {
+    clearInterval(timer);
+    bridge.stop();
+    reader.close();
+  };
+};
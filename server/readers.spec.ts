@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { MemoryStore } from "./storage/memory";
+import { checkReaders, currentHealth, recordHeartbeat } from "./readers";
+
+// Seeded readers rdr-101..rdr-504, one per door, last heard from at the seed
+// time; readers go offline after 60 seconds of silence
+const SEEDED_AT = Date.parse("2024-01-01T00:00:00.000Z");
+const seconds = (n: number) => new Date(SEEDED_AT + n * 1000);
+
+const readerEvents = async (store: MemoryStore) =>
+  (await store.listEvents({ filter: { type: ["reader"] } })).events;
+
+describe("checkReaders", () => {
+  it("should leave readers that beat recently online", async () => {
+    const store = new MemoryStore();
+
+    expect(await checkReaders(store, seconds(59))).toEqual([]);
+    expect(await readerEvents(store)).toEqual([]);
+  });
+
+  it("should take silent readers offline once and record it", async () => {
+    const store = new MemoryStore();
+    const reader = await store.findReader("rdr-501");
+    await recordHeartbeat(store, reader, {}, seconds(30));
+
+    const offline = await checkReaders(store, seconds(61));
+    expect(offline.map((r) => r.id)).not.toContain("rdr-501");
+    expect(offline).toHaveLength(19);
+    expect(await checkReaders(store, seconds(62))).toEqual([]);
+
+    const events = await readerEvents(store);
+    expect(events).toHaveLength(19);
+    expect(
+      events.find((e) => e.description?.includes("rdr-502")),
+    ).toMatchObject({
+      status: "offline",
+      severity: "high",
+      location: "Floor 5 - Server Wing - Room 502",
+      locationId: "loc-door-502",
+    });
+  });
+
+  it("should count silence from when monitoring started", async () => {
+    const store = new MemoryStore();
+    const startedAt = SEEDED_AT + 3600 * 1000;
+
+    expect(await checkReaders(store, seconds(3630), startedAt)).toEqual([]);
+    expect(await checkReaders(store, seconds(3661), startedAt)).toHaveLength(
+      20,
+    );
+  });
+});
+
+describe("recordHeartbeat", () => {
+  it("should bring an offline reader back online with its reported details", async () => {
+    const store = new MemoryStore();
+    await checkReaders(store, seconds(120));
+    const reader = await store.findReader("rdr-101");
+
+    const saved = await recordHeartbeat(
+      store,
+      reader,
+      { firmware: "10.3.0" },
+      seconds(130),
+    );
+
+    expect(saved).toMatchObject({
+      status: "online",
+      firmware: "10.3.0",
+      lastHeartbeat: seconds(130).toISOString(),
+      statusChangedAt: seconds(130).toISOString(),
+    });
+    expect((await readerEvents(store))[0]).toMatchObject({
+      status: "online",
+      severity: "low",
+      description: "Reader 101 (rdr-101) is back online",
+    });
+  });
+
+  it("should not record an event for a reader that was already online", async () => {
+    const store = new MemoryStore();
+    const reader = await store.findReader("rdr-101");
+
+    await recordHeartbeat(store, reader, {}, seconds(10));
+
+    expect(await readerEvents(store)).toEqual([]);
+  });
+});
+
+describe("currentHealth", () => {
+  it("should compute reader availability from the registry", async () => {
+    const store = new MemoryStore();
+    expect((await currentHealth(store)).rfidReaders).toEqual({
+      online: 20,
+      total: 20,
+      percentage: 100,
+    });
+
+    const reader = await store.findReader("rdr-101");
+    await store.saveReader({ ...reader, status: "offline" });
+
+    expect((await currentHealth(store)).rfidReaders).toEqual({
+      online: 19,
+      total: 20,
+      percentage: 95,
+    });
+  });
+});
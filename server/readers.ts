@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import {
+  ReaderHeartbeatRequest,
+  RfidReader,
+  SecurityEvent,
+  SystemHealth,
+} from "@shared/api";
+import { SecurityStore } from "./storage";
+import { resolveLocation } from "./locations";
+
+const CHECK_MS = 5000;
+
+/** Reader availability as reported in system health */
+export const readerHealth = (
+  readers: RfidReader[],
+): SystemHealth["rfidReaders"] => {
+  const online = readers.filter((r) => r.status === "online").length;
+  const total = readers.length;
+  return {
+    online,
+    total,
+    // Nothing installed is nothing down
+    percentage: total === 0 ? 100 : Math.round((online / total) * 1000) / 10,
+  };
+};
+
+/** Stored health with reader availability computed from the registry */
+export const currentHealth = async (
+  store: SecurityStore,
+): Promise<SystemHealth> => {
+  const [health, readers] = await Promise.all([
+    store.getHealth(),
+    store.listReaders(),
+  ]);
+  return { ...health, rfidReaders: readerHealth(readers) };
+};
+
+// Record a reader going online or offline as a security event
+const recordTransition = async (
+  store: SecurityStore,
+  reader: RfidReader,
+  description: string,
+  now: Date,
+) => {
+  const online = reader.status === "online";
+  const location = reader.locationId
+    ? await resolveLocation(store, reader.locationId)
+    : undefined;
+
+  const event: SecurityEvent = {
+    id: randomUUID(),
+    type: "reader",
+    status: reader.status,
+    timestamp: now.toISOString(),
+    location: reader.name,
+    ...location,
+    ipAddress: reader.ipAddress,
+    // A silent reader is a door nobody is watching
+    severity: online ? "low" : "high",
+    description: `${reader.name} (${reader.id}) ${description}`,
+  };
+  await store.addEvent(event);
+};
+
+/**
+ * Note a heartbeat from `reader`, taking any firmware or address it
+ * reports. A reader that was offline, or newly registered, comes online.
+ */
+export const recordHeartbeat = async (
+  store: SecurityStore,
+  reader: RfidReader,
+  { firmware, ipAddress }: ReaderHeartbeatRequest = {},
+  now = new Date(),
+): Promise<RfidReader> => {
+  const cameBack = reader.status === "offline";
+  const saved = await store.saveReader({
+    ...reader,
+    firmware: firmware ?? reader.firmware,
+    ipAddress: ipAddress ?? reader.ipAddress,
+    status: "online",
+    lastHeartbeat: now.toISOString(),
+    statusChangedAt: cameBack ? now.toISOString() : reader.statusChangedAt,
+    updatedAt: now.toISOString(),
+  });
+
+  if (cameBack) {
+    await recordTransition(
+      store,
+      saved,
+      reader.lastHeartbeat ? "is back online" : "came online",
+      now,
+    );
+  }
+  return saved;
+};
+
+/**
+ * Take readers offline once they have been silent for the configured
+ * number of seconds. Silence counts from the later of their last heartbeat
+ * and `since`, so readers are not all reported offline when the server
+ * starts after a while down.
+ */
+export const checkReaders = async (
+  store: SecurityStore,
+  now = new Date(),
+  since = 0,
+): Promise<RfidReader[]> => {
+  const [readers, rules] = await Promise.all([
+    store.listReaders(),
+    store.getStatsRules(),
+  ]);
+  const cutoff = now.getTime() - rules.readerOfflineSeconds * 1000;
+
+  const silent = readers.filter(
+    (reader) =>
+      reader.status === "online" &&
+      Math.max(Date.parse(reader.lastHeartbeat ?? reader.createdAt), since) <
+        cutoff,
+  );
+
+  const offline: RfidReader[] = [];
+  for (const reader of silent) {
+    const saved = await store.saveReader({
+      ...reader,
+      status: "offline",
+      statusChangedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    await recordTransition(store, saved, "stopped sending heartbeats", now);
+    offline.push(saved);
+  }
+  return offline;
+};
+
+/** Check for silent readers in the background */
+export const startReaderMonitor = (store: SecurityStore) => {
+  const startedAt = Date.now();
+  const timer = setInterval(() => {
+    checkReaders(store, new Date(), startedAt).catch((error) => {
+      console.error("Failed to check RFID readers:", error);
+    });
+  }, CHECK_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
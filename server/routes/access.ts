@@ -0,0 +1,82 @@
+import { RequestHandler } from "express";
+import {
+  AccessDecisionRequest,
+  AccessPolicy,
+  ValidationErrorResponse,
+} from "@shared/api";
+import { getStore } from "../storage";
+import { decideAccess } from "../access";
+import { resolveLocation } from "../locations";
+
+// Bodies are validated by the access schemas in shared/schemas.ts
+
+export const getAccessPolicy: RequestHandler = async (req, res) => {
+  res.json(await getStore(req).getAccessPolicy());
+};
+
+/**
+ * Replace the whole policy. The schema checks references within the
+ * policy; group members must be known cardholders and zone locations known
+ * locations.
+ */
+export const updateAccessPolicy: RequestHandler = async (req, res) => {
+  const policy: AccessPolicy = req.body;
+  const store = getStore(req);
+
+  const cardholderIds = new Set(
+    (await store.listCardholders()).map((cardholder) => cardholder.id),
+  );
+  const locationIds = new Set(
+    (await store.listLocations()).map((location) => location.id),
+  );
+  const fields: ValidationErrorResponse["fields"] = {};
+  policy.zones.forEach((zone, index) => {
+    const unknown = (zone.locationIds ?? []).findIndex(
+      (id) => !locationIds.has(id),
+    );
+    if (unknown !== -1) {
+      fields[`zones.${index}.locationIds.${unknown}`] = "Unknown location";
+    }
+  });
+  policy.groups.forEach((group, index) => {
+    const unknown = group.cardholderIds.findIndex(
+      (id) => !cardholderIds.has(id),
+    );
+    if (unknown !== -1) {
+      fields[`groups.${index}.cardholderIds.${unknown}`] = "Unknown cardholder";
+    }
+  });
+  if (Object.keys(fields).length > 0) {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields,
+    };
+    return res.status(400).json(body);
+  }
+
+  const saved = await store.saveAccessPolicy(policy);
+
+  console.log(`Access policy updated by ${req.user?.username}`);
+  res.json(saved);
+};
+
+/**
+ * Decide whether a card opens the door at a location, recording the scan
+ */
+export const decide: RequestHandler = async (req, res) => {
+  const { cardId, location, locationId }: AccessDecisionRequest = req.body;
+  const store = getStore(req);
+
+  const scanLocation = locationId
+    ? await resolveLocation(store, locationId)
+    : { location };
+  if (!scanLocation) {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields: { locationId: "Unknown location" },
+    };
+    return res.status(400).json(body);
+  }
+
+  res.json(await decideAccess(store, { cardId, ...scanLocation }));
+};
@@ -1,79 +1,178 @@
-import { RequestHandler } from "express";
-import { LoginRequest, LoginResponse } from "@shared/api";
-
-// Demo users - replace with real database and proper password hashing
-const users = [
-  {
-    id: "1",
-    username: "admin",
-    password: "admin123", // In production, use bcrypt hashing
-    role: "administrator",
-  },
-  {
-    id: "2",
-    username: "security",
-    password: "secure456",
-    role: "security_officer",
-  },
-];
-
-// Simple JWT token simulation - use real JWT in production
-const generateToken = (userId: string): string => {
-  return Buffer.from(`${userId}:${Date.now()}`).toString("base64");
+import { Request, RequestHandler, Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  LoginRequest,
+  LoginResponse,
+  LogoutRequest,
+  MfaLoginRequest,
+  RefreshTokenRequest,
+  RefreshTokenResponse,
+  SecurityEvent,
+  VerifyTokenResponse,
+} from "@shared/api";
+import { SecurityStore, StoredUser, getStore } from "../storage";
+import { getAuthConfig } from "../auth/config";
+import {
+  AuthError,
+  authenticateToken,
+  bearerToken,
+  endRefreshSession,
+  issueTokens,
+  revokeSession,
+  rotateTokens,
+  toAuthUser,
+} from "../auth/tokens";
+import { sendUnauthorized } from "../auth/middleware";
+import { DECOY_PASSWORD_HASH, verifyPassword } from "../auth/password";
+import { Lockout, byLockedUntil, getLoginThrottle } from "../auth/throttle";
+import {
+  completeMfaEnrollment,
+  isMfaEnabled,
+  isMfaRequired,
+  issueMfaChallenge,
+  verifyMfaChallenge,
+  verifySecondFactor,
+} from "../auth/mfa";
+
+const sendLockedOut = (res: Response, lockout: Lockout) => {
+  const response: LoginResponse = {
+    success: false,
+    message: `Too many failed login attempts. Try again in ${lockout.retryAfter} seconds.`,
+    lockedOut: true,
+    retryAfter: lockout.retryAfter,
+  };
+  res.setHeader("Retry-After", String(lockout.retryAfter));
+  return res.status(429).json(response);
+};
+
+/**
+ * Put a lockout in the security event feed so operators see brute forcing
+ */
+const recordLockout = (
+  store: SecurityStore,
+  lockout: Lockout,
+  username: string,
+  ip: string | undefined,
+) => {
+  const target =
+    lockout.scope === "user"
+      ? `user "${lockout.key}"`
+      : `IP ${lockout.key} (last tried "${username}")`;
+  const event: SecurityEvent = {
+    id: randomUUID(),
+    type: "auth",
+    status: "blocked",
+    timestamp: new Date().toISOString(),
+    ipAddress: ip,
+    // Locking a whole address, or locking again, points to a deliberate attack
+    severity: lockout.scope === "ip" || lockout.repeated ? "high" : "medium",
+    description: `Login locked for ${target} after ${lockout.failures} failed attempts`,
+  };
+  return store.addEvent(event);
+};
+
+/**
+ * Count a failed password or code and answer 401, or 429 once the failure
+ * starts a lockout
+ */
+const rejectLogin = async (
+  req: Request,
+  res: Response,
+  username: string,
+  message: string,
+) => {
+  const started = getLoginThrottle(req).recordFailure(username, req.ip);
+  for (const lockout of started) {
+    await recordLockout(getStore(req), lockout, username, req.ip);
+  }
+  if (started.length > 0) {
+    return sendLockedOut(res, started.sort(byLockedUntil)[0]);
+  }
+
+  const response: LoginResponse = { success: false, message };
+  return res.status(401).json(response);
+};
+
+/**
+ * Start a session once every required factor has been checked
+ */
+const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: StoredUser,
+  rememberMe: boolean,
+  recoveryCodes?: string[],
+) => {
+  getLoginThrottle(req).recordSuccess(user.username);
+
+  const tokens = await issueTokens(
+    getStore(req),
+    getAuthConfig(req),
+    user,
+    rememberMe,
+  );
+
+  const response: LoginResponse = {
+    success: true,
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn,
+    user: toAuthUser(user),
+    message: "Login successful",
+    recoveryCodes,
+  };
+
+  // Log successful login
+  console.log(
+    `User ${user.username} logged in successfully at ${new Date().toISOString()}`,
+  );
+
+  res.json(response);
 };
 
 export const login: RequestHandler = async (req, res) => {
   try {
     const { username, password, rememberMe }: LoginRequest = req.body;
 
-    if (!username || !password) {
-      const response: LoginResponse = {
-        success: false,
-        message: "Username and password are required",
-      };
-      return res.status(400).json(response);
-    }
+    const store = getStore(req);
+    const lockout = getLoginThrottle(req).check(username, req.ip);
+    if (lockout) return sendLockedOut(res, lockout);
+
+    const user = await store.findUserByUsername(username);
+    const valid = await verifyPassword(
+      password,
+      user?.passwordHash ?? DECOY_PASSWORD_HASH,
+    );
 
-    // Find user (in production, query database)
-    const user = users.find((u) => u.username === username);
+    if (!user || !valid) {
+      return rejectLogin(req, res, username, "Invalid username or password");
+    }
 
-    if (!user) {
+    if (user.disabled) {
       const response: LoginResponse = {
         success: false,
-        message: "Invalid username or password",
+        message: "This account has been disabled",
       };
-      return res.status(401).json(response);
+      return res.status(403).json(response);
     }
 
-    // Check password (in production, use bcrypt.compare)
-    if (user.password !== password) {
+    // The password is right; ask for the second factor before any session
+    const config = getAuthConfig(req);
+    if (isMfaEnabled(user) || isMfaRequired(user, config)) {
+      const setupRequired = !isMfaEnabled(user);
       const response: LoginResponse = {
         success: false,
-        message: "Invalid username or password",
+        mfaRequired: true,
+        mfaSetupRequired: setupRequired,
+        challengeToken: issueMfaChallenge(user, config, !!rememberMe),
+        message: setupRequired
+          ? "Your role requires two-factor authentication. Set it up to continue."
+          : "Enter the code from your authenticator app",
       };
-      return res.status(401).json(response);
+      return res.json(response);
     }
 
-    // Generate token
-    const token = generateToken(user.id);
-
-    const response: LoginResponse = {
-      success: true,
-      token,
-      user: {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-      },
-      message: "Login successful",
-    };
-
-    // Log successful login
-    console.log(
-      `User ${username} logged in successfully at ${new Date().toISOString()}`,
-    );
-
-    res.json(response);
+    await completeLogin(req, res, user, !!rememberMe);
   } catch (error) {
     console.error("Login error:", error);
     const response: LoginResponse = {
@@ -84,47 +183,116 @@ export const login: RequestHandler = async (req, res) => {
   }
 };
 
-export const verifyToken: RequestHandler = (req, res) => {
-  const authHeader = req.headers.authorization;
+/**
+ * Second login step. For users enrolling during login, the first valid code
+ * also turns MFA on and the response carries their recovery codes.
+ */
+export const loginMfa: RequestHandler = async (req, res) => {
+  const { challengeToken, code, recoveryCode }: MfaLoginRequest = req.body;
 
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return res.status(401).json({ error: "No token provided" });
+  const store = getStore(req);
+  let challenge: Awaited<ReturnType<typeof verifyMfaChallenge>>;
+  try {
+    challenge = await verifyMfaChallenge(
+      store,
+      getAuthConfig(req),
+      challengeToken,
+    );
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+    const response: LoginResponse = { success: false, message: error.message };
+    return res.status(401).json(response);
   }
 
-  const token = authHeader.substring(7);
+  const { user, payload } = challenge;
+  const lockout = getLoginThrottle(req).check(user.username, req.ip);
+  if (lockout) return sendLockedOut(res, lockout);
 
-  try {
-    // In production, use proper JWT verification
-    const decoded = Buffer.from(token, "base64").toString("utf-8");
-    const [userId, timestamp] = decoded.split(":");
+  if (!user.mfa) {
+    const response: LoginResponse = {
+      success: false,
+      mfaSetupRequired: true,
+      message: "Set up two-factor authentication first",
+    };
+    return res.status(400).json(response);
+  }
 
-    // Check if token is not older than 24 hours (or rememberMe period)
-    const tokenAge = Date.now() - parseInt(timestamp);
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
+  const enrolling = !user.mfa.enabled;
+  if (!(await verifySecondFactor(store, user, { code, recoveryCode }))) {
+    return rejectLogin(req, res, user.username, "Invalid authentication code");
+  }
 
-    if (tokenAge > maxAge) {
-      return res.status(401).json({ error: "Token expired" });
-    }
+  const recoveryCodes = enrolling
+    ? await completeMfaEnrollment(store, user)
+    : undefined;
+  await completeLogin(
+    req,
+    res,
+    await store.findUserById(user.id),
+    payload.rememberMe,
+    recoveryCodes,
+  );
+};
 
-    const user = users.find((u) => u.id === userId);
-    if (!user) {
-      return res.status(401).json({ error: "Invalid token" });
-    }
+export const refreshToken: RequestHandler = async (req, res) => {
+  const { refreshToken }: RefreshTokenRequest = req.body;
+
+  try {
+    const { tokens } = await rotateTokens(
+      getStore(req),
+      getAuthConfig(req),
+      refreshToken,
+    );
+
+    const response: RefreshTokenResponse = {
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof AuthError) return sendUnauthorized(res, error);
+    throw error;
+  }
+};
+
+export const verifyToken: RequestHandler = async (req, res) => {
+  try {
+    const { user } = await authenticateToken(
+      getStore(req),
+      getAuthConfig(req),
+      bearerToken(req.headers.authorization),
+    );
 
-    res.json({
+    const response: VerifyTokenResponse = {
       valid: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-      },
-    });
+      user: toAuthUser(user),
+    };
+    res.json(response);
   } catch (error) {
-    res.status(401).json({ error: "Invalid token" });
+    if (error instanceof AuthError) return sendUnauthorized(res, error);
+    throw error;
   }
 };
 
-export const logout: RequestHandler = (req, res) => {
-  // In production, you might want to blacklist the token
+export const logout: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const config = getAuthConfig(req);
+  const { refreshToken }: LogoutRequest = req.body;
+
+  // Logging out must always succeed for the client, so ignore bad tokens
+  try {
+    const { payload } = await authenticateToken(
+      store,
+      config,
+      bearerToken(req.headers.authorization),
+    );
+    await revokeSession(store, payload);
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+  }
+
+  if (refreshToken) await endRefreshSession(store, refreshToken);
+
   res.json({ message: "Logged out successfully" });
 };
@@ -0,0 +1,72 @@
+import { RequestHandler } from "express";
+import {
+  CardFormat,
+  CardFormatsResponse,
+  ValidationErrorResponse,
+} from "@shared/api";
+import { getStore } from "../storage";
+import { isBuiltInFormat, listedCardFormats } from "../card-formats";
+
+// Bodies are validated by cardFormatSchema in shared/schemas.ts
+
+const BUILT_IN_ERROR = { error: "Built-in card formats cannot be changed" };
+
+export const listCardFormats: RequestHandler = async (req, res) => {
+  const response: CardFormatsResponse = {
+    formats: await listedCardFormats(getStore(req)),
+  };
+  res.json(response);
+};
+
+export const createCardFormat: RequestHandler = async (req, res) => {
+  const format: CardFormat = req.body;
+  const store = getStore(req);
+
+  if (isBuiltInFormat(format.id) || (await store.findCardFormat(format.id))) {
+    return res
+      .status(409)
+      .json({ error: "A card format with this id already exists" });
+  }
+
+  const saved = await store.saveCardFormat(format);
+
+  console.log(`Card format ${saved.id} created by ${req.user?.username}`);
+  res.status(201).json(saved);
+};
+
+// Replaces the whole layout; events keep the card ids they were stored with
+export const updateCardFormat: RequestHandler = async (req, res) => {
+  const format: CardFormat = req.body;
+  const id = String(req.params.id).toUpperCase();
+  const store = getStore(req);
+
+  if (isBuiltInFormat(id)) return res.status(409).json(BUILT_IN_ERROR);
+  if (!(await store.findCardFormat(id))) {
+    return res.status(404).json({ error: "Card format not found" });
+  }
+  if (format.id !== id) {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields: { id: "Must match the format being replaced" },
+    };
+    return res.status(400).json(body);
+  }
+
+  const saved = await store.saveCardFormat(format);
+
+  console.log(`Card format ${saved.id} updated by ${req.user?.username}`);
+  res.json(saved);
+};
+
+export const deleteCardFormat: RequestHandler = async (req, res) => {
+  const id = String(req.params.id).toUpperCase();
+  const store = getStore(req);
+
+  if (isBuiltInFormat(id)) return res.status(409).json(BUILT_IN_ERROR);
+  if (!(await store.deleteCardFormat(id))) {
+    return res.status(404).json({ error: "Card format not found" });
+  }
+
+  console.log(`Card format ${id} deleted by ${req.user?.username}`);
+  res.json({ message: "Card format deleted" });
+};
@@ -0,0 +1,252 @@
+import { RequestHandler } from "express";
+import { randomUUID } from "crypto";
+import {
+  Cardholder,
+  CardholderDetails,
+  CardholdersQuery,
+  CardholdersResponse,
+  CreateCardholderRequest,
+  Credential,
+  IssueCredentialRequest,
+  UpdateCardholderRequest,
+  UpdateCredentialRequest,
+  ValidationErrorResponse,
+  CREDENTIAL_TRANSITIONS,
+  isCredentialInUse,
+} from "@shared/api";
+import { SecurityStore, getStore } from "../storage";
+import { validQuery } from "../validation";
+import { credentialInUse } from "../cardholders";
+
+// Bodies are validated by the cardholder schemas in shared/schemas.ts
+
+const withCredentials = async (
+  store: SecurityStore,
+  cardholder: Cardholder,
+): Promise<CardholderDetails> => ({
+  ...cardholder,
+  credentials: await store.listCredentials(cardholder.id),
+});
+
+const matchesSearch = (cardholder: CardholderDetails, q: string) => {
+  const needle = q.toLowerCase();
+  return [
+    cardholder.name,
+    cardholder.department,
+    ...cardholder.credentials.map((c) => c.cardNumber),
+  ].some((value) => value?.toLowerCase().includes(needle));
+};
+
+// Blank strings clear optional text fields
+const optionalText = (value: string | undefined, current?: string) =>
+  value === undefined ? current : value || undefined;
+
+// Query validated by cardholdersQuerySchema
+export const listCardholders: RequestHandler = async (req, res) => {
+  const { q, status } = validQuery<CardholdersQuery>(res);
+  const store = getStore(req);
+  const [cardholders, credentials] = await Promise.all([
+    store.listCardholders(),
+    store.listCredentials(),
+  ]);
+
+  const details = cardholders
+    .filter((c) => !status || c.status === status)
+    .map((cardholder) => ({
+      ...cardholder,
+      credentials: credentials.filter((c) => c.cardholderId === cardholder.id),
+    }))
+    .filter((cardholder) => !q || matchesSearch(cardholder, q));
+
+  const response: CardholdersResponse = { cardholders: details };
+  res.json(response);
+};
+
+export const getCardholder: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const cardholder = await store.findCardholder(String(req.params.id));
+  if (!cardholder) {
+    return res.status(404).json({ error: "Cardholder not found" });
+  }
+
+  res.json(await withCredentials(store, cardholder));
+};
+
+export const createCardholder: RequestHandler = async (req, res) => {
+  const { name, department, photoUrl, status }: CreateCardholderRequest =
+    req.body;
+  const store = getStore(req);
+
+  const now = new Date().toISOString();
+  const cardholder = await store.saveCardholder({
+    id: randomUUID(),
+    name,
+    department: optionalText(department),
+    photoUrl: optionalText(photoUrl),
+    status,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  console.log(`Cardholder ${name} created by ${req.user?.username}`);
+  res.status(201).json(await withCredentials(store, cardholder));
+};
+
+export const updateCardholder: RequestHandler = async (req, res) => {
+  const { name, department, photoUrl, status }: UpdateCardholderRequest =
+    req.body;
+  const store = getStore(req);
+  const cardholder = await store.findCardholder(String(req.params.id));
+  if (!cardholder) {
+    return res.status(404).json({ error: "Cardholder not found" });
+  }
+
+  const saved = await store.saveCardholder({
+    ...cardholder,
+    name: name ?? cardholder.name,
+    department: optionalText(department, cardholder.department),
+    photoUrl: optionalText(photoUrl, cardholder.photoUrl),
+    status: status ?? cardholder.status,
+    updatedAt: new Date().toISOString(),
+  });
+
+  console.log(`Cardholder ${saved.name} updated by ${req.user?.username}`);
+  res.json(await withCredentials(store, saved));
+};
+
+/**
+ * Only cardholders without credentials can be removed, so the card history
+ * keeps pointing at someone; others are set inactive instead
+ */
+export const deleteCardholder: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const cardholder = await store.findCardholder(String(req.params.id));
+  if (!cardholder) {
+    return res.status(404).json({ error: "Cardholder not found" });
+  }
+
+  if ((await store.listCredentials(cardholder.id)).length > 0) {
+    return res.status(409).json({
+      error: "Cardholder has credentials; mark them inactive instead",
+    });
+  }
+
+  await store.deleteCardholder(cardholder.id);
+
+  // Drop them from access groups so the policy only names known people
+  const policy = await store.getAccessPolicy();
+  if (policy.groups.some((g) => g.cardholderIds.includes(cardholder.id))) {
+    await store.saveAccessPolicy({
+      ...policy,
+      groups: policy.groups.map((group) => ({
+        ...group,
+        cardholderIds: group.cardholderIds.filter((id) => id !== cardholder.id),
+      })),
+    });
+  }
+
+  console.log(`Cardholder ${cardholder.name} deleted by ${req.user?.username}`);
+  res.json({ message: "Cardholder deleted" });
+};
+
+export const issueCredential: RequestHandler = async (req, res) => {
+  const {
+    cardNumber,
+    cardholderId,
+    format,
+    issuedAt,
+    expiresAt,
+  }: IssueCredentialRequest = req.body;
+  const store = getStore(req);
+
+  const cardholder = await store.findCardholder(cardholderId);
+  if (!cardholder) {
+    return res.status(404).json({ error: "Cardholder not found" });
+  }
+  if (await credentialInUse(store, cardNumber)) {
+    return res.status(409).json({ error: "Card number is already issued" });
+  }
+
+  const now = new Date().toISOString();
+  const credential = await store.saveCredential({
+    id: randomUUID(),
+    cardNumber,
+    cardholderId,
+    format,
+    issuedAt: issuedAt ?? now,
+    expiresAt,
+    state: "active",
+    stateChangedAt: now,
+    updatedAt: now,
+  });
+
+  console.log(
+    `Card ${cardNumber} issued to ${cardholder.name} by ${req.user?.username}`,
+  );
+  res.status(201).json(credential);
+};
+
+/**
+ * Change the state or expiry of a credential. State changes must follow
+ * CREDENTIAL_TRANSITIONS, so lost and revoked cards stay out of use.
+ */
+export const updateCredential: RequestHandler = async (req, res) => {
+  const { state, stateReason, expiresAt }: UpdateCredentialRequest = req.body;
+  const store = getStore(req);
+  const credential = await store.findCredential(String(req.params.id));
+  if (!credential) {
+    return res.status(404).json({ error: "Credential not found" });
+  }
+
+  const changesState = state !== undefined && state !== credential.state;
+  if (
+    changesState &&
+    !CREDENTIAL_TRANSITIONS[credential.state].includes(state)
+  ) {
+    return res.status(409).json({
+      error: `A ${credential.state} card cannot be made ${state}`,
+    });
+  }
+
+  if (expiresAt && Date.parse(expiresAt) <= Date.parse(credential.issuedAt)) {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields: { expiresAt: "Must be after the issue date" },
+    };
+    return res.status(400).json(body);
+  }
+
+  const now = new Date().toISOString();
+  const next: Credential = {
+    ...credential,
+    expiresAt:
+      expiresAt === undefined ? credential.expiresAt : expiresAt || undefined,
+    updatedAt: now,
+  };
+  if (changesState) {
+    next.state = state;
+    next.stateReason = optionalText(stateReason);
+    next.stateChangedAt = now;
+  } else if (stateReason !== undefined) {
+    next.stateReason = optionalText(stateReason);
+  }
+
+  // An expired card given a new expiry must not share its number with a
+  // card issued in the meantime
+  if (
+    isCredentialInUse(next) &&
+    !isCredentialInUse(credential) &&
+    (await credentialInUse(store, next.cardNumber, next.id))
+  ) {
+    return res
+      .status(409)
+      .json({ error: "Card number has been issued again since" });
+  }
+
+  const saved = await store.saveCredential(next);
+
+  console.log(
+    `Card ${saved.cardNumber} updated (${saved.state}) by ${req.user?.username}`,
+  );
+  res.json(saved);
+};
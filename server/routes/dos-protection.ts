@@ -0,0 +1,84 @@
+import { RequestHandler } from "express";
+import {
+  BlockIpRequest,
+  DosActivityQuery,
+  DosActivityResponse,
+  IpBlock,
+  IpBlocksResponse,
+} from "@shared/api";
+import { ipMatches } from "@shared/event-query";
+import { ACTIVITY_WINDOWS, getStore, summarizeDosActivity } from "../storage";
+import { validQuery } from "../validation";
+import { clientIp } from "../ip-blocks";
+
+// Query validated by dosActivityQuerySchema
+export const getDosActivity: RequestHandler = async (req, res) => {
+  const { range = "24h", ipAddress } = validQuery<DosActivityQuery>(res);
+  const { spanMs, bucketMs } = ACTIVITY_WINDOWS[range];
+  const until = Date.now();
+  const since = until - spanMs;
+
+  const { events } = await getStore(req).listEvents({
+    filter: {
+      type: ["dos"],
+      ipAddress,
+      since: new Date(since).toISOString(),
+      until: new Date(until).toISOString(),
+    },
+  });
+
+  const response: DosActivityResponse = {
+    range,
+    since: new Date(since).toISOString(),
+    until: new Date(until).toISOString(),
+    bucketMinutes: bucketMs / (60 * 1000),
+    ...summarizeDosActivity(events, { since, until }, bucketMs),
+  };
+
+  res.json(response);
+};
+
+export const listIpBlocks: RequestHandler = async (req, res) => {
+  const response: IpBlocksResponse = {
+    blocks: await getStore(req).listIpBlocks(),
+  };
+  res.json(response);
+};
+
+// Body validated by blockIpRequestSchema
+export const blockIp: RequestHandler = async (req, res) => {
+  const { ipAddress, durationMinutes, reason }: BlockIpRequest = req.body;
+
+  // Blocking yourself would also lock you out of undoing it
+  const ip = clientIp(req);
+  if (ip && ipMatches(ip, ipAddress)) {
+    return res.status(409).json({ error: "You cannot block your own address" });
+  }
+
+  const now = Date.now();
+  const block: IpBlock = {
+    ipAddress,
+    reason: reason || undefined,
+    blockedBy: req.user.username,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: durationMinutes
+      ? new Date(now + durationMinutes * 60 * 1000).toISOString()
+      : undefined,
+  };
+
+  await getStore(req).saveIpBlock(block);
+  console.log(`IP ${ipAddress} blocked by ${block.blockedBy}`);
+
+  res.status(201).json(block);
+};
+
+export const unblockIp: RequestHandler = async (req, res) => {
+  const ipAddress = req.params.ip;
+
+  if (!(await getStore(req).deleteIpBlock(ipAddress))) {
+    return res.status(404).json({ error: "IP address is not blocked" });
+  }
+  console.log(`IP ${ipAddress} unblocked by ${req.user.username}`);
+
+  res.json({ message: "IP address unblocked" });
+};
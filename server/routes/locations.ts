@@ -0,0 +1,142 @@
+import { RequestHandler, Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  CreateLocationRequest,
+  LocationNode,
+  LocationsResponse,
+  UpdateLocationRequest,
+  ValidationErrorResponse,
+} from "@shared/api";
+import { canContain } from "@shared/locations";
+import { SecurityStore, getStore } from "../storage";
+import { locationInUse } from "../locations";
+
+// Bodies are validated by the location schemas in shared/schemas.ts
+
+const sendInvalidParent = (res: Response, message: string) => {
+  const body: ValidationErrorResponse = {
+    error: "Invalid request body",
+    fields: { parentId: message },
+  };
+  res.status(400).json(body);
+};
+
+/**
+ * Why `parentId` cannot hold a location of `kind`, if it cannot. Parents
+ * are always a level above, so moving a location cannot create a cycle.
+ */
+const parentProblem = async (
+  store: SecurityStore,
+  kind: LocationNode["kind"],
+  parentId: string | undefined,
+) => {
+  const parent = parentId ? await store.findLocation(parentId) : undefined;
+  if (parentId && !parent) return "Unknown location";
+  if (!canContain(parent?.kind, kind)) {
+    return parent
+      ? `A ${parent.kind} cannot contain a ${kind}`
+      : `A ${kind} needs a parent`;
+  }
+};
+
+// Siblings need distinct names, or their display strings would be ambiguous
+const nameTaken = (
+  locations: LocationNode[],
+  { id, name, parentId }: Pick<LocationNode, "id" | "name" | "parentId">,
+) =>
+  locations.some(
+    (location) =>
+      location.id !== id &&
+      location.parentId === parentId &&
+      location.name.toLowerCase() === name.toLowerCase(),
+  );
+
+export const listLocations: RequestHandler = async (req, res) => {
+  const response: LocationsResponse = {
+    locations: await getStore(req).listLocations(),
+  };
+  res.json(response);
+};
+
+export const createLocation: RequestHandler = async (req, res) => {
+  const { name, kind, parentId }: CreateLocationRequest = req.body;
+  const store = getStore(req);
+
+  const problem = await parentProblem(store, kind, parentId);
+  if (problem) return sendInvalidParent(res, problem);
+
+  const now = new Date().toISOString();
+  const location: LocationNode = {
+    id: randomUUID(),
+    name,
+    kind,
+    parentId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (nameTaken(await store.listLocations(), location)) {
+    return res
+      .status(409)
+      .json({ error: "A location with this name already exists there" });
+  }
+
+  const saved = await store.saveLocation(location);
+
+  console.log(`Location ${name} created by ${req.user?.username}`);
+  res.status(201).json(saved);
+};
+
+/**
+ * Rename or move a location. Events keep the display string they were
+ * recorded with.
+ */
+export const updateLocation: RequestHandler = async (req, res) => {
+  const { name, parentId }: UpdateLocationRequest = req.body;
+  const store = getStore(req);
+  const location = await store.findLocation(String(req.params.id));
+  if (!location) {
+    return res.status(404).json({ error: "Location not found" });
+  }
+
+  if (parentId !== undefined) {
+    const problem = await parentProblem(store, location.kind, parentId);
+    if (problem) return sendInvalidParent(res, problem);
+  }
+
+  const next: LocationNode = {
+    ...location,
+    name: name ?? location.name,
+    parentId: parentId ?? location.parentId,
+    updatedAt: new Date().toISOString(),
+  };
+  if (nameTaken(await store.listLocations(), next)) {
+    return res
+      .status(409)
+      .json({ error: "A location with this name already exists there" });
+  }
+
+  const saved = await store.saveLocation(next);
+
+  console.log(`Location ${saved.name} updated by ${req.user?.username}`);
+  res.json(saved);
+};
+
+/**
+ * Only empty locations without readers can be removed; events at them keep
+ * their display string
+ */
+export const deleteLocation: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const location = await store.findLocation(String(req.params.id));
+  if (!location) {
+    return res.status(404).json({ error: "Location not found" });
+  }
+
+  const inUse = await locationInUse(store, location.id);
+  if (inUse) return res.status(409).json({ error: inUse });
+
+  await store.deleteLocation(location.id);
+
+  console.log(`Location ${location.name} deleted by ${req.user?.username}`);
+  res.json({ message: "Location deleted" });
+};
@@ -0,0 +1,140 @@
+import { Request, RequestHandler } from "express";
+import {
+  MfaCodeRequest,
+  MfaRecoveryCodesResponse,
+  MfaSetupRequest,
+  MfaSetupResponse,
+  MfaStatusResponse,
+} from "@shared/api";
+import { StoredUser, getStore } from "../storage";
+import { getAuthConfig } from "../auth/config";
+import { AuthError } from "../auth/tokens";
+import { sendForbidden, sendUnauthorized } from "../auth/middleware";
+import {
+  completeMfaEnrollment,
+  isMfaEnabled,
+  isMfaRequired,
+  regenerateRecoveryCodes,
+  removeMfa,
+  startMfaEnrollment,
+  verifyMfaChallenge,
+  verifySecondFactor,
+} from "../auth/mfa";
+
+// Managing your own second factor. All routes except setup run behind
+// requireAuth; setup also accepts the challenge of a login that requires
+// enrollment.
+
+const currentUser = (req: Request) => getStore(req).findUserById(req.user.id);
+
+export const getMfaStatus: RequestHandler = async (req, res) => {
+  const user = await currentUser(req);
+  const response: MfaStatusResponse = {
+    enabled: isMfaEnabled(user),
+    required: isMfaRequired(user, getAuthConfig(req)),
+    recoveryCodesRemaining: user.mfa?.enabled
+      ? user.mfa.recoveryCodes.length
+      : 0,
+  };
+  res.json(response);
+};
+
+export const setupMfa: RequestHandler = async (req, res) => {
+  const { challengeToken }: MfaSetupRequest = req.body;
+  const store = getStore(req);
+
+  let user: StoredUser;
+  if (challengeToken) {
+    try {
+      ({ user } = await verifyMfaChallenge(
+        store,
+        getAuthConfig(req),
+        challengeToken,
+      ));
+    } catch (error) {
+      if (error instanceof AuthError) return sendUnauthorized(res, error);
+      throw error;
+    }
+  } else if (req.user) {
+    user = await currentUser(req);
+  } else {
+    return sendUnauthorized(
+      res,
+      new AuthError("missing_token", "No token provided"),
+    );
+  }
+
+  // Replacing an active secret needs the old one to be disabled first, so a
+  // stolen password alone can never move the second factor
+  if (isMfaEnabled(user)) {
+    return res
+      .status(409)
+      .json({ error: "Two-factor authentication is already enabled" });
+  }
+
+  const response: MfaSetupResponse = await startMfaEnrollment(store, user);
+  res.json(response);
+};
+
+export const confirmMfa: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const user = await currentUser(req);
+  const { code }: MfaCodeRequest = req.body;
+
+  if (!user.mfa || user.mfa.enabled) {
+    return res
+      .status(409)
+      .json({ error: "No two-factor setup is waiting for confirmation" });
+  }
+  if (!(await verifySecondFactor(store, user, { code }))) {
+    return res.status(400).json({ error: "Invalid authentication code" });
+  }
+
+  const response: MfaRecoveryCodesResponse = {
+    recoveryCodes: await completeMfaEnrollment(store, user),
+  };
+  res.json(response);
+};
+
+export const regenerateMfaRecoveryCodes: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const user = await currentUser(req);
+  const { code }: MfaCodeRequest = req.body;
+
+  if (!isMfaEnabled(user)) {
+    return res
+      .status(409)
+      .json({ error: "Two-factor authentication is not enabled" });
+  }
+  if (!(await verifySecondFactor(store, user, { code }))) {
+    return res.status(400).json({ error: "Invalid authentication code" });
+  }
+
+  const response: MfaRecoveryCodesResponse = {
+    recoveryCodes: await regenerateRecoveryCodes(store, user),
+  };
+  res.json(response);
+};
+
+export const disableMfa: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const user = await currentUser(req);
+  const { code }: Partial<MfaCodeRequest> = req.body;
+
+  if (isMfaRequired(user, getAuthConfig(req))) {
+    return sendForbidden(
+      res,
+      `Two-factor authentication is mandatory for the ${user.role} role`,
+    );
+  }
+  // Abandoning a pending setup needs no code
+  if (
+    isMfaEnabled(user) &&
+    (!code || !(await verifySecondFactor(store, user, { code })))
+  ) {
+    return res.status(400).json({ error: "Invalid authentication code" });
+  }
+
+  await removeMfa(store, await currentUser(req));
+  res.json({ message: "Two-factor authentication disabled" });
+};
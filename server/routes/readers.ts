@@ -0,0 +1,122 @@
+import { RequestHandler, Response } from "express";
+import {
+  ReaderHeartbeatRequest,
+  ReadersResponse,
+  RegisterReaderRequest,
+  RfidReader,
+  UpdateReaderRequest,
+  ValidationErrorResponse,
+} from "@shared/api";
+import { SecurityStore, getStore } from "../storage";
+import { recordHeartbeat } from "../readers";
+
+// Bodies are validated by the reader schemas in shared/schemas.ts
+
+const sendUnknownLocation = (res: Response) => {
+  const body: ValidationErrorResponse = {
+    error: "Invalid request body",
+    fields: { locationId: "Unknown location" },
+  };
+  res.status(400).json(body);
+};
+
+const locationExists = async (store: SecurityStore, locationId?: string) =>
+  !locationId || !!(await store.findLocation(locationId));
+
+export const listReaders: RequestHandler = async (req, res) => {
+  const response: ReadersResponse = {
+    readers: await getStore(req).listReaders(),
+  };
+  res.json(response);
+};
+
+/**
+ * Register a reader. It counts as offline until its first heartbeat, which
+ * records it coming online.
+ */
+export const registerReader: RequestHandler = async (req, res) => {
+  const {
+    id,
+    name,
+    locationId,
+    model,
+    firmware,
+    ipAddress,
+  }: RegisterReaderRequest = req.body;
+  const store = getStore(req);
+
+  if (await store.findReader(id)) {
+    return res
+      .status(409)
+      .json({ error: "A reader with this id is already registered" });
+  }
+  if (!(await locationExists(store, locationId))) {
+    return sendUnknownLocation(res);
+  }
+
+  const now = new Date().toISOString();
+  const reader: RfidReader = {
+    id,
+    name,
+    locationId,
+    model,
+    firmware,
+    ipAddress,
+    status: "offline",
+    statusChangedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const saved = await store.saveReader(reader);
+
+  console.log(`Reader ${id} registered by ${req.user?.username}`);
+  res.status(201).json(saved);
+};
+
+export const updateReader: RequestHandler = async (req, res) => {
+  const { locationId, ipAddress, ...changes }: UpdateReaderRequest = req.body;
+  const store = getStore(req);
+  const reader = await store.findReader(String(req.params.id));
+  if (!reader) {
+    return res.status(404).json({ error: "Reader not found" });
+  }
+  if (!(await locationExists(store, locationId))) {
+    return sendUnknownLocation(res);
+  }
+
+  const next: RfidReader = {
+    ...reader,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+  // Blank clears them
+  if (locationId !== undefined) next.locationId = locationId || undefined;
+  if (ipAddress !== undefined) next.ipAddress = ipAddress || undefined;
+
+  const saved = await store.saveReader(next);
+
+  console.log(`Reader ${saved.id} updated by ${req.user?.username}`);
+  res.json(saved);
+};
+
+export const deleteReader: RequestHandler = async (req, res) => {
+  const id = String(req.params.id);
+  if (!(await getStore(req).deleteReader(id))) {
+    return res.status(404).json({ error: "Reader not found" });
+  }
+
+  console.log(`Reader ${id} removed by ${req.user?.username}`);
+  res.json({ message: "Reader removed" });
+};
+
+// Sent by the readers themselves, so only the reader's own state changes
+export const readerHeartbeat: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const reader = await store.findReader(String(req.params.id));
+  if (!reader) {
+    return res.status(404).json({ error: "Reader not found" });
+  }
+
+  const heartbeat: ReaderHeartbeatRequest = req.body;
+  res.json(await recordHeartbeat(store, reader, heartbeat));
+};
@@ -0,0 +1,88 @@
+import { RequestHandler } from "express";
+import {
+  LocationKind,
+  RfidActivityGroup,
+  RfidActivityQuery,
+  RfidActivityResponse,
+  SecurityEvent,
+} from "@shared/api";
+import { locationLabel, locationPath } from "@shared/locations";
+import {
+  ACTIVITY_WINDOWS,
+  RfidActivitySummary,
+  SecurityStore,
+  getStore,
+  summarizeRfidActivity,
+} from "../storage";
+import { validQuery } from "../validation";
+
+/**
+ * Summarize with locations rolled up to `level`: events are grouped by
+ * their ancestor at that level, which is then shown by its display string
+ */
+const summarizeByLevel = async (
+  store: SecurityStore,
+  events: SecurityEvent[],
+  level: LocationKind,
+  summarize: (events: SecurityEvent[]) => RfidActivitySummary,
+): Promise<RfidActivitySummary> => {
+  const locations = await store.listLocations();
+  const kinds = new Map(locations.map((l) => [l.id, l.kind]));
+
+  const summary = summarize(
+    events.map((event) => ({
+      ...event,
+      location: event.locationPath?.find((id) => kinds.get(id) === level),
+    })),
+  );
+  const rolledUp = summary.locations.map(
+    (group): RfidActivityGroup => ({
+      ...group,
+      key: locationLabel(locationPath(locations, group.key)),
+      locationId: group.key,
+    }),
+  );
+
+  return { ...summary, locations: rolledUp };
+};
+
+// Query validated by rfidActivityQuerySchema
+export const getRfidActivity: RequestHandler = async (req, res) => {
+  const {
+    range = "24h",
+    location,
+    locationId,
+    cardId,
+    level,
+  } = validQuery<RfidActivityQuery>(res);
+  const { spanMs, bucketMs } = ACTIVITY_WINDOWS[range];
+  const until = Date.now();
+  const since = until - spanMs;
+  const store = getStore(req);
+
+  const { events } = await store.listEvents({
+    filter: {
+      type: ["rfid"],
+      location,
+      locationId,
+      cardId,
+      since: new Date(since).toISOString(),
+      until: new Date(until).toISOString(),
+    },
+  });
+
+  const summarize = (scans: SecurityEvent[]) =>
+    summarizeRfidActivity(scans, { since, until }, bucketMs);
+
+  const response: RfidActivityResponse = {
+    range,
+    since: new Date(since).toISOString(),
+    until: new Date(until).toISOString(),
+    bucketMinutes: bucketMs / (60 * 1000),
+    ...(level
+      ? await summarizeByLevel(store, events, level, summarize)
+      : summarize(events)),
+  };
+
+  res.json(response);
+};
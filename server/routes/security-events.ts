@@ -1,95 +1,155 @@
 import { RequestHandler } from "express";
-import { SecurityEvent, SecurityEventsResponse } from "@shared/api";
+import {
+  AddSecurityEventRequest,
+  Credential,
+  LocationNode,
+  SecurityEvent,
+  SecurityEventsQuery,
+  SecurityEventsResponse,
+  ValidationErrorResponse,
+} from "@shared/api";
+import {
+  DEFAULT_EVENTS_LIMIT,
+  compareTimeline,
+  decodeEventCursor,
+  encodeEventCursor,
+} from "@shared/event-query";
+import { SecurityStore, getStore } from "../storage";
+import { validQuery } from "../validation";
+import { decideAccess } from "../access";
+import { EventLocation, resolveLocation } from "../locations";
+import { recordPostedEvent } from "../events";
 
-// In-memory storage for demo - replace with real database
-let securityEvents: SecurityEvent[] = [];
+const randomItem = <T>(items: T[]): T | undefined =>
+  items[Math.floor(Math.random() * items.length)];
 
-// Generate mock events for demo
-const generateMockEvent = (): SecurityEvent => {
-  const types = ["rfid", "dos"] as const;
-  const type = types[Math.random() > 0.7 ? 1 : 0];
-
-  if (type === "rfid") {
-    const isAuthorized = Math.random() > 0.2;
-    return {
-      id: Math.random().toString(36).substr(2, 9),
-      type,
-      status: isAuthorized ? "authorized" : "unauthorized",
-      timestamp: new Date().toISOString(),
+// Mock card scan for the demo: mostly issued cards, sometimes one nobody
+// was issued, at one of the doors in the hierarchy. Issued cards are mostly
+// scanned at their holder's own door, so the travel monitor only now and
+// then sees one turn up elsewhere. The access decision engine decides
+// whether it opens the door.
+const generateMockScan = async (
+  store: SecurityStore,
+  cards: Credential[],
+  doors: LocationNode[],
+): Promise<{ cardId: string } & EventLocation> => {
+  const card = Math.random() > 0.15 ? randomItem(cards) : undefined;
+  const door =
+    card && Math.random() > 0.1
+      ? doors[cards.indexOf(card) % doors.length]
+      : randomItem(doors);
+  return {
+    cardId:
+      card?.cardNumber ??
+      `CARD-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+    // Without doors the scans fall back to plain location strings
+    ...((door && (await resolveLocation(store, door.id))) ?? {
       location: `Floor ${Math.floor(Math.random() * 5) + 1} - Room ${Math.floor(Math.random() * 20) + 100}`,
-      cardId: `CARD-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
-      severity: isAuthorized ? "low" : Math.random() > 0.5 ? "high" : "medium",
-      description: isAuthorized
-        ? "Valid access card detected"
-        : "Unauthorized access attempt",
-    };
-  } else {
-    const isBlocked = Math.random() > 0.3;
-    return {
-      id: Math.random().toString(36).substr(2, 9),
-      type,
-      status: isBlocked ? "blocked" : "detected",
-      timestamp: new Date().toISOString(),
-      ipAddress: `${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`,
-      severity: isBlocked ? "high" : "critical",
-      description: isBlocked
-        ? "DoS attack blocked by firewall"
-        : "DoS attack detected - monitoring",
-    };
-  }
+    }),
+  };
 };
 
-// Initialize with some events
-if (securityEvents.length === 0) {
-  securityEvents = Array.from({ length: 20 }, generateMockEvent);
-}
+const generateMockDosEvent = (): SecurityEvent => {
+  const isBlocked = Math.random() > 0.3;
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    type: "dos",
+    status: isBlocked ? "blocked" : "detected",
+    timestamp: new Date().toISOString(),
+    ipAddress: `${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`,
+    severity: isBlocked ? "high" : "critical",
+    description: isBlocked
+      ? "DoS attack blocked by firewall"
+      : "DoS attack detected - monitoring",
+  };
+};
 
-// Add new events periodically (simulate real-time)
-setInterval(() => {
-  const newEvent = generateMockEvent();
-  securityEvents.unshift(newEvent);
+// Seed an empty store and add new events periodically (simulate real-time)
+export const startEventSimulation = (store: SecurityStore) => {
+  const addMockEvent = async () => {
+    if (Math.random() > 0.7) {
+      await store.addEvent(generateMockDosEvent());
+    } else {
+      const [cards, locations] = await Promise.all([
+        store.listCredentials(),
+        store.listLocations(),
+      ]);
+      const doors = locations.filter((location) => location.kind === "door");
+      await decideAccess(store, await generateMockScan(store, cards, doors));
+    }
+  };
 
-  // Keep only last 100 events
-  if (securityEvents.length > 100) {
-    securityEvents = securityEvents.slice(0, 100);
-  }
-}, 5000);
+  void store.listEvents({ limit: 0 }).then(async ({ total }) => {
+    if (total === 0) {
+      for (let i = 0; i < 20; i++) await addMockEvent();
+    }
+  });
 
-export const getSecurityEvents: RequestHandler = (req, res) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
+  const timer = setInterval(() => {
+    addMockEvent().catch((error) => {
+      console.error("Failed to store simulated event:", error);
+    });
+  }, 5000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+// Query validated by securityEventsQuerySchema
+export const getSecurityEvents: RequestHandler = async (req, res) => {
+  const {
+    page = 1,
+    limit = DEFAULT_EVENTS_LIMIT,
+    sort,
+    order,
+    before,
+    after,
+    ...filter
+  } = validQuery<SecurityEventsQuery>(res);
   const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
 
-  const paginatedEvents = securityEvents.slice(startIndex, endIndex);
+  const { events, total, hasOlder } = await getStore(req).listEvents({
+    filter,
+    sort,
+    order,
+    before: before ? decodeEventCursor(before) : undefined,
+    after: after ? decodeEventCursor(after) : undefined,
+    offset: startIndex,
+    limit,
+  });
+
+  // Cursors bound the page in time, whichever way it is ordered
+  const byTime = [...events].sort(compareTimeline);
+  const oldest = byTime[0];
+  const newest = byTime[byTime.length - 1];
 
   const response: SecurityEventsResponse = {
-    events: paginatedEvents,
-    total: securityEvents.length,
+    events,
+    total,
     page,
     limit,
+    cursors: {
+      before: oldest && hasOlder ? encodeEventCursor(oldest) : undefined,
+      after: newest ? encodeEventCursor(newest) : after,
+    },
   };
 
   res.json(response);
 };
 
-export const addSecurityEvent: RequestHandler = (req, res) => {
-  const event: Partial<SecurityEvent> = req.body;
-
-  if (!event.type || !event.status) {
-    return res
-      .status(400)
-      .json({ error: "Missing required fields: type, status" });
+// Body validated by newSecurityEventSchema
+export const addSecurityEvent: RequestHandler = async (req, res) => {
+  const recorded = await recordPostedEvent(
+    getStore(req),
+    req.body as AddSecurityEventRequest,
+  );
+  if (recorded.success === false) {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields: recorded.errors,
+    };
+    return res.status(400).json(body);
   }
 
-  const newEvent: SecurityEvent = {
-    id: Math.random().toString(36).substr(2, 9),
-    timestamp: new Date().toISOString(),
-    severity: "medium",
-    ...event,
-  } as SecurityEvent;
-
-  securityEvents.unshift(newEvent);
-
-  res.status(201).json(newEvent);
+  res.status(201).json(recorded.data);
 };
@@ -1,91 +1,183 @@
 import { RequestHandler } from "express";
-import { SecurityStatsResponse, SystemHealthResponse } from "@shared/api";
-
-// In-memory stats - replace with real database queries
-let stats = {
-  totalScans: 1247,
-  authorizedScans: 1156,
-  unauthorizedScans: 91,
-  dosAttacks: 23,
-  activeThreats: 2,
-  systemStatus: "operational" as const,
-};
+import {
+  SecurityStats,
+  SecurityStatsQuery,
+  SecurityStatsResponse,
+  StatsRules,
+  SystemHealth,
+  SystemHealthResponse,
+} from "@shared/api";
+import { SecurityStore, TimeRange, getStore } from "../storage";
+import { validQuery } from "../validation";
+import { currentHealth, recordHeartbeat } from "../readers";
+import { recordSettingsChange } from "./settings";
 
-let systemHealth = {
-  rfidReaders: {
-    online: 49,
-    total: 50,
-    percentage: 98,
-  },
-  dosProtection: {
-    status: "active" as const,
-    percentage: 100,
-  },
-  database: {
-    status: "operational" as const,
-    percentage: 95,
-  },
-  network: {
-    status: "moderate" as const,
-    percentage: 75,
-  },
-};
+// Chance per tick that a simulated reader drops out for a few minutes
+const READER_DROPOUT_CHANCE = 0.02;
+const READER_DROPOUT_MS = { min: 2 * 60 * 1000, max: 5 * 60 * 1000 };
+
+/**
+ * Simulate system health fluctuations. Registered readers send heartbeats,
+ * except for the odd one that goes quiet long enough to be taken offline.
+ */
+export const startHealthSimulation = (store: SecurityStore) => {
+  // Reader id to when it speaks again
+  const silenced = new Map<string, number>();
+
+  const beatReaders = async () => {
+    const now = Date.now();
+    const readers = await store.listReaders();
 
-// Simulate stats updates
-setInterval(() => {
-  // Update stats occasionally
-  if (Math.random() > 0.7) {
-    stats.totalScans += Math.floor(Math.random() * 3) + 1;
-    if (Math.random() > 0.8) {
-      stats.unauthorizedScans += 1;
-    } else {
-      stats.authorizedScans += 1;
+    if (readers.length > 0 && Math.random() < READER_DROPOUT_CHANCE) {
+      const reader = readers[Math.floor(Math.random() * readers.length)];
+      const { min, max } = READER_DROPOUT_MS;
+      silenced.set(reader.id, now + min + Math.random() * (max - min));
     }
 
-    if (Math.random() > 0.9) {
-      stats.dosAttacks += 1;
+    for (const reader of readers) {
+      if ((silenced.get(reader.id) ?? 0) > now) continue;
+      silenced.delete(reader.id);
+      await recordHeartbeat(store, reader);
     }
+  };
+
+  const tick = async () => {
+    await beatReaders();
+
+    const systemHealth = await store.getHealth();
+
+    systemHealth.network.percentage = Math.max(
+      60,
+      Math.min(95, systemHealth.network.percentage + (Math.random() - 0.5) * 5),
+    );
+
+    systemHealth.database.percentage = Math.max(
+      90,
+      Math.min(
+        100,
+        systemHealth.database.percentage + (Math.random() - 0.5) * 2,
+      ),
+    );
+
+    await store.saveHealth(systemHealth);
+  };
+
+  const timer = setInterval(() => {
+    tick().catch((error) => {
+      console.error("Failed to update simulated health:", error);
+    });
+  }, 10000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+/**
+ * System status from active threats and component health.
+ * Any failed component or threat count past the critical threshold is
+ * critical; degraded components or any threat past the warning threshold
+ * is a warning.
+ */
+export const deriveSystemStatus = (
+  activeThreats: number,
+  health: SystemHealth,
+  rules: StatsRules,
+): SecurityStats["systemStatus"] => {
+  if (
+    activeThreats >= rules.criticalThreats ||
+    health.database.status === "down" ||
+    health.dosProtection.status === "inactive" ||
+    health.network.status === "critical" ||
+    health.rfidReaders.percentage < 80
+  ) {
+    return "critical";
   }
 
-  // Simulate system health fluctuations
-  systemHealth.rfidReaders.percentage = Math.max(
-    95,
-    Math.min(
-      100,
-      systemHealth.rfidReaders.percentage + (Math.random() - 0.5) * 2,
-    ),
-  );
+  if (
+    activeThreats >= rules.warningThreats ||
+    health.database.status === "degraded" ||
+    health.dosProtection.status === "maintenance" ||
+    health.network.status === "high" ||
+    health.rfidReaders.percentage < 95
+  ) {
+    return "warning";
+  }
 
-  systemHealth.network.percentage = Math.max(
-    60,
-    Math.min(95, systemHealth.network.percentage + (Math.random() - 0.5) * 5),
-  );
+  return "operational";
+};
 
-  systemHealth.database.percentage = Math.max(
-    90,
-    Math.min(100, systemHealth.database.percentage + (Math.random() - 0.5) * 2),
-  );
-}, 10000);
+/**
+ * Security stats computed from the stored events within the range.
+ * Active threats are always counted over the rules' window ending at
+ * `until` (or now), independent of `since`.
+ */
+export const computeSecurityStats = async (
+  store: SecurityStore,
+  range: TimeRange = {},
+): Promise<SecurityStats> => {
+  const [rules, health] = await Promise.all([
+    store.getStatsRules(),
+    currentHealth(store),
+  ]);
+
+  const windowEnd = range.until ?? Date.now();
+  const [counts, recent] = await Promise.all([
+    store.countEvents(range),
+    store.countEvents({
+      since: windowEnd - rules.activeThreatWindowMinutes * 60 * 1000,
+      until: windowEnd,
+    }),
+  ]);
+
+  return {
+    totalScans: counts.totalScans,
+    authorizedScans: counts.authorizedScans,
+    unauthorizedScans: counts.unauthorizedScans,
+    dosAttacks: counts.dosAttacks,
+    activeThreats: recent.threats,
+    systemStatus: deriveSystemStatus(recent.threats, health, rules),
+  };
+};
+
+const toTime = (value: string | undefined) =>
+  value === undefined ? undefined : Date.parse(value);
 
-export const getSecurityStats: RequestHandler = (req, res) => {
-  const response: SecurityStatsResponse = { ...stats };
+// Query validated by securityStatsQuerySchema
+export const getSecurityStats: RequestHandler = async (req, res) => {
+  const { since, until } = validQuery<SecurityStatsQuery>(res);
+
+  const stats = await computeSecurityStats(getStore(req), {
+    since: toTime(since),
+    until: toTime(until),
+  });
+
+  const response: SecurityStatsResponse = { ...stats, since, until };
   res.json(response);
 };
 
-export const getSystemHealth: RequestHandler = (req, res) => {
-  const response: SystemHealthResponse = { ...systemHealth };
+export const getSystemHealth: RequestHandler = async (req, res) => {
+  const response: SystemHealthResponse = await currentHealth(getStore(req));
   res.json(response);
 };
 
-export const updateSecurityStats: RequestHandler = (req, res) => {
-  const updates = req.body;
+export const getStatsRules: RequestHandler = async (req, res) => {
+  res.json(await getStore(req).getStatsRules());
+};
 
-  // Validate and update stats
-  Object.keys(updates).forEach((key) => {
-    if (key in stats && typeof updates[key] === "number") {
-      (stats as any)[key] = updates[key];
-    }
-  });
+// Body validated by statsRulesUpdateSchema
+export const updateStatsRules: RequestHandler = async (req, res) => {
+  const updates: Partial<StatsRules> = req.body;
+  const store = getStore(req);
+  const rules = await store.getStatsRules();
 
-  res.json(stats);
+  // The counters themselves are derived from events
+  const saved = await store.saveStatsRules({ ...rules, ...updates });
+  await recordSettingsChange(
+    store,
+    "detection",
+    rules,
+    saved,
+    req.user.username,
+  );
+  res.json(saved);
 };
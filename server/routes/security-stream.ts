@@ -0,0 +1,163 @@
+import { RequestHandler, Response } from "express";
+import {
+  SecurityStats,
+  SecurityStreamEventType,
+  SecurityStreamPayloads,
+  SystemHealthResponse,
+} from "@shared/api";
+import { StoreChange, getStore } from "../storage";
+import { AuthError, checkTokenClaims } from "../auth/tokens";
+import { computeSecurityStats } from "./security-stats";
+import { currentHealth } from "../readers";
+
+const HEARTBEAT_MS = 15000;
+const RETRY_MS = 5000;
+// How far back a reconnecting client can resume from
+const MAX_REPLAY = 500;
+
+const send = <T extends SecurityStreamEventType>(
+  res: Response,
+  type: T,
+  data: SecurityStreamPayloads[T],
+  id?: string,
+) => {
+  // The client may have gone while an update was being computed
+  if (res.writableEnded || res.destroyed) return;
+  if (id) res.write(`id: ${id}\n`);
+  res.write(`event: ${type}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+const diffStats = (
+  previous: SecurityStats,
+  next: SecurityStats,
+): Partial<SecurityStats> => {
+  const keys = Object.keys(next) as (keyof SecurityStats)[];
+  return Object.fromEntries(
+    keys
+      .filter((key) => previous[key] !== next[key])
+      .map((key) => [key, next[key]]),
+  ) as Partial<SecurityStats>;
+};
+
+export const streamSecurityEvents: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const lastEventId =
+    req.get("Last-Event-ID") ?? (req.query.lastEventId as string | undefined);
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  let stats: SecurityStats;
+  let health: SystemHealthResponse;
+
+  const pushStats = async () => {
+    const next = await computeSecurityStats(store);
+    const delta = diffStats(stats, next);
+    stats = next;
+    if (Object.keys(delta).length > 0) send(res, "stats", delta);
+  };
+
+  const pushHealth = async () => {
+    const next = await currentHealth(store);
+    if (JSON.stringify(next) !== JSON.stringify(health)) {
+      health = next;
+      send(res, "health", health);
+    }
+  };
+
+  const fail = (error: unknown) => {
+    console.error("Security stream update failed:", error);
+  };
+
+  const handleChange = (change: StoreChange) => {
+    if (change.kind === "event") {
+      send(res, "security-event", change.event, change.event.id);
+      pushStats().catch(fail);
+    } else if (change.key === "health" || change.key === "readers") {
+      pushHealth().then(pushStats).catch(fail);
+    } else if (change.key === "statsRules") {
+      pushStats().catch(fail);
+    }
+  };
+
+  // Subscribe before reading the snapshot so nothing falls in between;
+  // changes are held back until the snapshot has been sent
+  let pending: StoreChange[] | null = [];
+  const unsubscribe = store.subscribe((change) => {
+    if (pending) pending.push(change);
+    else handleChange(change);
+  });
+
+  // A stream opened with a token ends with it: when it expires, or when it
+  // is revoked or its user disabled, as found at the next heartbeat
+  const { auth } = req;
+  const stillAuthorized = async () => {
+    if (!auth) return true;
+    try {
+      await checkTokenClaims(store, auth);
+      return true;
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      res.end();
+      return false;
+    }
+  };
+  const expiry =
+    auth && setTimeout(() => res.end(), auth.exp * 1000 - Date.now());
+
+  const heartbeat = setInterval(() => {
+    // Keep proxies from closing an idle connection; active threats also age out
+    res.write(": heartbeat\n\n");
+    stillAuthorized()
+      .then((authorized) => {
+        if (authorized && !pending) return pushStats();
+      })
+      .catch(fail);
+  }, HEARTBEAT_MS);
+
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    if (expiry) clearTimeout(expiry);
+    unsubscribe();
+  });
+
+  // Replay events the client missed while disconnected. When its last event
+  // is unknown or too old to resume from, it has to reload instead.
+  const replayed = new Set<string>();
+  if (lastEventId) {
+    const { events } = await store.listEvents({ limit: MAX_REPLAY });
+    if (closed) return;
+    const index = events.findIndex((event) => event.id === lastEventId);
+    if (index < 0) send(res, "reset", { lastEventId });
+    events
+      .slice(0, Math.max(index, 0))
+      .reverse()
+      .forEach((event) => {
+        replayed.add(event.id);
+        send(res, "security-event", event, event.id);
+      });
+  }
+
+  stats = await computeSecurityStats(store);
+  health = await currentHealth(store);
+  if (closed) return;
+  send(res, "stats", stats);
+  send(res, "health", health);
+
+  const queued = pending;
+  pending = null;
+  queued
+    .filter(
+      (change) => change.kind !== "event" || !replayed.has(change.event.id),
+    )
+    .forEach(handleChange);
+};
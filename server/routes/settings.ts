@@ -0,0 +1,118 @@
+import { RequestHandler } from "express";
+import { randomUUID } from "crypto";
+import {
+  SettingsFieldChange,
+  SettingsHistoryResponse,
+  SettingsSection,
+  SystemSettings,
+  UpdateSettingsRequest,
+  SETTINGS_SECTIONS,
+} from "@shared/api";
+import {
+  SETTINGS_SECTION_PERMISSIONS,
+  hasPermission,
+} from "@shared/permissions";
+import { SecurityStore, getStore } from "../storage";
+import { sendForbidden } from "../auth/middleware";
+
+export const loadSettings = async (
+  store: SecurityStore,
+): Promise<SystemSettings> => {
+  const [detection, settings] = await Promise.all([
+    store.getStatsRules(),
+    store.getSettings(),
+  ]);
+  return { detection, ...settings };
+};
+
+/**
+ * Fields of a section whose value differs, compared as JSON
+ */
+export const diffSettings = (
+  before: object,
+  after: object,
+): SettingsFieldChange[] =>
+  Object.entries(after)
+    .filter(
+      ([field, value]) =>
+        JSON.stringify(before[field as keyof typeof before]) !==
+        JSON.stringify(value),
+    )
+    .map(([field, to]) => ({
+      field,
+      from: before[field as keyof typeof before],
+      to,
+    }));
+
+/**
+ * Add a history entry for a saved section; unchanged sections are skipped
+ */
+export const recordSettingsChange = async (
+  store: SecurityStore,
+  section: SettingsSection,
+  before: object,
+  after: object,
+  changedBy: string,
+) => {
+  const changes = diffSettings(before, after);
+  if (changes.length === 0) return;
+
+  await store.addSettingsChange({
+    id: randomUUID(),
+    section,
+    changedBy,
+    changedAt: new Date().toISOString(),
+    changes,
+  });
+  console.log(
+    `${section} settings changed by ${changedBy}: ${changes.map((c) => c.field).join(", ")}`,
+  );
+};
+
+export const getSettings: RequestHandler = async (req, res) => {
+  res.json(await loadSettings(getStore(req)));
+};
+
+// Body validated by updateSettingsRequestSchema
+export const updateSettings: RequestHandler = async (req, res) => {
+  const updates: UpdateSettingsRequest = req.body;
+  const sections = SETTINGS_SECTIONS.filter((s) => updates[s] !== undefined);
+
+  // Refuse the whole request rather than saving only part of it
+  const denied = sections.filter(
+    (s) => !hasPermission(req.user, SETTINGS_SECTION_PERMISSIONS[s]),
+  );
+  if (denied.length > 0) {
+    return sendForbidden(
+      res,
+      `Your role (${req.user.role}) cannot change the ${denied.join(", ")} settings`,
+    );
+  }
+
+  const store = getStore(req);
+  const current = await loadSettings(store);
+  const { detection, ...stored } = { ...current, ...updates };
+
+  if (updates.detection) await store.saveStatsRules(detection);
+  if (sections.some((s) => s !== "detection")) {
+    await store.saveSettings(stored);
+  }
+  for (const section of sections) {
+    await recordSettingsChange(
+      store,
+      section,
+      current[section],
+      updates[section],
+      req.user.username,
+    );
+  }
+
+  res.json(await loadSettings(store));
+};
+
+export const getSettingsHistory: RequestHandler = async (req, res) => {
+  const response: SettingsHistoryResponse = {
+    changes: await getStore(req).listSettingsChanges(),
+  };
+  res.json(response);
+};
@@ -0,0 +1,42 @@
+import { RequestHandler } from "express";
+import { TravelRules, ValidationErrorResponse } from "@shared/api";
+import { getStore } from "../storage";
+
+export const getTravelRules: RequestHandler = async (req, res) => {
+  res.json(await getStore(req).getTravelRules());
+};
+
+/**
+ * Replace the travel rules. The schema checks each pair is listed once;
+ * both ends of a pair must be buildings of the location hierarchy.
+ */
+export const updateTravelRules: RequestHandler = async (req, res) => {
+  const rules: TravelRules = req.body;
+  const store = getStore(req);
+
+  const buildingIds = new Set(
+    (await store.listLocations())
+      .filter((location) => location.kind === "building")
+      .map((building) => building.id),
+  );
+  const fields: ValidationErrorResponse["fields"] = {};
+  rules.times.forEach((time, index) => {
+    for (const end of ["from", "to"] as const) {
+      if (!buildingIds.has(time[end])) {
+        fields[`times.${index}.${end}`] = "Unknown building";
+      }
+    }
+  });
+  if (Object.keys(fields).length > 0) {
+    const body: ValidationErrorResponse = {
+      error: "Invalid request body",
+      fields,
+    };
+    return res.status(400).json(body);
+  }
+
+  const saved = await store.saveTravelRules(rules);
+
+  console.log(`Travel rules updated by ${req.user?.username}`);
+  res.json(saved);
+};
@@ -0,0 +1,146 @@
+import { RequestHandler } from "express";
+import { randomUUID } from "crypto";
+import {
+  CreateUserRequest,
+  ManagedUser,
+  ResetPasswordRequest,
+  UpdateUserRequest,
+  UsersResponse,
+} from "@shared/api";
+import { SecurityStore, StoredUser, getStore } from "../storage";
+import { hashPassword } from "../auth/password";
+import { removeMfa } from "../auth/mfa";
+
+// Bodies are validated by the user schemas in shared/schemas.ts
+
+export const toManagedUser = (user: StoredUser): ManagedUser => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  disabled: user.disabled,
+  mfaEnabled: !!user.mfa?.enabled,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+/**
+ * Whether the change would leave no enabled administrator to manage users
+ */
+const removesLastAdministrator = async (
+  store: SecurityStore,
+  user: StoredUser,
+  next: StoredUser,
+) => {
+  const stillAdmin = next.role === "administrator" && !next.disabled;
+  if (user.role !== "administrator" || user.disabled || stillAdmin) {
+    return false;
+  }
+
+  const users = await store.listUsers();
+  return !users.some(
+    (u) => u.id !== user.id && u.role === "administrator" && !u.disabled,
+  );
+};
+
+export const listUsers: RequestHandler = async (req, res) => {
+  const users = await getStore(req).listUsers();
+  const response: UsersResponse = { users: users.map(toManagedUser) };
+  res.json(response);
+};
+
+export const createUser: RequestHandler = async (req, res) => {
+  const { username, password, role }: CreateUserRequest = req.body;
+  const store = getStore(req);
+  if (await store.findUserByUsername(username)) {
+    return res.status(409).json({ error: "Username is already taken" });
+  }
+
+  const now = new Date().toISOString();
+  const user = await store.saveUser({
+    id: randomUUID(),
+    username,
+    passwordHash: await hashPassword(password),
+    role,
+    disabled: false,
+    createdAt: now,
+    updatedAt: now,
+    passwordChangedAt: now,
+  });
+
+  console.log(`User ${username} (${role}) created by ${req.user?.username}`);
+  res.status(201).json(toManagedUser(user));
+};
+
+export const updateUser: RequestHandler = async (req, res) => {
+  const { role, disabled }: UpdateUserRequest = req.body;
+  const store = getStore(req);
+  const user = await store.findUserById(String(req.params.id));
+  if (!user) {
+    return res.status(404).json({ error: "User not found" });
+  }
+
+  if (disabled && user.id === req.user?.id) {
+    return res
+      .status(409)
+      .json({ error: "You cannot disable your own account" });
+  }
+
+  const next: StoredUser = {
+    ...user,
+    role: role ?? user.role,
+    disabled: disabled ?? user.disabled,
+    updatedAt: new Date().toISOString(),
+  };
+  if (await removesLastAdministrator(store, user, next)) {
+    return res
+      .status(409)
+      .json({ error: "At least one enabled administrator is required" });
+  }
+
+  const saved = await store.saveUser(next);
+  if (saved.disabled && !user.disabled) {
+    await store.deleteUserSessions(saved.id);
+  }
+
+  console.log(`User ${saved.username} updated by ${req.user?.username}`);
+  res.json(toManagedUser(saved));
+};
+
+export const resetUserPassword: RequestHandler = async (req, res) => {
+  const { password }: ResetPasswordRequest = req.body;
+  const store = getStore(req);
+  const user = await store.findUserById(String(req.params.id));
+  if (!user) {
+    return res.status(404).json({ error: "User not found" });
+  }
+
+  const now = new Date().toISOString();
+  const saved = await store.saveUser({
+    ...user,
+    passwordHash: await hashPassword(password),
+    updatedAt: now,
+    passwordChangedAt: now,
+  });
+  // Everyone holding the old password's sessions has to log in again
+  await store.deleteUserSessions(saved.id);
+
+  console.log(`Password of ${saved.username} reset by ${req.user?.username}`);
+  res.json(toManagedUser(saved));
+};
+
+/**
+ * Remove a user's second factor, e.g. after they lost their phone. If their
+ * role requires MFA they enroll again at the next login.
+ */
+export const resetUserMfa: RequestHandler = async (req, res) => {
+  const store = getStore(req);
+  const user = await store.findUserById(String(req.params.id));
+  if (!user) {
+    return res.status(404).json({ error: "User not found" });
+  }
+
+  await removeMfa(store, user);
+
+  console.log(`MFA of ${user.username} reset by ${req.user?.username}`);
+  res.json(toManagedUser(await store.findUserById(user.id)));
+};
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { SecurityEvent } from "@shared/api";
+import {
+  EventAggregator,
+  summarizeDosActivity,
+  summarizeRfidActivity,
+} from "./aggregate";
+
+const at = (
+  iso: string,
+  overrides: Partial<SecurityEvent> = {},
+): SecurityEvent => ({
+  id: Math.random().toString(36).slice(2),
+  type: "rfid",
+  status: "authorized",
+  timestamp: iso,
+  severity: "low",
+  ...overrides,
+});
+
+describe("EventAggregator", () => {
+  it("should count events by type and status", () => {
+    const aggregator = new EventAggregator([
+      at("2024-01-01T10:00:00Z"),
+      at("2024-01-01T10:00:10Z", { status: "unauthorized", severity: "high" }),
+      at("2024-01-01T10:05:00Z", { type: "dos", status: "detected" }),
+      at("2024-01-01T10:06:00Z", { type: "dos", status: "blocked" }),
+    ]);
+
+    expect(aggregator.count()).toEqual({
+      totalScans: 2,
+      authorizedScans: 1,
+      unauthorizedScans: 1,
+      dosAttacks: 2,
+      threats: 2,
+    });
+  });
+
+  it("should respect range boundaries inside a bucket", () => {
+    const aggregator = new EventAggregator([
+      at("2024-01-01T10:00:10Z"),
+      at("2024-01-01T10:00:40Z"),
+      at("2024-01-01T10:01:30Z"),
+      at("2024-01-01T10:03:00Z"),
+    ]);
+
+    const counts = aggregator.count({
+      since: Date.parse("2024-01-01T10:00:30Z"),
+      until: Date.parse("2024-01-01T10:02:00Z"),
+    });
+    expect(counts.totalScans).toBe(2);
+  });
+
+  it("should forget removed events", () => {
+    const event = at("2024-01-01T10:00:00Z");
+    const aggregator = new EventAggregator([event]);
+    aggregator.remove(event);
+
+    expect(aggregator.count().totalScans).toBe(0);
+  });
+});
+
+describe("summarizeRfidActivity", () => {
+  const HOUR = 60 * 60 * 1000;
+  const range = {
+    since: Date.parse("2024-01-01T10:30:00Z"),
+    until: Date.parse("2024-01-01T12:30:00Z"),
+  };
+
+  it("should bucket scans and keep empty buckets", () => {
+    const { trend } = summarizeRfidActivity(
+      [
+        at("2024-01-01T10:45:00Z"),
+        at("2024-01-01T10:50:00Z", { status: "unauthorized" }),
+        at("2024-01-01T12:10:00Z"),
+        at("2024-01-01T12:15:00Z", { type: "dos", status: "blocked" }),
+        at("2024-01-01T09:00:00Z"),
+      ],
+      range,
+      HOUR,
+    );
+
+    expect(trend).toEqual([
+      { start: "2024-01-01T10:00:00.000Z", authorized: 1, unauthorized: 1 },
+      { start: "2024-01-01T11:00:00.000Z", authorized: 0, unauthorized: 0 },
+      { start: "2024-01-01T12:00:00.000Z", authorized: 1, unauthorized: 0 },
+    ]);
+  });
+
+  it("should rank locations and cards by scans", () => {
+    const { locations, cards } = summarizeRfidActivity(
+      [
+        at("2024-01-01T11:00:00Z", { location: "Lobby", cardId: "A" }),
+        at("2024-01-01T11:05:00Z", {
+          location: "Vault",
+          cardId: "B",
+          status: "unauthorized",
+        }),
+        at("2024-01-01T11:10:00Z", {
+          location: "Vault",
+          cardId: "B",
+          status: "unauthorized",
+        }),
+      ],
+      range,
+      HOUR,
+      1,
+    );
+
+    expect(locations).toEqual([
+      {
+        key: "Vault",
+        authorized: 0,
+        unauthorized: 2,
+        lastSeen: "2024-01-01T11:10:00Z",
+      },
+    ]);
+    expect(cards.map((card) => card.key)).toEqual(["B"]);
+  });
+});
+
+describe("summarizeDosActivity", () => {
+  it("should count events per bucket and per source address", () => {
+    const dos = (iso: string, ipAddress: string, status = "blocked") =>
+      at(iso, {
+        type: "dos",
+        status: status as SecurityEvent["status"],
+        ipAddress,
+      });
+
+    const { trend, offenders } = summarizeDosActivity(
+      [
+        dos("2024-01-01T10:05:00Z", "10.0.0.1"),
+        dos("2024-01-01T10:20:00Z", "10.0.0.1", "detected"),
+        dos("2024-01-01T10:40:00Z", "10.0.0.2"),
+        at("2024-01-01T10:45:00Z"),
+      ],
+      {
+        since: Date.parse("2024-01-01T10:00:00Z"),
+        until: Date.parse("2024-01-01T10:59:59Z"),
+      },
+      30 * 60 * 1000,
+    );
+
+    expect(trend).toEqual([
+      { start: "2024-01-01T10:00:00.000Z", blocked: 1, detected: 1 },
+      { start: "2024-01-01T10:30:00.000Z", blocked: 1, detected: 0 },
+    ]);
+    expect(offenders[0]).toEqual({
+      ipAddress: "10.0.0.1",
+      blocked: 1,
+      detected: 1,
+      firstSeen: "2024-01-01T10:05:00Z",
+      lastSeen: "2024-01-01T10:20:00Z",
+    });
+    expect(offenders).toHaveLength(2);
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  ActivityRange,
+  DosOffender,
+  DosTrendPoint,
+  RfidActivityGroup,
+  RfidScanCounts,
+  RfidTrendPoint,
+  SecurityEvent,
+} from "@shared/api";
+
+/**
+ * Raw counters over a set of events, from which SecurityStats are derived
+ */
+export interface EventCounts {
+  totalScans: number;
+  authorizedScans: number;
+  unauthorizedScans: number;
+  dosAttacks: number;
+  /**
+   * Unresolved threats: detected DoS attacks, high severity unauthorized
+   * scans and high severity login lockouts
+   */
+  threats: number;
+}
+
+/**
+ * Inclusive time range in epoch milliseconds; open ends are unbounded
+ */
+export interface TimeRange {
+  since?: number;
+  until?: number;
+}
+
+export const emptyCounts = (): EventCounts => ({
+  totalScans: 0,
+  authorizedScans: 0,
+  unauthorizedScans: 0,
+  dosAttacks: 0,
+  threats: 0,
+});
+
+export const isThreat = (event: SecurityEvent): boolean =>
+  (event.type === "dos" && event.status === "detected") ||
+  (event.type === "rfid" &&
+    event.status === "unauthorized" &&
+    (event.severity === "high" || event.severity === "critical")) ||
+  ((event.type === "auth" || event.type === "anomaly") &&
+    (event.severity === "high" || event.severity === "critical"));
+
+const addCounts = (counts: EventCounts, event: SecurityEvent, sign = 1) => {
+  if (event.type === "rfid") {
+    counts.totalScans += sign;
+    if (event.status === "authorized") counts.authorizedScans += sign;
+    if (event.status === "unauthorized") counts.unauthorizedScans += sign;
+  } else if (event.type === "dos") {
+    counts.dosAttacks += sign;
+  }
+  if (isThreat(event)) counts.threats += sign;
+};
+
+const BUCKET_MS = 60 * 1000;
+
+interface Bucket {
+  counts: EventCounts;
+  events: SecurityEvent[];
+}
+
+/**
+ * Incrementally maintained per-minute counters.
+ *
+ * Buckets that lie fully inside a queried range are summed directly; only the
+ * (at most two) buckets cut by the range boundaries are scanned event by event.
+ */
+export class EventAggregator {
+  private buckets = new Map<number, Bucket>();
+
+  constructor(events: SecurityEvent[] = []) {
+    events.forEach((event) => this.add(event));
+  }
+
+  add(event: SecurityEvent): void {
+    const time = Date.parse(event.timestamp);
+    if (Number.isNaN(time)) return;
+
+    const key = Math.floor(time / BUCKET_MS);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { counts: emptyCounts(), events: [] };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.events.push(event);
+    addCounts(bucket.counts, event);
+  }
+
+  remove(event: SecurityEvent): void {
+    const time = Date.parse(event.timestamp);
+    if (Number.isNaN(time)) return;
+
+    const key = Math.floor(time / BUCKET_MS);
+    const bucket = this.buckets.get(key);
+    const index = bucket?.events.indexOf(event) ?? -1;
+    if (index === -1) return;
+
+    bucket.events.splice(index, 1);
+    addCounts(bucket.counts, event, -1);
+    if (bucket.events.length === 0) this.buckets.delete(key);
+  }
+
+  count({ since = -Infinity, until = Infinity }: TimeRange = {}): EventCounts {
+    const result = emptyCounts();
+
+    for (const [key, bucket] of this.buckets) {
+      const start = key * BUCKET_MS;
+      const end = start + BUCKET_MS - 1;
+      if (end < since || start > until) continue;
+
+      if (start >= since && end <= until) {
+        for (const field of Object.keys(result) as (keyof EventCounts)[]) {
+          result[field] += bucket.counts[field];
+        }
+        continue;
+      }
+
+      for (const event of bucket.events) {
+        const time = Date.parse(event.timestamp);
+        if (time >= since && time <= until) addCounts(result, event);
+      }
+    }
+
+    return result;
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Span of each activity range and the width of its trend buckets
+ */
+export const ACTIVITY_WINDOWS: Record<
+  ActivityRange,
+  { spanMs: number; bucketMs: number }
+> = {
+  "1h": { spanMs: HOUR_MS, bucketMs: 5 * MINUTE_MS },
+  "24h": { spanMs: DAY_MS, bucketMs: HOUR_MS },
+  "7d": { spanMs: 7 * DAY_MS, bucketMs: 6 * HOUR_MS },
+  "30d": { spanMs: 30 * DAY_MS, bucketMs: DAY_MS },
+};
+
+/**
+ * Trend buckets of `bucketMs` covering the range, aligned to multiples of
+ * their width so gaps show up as zeros, and a lookup of a time's bucket
+ */
+const emptyTrend = <T>(
+  { since, until }: Required<TimeRange>,
+  bucketMs: number,
+  empty: (start: string) => T,
+) => {
+  const first = Math.floor(since / bucketMs);
+  const points: T[] = [];
+  for (let key = first; key * bucketMs <= until; key++) {
+    points.push(empty(new Date(key * bucketMs).toISOString()));
+  }
+  return {
+    points,
+    at: (time: number) => points[Math.floor(time / bucketMs) - first],
+  };
+};
+
+// Most events first, then most recently seen
+const busiest = <T extends { lastSeen: string }>(
+  groups: Map<string, T>,
+  volume: (group: NoInfer<T>) => number,
+  top: number,
+) =>
+  [...groups.values()]
+    .sort(
+      (a, b) => volume(b) - volume(a) || b.lastSeen.localeCompare(a.lastSeen),
+    )
+    .slice(0, top);
+
+const inRange = (time: number, { since, until }: Required<TimeRange>) =>
+  time >= since && time <= until;
+
+export interface RfidActivitySummary {
+  trend: RfidTrendPoint[];
+  locations: RfidActivityGroup[];
+  cards: RfidActivityGroup[];
+}
+
+const addScan = (counts: RfidScanCounts, event: SecurityEvent) => {
+  if (event.status === "authorized") counts.authorized++;
+  if (event.status === "unauthorized") counts.unauthorized++;
+};
+
+const scans = (group: RfidScanCounts) => group.authorized + group.unauthorized;
+
+/**
+ * Authorized vs unauthorized scans per bucket of `bucketMs`, plus the `top`
+ * busiest locations and cards
+ */
+export const summarizeRfidActivity = (
+  events: SecurityEvent[],
+  range: Required<TimeRange>,
+  bucketMs: number,
+  top = 10,
+): RfidActivitySummary => {
+  const trend = emptyTrend(range, bucketMs, (start) => ({
+    start,
+    authorized: 0,
+    unauthorized: 0,
+  }));
+
+  const locations = new Map<string, RfidActivityGroup>();
+  const cards = new Map<string, RfidActivityGroup>();
+  const group = (
+    groups: Map<string, RfidActivityGroup>,
+    key: string | undefined,
+    event: SecurityEvent,
+    time: number,
+  ) => {
+    if (!key) return;
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = { key, authorized: 0, unauthorized: 0, lastSeen: "" };
+      groups.set(key, entry);
+    }
+    addScan(entry, event);
+    if (!entry.lastSeen || time > Date.parse(entry.lastSeen)) {
+      entry.lastSeen = event.timestamp;
+    }
+  };
+
+  for (const event of events) {
+    const time = Date.parse(event.timestamp);
+    if (event.type !== "rfid" || !inRange(time, range)) continue;
+
+    addScan(trend.at(time), event);
+    group(locations, event.location, event, time);
+    group(cards, event.cardId, event, time);
+  }
+
+  return {
+    trend: trend.points,
+    locations: busiest(locations, scans, top),
+    cards: busiest(cards, scans, top),
+  };
+};
+
+export interface DosActivitySummary {
+  trend: DosTrendPoint[];
+  offenders: DosOffender[];
+}
+
+/**
+ * Blocked vs detected DoS events per bucket of `bucketMs`, plus the `top`
+ * source addresses by number of events
+ */
+export const summarizeDosActivity = (
+  events: SecurityEvent[],
+  range: Required<TimeRange>,
+  bucketMs: number,
+  top = 10,
+): DosActivitySummary => {
+  const trend = emptyTrend(range, bucketMs, (start) => ({
+    start,
+    blocked: 0,
+    detected: 0,
+  }));
+  const offenders = new Map<string, DosOffender>();
+
+  for (const event of events) {
+    const time = Date.parse(event.timestamp);
+    const { status } = event;
+    if (
+      event.type !== "dos" ||
+      (status !== "blocked" && status !== "detected") ||
+      !inRange(time, range)
+    ) {
+      continue;
+    }
+
+    trend.at(time)[status]++;
+    if (!event.ipAddress) continue;
+
+    let offender = offenders.get(event.ipAddress);
+    if (!offender) {
+      offender = {
+        ipAddress: event.ipAddress,
+        blocked: 0,
+        detected: 0,
+        firstSeen: event.timestamp,
+        lastSeen: event.timestamp,
+      };
+      offenders.set(event.ipAddress, offender);
+    }
+    offender[status]++;
+    if (time < Date.parse(offender.firstSeen))
+      offender.firstSeen = event.timestamp;
+    if (time > Date.parse(offender.lastSeen))
+      offender.lastSeen = event.timestamp;
+  }
+
+  return {
+    trend: trend.points,
+    offenders: busiest(
+      offenders,
+      (offender) => offender.blocked + offender.detected,
+      top,
+    ),
+  };
+};
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SecurityEvent } from "@shared/api";
+import { FileStore } from "./file";
+import { verifyPassword } from "../auth/password";
+
+const makeEvent = (id: string): SecurityEvent => ({
+  id,
+  type: "rfid",
+  status: "authorized",
+  timestamp: new Date().toISOString(),
+  severity: "low",
+});
+
+describe("FileStore", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "secureguard-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should keep events across reopening", async () => {
+    const store = new FileStore(directory);
+    await store.addEvent(makeEvent("a"));
+    await store.addEvent(makeEvent("b"));
+    await store.close();
+
+    const reopened = new FileStore(directory);
+    const { events, total } = await reopened.listEvents();
+    expect(total).toBe(2);
+    expect(events.map((e) => e.id)).toEqual(["b", "a"]);
+    await reopened.close();
+  });
+
+  it("should keep stats rules and users across reopening", async () => {
+    const store = new FileStore(directory);
+    const rules = await store.getStatsRules();
+    await store.saveStatsRules({ ...rules, criticalThreats: 5 });
+    await store.saveUser({
+      id: "3",
+      username: "guard",
+      passwordHash: "x",
+      role: "security_officer",
+      disabled: false,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      passwordChangedAt: new Date().toISOString(),
+    });
+    await store.close();
+
+    const reopened = new FileStore(directory);
+    expect((await reopened.getStatsRules()).criticalThreats).toBe(5);
+    expect(await reopened.findUserByUsername("guard")).toMatchObject({
+      id: "3",
+    });
+    await reopened.close();
+  });
+
+  it("should keep IP blocks across reopening", async () => {
+    const store = new FileStore(directory);
+    await store.saveIpBlock({
+      ipAddress: "10.0.0.0/8",
+      blockedBy: "admin",
+      createdAt: new Date().toISOString(),
+    });
+    await store.close();
+
+    const reopened = new FileStore(directory);
+    expect(await reopened.listIpBlocks()).toMatchObject([
+      { ipAddress: "10.0.0.0/8", blockedBy: "admin" },
+    ]);
+    await reopened.close();
+  });
+
+  it("should keep cardholders and credentials across reopening", async () => {
+    const store = new FileStore(directory);
+    const [cardholder] = await store.listCardholders();
+    await store.saveCardholder({ ...cardholder, status: "inactive" });
+    const [credential] = await store.listCredentials(cardholder.id);
+    await store.saveCredential({ ...credential, state: "revoked" });
+    await store.close();
+
+    const reopened = new FileStore(directory);
+    expect(await reopened.findCardholder(cardholder.id)).toMatchObject({
+      status: "inactive",
+    });
+    expect(await reopened.findCredential(credential.id)).toMatchObject({
+      state: "revoked",
+    });
+    await reopened.close();
+  });
+
+  it("should keep the access policy across reopening", async () => {
+    const store = new FileStore(directory);
+    const policy = await store.getAccessPolicy();
+    await store.saveAccessPolicy({ ...policy, groups: policy.groups.slice(1) });
+    await store.close();
+
+    const reopened = new FileStore(directory);
+    expect((await reopened.getAccessPolicy()).groups).toEqual(
+      policy.groups.slice(1),
+    );
+    await reopened.close();
+  });
+
+  it("should keep locations across reopening", async () => {
+    const store = new FileStore(directory);
+    const floor = await store.findLocation("loc-floor-1");
+    await store.saveLocation({ ...floor, name: "Ground Floor" });
+    await store.deleteLocation("loc-door-104");
+    await store.close();
+
+    const reopened = new FileStore(directory);
+    expect(await reopened.findLocation("loc-floor-1")).toMatchObject({
+      name: "Ground Floor",
+    });
+    expect(await reopened.findLocation("loc-door-104")).toBeUndefined();
+    await reopened.close();
+  });
+
+  it("should discard events beyond the retention limit", async () => {
+    const store = new FileStore(directory, 2);
+    for (const id of ["a", "b", "c"]) {
+      await store.addEvent(makeEvent(id));
+    }
+    await store.close();
+
+    const reopened = new FileStore(directory, 2);
+    const { events } = await reopened.listEvents();
+    expect(events.map((e) => e.id)).toEqual(["c", "b"]);
+    await reopened.close();
+  });
+
+  it("should prefer the saved retention setting over the configured limit", async () => {
+    const store = new FileStore(directory, 10);
+    const settings = await store.getSettings();
+    await store.saveSettings({
+      ...settings,
+      retention: { ...settings.retention, maxEvents: 2 },
+    });
+    for (const id of ["a", "b", "c"]) {
+      await store.addEvent(makeEvent(id));
+    }
+    await store.close();
+
+    const reopened = new FileStore(directory, 10);
+    const { events } = await reopened.listEvents();
+    expect(events.map((e) => e.id)).toEqual(["c", "b"]);
+    expect((await reopened.getSettings()).retention.maxEvents).toBe(2);
+    await reopened.close();
+  });
+
+  it("should skip a truncated trailing record", async () => {
+    fs.writeFileSync(
+      path.join(directory, "events.jsonl"),
+      `${JSON.stringify(makeEvent("a"))}\n{"id":"b","ty`,
+    );
+
+    const store = new FileStore(directory);
+    expect((await store.listEvents()).total).toBe(1);
+    await store.close();
+  });
+
+  it("should hash plaintext passwords saved by older versions", async () => {
+    const statePath = path.join(directory, "state.json");
+    fs.writeFileSync(
+      statePath,
+      JSON.stringify({
+        users: [
+          {
+            id: "1",
+            username: "admin",
+            password: "admin123",
+            role: "administrator",
+          },
+        ],
+      }),
+    );
+
+    const store = new FileStore(directory);
+    const user = await store.findUserByUsername("admin");
+    expect(user).toMatchObject({ disabled: false });
+    expect(await verifyPassword("admin123", user.passwordHash)).toBe(true);
+    await store.close();
+
+    expect(fs.readFileSync(statePath, "utf-8")).not.toContain("admin123");
+  });
+});
@@ -0,0 +1,182 @@
+import fs from "fs";
+import { appendFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { SecurityEvent } from "@shared/api";
+import {
+  DEFAULT_MAX_EVENTS,
+  MemoryStore,
+  StoreState,
+  emptyState,
+} from "./memory";
+import { StoreChange, StoredUser } from "./types";
+import { hashPasswordSync } from "../auth/password";
+
+const EVENTS_FILE = "events.jsonl";
+const STATE_FILE = "state.json";
+
+type PersistedState = Omit<StoreState, "events">;
+
+/**
+ * File-backed store for single-node deployments.
+ *
+ * Events are appended to a JSON Lines log (oldest first) and everything else
+ * is kept in a small JSON document that is rewritten atomically on change.
+ * The whole data set is loaded into memory on startup.
+ */
+export class FileStore extends MemoryStore {
+  private readonly eventsPath: string;
+  private readonly statePath: string;
+  private loggedEvents: number;
+  // Serialises writes so appends and rewrites never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(directory: string, maxEvents = DEFAULT_MAX_EVENTS) {
+    fs.mkdirSync(directory, { recursive: true });
+
+    const eventsPath = path.join(directory, EVENTS_FILE);
+    const statePath = path.join(directory, STATE_FILE);
+    const events = readEvents(eventsPath);
+    const { migrated, ...persisted } = readState(statePath, maxEvents);
+    // The retention setting takes over from the configured limit once saved
+    const limit = persisted.settings.retention.maxEvents;
+
+    super({ ...persisted, events: events.slice(-limit).reverse() }, maxEvents);
+
+    this.eventsPath = eventsPath;
+    this.statePath = statePath;
+    this.loggedEvents = events.length;
+
+    // Compact the log if it has grown past the retention limit
+    if (events.length > limit) {
+      this.enqueue(() => this.rewriteEvents());
+    }
+    if (!fs.existsSync(statePath) || migrated) {
+      this.enqueue(() => this.writeState());
+    }
+  }
+
+  protected override persist(change: StoreChange): Promise<void> {
+    if (change.kind === "state") {
+      return this.enqueue(() => this.writeState());
+    }
+
+    return this.enqueue(async () => {
+      await appendFile(this.eventsPath, `${JSON.stringify(change.event)}\n`);
+      this.loggedEvents += 1;
+
+      if (this.loggedEvents > this.maxEvents * 2) {
+        await this.rewriteEvents();
+      }
+    });
+  }
+
+  override async close(): Promise<void> {
+    await this.queue;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(task);
+    // Keep the chain alive after a failed write; the caller still sees the error
+    this.queue = next.catch((error) => {
+      console.error("Storage write failed:", error);
+    });
+    return next;
+  }
+
+  private async writeState(): Promise<void> {
+    const { events: _events, ...rest } = this.state;
+    await writeAtomic(this.statePath, JSON.stringify(rest, null, 2));
+  }
+
+  private async rewriteEvents(): Promise<void> {
+    const lines = [...this.state.events]
+      .reverse()
+      .map((event) => `${JSON.stringify(event)}\n`)
+      .join("");
+
+    await writeAtomic(this.eventsPath, lines);
+    this.loggedEvents = this.state.events.length;
+  }
+}
+
+const writeAtomic = async (file: string, contents: string) => {
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, contents);
+  await rename(temp, file);
+};
+
+const readEvents = (file: string): SecurityEvent[] => {
+  if (!fs.existsSync(file)) return [];
+
+  const events: SecurityEvent[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // A partially written last line after a crash - skip it
+      console.warn(`Skipping corrupt event record in ${file}`);
+    }
+  }
+  return events;
+};
+
+type LegacyUser = Partial<StoredUser> & { password?: string };
+
+/**
+ * Bring users saved by older versions up to date. Plaintext passwords are
+ * hashed so they do not stay on disk any longer than one restart.
+ */
+const upgradeUsers = (users: LegacyUser[]) => {
+  let migrated = false;
+  const upgraded = users.map(({ password, ...user }): StoredUser => {
+    if (password === undefined && user.passwordHash) {
+      return user as StoredUser;
+    }
+
+    migrated = true;
+    const now = new Date().toISOString();
+    return {
+      disabled: false,
+      createdAt: now,
+      updatedAt: now,
+      passwordChangedAt: now,
+      ...user,
+      passwordHash: user.passwordHash ?? hashPasswordSync(password ?? ""),
+    } as StoredUser;
+  });
+  return { users: upgraded, migrated };
+};
+
+const readState = (
+  file: string,
+  maxEvents: number,
+): PersistedState & { migrated?: boolean } => {
+  const { events: _events, ...defaults } = emptyState(maxEvents);
+  if (!fs.existsSync(file)) return defaults;
+
+  const persisted: Partial<PersistedState> = JSON.parse(
+    fs.readFileSync(file, "utf-8"),
+  );
+  const { users, migrated } = upgradeUsers(persisted.users ?? defaults.users);
+
+  return {
+    migrated,
+    // Rules added since the file was written get their defaults
+    statsRules: { ...defaults.statsRules, ...persisted.statsRules },
+    travelRules: persisted.travelRules ?? defaults.travelRules,
+    health: persisted.health ?? defaults.health,
+    users,
+    sessions: persisted.sessions ?? defaults.sessions,
+    revokedTokens: persisted.revokedTokens ?? defaults.revokedTokens,
+    ipBlocks: persisted.ipBlocks ?? defaults.ipBlocks,
+    settings: persisted.settings ?? defaults.settings,
+    settingsHistory: persisted.settingsHistory ?? defaults.settingsHistory,
+    cardholders: persisted.cardholders ?? defaults.cardholders,
+    credentials: persisted.credentials ?? defaults.credentials,
+    accessPolicy: persisted.accessPolicy ?? defaults.accessPolicy,
+    locations: persisted.locations ?? defaults.locations,
+    readers: persisted.readers ?? defaults.readers,
+    cardFormats: persisted.cardFormats ?? defaults.cardFormats,
+  };
+};
@@ -0,0 +1,41 @@
+import path from "path";
+import { Request } from "express";
+import { FileStore } from "./file";
+import { MemoryStore } from "./memory";
+import { SecurityStore, StorageConfig, StorageDriver } from "./types";
+
+export * from "./types";
+export * from "./aggregate";
+export { MemoryStore } from "./memory";
+export { FileStore } from "./file";
+
+/**
+ * Storage configuration from the environment:
+ * STORAGE_DRIVER=file|memory (default file), STORAGE_PATH, STORAGE_MAX_EVENTS
+ */
+export const storageConfigFromEnv = (): StorageConfig => ({
+  driver: (process.env.STORAGE_DRIVER as StorageDriver) ?? "file",
+  path: process.env.STORAGE_PATH,
+  maxEvents: process.env.STORAGE_MAX_EVENTS
+    ? parseInt(process.env.STORAGE_MAX_EVENTS)
+    : undefined,
+});
+
+export const createStore = (config: StorageConfig): SecurityStore => {
+  switch (config.driver) {
+    case "memory":
+      return new MemoryStore(undefined, config.maxEvents);
+    case "file":
+      return new FileStore(
+        config.path ?? path.resolve(process.cwd(), "data"),
+        config.maxEvents,
+      );
+    default:
+      throw new Error(`Unknown storage driver: ${config.driver}`);
+  }
+};
+
+/**
+ * Store attached to the Express app by createServer()
+ */
+export const getStore = (req: Request): SecurityStore => req.app.locals.store;
@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { SecurityEvent } from "@shared/api";
+import { MemoryStore } from "./memory";
+
+const makeEvent = (id: string, second: number): SecurityEvent => ({
+  id,
+  type: "rfid",
+  status: "authorized",
+  timestamp: new Date(Date.UTC(2024, 0, 1, 10, 0, second)).toISOString(),
+  severity: "low",
+});
+
+const ids = (events: SecurityEvent[]) => events.map((e) => e.id);
+
+describe("MemoryStore cursors", () => {
+  it("should page backwards without duplicates while events arrive", async () => {
+    const store = new MemoryStore({ events: [] });
+    for (let i = 0; i < 5; i++) await store.addEvent(makeEvent(`e${i}`, i));
+
+    const first = await store.listEvents({ limit: 2 });
+    expect(ids(first.events)).toEqual(["e4", "e3"]);
+    expect(first.hasOlder).toBe(true);
+
+    // A new event would shift an offset-based second page by one
+    await store.addEvent(makeEvent("e5", 5));
+
+    const second = await store.listEvents({
+      limit: 2,
+      before: first.events[1],
+    });
+    expect(ids(second.events)).toEqual(["e2", "e1"]);
+
+    const third = await store.listEvents({
+      limit: 2,
+      before: second.events[1],
+    });
+    expect(ids(third.events)).toEqual(["e0"]);
+    expect(third.hasOlder).toBe(false);
+  });
+
+  it("should return the events right after the cursor", async () => {
+    const store = new MemoryStore({ events: [] });
+    for (let i = 0; i < 5; i++) await store.addEvent(makeEvent(`e${i}`, i));
+
+    const newer = await store.listEvents({
+      limit: 2,
+      after: makeEvent("e1", 1),
+    });
+    expect(ids(newer.events)).toEqual(["e3", "e2"]);
+  });
+
+  it("should order events sharing a timestamp by id", async () => {
+    const store = new MemoryStore({ events: [] });
+    await store.addEvent(makeEvent("b", 0));
+    await store.addEvent(makeEvent("a", 0));
+
+    const page = await store.listEvents({ limit: 1 });
+    expect(ids(page.events)).toEqual(["b"]);
+    const next = await store.listEvents({ limit: 1, before: page.events[0] });
+    expect(ids(next.events)).toEqual(["a"]);
+  });
+});
+
+describe("MemoryStore IP blocks", () => {
+  const block = (ipAddress: string, expiresAt?: string) => ({
+    ipAddress,
+    blockedBy: "admin",
+    createdAt: new Date().toISOString(),
+    expiresAt,
+  });
+
+  it("should leave out expired blocks", async () => {
+    const store = new MemoryStore();
+    await store.saveIpBlock(block("10.0.0.1"));
+    await store.saveIpBlock(block("10.0.0.2", "2000-01-01T00:00:00.000Z"));
+
+    const blocks = await store.listIpBlocks();
+    expect(blocks.map((b) => b.ipAddress)).toEqual(["10.0.0.1"]);
+  });
+
+  it("should replace a block of the same address and remove it", async () => {
+    const store = new MemoryStore();
+    await store.saveIpBlock(block("10.0.0.1"));
+    await store.saveIpBlock({ ...block("10.0.0.1"), reason: "again" });
+
+    expect(await store.listIpBlocks()).toMatchObject([{ reason: "again" }]);
+    expect(await store.deleteIpBlock("10.0.0.1")).toBe(true);
+    expect(await store.deleteIpBlock("10.0.0.1")).toBe(false);
+    expect(await store.listIpBlocks()).toEqual([]);
+  });
+});
+
+describe("MemoryStore settings", () => {
+  it("should apply a lower event limit right away", async () => {
+    const store = new MemoryStore();
+    for (const id of ["a", "b", "c"]) {
+      await store.addEvent(makeEvent(id, 0));
+    }
+
+    const settings = await store.getSettings();
+    await store.saveSettings({
+      ...settings,
+      retention: { ...settings.retention, maxEvents: 2 },
+    });
+
+    expect(ids((await store.listEvents()).events)).toEqual(["c", "b"]);
+    expect((await store.countEvents()).totalScans).toBe(2);
+  });
+
+  it("should keep only the newest history entries", async () => {
+    const store = new MemoryStore();
+    const settings = await store.getSettings();
+    await store.saveSettings({
+      ...settings,
+      retention: { ...settings.retention, historyEntries: 2 },
+    });
+
+    for (const id of ["a", "b", "c"]) {
+      await store.addSettingsChange({
+        id,
+        section: "alerting",
+        changedBy: "admin",
+        changedAt: new Date().toISOString(),
+        changes: [],
+      });
+    }
+
+    const history = await store.listSettingsChanges();
+    expect(history.map((c) => c.id)).toEqual(["c", "b"]);
+  });
+});
+
+describe("MemoryStore cardholders", () => {
+  it("should find credentials by card number regardless of case", async () => {
+    const store = new MemoryStore();
+    const [cardholder] = await store.listCardholders();
+    await store.saveCredential({
+      id: "c1",
+      cardNumber: "CARD-TEST01",
+      cardholderId: cardholder.id,
+      format: "wiegand26",
+      issuedAt: new Date().toISOString(),
+      state: "active",
+      stateChangedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    expect(await store.findCredentialByCardNumber("card-test01")).toMatchObject(
+      { id: "c1", cardholderId: cardholder.id },
+    );
+    expect(await store.findCredentialByCardNumber("CARD-NONE")).toBeUndefined();
+    expect(
+      (await store.listCredentials(cardholder.id)).map((c) => c.id),
+    ).toContain("c1");
+  });
+
+  it("should list cardholders by name and remove them", async () => {
+    const store = new MemoryStore({ cardholders: [], credentials: [] });
+    const now = new Date().toISOString();
+    for (const name of ["Zoe", "Adam"]) {
+      await store.saveCardholder({
+        id: name,
+        name,
+        status: "active",
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    expect((await store.listCardholders()).map((c) => c.name)).toEqual([
+      "Adam",
+      "Zoe",
+    ]);
+    expect(await store.deleteCardholder("Zoe")).toBe(true);
+    expect(await store.deleteCardholder("Zoe")).toBe(false);
+    expect(await store.listCardholders()).toHaveLength(1);
+  });
+});
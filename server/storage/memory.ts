@@ -0,0 +1,543 @@
+import {
+  AccessPolicy,
+  Cardholder,
+  Credential,
+  IpBlock,
+  CardFormat,
+  LocationNode,
+  RfidReader,
+  SecurityEvent,
+  SettingsChange,
+  StatsRules,
+  TravelRules,
+  isCredentialInUse,
+} from "@shared/api";
+import {
+  compareEvents,
+  compareTimeline,
+  matchesEventFilter,
+} from "@shared/event-query";
+import {
+  EventListOptions,
+  EventListResult,
+  SecurityStore,
+  StoreChange,
+  StoreListener,
+  StoredHealth,
+  StoredSession,
+  StoredSettings,
+  StoredUser,
+} from "./types";
+import {
+  defaultAccessPolicy,
+  defaultCardholders,
+  defaultCredentials,
+  defaultHealth,
+  defaultLocations,
+  defaultReaders,
+  defaultSettings,
+  defaultStatsRules,
+  defaultTravelRules,
+  defaultUsers,
+} from "./seed";
+import { EventAggregator, EventCounts, TimeRange } from "./aggregate";
+
+export const DEFAULT_MAX_EVENTS = 10000;
+
+/**
+ * Snapshot of everything a store holds, used by drivers that persist it
+ */
+export interface StoreState {
+  events: SecurityEvent[];
+  statsRules: StatsRules;
+  travelRules: TravelRules;
+  health: StoredHealth;
+  users: StoredUser[];
+  sessions: StoredSession[];
+  /** Revoked access token ids with their original expiry */
+  revokedTokens: { jti: string; expiresAt: string }[];
+  ipBlocks: IpBlock[];
+  settings: StoredSettings;
+  /** Newest first */
+  settingsHistory: SettingsChange[];
+  cardholders: Cardholder[];
+  credentials: Credential[];
+  accessPolicy: AccessPolicy;
+  locations: LocationNode[];
+  readers: RfidReader[];
+  cardFormats: CardFormat[];
+}
+
+export const emptyState = (maxEvents = DEFAULT_MAX_EVENTS): StoreState => ({
+  events: [],
+  statsRules: defaultStatsRules(),
+  travelRules: defaultTravelRules(),
+  health: defaultHealth(),
+  users: defaultUsers(),
+  sessions: [],
+  revokedTokens: [],
+  ipBlocks: [],
+  settings: defaultSettings(maxEvents),
+  settingsHistory: [],
+  cardholders: defaultCardholders(),
+  credentials: defaultCredentials(),
+  accessPolicy: defaultAccessPolicy(),
+  locations: defaultLocations(),
+  readers: defaultReaders(),
+  cardFormats: [],
+});
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Volatile store - state lives only as long as the process.
+ * Used by tests and as the base for the file driver.
+ */
+export class MemoryStore implements SecurityStore {
+  protected state: StoreState;
+  private aggregator: EventAggregator;
+  private listeners = new Set<StoreListener>();
+
+  constructor(initial?: Partial<StoreState>, maxEvents = DEFAULT_MAX_EVENTS) {
+    this.state = { ...emptyState(maxEvents), ...clone(initial ?? {}) };
+    this.aggregator = new EventAggregator(this.state.events);
+  }
+
+  /** Current retention limit for events */
+  protected get maxEvents(): number {
+    return this.state.settings.retention.maxEvents;
+  }
+
+  /** Called after every mutation; persistent drivers override this */
+  protected async persist(_change: StoreChange): Promise<void> {}
+
+  private async commit(change: StoreChange): Promise<void> {
+    await this.persist(change);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Store listener failed:", error);
+      }
+    }
+  }
+
+  subscribe(listener: StoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async listEvents(options: EventListOptions = {}): Promise<EventListResult> {
+    const { filter, sort, order, before, after } = options;
+    const matching = (
+      filter
+        ? this.state.events.filter((event) => matchesEventFilter(event, filter))
+        : [...this.state.events]
+    ).sort(compareEvents(sort, order));
+
+    let page: SecurityEvent[];
+    if (before || after) {
+      const window = matching.filter(
+        (event) =>
+          (!before || compareTimeline(event, before) < 0) &&
+          (!after || compareTimeline(event, after) > 0),
+      );
+      const limit = Math.min(options.limit ?? window.length, window.length);
+
+      // Take the events closest to the cursor: the oldest ones when paging
+      // forward with `after`, the newest ones when paging back with `before`
+      const nearestAtEnd = after && !before ? order !== "asc" : order === "asc";
+      page = nearestAtEnd
+        ? window.slice(window.length - limit)
+        : window.slice(0, limit);
+    } else {
+      const offset = Math.max(0, options.offset ?? 0);
+      const limit = options.limit ?? matching.length;
+      page = matching.slice(offset, offset + limit);
+    }
+
+    const oldest = page.reduce<SecurityEvent | undefined>(
+      (result, event) =>
+        !result || compareTimeline(event, result) < 0 ? event : result,
+      undefined,
+    );
+    const hasOlder = oldest
+      ? matching.some((event) => compareTimeline(event, oldest) < 0)
+      : false;
+
+    return {
+      events: clone(page),
+      total: matching.length,
+      hasOlder,
+    };
+  }
+
+  async addEvent(event: SecurityEvent): Promise<SecurityEvent> {
+    const stored = clone(event);
+    this.state.events.unshift(stored);
+    this.aggregator.add(stored);
+    this.discardExpiredEvents();
+
+    await this.commit({ kind: "event", event: clone(event) });
+    return clone(event);
+  }
+
+  private discardExpiredEvents() {
+    if (this.state.events.length > this.maxEvents) {
+      this.state.events
+        .splice(this.maxEvents)
+        .forEach((expired) => this.aggregator.remove(expired));
+    }
+  }
+
+  async countEvents(range?: TimeRange): Promise<EventCounts> {
+    return this.aggregator.count(range);
+  }
+
+  async getStatsRules(): Promise<StatsRules> {
+    return clone(this.state.statsRules);
+  }
+
+  async saveStatsRules(rules: StatsRules): Promise<StatsRules> {
+    this.state.statsRules = clone(rules);
+    await this.commit({ kind: "state", key: "statsRules" });
+    return clone(rules);
+  }
+
+  async getTravelRules(): Promise<TravelRules> {
+    return clone(this.state.travelRules);
+  }
+
+  async saveTravelRules(rules: TravelRules): Promise<TravelRules> {
+    this.state.travelRules = clone(rules);
+    await this.commit({ kind: "state", key: "travelRules" });
+    return clone(rules);
+  }
+
+  async getHealth(): Promise<StoredHealth> {
+    return clone(this.state.health);
+  }
+
+  async saveHealth(health: StoredHealth): Promise<StoredHealth> {
+    this.state.health = clone(health);
+    await this.commit({ kind: "state", key: "health" });
+    return clone(health);
+  }
+
+  async listUsers(): Promise<StoredUser[]> {
+    return clone(this.state.users);
+  }
+
+  async findUserById(id: string): Promise<StoredUser | undefined> {
+    const user = this.state.users.find((u) => u.id === id);
+    return user && clone(user);
+  }
+
+  async findUserByUsername(username: string): Promise<StoredUser | undefined> {
+    const user = this.state.users.find((u) => u.username === username);
+    return user && clone(user);
+  }
+
+  async saveUser(user: StoredUser): Promise<StoredUser> {
+    const index = this.state.users.findIndex((u) => u.id === user.id);
+    if (index === -1) {
+      this.state.users.push(clone(user));
+    } else {
+      this.state.users[index] = clone(user);
+    }
+
+    await this.commit({ kind: "state", key: "users" });
+    return clone(user);
+  }
+
+  async findSession(id: string): Promise<StoredSession | undefined> {
+    const session = this.state.sessions.find((s) => s.id === id);
+    return session && clone(session);
+  }
+
+  async saveSession(session: StoredSession): Promise<StoredSession> {
+    const now = Date.now();
+    // Drop expired sessions while we are here
+    this.state.sessions = this.state.sessions.filter(
+      (s) => s.id !== session.id && Date.parse(s.expiresAt) > now,
+    );
+    this.state.sessions.push(clone(session));
+
+    await this.commit({ kind: "state", key: "sessions" });
+    return clone(session);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.state.sessions = this.state.sessions.filter((s) => s.id !== id);
+    await this.commit({ kind: "state", key: "sessions" });
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    this.state.sessions = this.state.sessions.filter(
+      (s) => s.userId !== userId,
+    );
+    await this.commit({ kind: "state", key: "sessions" });
+  }
+
+  async revokeToken(jti: string, expiresAt: string): Promise<void> {
+    const now = Date.now();
+    this.state.revokedTokens = this.state.revokedTokens.filter(
+      (t) => t.jti !== jti && Date.parse(t.expiresAt) > now,
+    );
+    this.state.revokedTokens.push({ jti, expiresAt });
+
+    await this.commit({ kind: "state", key: "revokedTokens" });
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    return this.state.revokedTokens.some((t) => t.jti === jti);
+  }
+
+  async listIpBlocks(): Promise<IpBlock[]> {
+    const now = Date.now();
+    return clone(
+      this.state.ipBlocks
+        .filter((b) => !b.expiresAt || Date.parse(b.expiresAt) > now)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    );
+  }
+
+  async saveIpBlock(block: IpBlock): Promise<IpBlock> {
+    const now = Date.now();
+    // Drop expired blocks while we are here
+    this.state.ipBlocks = this.state.ipBlocks.filter(
+      (b) =>
+        b.ipAddress !== block.ipAddress &&
+        (!b.expiresAt || Date.parse(b.expiresAt) > now),
+    );
+    this.state.ipBlocks.push(clone(block));
+
+    await this.commit({ kind: "state", key: "ipBlocks" });
+    return clone(block);
+  }
+
+  async deleteIpBlock(ipAddress: string): Promise<boolean> {
+    const remaining = this.state.ipBlocks.filter(
+      (b) => b.ipAddress !== ipAddress,
+    );
+    if (remaining.length === this.state.ipBlocks.length) return false;
+
+    this.state.ipBlocks = remaining;
+    await this.commit({ kind: "state", key: "ipBlocks" });
+    return true;
+  }
+
+  async getSettings(): Promise<StoredSettings> {
+    return clone(this.state.settings);
+  }
+
+  async saveSettings(settings: StoredSettings): Promise<StoredSettings> {
+    this.state.settings = clone(settings);
+    this.discardExpiredEvents();
+    this.state.settingsHistory.splice(settings.retention.historyEntries);
+
+    await this.commit({ kind: "state", key: "settings" });
+    return clone(settings);
+  }
+
+  async listSettingsChanges(): Promise<SettingsChange[]> {
+    return clone(this.state.settingsHistory);
+  }
+
+  async addSettingsChange(change: SettingsChange): Promise<SettingsChange> {
+    this.state.settingsHistory.unshift(clone(change));
+    this.state.settingsHistory.splice(
+      this.state.settings.retention.historyEntries,
+    );
+
+    await this.commit({ kind: "state", key: "settingsHistory" });
+    return clone(change);
+  }
+
+  async listCardholders(): Promise<Cardholder[]> {
+    return clone(
+      [...this.state.cardholders].sort((a, b) => a.name.localeCompare(b.name)),
+    );
+  }
+
+  async findCardholder(id: string): Promise<Cardholder | undefined> {
+    const cardholder = this.state.cardholders.find((c) => c.id === id);
+    return cardholder && clone(cardholder);
+  }
+
+  async saveCardholder(cardholder: Cardholder): Promise<Cardholder> {
+    const index = this.state.cardholders.findIndex(
+      (c) => c.id === cardholder.id,
+    );
+    if (index === -1) {
+      this.state.cardholders.push(clone(cardholder));
+    } else {
+      this.state.cardholders[index] = clone(cardholder);
+    }
+
+    await this.commit({ kind: "state", key: "cardholders" });
+    return clone(cardholder);
+  }
+
+  async deleteCardholder(id: string): Promise<boolean> {
+    const remaining = this.state.cardholders.filter((c) => c.id !== id);
+    if (remaining.length === this.state.cardholders.length) return false;
+
+    this.state.cardholders = remaining;
+    await this.commit({ kind: "state", key: "cardholders" });
+    return true;
+  }
+
+  async listCredentials(cardholderId?: string): Promise<Credential[]> {
+    return clone(
+      this.state.credentials
+        .filter((c) => !cardholderId || c.cardholderId === cardholderId)
+        .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt)),
+    );
+  }
+
+  async findCredential(id: string): Promise<Credential | undefined> {
+    const credential = this.state.credentials.find((c) => c.id === id);
+    return credential && clone(credential);
+  }
+
+  async findCredentialByCardNumber(
+    cardNumber: string,
+  ): Promise<Credential | undefined> {
+    const wanted = cardNumber.toUpperCase();
+    const issued = this.state.credentials
+      .filter((c) => c.cardNumber.toUpperCase() === wanted)
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+    const credential = issued.find((c) => isCredentialInUse(c)) ?? issued[0];
+    return credential && clone(credential);
+  }
+
+  async saveCredential(credential: Credential): Promise<Credential> {
+    const index = this.state.credentials.findIndex(
+      (c) => c.id === credential.id,
+    );
+    if (index === -1) {
+      this.state.credentials.push(clone(credential));
+    } else {
+      this.state.credentials[index] = clone(credential);
+    }
+
+    await this.commit({ kind: "state", key: "credentials" });
+    return clone(credential);
+  }
+
+  async getAccessPolicy(): Promise<AccessPolicy> {
+    return clone(this.state.accessPolicy);
+  }
+
+  async saveAccessPolicy(policy: AccessPolicy): Promise<AccessPolicy> {
+    this.state.accessPolicy = clone(policy);
+    await this.commit({ kind: "state", key: "accessPolicy" });
+    return clone(policy);
+  }
+
+  async listLocations(): Promise<LocationNode[]> {
+    return clone(
+      [...this.state.locations].sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true }),
+      ),
+    );
+  }
+
+  async findLocation(id: string): Promise<LocationNode | undefined> {
+    const location = this.state.locations.find((l) => l.id === id);
+    return location && clone(location);
+  }
+
+  async saveLocation(location: LocationNode): Promise<LocationNode> {
+    const index = this.state.locations.findIndex((l) => l.id === location.id);
+    if (index === -1) {
+      this.state.locations.push(clone(location));
+    } else {
+      this.state.locations[index] = clone(location);
+    }
+
+    await this.commit({ kind: "state", key: "locations" });
+    return clone(location);
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    const remaining = this.state.locations.filter((l) => l.id !== id);
+    if (remaining.length === this.state.locations.length) return false;
+
+    this.state.locations = remaining;
+    await this.commit({ kind: "state", key: "locations" });
+    return true;
+  }
+
+  async listReaders(): Promise<RfidReader[]> {
+    return clone(
+      [...this.state.readers].sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true }),
+      ),
+    );
+  }
+
+  async findReader(id: string): Promise<RfidReader | undefined> {
+    const reader = this.state.readers.find((r) => r.id === id);
+    return reader && clone(reader);
+  }
+
+  async saveReader(reader: RfidReader): Promise<RfidReader> {
+    const index = this.state.readers.findIndex((r) => r.id === reader.id);
+    if (index === -1) {
+      this.state.readers.push(clone(reader));
+    } else {
+      this.state.readers[index] = clone(reader);
+    }
+
+    await this.commit({ kind: "state", key: "readers" });
+    return clone(reader);
+  }
+
+  async deleteReader(id: string): Promise<boolean> {
+    const remaining = this.state.readers.filter((r) => r.id !== id);
+    if (remaining.length === this.state.readers.length) return false;
+
+    this.state.readers = remaining;
+    await this.commit({ kind: "state", key: "readers" });
+    return true;
+  }
+
+  async listCardFormats(): Promise<CardFormat[]> {
+    return clone(
+      [...this.state.cardFormats].sort((a, b) => a.id.localeCompare(b.id)),
+    );
+  }
+
+  async findCardFormat(id: string): Promise<CardFormat | undefined> {
+    const format = this.state.cardFormats.find((f) => f.id === id);
+    return format && clone(format);
+  }
+
+  async saveCardFormat(format: CardFormat): Promise<CardFormat> {
+    const index = this.state.cardFormats.findIndex((f) => f.id === format.id);
+    if (index === -1) {
+      this.state.cardFormats.push(clone(format));
+    } else {
+      this.state.cardFormats[index] = clone(format);
+    }
+
+    await this.commit({ kind: "state", key: "cardFormats" });
+    return clone(format);
+  }
+
+  async deleteCardFormat(id: string): Promise<boolean> {
+    const remaining = this.state.cardFormats.filter((f) => f.id !== id);
+    if (remaining.length === this.state.cardFormats.length) return false;
+
+    this.state.cardFormats = remaining;
+    await this.commit({ kind: "state", key: "cardFormats" });
+    return true;
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,263 @@
+import {
+  AccessPolicy,
+  Cardholder,
+  Credential,
+  CredentialState,
+  LocationNode,
+  RfidReader,
+  StatsRules,
+  TravelRules,
+} from "@shared/api";
+import { StoredHealth, StoredSettings, StoredUser } from "./types";
+
+// Initial values used when a store is created empty
+
+const SEEDED_AT = "2024-01-01T00:00:00.000Z";
+
+export const defaultStatsRules = (): StatsRules => ({
+  activeThreatWindowMinutes: 5,
+  warningThreats: 1,
+  criticalThreats: 10,
+  readerOfflineSeconds: 60,
+});
+
+// The demo site has a single building; a second one would need 15 minutes
+export const defaultTravelRules = (): TravelRules => ({
+  concurrentSeconds: 5,
+  defaultMinutes: 15,
+  times: [],
+});
+
+export const defaultSettings = (maxEvents: number): StoredSettings => ({
+  alerting: {
+    enabled: true,
+    minimumSeverity: "high",
+    unauthorizedAccess: true,
+    dosAttacks: true,
+    emailRecipients: [],
+  },
+  retention: {
+    maxEvents,
+    historyEntries: 200,
+  },
+  integrations: {
+    siemEnabled: false,
+    siemUrl: "",
+    rfidGatewayEnabled: false,
+    rfidGatewayUrl: "",
+  },
+});
+
+export const defaultHealth = (): StoredHealth => ({
+  dosProtection: {
+    status: "active",
+    percentage: 100,
+  },
+  database: {
+    status: "operational",
+    percentage: 95,
+  },
+  network: {
+    status: "moderate",
+    percentage: 75,
+  },
+});
+
+// Demo users (admin/admin123, security/secure456); change these passwords
+// through the user management API before going live
+export const defaultUsers = (): StoredUser[] => [
+  {
+    id: "1",
+    username: "admin",
+    passwordHash:
+      "scrypt$16384$8$1$zhZKb9De5K+s+/aJRIPzVQ==$e53O6NLXVoxFTdqgFeUOwWzSwVRHjK05xFjpfTwTTMCVQv3vGxkliXGivGQSJIykvYejIEoYyTks+Kt6SjUCXw==",
+    role: "administrator",
+    disabled: false,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+    passwordChangedAt: SEEDED_AT,
+  },
+  {
+    id: "2",
+    username: "security",
+    passwordHash:
+      "scrypt$16384$8$1$TVWWl0X/KWOU/y0igXc6sg==$6ISi1fDCuhVlBoRNq/fwFZwycwdt59f8mcUbWTG/gM/iPuV01SysGFe3d3G16EFMIFzCYl9ebjH4X8tARP59GA==",
+    role: "security_officer",
+    disabled: false,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+    passwordChangedAt: SEEDED_AT,
+  },
+];
+
+// Demo directory: [name, department, card number, card state]
+const DEMO_CARDHOLDERS: [string, string, string, CredentialState][] = [
+  ["Alice Moreno", "Engineering", "CARD-A1B2C3", "active"],
+  ["Ben Okafor", "Engineering", "CARD-D4E5F6", "active"],
+  ["Chloe Tanaka", "Facilities", "CARD-G7H8J9", "active"],
+  ["Daniel Weiss", "Finance", "CARD-K1L2M3", "active"],
+  ["Eva Lindqvist", "Human Resources", "CARD-N4P5Q6", "active"],
+  ["Farid Haddad", "Security", "CARD-R7S8T9", "active"],
+  ["Grace Kim", "Finance", "CARD-U1V2W3", "suspended"],
+  ["Henry Clarke", "Facilities", "CARD-X4Y5Z6", "lost"],
+];
+
+export const defaultCardholders = (): Cardholder[] =>
+  DEMO_CARDHOLDERS.map(([name, department], index) => ({
+    id: `ch-${index + 1}`,
+    name,
+    department,
+    status: "active",
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  }));
+
+export const defaultCredentials = (): Credential[] =>
+  DEMO_CARDHOLDERS.map(([, , cardNumber, state], index) => ({
+    id: `cred-${index + 1}`,
+    cardNumber,
+    cardholderId: `ch-${index + 1}`,
+    format: "mifare_desfire",
+    issuedAt: SEEDED_AT,
+    state,
+    stateChangedAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  }));
+
+// Demo policy for the simulated building: one zone per floor of the Main
+// Building, everyone in during business hours. The patterns cover scans
+// reported as "Floor N - Room X" strings, without a locationId.
+export const defaultAccessPolicy = (): AccessPolicy => ({
+  schedules: [
+    {
+      id: "business-hours",
+      name: "Business hours",
+      timeZone: "UTC",
+      windows: [
+        {
+          days: ["mon", "tue", "wed", "thu", "fri"],
+          start: "07:00",
+          end: "19:00",
+        },
+      ],
+    },
+  ],
+  zones: [
+    {
+      id: "ground-floor",
+      name: "Ground floor",
+      locations: ["Floor 1 - *"],
+      locationIds: ["loc-floor-1"],
+    },
+    {
+      id: "offices",
+      name: "Offices",
+      locations: ["Floor 2 - *", "Floor 3 - *"],
+      locationIds: ["loc-floor-2", "loc-floor-3"],
+    },
+    {
+      id: "finance",
+      name: "Finance",
+      locations: ["Floor 4 - *"],
+      locationIds: ["loc-floor-4"],
+    },
+    {
+      id: "server-rooms",
+      name: "Server rooms",
+      locations: ["Floor 5 - *"],
+      locationIds: ["loc-floor-5"],
+    },
+  ],
+  groups: [
+    {
+      id: "all-staff",
+      name: "All staff",
+      cardholderIds: DEMO_CARDHOLDERS.map((_, index) => `ch-${index + 1}`),
+      zoneIds: ["ground-floor", "offices"],
+      scheduleId: "business-hours",
+    },
+    {
+      id: "finance",
+      name: "Finance",
+      cardholderIds: ["ch-4", "ch-7"],
+      zoneIds: ["finance"],
+      scheduleId: "business-hours",
+    },
+    {
+      id: "engineering",
+      name: "Engineering on call",
+      cardholderIds: ["ch-1", "ch-2"],
+      zoneIds: ["ground-floor", "offices", "server-rooms"],
+    },
+    {
+      id: "security",
+      name: "Security team",
+      cardholderIds: ["ch-6"],
+      zoneIds: ["ground-floor", "offices", "finance", "server-rooms"],
+    },
+  ],
+});
+
+// Demo building for the simulator: five floors with four doors each. The
+// server rooms on floor 5 form a zone, so every level of the hierarchy is
+// in use, and display strings keep the "Floor N - Room X" form the access
+// policy matches.
+export const defaultLocations = (): LocationNode[] => {
+  const node = (
+    id: string,
+    name: string,
+    kind: LocationNode["kind"],
+    parentId?: string,
+  ): LocationNode => ({
+    id,
+    name,
+    kind,
+    parentId,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  });
+
+  const locations = [
+    node("loc-hq", "Headquarters", "site"),
+    node("loc-main", "Main Building", "building", "loc-hq"),
+    node("loc-server-wing", "Server Wing", "zone", "loc-floor-5"),
+  ];
+  for (let floor = 1; floor <= 5; floor++) {
+    locations.push(
+      node(`loc-floor-${floor}`, `Floor ${floor}`, "floor", "loc-main"),
+    );
+    for (let door = 1; door <= 4; door++) {
+      const room = `${floor}0${door}`;
+      locations.push(
+        node(
+          `loc-door-${room}`,
+          `Room ${room}`,
+          "door",
+          floor === 5 ? "loc-server-wing" : `loc-floor-${floor}`,
+        ),
+      );
+    }
+  }
+  return locations;
+};
+
+// One demo reader per door, installed and reporting when the store is created
+export const defaultReaders = (): RfidReader[] =>
+  defaultLocations()
+    .filter((location) => location.kind === "door")
+    .map((door) => {
+      const room = door.id.replace("loc-door-", "");
+      return {
+        id: `rdr-${room}`,
+        name: `Reader ${room}`,
+        locationId: door.id,
+        model: "HID iCLASS SE R40",
+        firmware: "10.2.1",
+        ipAddress: `10.20.${room[0]}.${Number(room.slice(1)) + 10}`,
+        status: "online",
+        lastHeartbeat: SEEDED_AT,
+        statusChangedAt: SEEDED_AT,
+        createdAt: SEEDED_AT,
+        updatedAt: SEEDED_AT,
+      };
+    });
@@ -0,0 +1,256 @@
+import {
+  AccessPolicy,
+  Cardholder,
+  Credential,
+  IpBlock,
+  CardFormat,
+  LocationNode,
+  RfidReader,
+  SecurityEvent,
+  SecurityEventFilter,
+  SecurityEventsQuery,
+  SettingsChange,
+  StatsRules,
+  SystemHealth,
+  SystemSettings,
+  TravelRules,
+} from "@shared/api";
+import { EventCounts, TimeRange } from "./aggregate";
+import type { EventCursor } from "@shared/event-query";
+import type { Role } from "@shared/permissions";
+
+/**
+ * TOTP enrollment of a user
+ */
+export interface StoredMfa {
+  /** Base32 TOTP secret */
+  secret: string;
+  /** False while enrollment waits for the first valid code */
+  enabled: boolean;
+  /** Time step of the last accepted code; it cannot be used again */
+  lastUsedStep: number;
+  /** sha256 hashes of the unused recovery codes */
+  recoveryCodes: string[];
+  /** ISO date string */
+  enabledAt?: string;
+}
+
+/**
+ * User record as persisted by the storage layer.
+ * Never send this shape to the client - map it to the public user first.
+ */
+export interface StoredUser {
+  id: string;
+  username: string;
+  /** scrypt hash, see server/auth/password.ts */
+  passwordHash: string;
+  role: Role;
+  /** Disabled users cannot log in and lose their sessions */
+  disabled: boolean;
+  /** ISO date strings */
+  createdAt: string;
+  updatedAt: string;
+  /** Access tokens issued before this are rejected */
+  passwordChangedAt: string;
+  mfa?: StoredMfa;
+}
+
+/**
+ * Refresh token session. Only a hash of the current refresh token is kept;
+ * rotating the token replaces the hash, so a replayed old token is detectable.
+ */
+export interface StoredSession {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  rememberMe: boolean;
+  /** ISO date strings */
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Settings kept by the store. The detection section is stored as the
+ * stats rules.
+ */
+export type StoredSettings = Omit<SystemSettings, "detection">;
+
+/**
+ * Health kept by the store. Reader availability is computed from the reader
+ * registry instead.
+ */
+export type StoredHealth = Omit<SystemHealth, "rfidReaders">;
+
+/**
+ * Filtering, sorting and paging options for listing events.
+ * Defaults to all events, newest first.
+ */
+export interface EventListOptions {
+  filter?: SecurityEventFilter;
+  sort?: SecurityEventsQuery["sort"];
+  order?: SecurityEventsQuery["order"];
+  /** Only events before (older than) this position */
+  before?: EventCursor;
+  /** Only events after (newer than) this position */
+  after?: EventCursor;
+  /** Ignored when a cursor is given */
+  offset?: number;
+  limit?: number;
+}
+
+export interface EventListResult {
+  events: SecurityEvent[];
+  /** Number of events matching the filter, regardless of cursors */
+  total: number;
+  /** Whether matching events older than the returned page exist */
+  hasOlder: boolean;
+}
+
+/**
+ * Notification sent to subscribers after a mutation has been persisted
+ */
+export type StoreChange =
+  | { kind: "event"; event: SecurityEvent }
+  | {
+      kind: "state";
+      key:
+        | "health"
+        | "statsRules"
+        | "users"
+        | "sessions"
+        | "revokedTokens"
+        | "ipBlocks"
+        | "settings"
+        | "settingsHistory"
+        | "cardholders"
+        | "credentials"
+        | "accessPolicy"
+        | "locations"
+        | "readers"
+        | "cardFormats"
+        | "travelRules";
+    };
+
+export type StoreListener = (change: StoreChange) => void;
+
+/**
+ * Persistence contract for everything the security API keeps between requests.
+ * All methods are async so drivers backed by real I/O can implement it directly.
+ */
+export interface SecurityStore {
+  // Security events
+  listEvents(options?: EventListOptions): Promise<EventListResult>;
+  addEvent(event: SecurityEvent): Promise<SecurityEvent>;
+  /** Aggregated counters over stored events within the range */
+  countEvents(range?: TimeRange): Promise<EventCounts>;
+
+  // Security stats
+  getStatsRules(): Promise<StatsRules>;
+  saveStatsRules(rules: StatsRules): Promise<StatsRules>;
+
+  // Travel times checked by the impossible travel detector
+  getTravelRules(): Promise<TravelRules>;
+  saveTravelRules(rules: TravelRules): Promise<TravelRules>;
+
+  // System health
+  getHealth(): Promise<StoredHealth>;
+  saveHealth(health: StoredHealth): Promise<StoredHealth>;
+
+  // Users
+  listUsers(): Promise<StoredUser[]>;
+  findUserById(id: string): Promise<StoredUser | undefined>;
+  findUserByUsername(username: string): Promise<StoredUser | undefined>;
+  saveUser(user: StoredUser): Promise<StoredUser>;
+
+  // Refresh sessions and revoked access tokens
+  findSession(id: string): Promise<StoredSession | undefined>;
+  saveSession(session: StoredSession): Promise<StoredSession>;
+  deleteSession(id: string): Promise<void>;
+  /** End every session of the user, e.g. after a password reset */
+  deleteUserSessions(userId: string): Promise<void>;
+  /** Revoke an access token until it would have expired anyway */
+  revokeToken(jti: string, expiresAt: string): Promise<void>;
+  isTokenRevoked(jti: string): Promise<boolean>;
+
+  // Blocked client addresses
+  /** Blocks that have not expired, newest first */
+  listIpBlocks(): Promise<IpBlock[]>;
+  /** Add a block, replacing any block of the same address */
+  saveIpBlock(block: IpBlock): Promise<IpBlock>;
+  /** Returns whether there was a block to remove */
+  deleteIpBlock(ipAddress: string): Promise<boolean>;
+
+  // System settings
+  getSettings(): Promise<StoredSettings>;
+  /** Takes effect right away, e.g. a lower event limit discards events */
+  saveSettings(settings: StoredSettings): Promise<StoredSettings>;
+  /** Newest first, at most retention.historyEntries */
+  listSettingsChanges(): Promise<SettingsChange[]>;
+  addSettingsChange(change: SettingsChange): Promise<SettingsChange>;
+
+  // Cardholders and their credentials
+  /** Sorted by name */
+  listCardholders(): Promise<Cardholder[]>;
+  findCardholder(id: string): Promise<Cardholder | undefined>;
+  saveCardholder(cardholder: Cardholder): Promise<Cardholder>;
+  /** Returns whether there was a cardholder to remove */
+  deleteCardholder(id: string): Promise<boolean>;
+  /** All credentials or those of one cardholder, newest issued first */
+  listCredentials(cardholderId?: string): Promise<Credential[]>;
+  findCredential(id: string): Promise<Credential | undefined>;
+  /**
+   * Case-insensitive, as readers may report card ids in either case. Of
+   * several credentials with the number, the one in use, else the newest
+   * issued.
+   */
+  findCredentialByCardNumber(
+    cardNumber: string,
+  ): Promise<Credential | undefined>;
+  saveCredential(credential: Credential): Promise<Credential>;
+
+  // Access policy: schedules, zones and access groups
+  getAccessPolicy(): Promise<AccessPolicy>;
+  saveAccessPolicy(policy: AccessPolicy): Promise<AccessPolicy>;
+
+  // Location hierarchy
+  /** Sorted by name; parents are linked by parentId */
+  listLocations(): Promise<LocationNode[]>;
+  findLocation(id: string): Promise<LocationNode | undefined>;
+  saveLocation(location: LocationNode): Promise<LocationNode>;
+  /** Returns whether there was a location to remove */
+  deleteLocation(id: string): Promise<boolean>;
+
+  // RFID reader registry
+  /** Sorted by name */
+  listReaders(): Promise<RfidReader[]>;
+  findReader(id: string): Promise<RfidReader | undefined>;
+  saveReader(reader: RfidReader): Promise<RfidReader>;
+  /** Returns whether there was a reader to remove */
+  deleteReader(id: string): Promise<boolean>;
+
+  // Custom card formats; the standard ones live in shared/wiegand.ts
+  /** Sorted by id */
+  listCardFormats(): Promise<CardFormat[]>;
+  findCardFormat(id: string): Promise<CardFormat | undefined>;
+  saveCardFormat(format: CardFormat): Promise<CardFormat>;
+  /** Returns whether there was a format to remove */
+  deleteCardFormat(id: string): Promise<boolean>;
+
+  /** Listen for changes; returns a function that removes the listener */
+  subscribe(listener: StoreListener): () => void;
+
+  close(): Promise<void>;
+}
+
+export type StorageDriver = "memory" | "file";
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  /** Directory used by the file driver */
+  path?: string;
+  /**
+   * Maximum number of events kept; older events are discarded. Only the
+   * initial value of the retention setting.
+   */
+  maxEvents?: number;
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from "vitest";
+import { SecurityEvent } from "@shared/api";
+import { MemoryStore } from "./storage/memory";
+import { resolveLocation } from "./locations";
+import { checkTravel, startTravelMonitor } from "./travel";
+
+// Seeded doors loc-door-101..504 are all in the Main Building; defaults are
+// 5 seconds for concurrent scans and 15 minutes between buildings
+const START = Date.parse("2024-01-01T09:00:00.000Z");
+const seconds = (n: number) => new Date(START + n * 1000);
+
+const createStore = async () => {
+  const store = new MemoryStore();
+  const node = { createdAt: seconds(0).toISOString() };
+  await store.saveLocation({
+    ...node,
+    id: "loc-annex",
+    name: "Annex",
+    kind: "building",
+    parentId: "loc-hq",
+    updatedAt: node.createdAt,
+  });
+  await store.saveLocation({
+    ...node,
+    id: "loc-annex-lobby",
+    name: "Annex Lobby",
+    kind: "door",
+    parentId: "loc-annex",
+    updatedAt: node.createdAt,
+  });
+  return store;
+};
+
+let nextId = 1;
+
+// Record a scan of Alice's card and check it
+const scan = async (
+  store: MemoryStore,
+  locationId: string,
+  at: number,
+  cardId = "CARD-A1B2C3",
+) => {
+  const event: SecurityEvent = {
+    id: `scan-${nextId++}`,
+    type: "rfid",
+    status: "authorized",
+    timestamp: seconds(at).toISOString(),
+    cardId,
+    severity: "low",
+    ...(await resolveLocation(store, locationId)),
+  };
+  await store.addEvent(event);
+  return { event, anomaly: await checkTravel(store, event, seconds(at)) };
+};
+
+describe("checkTravel", () => {
+  it("should let a card be scanned at the same door again", async () => {
+    const store = await createStore();
+    await scan(store, "loc-door-101", 0);
+
+    expect((await scan(store, "loc-door-101", 1)).anomaly).toBeUndefined();
+  });
+
+  it("should flag concurrent scans at two doors as a possible clone", async () => {
+    const store = await createStore();
+    const first = await scan(store, "loc-door-101", 0);
+    const second = await scan(store, "loc-door-304", 3);
+
+    expect(second.anomaly).toMatchObject({
+      type: "anomaly",
+      status: "detected",
+      severity: "critical",
+      cardId: "CARD-A1B2C3",
+      location: "Floor 3 - Room 304",
+      locationId: "loc-door-304",
+      relatedEventIds: [first.event.id, second.event.id],
+      description:
+        "Card CARD-A1B2C3 scanned at Floor 1 - Room 101 and Floor 3 - Room 304 3 seconds apart; it may have been cloned",
+    });
+    const { events } = await store.listEvents({
+      filter: { type: ["anomaly"] },
+    });
+    expect(events).toEqual([second.anomaly]);
+  });
+
+  it("should not flag concurrent scans when the check is off", async () => {
+    const store = await createStore();
+    await store.saveTravelRules({
+      ...(await store.getTravelRules()),
+      concurrentSeconds: 0,
+    });
+    await scan(store, "loc-door-101", 0);
+
+    expect((await scan(store, "loc-door-304", 0)).anomaly).toBeUndefined();
+    // Travel between buildings is still checked
+    expect((await scan(store, "loc-annex-lobby", 0)).anomaly).toMatchObject({
+      severity: "high",
+    });
+  });
+
+  it("should only check moving within a building when it is listed", async () => {
+    const store = await createStore();
+    await scan(store, "loc-door-101", 0);
+    expect((await scan(store, "loc-door-304", 60)).anomaly).toBeUndefined();
+
+    await store.saveTravelRules({
+      ...(await store.getTravelRules()),
+      times: [{ from: "loc-main", to: "loc-main", minutes: 2 }],
+    });
+    expect(await scan(store, "loc-door-101", 120)).toMatchObject({
+      anomaly: {
+        severity: "high",
+        description: expect.stringContaining(
+          "getting from Main Building to Main Building takes 2 minutes",
+        ),
+      },
+    });
+  });
+
+  it("should flag getting between buildings faster than the travel time", async () => {
+    const store = await createStore();
+    await scan(store, "loc-door-101", 0);
+
+    expect((await scan(store, "loc-annex-lobby", 300)).anomaly).toMatchObject({
+      severity: "high",
+      description:
+        "Card CARD-A1B2C3 scanned at Floor 1 - Room 101 and Annex Lobby 5 minutes apart; getting from Main Building to Annex takes 15 minutes",
+    });
+  });
+
+  it("should take the travel time of a pair from either end", async () => {
+    const store = await createStore();
+    await store.saveTravelRules({
+      ...(await store.getTravelRules()),
+      times: [{ from: "loc-annex", to: "loc-main", minutes: 4 }],
+    });
+    await scan(store, "loc-door-101", 0);
+
+    expect((await scan(store, "loc-annex-lobby", 300)).anomaly).toBeUndefined();
+    expect((await scan(store, "loc-door-101", 400)).anomaly).toMatchObject({
+      severity: "high",
+    });
+  });
+
+  it("should compare a scan with the previous scan of the same card only", async () => {
+    const store = await createStore();
+    await scan(store, "loc-door-101", 0);
+    await scan(store, "loc-door-304", 2, "CARD-D4E5F6");
+
+    expect(
+      (await scan(store, "loc-door-101", 3, "CARD-D4E5F6")).anomaly,
+    ).toMatchObject({ severity: "critical", cardId: "CARD-D4E5F6" });
+  });
+});
+
+describe("startTravelMonitor", () => {
+  it("should check scans however they are recorded", async () => {
+    const store = await createStore();
+    const stop = startTravelMonitor(store);
+    const now = Date.now();
+    const record = async (id: string, locationId: string, at: number) =>
+      store.addEvent({
+        id,
+        type: "rfid",
+        status: "unauthorized",
+        timestamp: new Date(at).toISOString(),
+        cardId: "CARD-A1B2C3",
+        severity: "high",
+        ...(await resolveLocation(store, locationId)),
+      });
+
+    await record("first", "loc-door-101", now);
+    await record("second", "loc-annex-lobby", now + 1000);
+
+    await vi.waitFor(async () => {
+      const { events } = await store.listEvents({
+        filter: { type: ["anomaly"] },
+      });
+      expect(events).toMatchObject([
+        { severity: "critical", relatedEventIds: ["first", "second"] },
+      ]);
+    });
+    stop();
+  });
+});
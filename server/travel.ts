@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { LocationNode, SecurityEvent, TravelRules } from "@shared/api";
+import { SecurityStore } from "./storage";
+
+// Scans that mean the card was at the reader
+const SCAN_STATUSES: SecurityEvent["status"][] = ["authorized", "unauthorized"];
+
+const isCardScan = (event: SecurityEvent) =>
+  event.type === "rfid" &&
+  SCAN_STATUSES.includes(event.status) &&
+  Boolean(event.cardId) &&
+  Boolean(event.locationId ?? event.location);
+
+/** Building the event happened in, from its recorded location path */
+const buildingOf = (
+  event: SecurityEvent,
+  buildings: Map<string, LocationNode>,
+): LocationNode | undefined =>
+  event.locationPath
+    ?.map((id) => buildings.get(id))
+    .find((building) => building !== undefined);
+
+/**
+ * Minutes it takes to get from one building to the other; 0 when nothing
+ * says otherwise about moving within a building
+ */
+export const travelMinutes = (
+  rules: TravelRules,
+  from: string,
+  to: string,
+): number => {
+  const listed = rules.times.find(
+    (time) =>
+      (time.from === from && time.to === to) ||
+      (time.from === to && time.to === from),
+  );
+  if (listed) return listed.minutes;
+  return from === to ? 0 : rules.defaultMinutes;
+};
+
+const describeGap = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 120
+    ? `${seconds} second${seconds === 1 ? "" : "s"}`
+    : `${Math.round(seconds / 60)} minutes`;
+};
+
+/**
+ * Compare a card scan with the previous scan of the same card and record an
+ * anomaly when the card could not have got from one to the other: scans at
+ * two locations within the concurrent window are likely a cloned card
+ * (critical), scans faster than the travel time between their buildings
+ * impossible travel (high). Comparing consecutive scans is enough, since
+ * the previous scan is always the closest in time.
+ */
+export const checkTravel = async (
+  store: SecurityStore,
+  scan: SecurityEvent,
+  now = new Date(),
+): Promise<SecurityEvent | undefined> => {
+  if (!isCardScan(scan)) return undefined;
+
+  const { events } = await store.listEvents({
+    filter: {
+      type: ["rfid"],
+      status: SCAN_STATUSES,
+      cardId: scan.cardId,
+      until: scan.timestamp,
+    },
+    limit: 2,
+  });
+  const previous = events.find((event) => event.id !== scan.id);
+  if (!previous || !isCardScan(previous)) return undefined;
+
+  const samePlace = previous.locationId
+    ? previous.locationId === scan.locationId
+    : previous.location === scan.location;
+  if (samePlace) return undefined;
+
+  const gap = Date.parse(scan.timestamp) - Date.parse(previous.timestamp);
+  const rules = await store.getTravelRules();
+  const between = `${previous.location} and ${scan.location}`;
+
+  let severity: SecurityEvent["severity"];
+  let description: string;
+  if (rules.concurrentSeconds > 0 && gap <= rules.concurrentSeconds * 1000) {
+    severity = "critical";
+    description = `Card ${scan.cardId} scanned at ${between} ${describeGap(gap)} apart; it may have been cloned`;
+  } else {
+    const buildings = new Map(
+      (await store.listLocations())
+        .filter((location) => location.kind === "building")
+        .map((building) => [building.id, building]),
+    );
+    const from = buildingOf(previous, buildings);
+    const to = buildingOf(scan, buildings);
+    // Without both buildings there is no travel time to go by
+    if (!from || !to) return undefined;
+
+    const minutes = travelMinutes(rules, from.id, to.id);
+    if (gap >= minutes * 60000) return undefined;
+    severity = "high";
+    description = `Card ${scan.cardId} scanned at ${between} ${describeGap(gap)} apart; getting from ${from.name} to ${to.name} takes ${minutes} minutes`;
+  }
+
+  const anomaly: SecurityEvent = {
+    id: randomUUID(),
+    type: "anomaly",
+    status: "detected",
+    timestamp: now.toISOString(),
+    location: scan.location,
+    locationId: scan.locationId,
+    locationPath: scan.locationPath,
+    cardId: scan.cardId,
+    cardholderId: scan.cardholderId,
+    cardholderName: scan.cardholderName,
+    severity,
+    description,
+    relatedEventIds: [previous.id, scan.id],
+  };
+  await store.addEvent(anomaly);
+  return anomaly;
+};
+
+/** Check every card scan as it is stored, whatever recorded it */
+export const startTravelMonitor = (store: SecurityStore) =>
+  store.subscribe((change) => {
+    if (change.kind !== "event" || !isCardScan(change.event)) return;
+    checkTravel(store, change.event).catch((error) => {
+      console.error("Failed to check card travel:", error);
+    });
+  });
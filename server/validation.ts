@@ -0,0 +1,47 @@
+import { RequestHandler, Response } from "express";
+import { z } from "zod";
+import { ValidationErrorResponse } from "@shared/api";
+import { parseWith } from "@shared/validation";
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const sendInvalid = (
+  res: Response,
+  error: ValidationErrorResponse["error"],
+  fields: ValidationErrorResponse["fields"],
+) => {
+  const body: ValidationErrorResponse = { error, fields };
+  res.status(400).json(body);
+};
+
+/**
+ * Validate the JSON body and replace it with the parsed value, so handlers
+ * only see known fields with defaults applied
+ */
+export const validateBody =
+  <T>(schema: Schema<T>): RequestHandler =>
+  (req, res, next) => {
+    const parsed = parseWith(schema, req.body ?? {});
+    if (parsed.success === false) {
+      return sendInvalid(res, "Invalid request body", parsed.errors);
+    }
+    req.body = parsed.data;
+    next();
+  };
+
+/**
+ * Validate the query string. `req.query` cannot be replaced in Express 5,
+ * so handlers read the parsed value with `validQuery(res)`.
+ */
+export const validateQuery =
+  <T>(schema: Schema<T>): RequestHandler =>
+  (req, res, next) => {
+    const parsed = parseWith(schema, req.query);
+    if (parsed.success === false) {
+      return sendInvalid(res, "Invalid query parameters", parsed.errors);
+    }
+    res.locals.query = parsed.data;
+    next();
+  };
+
+export const validQuery = <T>(res: Response): T => res.locals.query;
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { AccessSchedule } from "./api";
+import { locationMatches, scheduleAllows, zonesForLocation } from "./access";
+
+describe("locationMatches", () => {
+  it("should match exact locations ignoring case", () => {
+    expect(locationMatches("Lobby", " lobby ")).toBe(true);
+    expect(locationMatches("Lobby", "Lobby East")).toBe(false);
+  });
+
+  it("should match prefixes with a trailing star", () => {
+    expect(locationMatches("Floor 2 - *", "floor 2 - Room 104")).toBe(true);
+    expect(locationMatches("Floor 2 - *", "Floor 20 - Room 1")).toBe(false);
+  });
+
+  it("should find every zone covering a location", () => {
+    const zones = [
+      { id: "a", name: "A", locations: ["Floor 1 - *"] },
+      { id: "b", name: "B", locations: ["Floor 1 - Room 101"] },
+      { id: "c", name: "C", locations: ["Floor 2 - *"] },
+    ];
+    expect(
+      zonesForLocation(zones, { location: "Floor 1 - Room 101" }).map(
+        (z) => z.id,
+      ),
+    ).toEqual(["a", "b"]);
+  });
+
+  it("should match locations of the hierarchy by id, not by name", () => {
+    const zones = [
+      {
+        id: "north-ground",
+        name: "North ground floor",
+        locations: ["Floor 1 - *"],
+        locationIds: ["loc-north-1"],
+      },
+      { id: "site", name: "Site", locations: [], locationIds: ["loc-site"] },
+    ];
+    const at = (...locationPath: string[]) =>
+      zonesForLocation(zones, {
+        location: "Floor 1 - Room 101",
+        locationPath,
+      }).map((z) => z.id);
+
+    expect(at("loc-site", "loc-north", "loc-north-1", "loc-101")).toEqual([
+      "north-ground",
+      "site",
+    ]);
+    expect(at("loc-site", "loc-south", "loc-south-1", "loc-101")).toEqual([
+      "site",
+    ]);
+  });
+
+  it("should match zones without location ids by their patterns", () => {
+    const zones = [
+      { id: "ground", name: "Ground floor", locations: ["Floor 1 - *"] },
+    ];
+
+    expect(
+      zonesForLocation(zones, {
+        location: "Floor 1 - Room 101",
+        locationPath: ["loc-site", "loc-north", "loc-north-1", "loc-101"],
+      }).map((z) => z.id),
+    ).toEqual(["ground"]);
+  });
+});
+
+describe("scheduleAllows", () => {
+  const schedule: AccessSchedule = {
+    id: "office",
+    name: "Office",
+    timeZone: "America/New_York",
+    windows: [{ days: ["mon"], start: "09:00", end: "17:00" }],
+  };
+
+  it("should evaluate windows in the schedule's time zone", () => {
+    // Monday 13:00 UTC is 09:00 in New York (EDT)
+    expect(scheduleAllows(schedule, new Date("2024-06-03T13:00:00Z"))).toBe(
+      true,
+    );
+    expect(scheduleAllows(schedule, new Date("2024-06-03T12:59:00Z"))).toBe(
+      false,
+    );
+  });
+
+  it("should exclude the end of a window and other days", () => {
+    expect(scheduleAllows(schedule, new Date("2024-06-03T21:00:00Z"))).toBe(
+      false,
+    );
+    expect(scheduleAllows(schedule, new Date("2024-06-04T14:00:00Z"))).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Building blocks of the access decision engine. Shared so policy schemas
+ * validate times, zones and time zones by the same rules the engine uses.
+ */
+import type { AccessReason, AccessSchedule, AccessZone, Weekday } from "./api";
+
+export const ACCESS_REASON_MESSAGES: Record<AccessReason, string> = {
+  unknown_card: "Card is not issued to anyone",
+  cardholder_inactive: "Cardholder is inactive",
+  credential_suspended: "Card is suspended",
+  credential_lost: "Card is reported lost",
+  credential_revoked: "Card is revoked",
+  credential_not_yet_valid: "Card is not valid yet",
+  credential_expired: "Card has expired",
+  unknown_location: "Location is not part of any zone",
+  no_zone_access: "No access group grants this zone",
+  outside_schedule: "Outside the access schedule",
+  granted: "Access granted",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+export const isTimeOfDay = (value: string) => TIME_PATTERN.test(value);
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a location is covered by a zone location pattern
+ */
+export const locationMatches = (pattern: string, location: string) => {
+  const wanted = pattern.trim().toLowerCase();
+  const actual = location.trim().toLowerCase();
+  return wanted.endsWith("*")
+    ? actual.startsWith(wanted.slice(0, -1))
+    : actual === wanted;
+};
+
+/**
+ * Zones covering the location; nested zones may put it in several. A
+ * location of the hierarchy, given by its path of ids from the top down, is
+ * covered by zones listing it or one of its ancestors. Zones without
+ * location ids, and plain location strings, go by the zones' patterns.
+ */
+export const zonesForLocation = (
+  zones: AccessZone[],
+  location: { location?: string; locationPath?: string[] },
+) =>
+  zones.filter((zone) =>
+    location.locationPath?.length && zone.locationIds?.length
+      ? zone.locationIds.some((id) => location.locationPath.includes(id))
+      : zone.locations.some((pattern) =>
+          locationMatches(pattern, location.location ?? ""),
+        ),
+  );
+
+/**
+ * Day of the week and minute of the day at `date` in the time zone
+ */
+const localTime = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+
+  return {
+    day: part("weekday")?.toLowerCase() as Weekday,
+    minute: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+};
+
+/**
+ * Whether the schedule admits access at `date`; start is inclusive, end
+ * exclusive
+ */
+export const scheduleAllows = (schedule: AccessSchedule, date: Date) => {
+  const { day, minute } = localTime(date, schedule.timeZone);
+  return schedule.windows.some(
+    (window) =>
+      window.days.includes(day) &&
+      minute >= minutesOf(window.start) &&
+      minute < minutesOf(window.end),
+  );
+};
@@ -4,6 +4,8 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type { Permission, Role } from "./permissions";
+
 /**
  * Example response type for /api/demo
  */
@@ -16,14 +18,141 @@ export interface DemoResponse {
  */
 export interface SecurityEvent {
   id: string;
-  type: "rfid" | "dos";
-  status: "authorized" | "unauthorized" | "blocked" | "detected";
+  /**
+   * "auth" covers login abuse such as brute-force lockouts, "reader" RFID
+   * readers going offline or coming back online, "anomaly" one card scanned
+   * at two places it could not have been at in the time between
+   */
+  type: "rfid" | "dos" | "auth" | "reader" | "anomaly";
+  /** "parity_error" is a raw card read that failed its parity checks */
+  status:
+    | "authorized"
+    | "unauthorized"
+    | "parity_error"
+    | "blocked"
+    | "detected"
+    | "online"
+    | "offline";
   timestamp: string; // ISO date string for JSON compatibility
+  /** Display string, e.g. "Floor 3 - Room 112"; derived from locationId when set */
   location?: string;
+  /** Location in the hierarchy, see LocationNode */
+  locationId?: string;
+  /**
+   * Ids from the top of the hierarchy down to locationId, recorded when the
+   * event is stored so roll-ups keep working after locations move
+   */
+  locationPath?: string[];
   cardId?: string;
+  /** Bits the reader sent, when cardId was decoded from them */
+  rawBits?: string;
+  /** Id of the CardFormat the bits were decoded with */
+  cardFormat?: string;
   ipAddress?: string;
   severity: "low" | "medium" | "high" | "critical";
   description?: string;
+  /** Holder of the card, looked up from cardId when the event is stored */
+  cardholderId?: string;
+  cardholderName?: string;
+  /** Scans an anomaly was raised for, oldest first */
+  relatedEventIds?: string[];
+}
+
+/**
+ * Event reported from outside the server. The server assigns id and timestamp,
+ * the cardholder from cardId and the location string from locationId;
+ * severity defaults to "medium".
+ *
+ * RFID events may send `rawBits` instead of `cardId`. They are decoded with
+ * `cardFormat`, or the only format of their length; when parity fails the
+ * event is stored with status "parity_error" and no cardId.
+ */
+export interface NewSecurityEvent
+  extends Omit<
+    SecurityEvent,
+    | "id"
+    | "timestamp"
+    | "severity"
+    | "cardholderId"
+    | "cardholderName"
+    | "locationPath"
+    | "relatedEventIds"
+  > {
+  severity?: SecurityEvent["severity"];
+}
+
+/**
+ * Body of POST /api/security/events. RFID events leave out `status` and
+ * give a `cardId` or `rawBits`: the access policy decides the scan, as
+ * POST /api/access/decide does, and sets its status, severity and
+ * description.
+ */
+export interface AddSecurityEventRequest
+  extends Omit<NewSecurityEvent, "status"> {
+  status?: SecurityEvent["status"];
+}
+
+export const SECURITY_EVENT_TYPES: SecurityEvent["type"][] = [
+  "rfid",
+  "dos",
+  "auth",
+  "reader",
+  "anomaly",
+];
+export const SECURITY_EVENT_STATUSES: SecurityEvent["status"][] = [
+  "authorized",
+  "unauthorized",
+  "parity_error",
+  "blocked",
+  "detected",
+  "online",
+  "offline",
+];
+export const SECURITY_EVENT_SEVERITIES: SecurityEvent["severity"][] = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+
+/**
+ * Filter for /api/security/events. List fields match any of the values;
+ * in the query string they are comma separated or repeated.
+ */
+export interface SecurityEventFilter {
+  type?: SecurityEvent["type"][];
+  status?: SecurityEvent["status"][];
+  severity?: SecurityEvent["severity"][];
+  /** Case-insensitive substring of the location */
+  location?: string;
+  /** The location or anything inside it */
+  locationId?: string;
+  cardId?: string;
+  /** Exact address or IPv4 CIDR block, e.g. 10.0.0.0/8 */
+  ipAddress?: string;
+  /** Free text searched in the description and cardholder name */
+  q?: string;
+  /** ISO date strings, inclusive */
+  since?: string;
+  until?: string;
+}
+
+export type SecurityEventSortField =
+  | "timestamp"
+  | "severity"
+  | "location"
+  | "cardId";
+export type SortOrder = "asc" | "desc";
+
+export interface SecurityEventsQuery extends SecurityEventFilter {
+  page?: number;
+  limit?: number;
+  /** Opaque cursor: only events older than it (replaces page) */
+  before?: string;
+  /** Opaque cursor: only events newer than it (replaces page) */
+  after?: string;
+  sort?: SecurityEventSortField;
+  order?: SortOrder;
 }
 
 /**
@@ -38,10 +167,189 @@ export interface SecurityStats {
   systemStatus: "operational" | "warning" | "critical";
 }
 
+/**
+ * Rules used to derive activeThreats and systemStatus from stored events
+ */
+export interface StatsRules {
+  /** Threat events newer than this count as active */
+  activeThreatWindowMinutes: number;
+  /** Active threats at which the system status becomes "warning" */
+  warningThreats: number;
+  /** Active threats at which the system status becomes "critical" */
+  criticalThreats: number;
+  /** RFID readers without a heartbeat for this long count as offline */
+  readerOfflineSeconds: number;
+}
+
+/**
+ * Time to get from one building to another, either way round
+ */
+export interface TravelTime {
+  /** Ids of building locations; the same id twice covers moving within it */
+  from: string;
+  to: string;
+  minutes: number;
+}
+
+/**
+ * Rules for flagging a card scanned at two places too close together:
+ * GET/PUT /api/security/travel-rules
+ */
+export interface TravelRules {
+  /**
+   * Scans at two different locations this close together are concurrent,
+   * which suggests a cloned card; 0 turns the check off
+   */
+  concurrentSeconds: number;
+  /**
+   * Travel time between two buildings that are not in `times`. Moving
+   * within a building is only checked when the building is listed.
+   */
+  defaultMinutes: number;
+  times: TravelTime[];
+}
+
+/**
+ * Query for /api/security/stats - ISO date strings, both optional
+ */
+export interface SecurityStatsQuery {
+  since?: string;
+  until?: string;
+}
+
+/**
+ * Recent range covered by the activity endpoints, ending now
+ */
+export type ActivityRange = "1h" | "24h" | "7d" | "30d";
+
+export const ACTIVITY_RANGES: ActivityRange[] = ["1h", "24h", "7d", "30d"];
+
+/**
+ * RFID activity: GET /api/security/rfid/activity
+ */
+export interface RfidActivityQuery {
+  /** Defaults to "24h", ending now */
+  range?: ActivityRange;
+  /** Case-insensitive substring of the location, as in SecurityEventFilter */
+  location?: string;
+  /** The location or anything inside it, as in SecurityEventFilter */
+  locationId?: string;
+  cardId?: string;
+  /**
+   * Roll the busiest locations up to this level of the hierarchy; events
+   * without a location at that level are left out of them
+   */
+  level?: LocationKind;
+}
+
+export interface RfidScanCounts {
+  authorized: number;
+  unauthorized: number;
+}
+
+export interface RfidTrendPoint extends RfidScanCounts {
+  /** ISO date string: start of the bucket */
+  start: string;
+}
+
+/**
+ * Scans of one location or card
+ */
+export interface RfidActivityGroup extends RfidScanCounts {
+  /** Location name or card id */
+  key: string;
+  /** Set when locations are rolled up to a level */
+  locationId?: string;
+  /** ISO date string of the newest scan */
+  lastSeen: string;
+}
+
+export interface RfidActivityResponse {
+  range: ActivityRange;
+  since: string;
+  until: string;
+  /** Width of each trend bucket */
+  bucketMinutes: number;
+  /** One point per bucket, oldest first, including empty buckets */
+  trend: RfidTrendPoint[];
+  /** Busiest locations and cards within the range, most scans first */
+  locations: RfidActivityGroup[];
+  cards: RfidActivityGroup[];
+}
+
+/**
+ * DoS activity: GET /api/security/dos/activity
+ */
+export interface DosActivityQuery {
+  /** Defaults to "24h", ending now */
+  range?: ActivityRange;
+  /** Exact address or IPv4 CIDR block, as in SecurityEventFilter */
+  ipAddress?: string;
+}
+
+export interface DosTrendPoint {
+  /** ISO date string: start of the bucket */
+  start: string;
+  blocked: number;
+  detected: number;
+}
+
+/**
+ * DoS events from one source address
+ */
+export interface DosOffender {
+  ipAddress: string;
+  blocked: number;
+  detected: number;
+  /** ISO date strings of the oldest and newest event within the range */
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface DosActivityResponse {
+  range: ActivityRange;
+  since: string;
+  until: string;
+  bucketMinutes: number;
+  /** One point per bucket, oldest first, including empty buckets */
+  trend: DosTrendPoint[];
+  /** Addresses with the most events within the range */
+  offenders: DosOffender[];
+}
+
+/**
+ * Address (or IPv4 CIDR block) whose requests the API refuses
+ */
+export interface IpBlock {
+  ipAddress: string;
+  reason?: string;
+  /** Username of whoever added the block */
+  blockedBy: string;
+  /** ISO date strings; without expiresAt the block stays until removed */
+  createdAt: string;
+  expiresAt?: string;
+}
+
+export interface IpBlocksResponse {
+  /** Active blocks, newest first */
+  blocks: IpBlock[];
+}
+
+/**
+ * Body of POST /api/security/dos/blocks
+ */
+export interface BlockIpRequest {
+  ipAddress: string;
+  /** Omit to block until unblocked */
+  durationMinutes?: number;
+  reason?: string;
+}
+
 /**
  * System Health Metrics
  */
 export interface SystemHealth {
+  /** Computed from the reader registry */
   rfidReaders: {
     online: number;
     total: number;
@@ -69,12 +377,44 @@ export interface SecurityEventsResponse {
   total: number;
   page: number;
   limit: number;
+  cursors: {
+    /** Pass as `before` to load older events; absent when there are none */
+    before?: string;
+    /** Pass as `after` to load events newer than this page */
+    after?: string;
+  };
 }
 
-export interface SecurityStatsResponse extends SecurityStats {}
+export interface SecurityStatsResponse extends SecurityStats {
+  since?: string;
+  until?: string;
+}
 
 export interface SystemHealthResponse extends SystemHealth {}
 
+/**
+ * Server-Sent Events pushed by /api/security/stream.
+ * "security-event" messages carry the event id as the SSE id, so reconnecting
+ * with Last-Event-ID (or ?lastEventId=) replays the events that were missed.
+ */
+export type SecurityStreamEventType =
+  | "security-event"
+  | "stats"
+  | "health"
+  | "reset";
+
+export interface SecurityStreamPayloads {
+  "security-event": SecurityEvent;
+  /** Full stats on connect, then only the fields that changed */
+  stats: Partial<SecurityStatsResponse>;
+  health: SystemHealthResponse;
+  /**
+   * The event to resume from is unknown or too old to replay what came
+   * after it: reload the events instead
+   */
+  reset: { lastEventId: string };
+}
+
 /**
  * Admin Authentication
  */
@@ -84,13 +424,671 @@ export interface LoginRequest {
   rememberMe?: boolean;
 }
 
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+  /** Everything the role allows, see shared/permissions.ts */
+  permissions: Permission[];
+  /** Whether the user signs in with a TOTP code */
+  mfaEnabled: boolean;
+}
+
 export interface LoginResponse {
   success: boolean;
+  /** Short-lived access token, sent as `Authorization: Bearer` */
   token?: string;
-  user?: {
-    id: string;
-    username: string;
-    role: string;
-  };
+  /** Single-use token for POST /api/auth/refresh */
+  refreshToken?: string;
+  /** Access token lifetime in seconds */
+  expiresIn?: number;
+  user?: AuthUser;
   message?: string;
+  /** Set with HTTP 429 after too many failed attempts */
+  lockedOut?: boolean;
+  /** Seconds until another attempt is accepted */
+  retryAfter?: number;
+  /**
+   * The password was right but a TOTP code is needed: send it with
+   * challengeToken to POST /api/auth/login/mfa
+   */
+  mfaRequired?: boolean;
+  /**
+   * The role requires MFA and the user has not enrolled yet: call
+   * POST /api/auth/mfa/setup with challengeToken first
+   */
+  mfaSetupRequired?: boolean;
+  /** Short-lived proof of the password step */
+  challengeToken?: string;
+  /** One-time recovery codes, returned once when enrollment completes */
+  recoveryCodes?: string[];
+}
+
+/**
+ * Second login step: a code from the authenticator app or a recovery code
+ */
+export interface MfaLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface VerifyTokenResponse {
+  valid: boolean;
+  user?: AuthUser;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+/**
+ * Two-factor authentication (TOTP). Setup accepts a bearer token or, during
+ * a login that requires enrollment, the login challenge token.
+ */
+export interface MfaSetupRequest {
+  challengeToken?: string;
+}
+
+export interface MfaSetupResponse {
+  /** Base32 secret for manual entry */
+  secret: string;
+  /** otpauth:// URI for authenticator apps */
+  otpauthUri: string;
+}
+
+export interface MfaCodeRequest {
+  code: string;
+}
+
+export interface MfaRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface MfaStatusResponse {
+  enabled: boolean;
+  /** Whether the user's role must use MFA */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Fields common to error responses. Every error has `error`; auth and
+ * validation failures add the details below.
+ */
+export interface ApiErrorResponse {
+  error: string;
+  /** Machine-readable reason, see AuthErrorCode */
+  code?: string;
+  message?: string;
+  /** Validation problems per field, see ValidationErrorResponse */
+  fields?: Record<string, string>;
+  /** Also sent as the X-Request-Id header; quote it when reporting a bug */
+  requestId?: string;
+}
+
+/**
+ * Body of 400 responses to a request that failed validation
+ */
+export interface ValidationErrorResponse {
+  error: "Invalid request body" | "Invalid query parameters";
+  /** First problem per field, keyed by field name */
+  fields: Record<string, string>;
+}
+
+export type AuthErrorCode =
+  | "missing_token"
+  | "invalid_token"
+  | "token_expired"
+  | "token_revoked"
+  | "forbidden";
+
+/**
+ * Body of 401/403 responses from protected routes.
+ * On "token_expired" the client should refresh and retry; on the other
+ * 401 codes it should send the user to the login page.
+ */
+export interface AuthErrorResponse {
+  error: "Unauthorized" | "Forbidden";
+  code: AuthErrorCode;
+  message: string;
+}
+
+/**
+ * User Management (requires users:manage)
+ */
+export interface ManagedUser {
+  id: string;
+  username: string;
+  role: Role;
+  disabled: boolean;
+  mfaEnabled: boolean;
+  /** ISO date strings */
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UsersResponse {
+  users: ManagedUser[];
+}
+
+export interface CreateUserRequest {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+/**
+ * Fields omitted are left unchanged. Disabling a user ends their sessions.
+ */
+export interface UpdateUserRequest {
+  role?: Role;
+  disabled?: boolean;
+}
+
+/**
+ * Sets a new password and ends the user's sessions
+ */
+export interface ResetPasswordRequest {
+  password: string;
+}
+
+/**
+ * Sections of the system settings document. Each one is changed with its own
+ * permission, see SETTINGS_SECTION_PERMISSIONS.
+ */
+export type SettingsSection =
+  | "detection"
+  | "alerting"
+  | "retention"
+  | "integrations";
+
+export const SETTINGS_SECTIONS: SettingsSection[] = [
+  "detection",
+  "alerting",
+  "retention",
+  "integrations",
+];
+
+export interface AlertingSettings {
+  enabled: boolean;
+  /** Least severe event that raises an alert */
+  minimumSeverity: SecurityEvent["severity"];
+  /** Alert on unauthorized RFID scans */
+  unauthorizedAccess: boolean;
+  /** Alert on detected or blocked DoS traffic */
+  dosAttacks: boolean;
+  emailRecipients: string[];
+}
+
+export interface RetentionSettings {
+  /** Stored events; the oldest are discarded beyond this */
+  maxEvents: number;
+  /** Entries kept in the settings change history */
+  historyEntries: number;
+}
+
+/**
+ * Outside systems. A URL is required while its integration is enabled.
+ */
+export interface IntegrationSettings {
+  /** Forward security events to a SIEM webhook */
+  siemEnabled: boolean;
+  siemUrl: string;
+  /** Receive scans from an RFID hardware gateway */
+  rfidGatewayEnabled: boolean;
+  rfidGatewayUrl: string;
+}
+
+/**
+ * Response of GET/PUT /api/settings. `detection` holds the same rules as
+ * /api/security/stats/rules.
+ */
+export interface SystemSettings {
+  detection: StatsRules;
+  alerting: AlertingSettings;
+  retention: RetentionSettings;
+  integrations: IntegrationSettings;
+}
+
+/**
+ * Body of PUT /api/settings: whole sections to replace; sections left out
+ * are unchanged
+ */
+export type UpdateSettingsRequest = Partial<SystemSettings>;
+
+export interface SettingsFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One saved change to a settings section
+ */
+export interface SettingsChange {
+  id: string;
+  section: SettingsSection;
+  /** Username of whoever saved the change */
+  changedBy: string;
+  /** ISO date string */
+  changedAt: string;
+  changes: SettingsFieldChange[];
+}
+
+/**
+ * Response of GET /api/settings/history, newest first
+ */
+export interface SettingsHistoryResponse {
+  changes: SettingsChange[];
+}
+
+/**
+ * Cardholder directory (changes require cardholders:manage)
+ */
+export type CardholderStatus = "active" | "inactive";
+
+export const CARDHOLDER_STATUSES: CardholderStatus[] = ["active", "inactive"];
+
+export interface Cardholder {
+  id: string;
+  name: string;
+  department?: string;
+  photoUrl?: string;
+  /** Inactive cardholders, e.g. people who left, keep their card history */
+  status: CardholderStatus;
+  /** ISO date strings */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Lifecycle of a credential. Lost and revoked cards cannot be reactivated;
+ * a replacement is issued instead.
+ */
+export type CredentialState = "active" | "suspended" | "lost" | "revoked";
+
+export const CREDENTIAL_STATES: CredentialState[] = [
+  "active",
+  "suspended",
+  "lost",
+  "revoked",
+];
+
+/**
+ * States a credential may move to from each state
+ */
+export const CREDENTIAL_TRANSITIONS: Record<
+  CredentialState,
+  CredentialState[]
+> = {
+  active: ["suspended", "lost", "revoked"],
+  suspended: ["active", "lost", "revoked"],
+  lost: ["revoked"],
+  revoked: [],
+};
+
+/**
+ * Whether a credential still holds its card number: active or suspended
+ * and not expired. Numbers of lost, revoked and expired cards may be issued
+ * again.
+ */
+export const isCredentialInUse = (
+  credential: Pick<Credential, "state" | "expiresAt">,
+  now = new Date(),
+) =>
+  (credential.state === "active" || credential.state === "suspended") &&
+  (!credential.expiresAt || Date.parse(credential.expiresAt) > now.getTime());
+
+export type CredentialFormat =
+  | "wiegand26"
+  | "wiegand34"
+  | "wiegand37"
+  | "mifare_classic"
+  | "mifare_desfire"
+  | "iclass";
+
+export const CREDENTIAL_FORMATS: CredentialFormat[] = [
+  "wiegand26",
+  "wiegand34",
+  "wiegand37",
+  "mifare_classic",
+  "mifare_desfire",
+  "iclass",
+];
+
+/**
+ * Card issued to a cardholder. `cardNumber` is what readers report as
+ * cardId; it is stored upper case and unique among credentials in use (see
+ * isCredentialInUse).
+ */
+export interface Credential {
+  id: string;
+  cardNumber: string;
+  cardholderId: string;
+  format: CredentialFormat;
+  /** ISO date strings; without expiresAt the card does not expire */
+  issuedAt: string;
+  expiresAt?: string;
+  state: CredentialState;
+  /** Why the card was last moved out of (or back to) active */
+  stateReason?: string;
+  stateChangedAt: string;
+  updatedAt: string;
+}
+
+export interface CardholderDetails extends Cardholder {
+  /** Newest issued first */
+  credentials: Credential[];
+}
+
+/**
+ * Query for GET /api/cardholders
+ */
+export interface CardholdersQuery {
+  /** Case-insensitive substring of the name, department or a card number */
+  q?: string;
+  status?: CardholderStatus;
+}
+
+export interface CardholdersResponse {
+  /** Sorted by name */
+  cardholders: CardholderDetails[];
+}
+
+export interface CreateCardholderRequest {
+  name: string;
+  department?: string;
+  photoUrl?: string;
+  /** Defaults to "active" */
+  status?: CardholderStatus;
+}
+
+/**
+ * Fields omitted are left unchanged; an empty department or photoUrl
+ * clears it
+ */
+export interface UpdateCardholderRequest {
+  name?: string;
+  department?: string;
+  photoUrl?: string;
+  status?: CardholderStatus;
+}
+
+/**
+ * Body of POST /api/credentials. issuedAt defaults to now.
+ */
+export interface IssueCredentialRequest {
+  cardNumber: string;
+  cardholderId: string;
+  format: CredentialFormat;
+  issuedAt?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Body of PATCH /api/credentials/:id. `state` must be allowed by
+ * CREDENTIAL_TRANSITIONS; null expiresAt removes the expiry.
+ */
+export interface UpdateCredentialRequest {
+  state?: CredentialState;
+  stateReason?: string;
+  expiresAt?: string | null;
+}
+
+/**
+ * Access control policy: who may open which doors, and when
+ */
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export const WEEKDAYS: Weekday[] = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+];
+
+/**
+ * Times of day as "HH:MM", 24-hour clock; end may be "24:00". Windows do
+ * not cross midnight - split them into two instead.
+ */
+export interface ScheduleWindow {
+  days: Weekday[];
+  start: string;
+  end: string;
+}
+
+export interface AccessSchedule {
+  id: string;
+  name: string;
+  /** IANA time zone the windows are in, e.g. "Europe/Berlin" */
+  timeZone: string;
+  windows: ScheduleWindow[];
+}
+
+/**
+ * Area behind a set of doors. Locations are matched ignoring case; a
+ * trailing "*" matches any location starting with the rest.
+ */
+export interface AccessZone {
+  id: string;
+  name: string;
+  /**
+   * Patterns for locations reported as plain strings, and for every scan
+   * when the zone has no locationIds
+   */
+  locations: string[];
+  /**
+   * Locations of the hierarchy the zone covers, with everything inside
+   * them. Scans at a locationId match only these when given: display strings
+   * leave out the building, so two buildings can both have a
+   * "Floor 1 - Room 101".
+   */
+  locationIds?: string[];
+}
+
+/**
+ * Grants its members access to the zones during the schedule; without a
+ * schedule at any time
+ */
+export interface AccessGroup {
+  id: string;
+  name: string;
+  cardholderIds: string[];
+  zoneIds: string[];
+  scheduleId?: string;
+}
+
+/**
+ * Response of GET/PUT /api/access/policy. PUT replaces the whole policy.
+ */
+export interface AccessPolicy {
+  schedules: AccessSchedule[];
+  zones: AccessZone[];
+  groups: AccessGroup[];
+}
+
+/**
+ * Why a scan was allowed or denied, checked in this order
+ */
+export type AccessReason =
+  | "unknown_card"
+  | "cardholder_inactive"
+  | "credential_suspended"
+  | "credential_lost"
+  | "credential_revoked"
+  | "credential_not_yet_valid"
+  | "credential_expired"
+  | "unknown_location"
+  | "no_zone_access"
+  | "outside_schedule"
+  | "granted";
+
+/**
+ * Body of POST /api/access/decide: a card presented at a reader
+ */
+/**
+ * The reader's location: a locationId from the hierarchy, or a plain
+ * location string for readers that are not mapped yet
+ */
+export interface AccessDecisionRequest {
+  cardId: string;
+  location?: string;
+  locationId?: string;
+}
+
+export interface AccessDecisionResponse {
+  allowed: boolean;
+  reason: AccessReason;
+  /** The RFID event recorded for the scan; `description` holds the reason */
+  event: SecurityEvent;
+  zoneId?: string;
+  /** Group whose permission opened the door */
+  groupId?: string;
+}
+
+/**
+ * Location hierarchy: sites contain buildings, buildings floors, floors
+ * zones and zones doors. Levels may be skipped, e.g. a door directly on a
+ * floor, but a location always sits below its parent's level.
+ */
+export type LocationKind = "site" | "building" | "floor" | "zone" | "door";
+
+/** From the top of the hierarchy down */
+export const LOCATION_KINDS: LocationKind[] = [
+  "site",
+  "building",
+  "floor",
+  "zone",
+  "door",
+];
+
+export interface LocationNode {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  /** Unset only for sites */
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationsResponse {
+  locations: LocationNode[];
+}
+
+export interface CreateLocationRequest {
+  name: string;
+  kind: LocationKind;
+  parentId?: string;
+}
+
+/** The kind is fixed; moving a location moves everything inside it */
+export interface UpdateLocationRequest {
+  name?: string;
+  parentId?: string;
+}
+
+/**
+ * RFID reader registry. Readers report with POST /api/readers/:id/heartbeat
+ * and go offline after `readerOfflineSeconds` of silence.
+ */
+export type ReaderStatus = "online" | "offline";
+
+export const READER_STATUSES: ReaderStatus[] = ["online", "offline"];
+
+export interface RfidReader {
+  /** Chosen when the reader is registered, e.g. its serial number */
+  id: string;
+  name: string;
+  /** Where it is mounted in the location hierarchy, usually a door */
+  locationId?: string;
+  model: string;
+  firmware: string;
+  ipAddress?: string;
+  status: ReaderStatus;
+  /** ISO date string; unset until the first heartbeat */
+  lastHeartbeat?: string;
+  statusChangedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReadersResponse {
+  readers: RfidReader[];
+}
+
+export interface RegisterReaderRequest {
+  id: string;
+  name: string;
+  locationId?: string;
+  model: string;
+  firmware: string;
+  ipAddress?: string;
+}
+
+/** Empty locationId or ipAddress clears it */
+export interface UpdateReaderRequest {
+  name?: string;
+  locationId?: string;
+  model?: string;
+  firmware?: string;
+  ipAddress?: string;
+}
+
+/** Readers may report their current firmware and address with each beat */
+export interface ReaderHeartbeatRequest {
+  firmware?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Wiegand card formats: where the facility code, card number and parity
+ * bits sit in the raw bits a reader sends. Bit 0 is the first bit sent.
+ */
+export interface BitField {
+  start: number;
+  length: number;
+}
+
+export interface ParityCheck {
+  /** Position of the parity bit */
+  bit: number;
+  /** Even: the bit and the ones it covers hold an even number of 1s */
+  parity: "even" | "odd";
+  /** Positions the parity bit covers */
+  over: number[];
+}
+
+export interface CardFormat {
+  /** e.g. "H10301"; also names the format in events */
+  id: string;
+  name: string;
+  /** Number of bits */
+  length: number;
+  facilityCode?: BitField;
+  cardNumber: BitField;
+  parity: ParityCheck[];
+}
+
+export interface ListedCardFormat extends CardFormat {
+  /** Standard formats ship with the server and cannot be changed */
+  builtIn: boolean;
+}
+
+export interface CardFormatsResponse {
+  formats: ListedCardFormat[];
 }
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { SecurityEvent } from "./api";
+import {
+  compareEvents,
+  ipMatches,
+  matchesEventFilter,
+  parseSecurityEventsQuery,
+  toSearchParams,
+} from "./event-query";
+
+const event = (overrides: Partial<SecurityEvent> = {}): SecurityEvent => ({
+  id: "1",
+  type: "dos",
+  status: "detected",
+  timestamp: "2024-01-01T10:00:00.000Z",
+  ipAddress: "10.1.2.3",
+  severity: "critical",
+  description: "DoS attack detected - monitoring",
+  ...overrides,
+});
+
+describe("ipMatches", () => {
+  it("should match exact addresses", () => {
+    expect(ipMatches("10.1.2.3", "10.1.2.3")).toBe(true);
+    expect(ipMatches("10.1.2.3", "10.1.2.4")).toBe(false);
+  });
+
+  it("should match IPv4 CIDR blocks", () => {
+    expect(ipMatches("10.1.2.3", "10.0.0.0/8")).toBe(true);
+    expect(ipMatches("10.1.2.3", "10.1.2.0/30")).toBe(true);
+    expect(ipMatches("10.1.2.9", "10.1.2.0/30")).toBe(false);
+    expect(ipMatches("192.168.1.1", "0.0.0.0/0")).toBe(true);
+  });
+});
+
+describe("parseSecurityEventsQuery", () => {
+  it("should accept comma separated and repeated lists", () => {
+    const result = parseSecurityEventsQuery({
+      severity: "high,critical",
+      status: ["blocked", "detected"],
+      limit: "50",
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        severity: ["high", "critical"],
+        status: ["blocked", "detected"],
+        limit: 50,
+      },
+    });
+  });
+
+  it("should report invalid fields", () => {
+    const result = parseSecurityEventsQuery({
+      severity: "urgent",
+      ipAddress: "10.0.0.0/40",
+      since: "yesterday",
+      limit: "0",
+    });
+
+    expect(result.success).toBe(false);
+    expect(
+      Object.keys(result.success === false && result.errors).sort(),
+    ).toEqual(["ipAddress", "limit", "severity", "since"]);
+  });
+
+  it("should round trip through toSearchParams", () => {
+    const query = { type: ["rfid" as const], q: "card, badge", page: 2 };
+    const params = Object.fromEntries(toSearchParams(query));
+
+    expect(parseSecurityEventsQuery(params)).toEqual({
+      success: true,
+      data: query,
+    });
+  });
+});
+
+describe("matchesEventFilter", () => {
+  it("should match every supplied criterion", () => {
+    expect(
+      matchesEventFilter(event(), {
+        type: ["dos"],
+        severity: ["high", "critical"],
+        ipAddress: "10.0.0.0/8",
+        q: "MONITORING",
+        since: "2024-01-01T00:00:00.000Z",
+      }),
+    ).toBe(true);
+    expect(matchesEventFilter(event(), { cardId: "CARD-1" })).toBe(false);
+    expect(
+      matchesEventFilter(event(), { until: "2023-12-31T00:00:00.000Z" }),
+    ).toBe(false);
+  });
+
+  it("should search the cardholder name as well as the description", () => {
+    const scan = event({ type: "rfid", cardholderName: "Alice Moreno" });
+    expect(matchesEventFilter(scan, { q: "moreno" })).toBe(true);
+    expect(matchesEventFilter(scan, { q: "Ben" })).toBe(false);
+  });
+
+  it("should include everything inside the filtered location", () => {
+    const scan = event({
+      type: "rfid",
+      locationId: "room-112",
+      locationPath: ["hq", "main", "floor-3", "room-112"],
+    });
+    expect(matchesEventFilter(scan, { locationId: "floor-3" })).toBe(true);
+    expect(matchesEventFilter(scan, { locationId: "room-112" })).toBe(true);
+    expect(matchesEventFilter(scan, { locationId: "floor-4" })).toBe(false);
+    expect(matchesEventFilter(event(), { locationId: "hq" })).toBe(false);
+  });
+});
+
+describe("compareEvents", () => {
+  it("should sort by severity then timestamp", () => {
+    const events = [
+      event({ id: "a", severity: "low" }),
+      event({ id: "b", timestamp: "2024-01-01T11:00:00.000Z" }),
+      event({ id: "c" }),
+    ];
+
+    expect(
+      events.sort(compareEvents("severity", "desc")).map((e) => e.id),
+    ).toEqual(["b", "c", "a"]);
+  });
+
+  it("should sort locations alphabetically, ignoring case", () => {
+    const events = [
+      event({ id: "a", location: "lobby" }),
+      event({ id: "b", location: "Annex" }),
+      event({ id: "c" }),
+    ];
+
+    expect(
+      events.sort(compareEvents("location", "asc")).map((e) => e.id),
+    ).toEqual(["c", "b", "a"]);
+  });
+});
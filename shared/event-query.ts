@@ -0,0 +1,269 @@
+/**
+ * Parsing, serialising and matching of security event queries.
+ * Shared so the client builds exactly the query string the server accepts.
+ */
+import { z } from "zod";
+import {
+  SECURITY_EVENT_SEVERITIES,
+  SECURITY_EVENT_STATUSES,
+  SECURITY_EVENT_TYPES,
+  SecurityEvent,
+  SecurityEventFilter,
+  SecurityEventsQuery,
+} from "./api";
+import {
+  ParseResult,
+  parseWith,
+  queryDate,
+  queryEnum,
+  queryInt,
+  queryList,
+  queryText,
+} from "./validation";
+
+export const DEFAULT_EVENTS_LIMIT = 20;
+export const MAX_EVENTS_LIMIT = 100;
+
+type RawQuery = Record<string, unknown>;
+
+const SEVERITY_RANK: Record<SecurityEvent["severity"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+const parseIPv4 = (value: string): number | null => {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+
+  let result = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    result = result * 256 + Number(part);
+  }
+  return result;
+};
+
+/**
+ * Whether `ip` equals `pattern`, or falls inside it when it is an IPv4 CIDR block
+ */
+export const ipMatches = (ip: string, pattern: string): boolean => {
+  const [network, bits] = pattern.split("/");
+  if (bits === undefined) return ip === pattern;
+
+  const address = parseIPv4(ip);
+  const base = parseIPv4(network);
+  const prefix = Number(bits);
+  if (address === null || base === null) return false;
+  if (prefix === 0) return true;
+
+  const size = 2 ** (32 - prefix);
+  return Math.floor(address / size) === Math.floor(base / size);
+};
+
+/**
+ * Whether `pattern` is usable as an address filter: anything without a
+ * prefix length is matched exactly, so only CIDR blocks are checked
+ */
+export const isValidIpPattern = (pattern: string): boolean => {
+  const [network, bits, ...rest] = pattern.split("/");
+  if (rest.length > 0 || !network) return false;
+  if (bits === undefined) return true;
+  return (
+    parseIPv4(network) !== null && /^\d{1,2}$/.test(bits) && Number(bits) <= 32
+  );
+};
+
+export const matchesEventFilter = (
+  event: SecurityEvent,
+  filter: SecurityEventFilter,
+): boolean => {
+  if (filter.type?.length && !filter.type.includes(event.type)) return false;
+  if (filter.status?.length && !filter.status.includes(event.status)) {
+    return false;
+  }
+  if (filter.severity?.length && !filter.severity.includes(event.severity)) {
+    return false;
+  }
+  if (
+    filter.location &&
+    !event.location?.toLowerCase().includes(filter.location.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.locationId && !event.locationPath?.includes(filter.locationId)) {
+    return false;
+  }
+  if (
+    filter.cardId &&
+    event.cardId?.toLowerCase() !== filter.cardId.toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    filter.ipAddress &&
+    !(event.ipAddress && ipMatches(event.ipAddress, filter.ipAddress))
+  ) {
+    return false;
+  }
+  if (
+    filter.q &&
+    ![event.description, event.cardholderName].some((text) =>
+      text?.toLowerCase().includes(filter.q.toLowerCase()),
+    )
+  ) {
+    return false;
+  }
+
+  const time = Date.parse(event.timestamp);
+  if (filter.since && !(time >= Date.parse(filter.since))) return false;
+  if (filter.until && !(time <= Date.parse(filter.until))) return false;
+
+  return true;
+};
+
+/**
+ * Position of an event in the timeline, encoded opaquely in cursors
+ */
+export interface EventCursor {
+  timestamp: string;
+  id: string;
+}
+
+const toBase64Url = (value: string) =>
+  btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+export const encodeEventCursor = ({ timestamp, id }: EventCursor): string =>
+  toBase64Url(JSON.stringify([timestamp, id]));
+
+export const decodeEventCursor = (cursor: string): EventCursor | null => {
+  try {
+    const [timestamp, id] = JSON.parse(fromBase64Url(cursor));
+    if (
+      typeof timestamp !== "string" ||
+      typeof id !== "string" ||
+      Number.isNaN(Date.parse(timestamp))
+    ) {
+      return null;
+    }
+    return { timestamp, id };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Chronological order by timestamp, then id, so every event has a unique
+ * position that cursors can point between
+ */
+export const compareTimeline = (a: EventCursor, b: EventCursor): number =>
+  Date.parse(a.timestamp) - Date.parse(b.timestamp) ||
+  (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Events without the field sort before those with it
+const compareText = (a = "", b = "") =>
+  a.localeCompare(b, undefined, { sensitivity: "base" });
+
+/**
+ * Comparator for sorting events by the query's sort field and order.
+ * Ties fall back to the timeline so ordering is stable across pages.
+ */
+export const compareEvents = (
+  sort: SecurityEventsQuery["sort"] = "timestamp",
+  order: SecurityEventsQuery["order"] = "desc",
+) => {
+  const direction = order === "asc" ? 1 : -1;
+
+  return (a: SecurityEvent, b: SecurityEvent): number => {
+    const primary =
+      sort === "severity"
+        ? SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]
+        : sort === "location" || sort === "cardId"
+          ? compareText(a[sort], b[sort])
+          : 0;
+    return (primary || compareTimeline(a, b)) * direction;
+  };
+};
+
+const cursorSchema = queryText.refine(
+  (value) => value === undefined || decodeEventCursor(value) !== null,
+  { message: "Invalid cursor" },
+);
+
+export const securityEventsQuerySchema = z
+  .object({
+    type: queryList(SECURITY_EVENT_TYPES),
+    status: queryList(SECURITY_EVENT_STATUSES),
+    severity: queryList(SECURITY_EVENT_SEVERITIES),
+    location: queryText,
+    locationId: queryText,
+    cardId: queryText,
+    ipAddress: queryText.refine(
+      (value) => value === undefined || isValidIpPattern(value),
+      { message: "Must be an IP address or IPv4 CIDR block" },
+    ),
+    q: queryText,
+    since: queryDate,
+    until: queryDate,
+    page: queryInt(),
+    limit: queryInt(MAX_EVENTS_LIMIT),
+    before: cursorSchema,
+    after: cursorSchema,
+    sort: queryEnum(["timestamp", "severity", "location", "cardId"] as const),
+    order: queryEnum(["asc", "desc"] as const),
+  })
+  .superRefine((query, ctx) => {
+    for (const key of ["before", "after"] as const) {
+      if (query[key] && query.sort && query.sort !== "timestamp") {
+        ctx.addIssue({
+          code: "custom",
+          path: [key],
+          message: "Cursors require sorting by timestamp",
+        });
+      }
+    }
+    if ((query.before || query.after) && query.page) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["page"],
+        message: "Cannot be combined with a cursor",
+      });
+    }
+  })
+  .transform((query) => {
+    // Drop keys that were not supplied
+    for (const key of Object.keys(query) as (keyof SecurityEventsQuery)[]) {
+      if (query[key] === undefined) delete query[key];
+    }
+    return query;
+  });
+
+/**
+ * Validate a raw query object (e.g. Express `req.query`)
+ */
+export const parseSecurityEventsQuery = (
+  raw: RawQuery,
+): ParseResult<SecurityEventsQuery> =>
+  parseWith(securityEventsQuerySchema, raw);
+
+/**
+ * Serialise a query for the /api/security/events query string
+ */
+export const toSearchParams = (query: SecurityEventsQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+
+  return params;
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { LocationNode } from "./api";
+import { canContain, locationLabel, locationPath } from "./locations";
+
+const node = (
+  id: string,
+  name: string,
+  kind: LocationNode["kind"],
+  parentId?: string,
+): LocationNode => ({
+  id,
+  name,
+  kind,
+  parentId,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const LOCATIONS = [
+  node("hq", "Headquarters", "site"),
+  node("main", "Main Building", "building", "hq"),
+  node("floor-3", "Floor 3", "floor", "main"),
+  node("east", "East Wing", "zone", "floor-3"),
+  node("room-112", "Room 112", "door", "east"),
+  node("room-101", "Room 101", "door", "floor-3"),
+];
+
+describe("canContain", () => {
+  it("should only allow parents above the child's level", () => {
+    expect(canContain(undefined, "site")).toBe(true);
+    expect(canContain(undefined, "building")).toBe(false);
+    expect(canContain("floor", "door")).toBe(true);
+    expect(canContain("door", "zone")).toBe(false);
+    expect(canContain("floor", "floor")).toBe(false);
+  });
+});
+
+describe("locationPath", () => {
+  it("should list ancestors from the top down", () => {
+    expect(locationPath(LOCATIONS, "room-112").map((l) => l.id)).toEqual([
+      "hq",
+      "main",
+      "floor-3",
+      "east",
+      "room-112",
+    ]);
+    expect(locationPath(LOCATIONS, "nowhere")).toEqual([]);
+  });
+
+  it("should stop at a cycle", () => {
+    const cycle = [node("a", "A", "zone", "b"), node("b", "B", "zone", "a")];
+    expect(locationPath(cycle, "a").length).toBeLessThanOrEqual(5);
+  });
+});
+
+describe("locationLabel", () => {
+  it("should name the levels below the building", () => {
+    const label = (id: string) => locationLabel(locationPath(LOCATIONS, id));
+
+    expect(label("room-101")).toBe("Floor 3 - Room 101");
+    expect(label("room-112")).toBe("Floor 3 - East Wing - Room 112");
+    expect(label("main")).toBe("Main Building");
+  });
+});
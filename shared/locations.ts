@@ -0,0 +1,52 @@
+/**
+ * Walking the location hierarchy. Shared so the client shows locations by
+ * the same display strings the server stores on events.
+ */
+import { LOCATION_KINDS, LocationKind, LocationNode } from "./api";
+
+// Sites and buildings are left out of display strings, which keeps them in
+// the "Floor 3 - Room 112" form readers reported before the hierarchy
+const UNLABELLED_KINDS: LocationKind[] = ["site", "building"];
+
+/**
+ * Whether a location of kind `child` may sit directly below `parent`;
+ * without a parent only sites may
+ */
+export const canContain = (
+  parent: LocationKind | undefined,
+  child: LocationKind,
+) =>
+  parent === undefined
+    ? child === "site"
+    : LOCATION_KINDS.indexOf(parent) < LOCATION_KINDS.indexOf(child);
+
+/**
+ * The location and its ancestors, from the top of the hierarchy down;
+ * empty when the id is unknown
+ */
+export const locationPath = (
+  locations: LocationNode[],
+  id: string,
+): LocationNode[] => {
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const path: LocationNode[] = [];
+
+  // Bounded by the number of levels in case stored data has a cycle
+  let current = byId.get(id);
+  while (current && path.length < LOCATION_KINDS.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Display string of the last location in `path`, e.g. "Floor 3 - Room 112"
+ */
+export const locationLabel = (path: LocationNode[]) =>
+  path
+    .filter((location) => !UNLABELLED_KINDS.includes(location.kind))
+    .map((location) => location.name)
+    .join(" - ") ||
+  path[path.length - 1]?.name ||
+  "";
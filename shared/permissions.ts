@@ -0,0 +1,76 @@
+/**
+ * Role-based access control shared by the server (enforcement) and the
+ * client (hiding controls the user cannot use)
+ */
+import type { SettingsSection } from "./api";
+
+export type Permission =
+  | "events:read"
+  | "events:write"
+  | "stats:read"
+  | "stats:write"
+  | "health:read"
+  | "users:manage"
+  | "ip:block"
+  | "settings:manage"
+  | "cardholders:manage"
+  | "access:manage"
+  | "locations:manage"
+  | "readers:manage";
+
+export type Role = "administrator" | "security_officer";
+
+export const ROLES: Role[] = ["administrator", "security_officer"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  administrator: "Administrator",
+  security_officer: "Security Officer",
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  administrator: [
+    "events:read",
+    "events:write",
+    "stats:read",
+    "stats:write",
+    "health:read",
+    "users:manage",
+    "ip:block",
+    "settings:manage",
+    "cardholders:manage",
+    "access:manage",
+    "locations:manage",
+    "readers:manage",
+  ],
+  security_officer: [
+    "events:read",
+    "events:write",
+    "stats:read",
+    "health:read",
+    "ip:block",
+    "cardholders:manage",
+  ],
+};
+
+/**
+ * Permission needed to change each settings section. Any signed-in user may
+ * read the settings.
+ */
+export const SETTINGS_SECTION_PERMISSIONS: Record<SettingsSection, Permission> =
+  {
+    detection: "stats:write",
+    alerting: "settings:manage",
+    retention: "settings:manage",
+    integrations: "settings:manage",
+  };
+
+/**
+ * Permissions granted to a role; unknown roles get none
+ */
+export const permissionsForRole = (role: string): Permission[] =>
+  ROLE_PERMISSIONS[role as Role] ?? [];
+
+export const hasPermission = (
+  user: { permissions?: Permission[] } | null | undefined,
+  permission: Permission,
+): boolean => !!user?.permissions?.includes(permission);
@@ -0,0 +1,444 @@
+import { describe, it, expect } from "vitest";
+import {
+  accessPolicySchema,
+  blockIpRequestSchema,
+  createUserRequestSchema,
+  issueCredentialRequestSchema,
+  updateSettingsRequestSchema,
+  newSecurityEventSchema,
+  securityStatsQuerySchema,
+  statsRulesUpdateSchema,
+  travelRulesSchema,
+  usersResponseSchema,
+  verifyTokenResponseSchema,
+} from "./schemas";
+import { parseWith } from "./validation";
+
+describe("newSecurityEventSchema", () => {
+  it("should default the severity", () => {
+    expect(
+      parseWith(newSecurityEventSchema, {
+        type: "dos",
+        status: "blocked",
+        ipAddress: "10.0.0.9",
+      }),
+    ).toEqual({
+      success: true,
+      data: {
+        type: "dos",
+        status: "blocked",
+        ipAddress: "10.0.0.9",
+        severity: "medium",
+      },
+    });
+  });
+
+  it("should take raw bits instead of a card id for RFID events", () => {
+    expect(
+      parseWith(newSecurityEventSchema, {
+        type: "rfid",
+        rawBits: "1012",
+      }),
+    ).toEqual({
+      success: false,
+      errors: { rawBits: "Must be a string of 0s and 1s" },
+    });
+    expect(
+      parseWith(newSecurityEventSchema, {
+        type: "rfid",
+        rawBits: "1010",
+        cardId: "CARD-1",
+      }),
+    ).toEqual({
+      success: false,
+      errors: { cardId: "Give either a cardId or rawBits" },
+    });
+    expect(
+      parseWith(newSecurityEventSchema, {
+        type: "dos",
+        status: "detected",
+        rawBits: "1010",
+      }),
+    ).toEqual({
+      success: false,
+      errors: { rawBits: "Only RFID events carry card reads" },
+    });
+  });
+
+  it("should reject server-assigned and unknown fields", () => {
+    const result = parseWith(newSecurityEventSchema, {
+      type: "dos",
+      status: "blocked",
+      id: "forged",
+      timestamp: "2024-01-01T00:00:00.000Z",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: { id: "Unknown field", timestamp: "Unknown field" },
+    });
+  });
+
+  it("should report every invalid field", () => {
+    const result = parseWith(newSecurityEventSchema, {
+      type: "fire",
+      status: "burning",
+      ipAddress: "not-an-ip",
+    });
+
+    expect(result.success).toBe(false);
+    expect(
+      Object.keys(result.success === false && result.errors).sort(),
+    ).toEqual(["ipAddress", "status", "type"]);
+  });
+
+  it("should reject statuses that do not fit the type", () => {
+    expect(
+      parseWith(newSecurityEventSchema, { type: "reader", status: "blocked" }),
+    ).toEqual({
+      success: false,
+      errors: { status: "Must be one of: online, offline for reader events" },
+    });
+    expect(parseWith(newSecurityEventSchema, { type: "dos" })).toEqual({
+      success: false,
+      errors: { status: "Required" },
+    });
+  });
+
+  it("should leave deciding card scans to the server", () => {
+    expect(
+      parseWith(newSecurityEventSchema, {
+        type: "rfid",
+        status: "authorized",
+        cardId: "CARD-1",
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        status: "Decided by the access policy for rfid events; leave it out",
+      },
+    });
+    expect(parseWith(newSecurityEventSchema, { type: "rfid" })).toEqual({
+      success: false,
+      errors: { cardId: "Give a cardId or rawBits" },
+    });
+  });
+});
+
+describe("statsRulesUpdateSchema", () => {
+  it("should accept a subset of the rules", () => {
+    expect(parseWith(statsRulesUpdateSchema, { warningThreats: 2 })).toEqual({
+      success: true,
+      data: { warningThreats: 2 },
+    });
+  });
+
+  it("should reject unknown rules and negative or fractional values", () => {
+    expect(
+      parseWith(statsRulesUpdateSchema, {
+        warningThreats: -1,
+        criticalThreats: 1.5,
+        totalScans: 0,
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        warningThreats: "Must not be negative",
+        criticalThreats: "Must be a whole number",
+        totalScans: "Unknown field",
+      },
+    });
+  });
+  it("should keep readers from being taken offline between heartbeats", () => {
+    expect(
+      parseWith(statsRulesUpdateSchema, { readerOfflineSeconds: 5 }),
+    ).toEqual({
+      success: false,
+      errors: { readerOfflineSeconds: "Must be at least 10 seconds" },
+    });
+  });
+});
+
+describe("travelRulesSchema", () => {
+  const rules = { concurrentSeconds: 5, defaultMinutes: 15 };
+
+  it("should accept a travel time per pair of buildings", () => {
+    expect(
+      parseWith(travelRulesSchema, {
+        ...rules,
+        times: [
+          { from: "loc-main", to: "loc-annex", minutes: 10 },
+          { from: "loc-main", to: "loc-main", minutes: 2 },
+        ],
+      }),
+    ).toMatchObject({ success: true });
+  });
+
+  it("should reject a pair listed twice, in either order", () => {
+    expect(
+      parseWith(travelRulesSchema, {
+        ...rules,
+        times: [
+          { from: "loc-main", to: "loc-annex", minutes: 10 },
+          { from: "loc-annex", to: "loc-main", minutes: -1 },
+        ],
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        "times.1.minutes": "Must not be negative",
+        "times.1": "These buildings are already listed",
+      },
+    });
+  });
+});
+
+describe("securityStatsQuerySchema", () => {
+  it("should normalise dates and reject inverted ranges", () => {
+    expect(
+      parseWith(securityStatsQuerySchema, { since: "2024-01-01" }),
+    ).toEqual({
+      success: true,
+      data: { since: "2024-01-01T00:00:00.000Z" },
+    });
+    expect(
+      parseWith(securityStatsQuerySchema, {
+        since: "2024-02-01",
+        until: "2024-01-01",
+      }),
+    ).toEqual({
+      success: false,
+      errors: { until: "Must not be before since" },
+    });
+  });
+});
+
+describe("createUserRequestSchema", () => {
+  it("should explain each problem", () => {
+    expect(
+      parseWith(createUserRequestSchema, {
+        username: "a b",
+        password: "short",
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        username:
+          "Must be 3-32 characters: letters, digits, dot, dash or underscore",
+        password: "Must be at least 8 characters",
+        role: "Must be one of: administrator, security_officer",
+      },
+    });
+  });
+});
+
+describe("verifyTokenResponseSchema", () => {
+  it("should require the signed-in user's details", () => {
+    expect(
+      parseWith(verifyTokenResponseSchema, {
+        valid: true,
+        user: { id: "1", username: "admin", role: "administrator" },
+      }),
+    ).toEqual({
+      success: false,
+      errors: { "user.permissions": "Required", "user.mfaEnabled": "Required" },
+    });
+  });
+});
+
+describe("usersResponseSchema", () => {
+  const user = {
+    id: "user-1",
+    username: "admin",
+    role: "administrator",
+    disabled: false,
+    mfaEnabled: true,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+
+  it("should accept the users the API returns", () => {
+    expect(parseWith(usersResponseSchema, { users: [user] })).toEqual({
+      success: true,
+      data: { users: [user] },
+    });
+  });
+
+  it("should reject a user with an unknown role", () => {
+    expect(
+      parseWith(usersResponseSchema, {
+        users: [{ ...user, role: "guest" }],
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        "users.0.role": "Must be one of: administrator, security_officer",
+      },
+    });
+  });
+});
+
+describe("blockIpRequestSchema", () => {
+  it("should accept addresses and IPv4 blocks", () => {
+    for (const ipAddress of ["203.0.113.7", "2001:db8::1", "10.0.0.0/8"]) {
+      expect(parseWith(blockIpRequestSchema, { ipAddress }).success).toBe(true);
+    }
+  });
+
+  it("should reject anything else", () => {
+    expect(
+      parseWith(blockIpRequestSchema, {
+        ipAddress: "example.com",
+        durationMinutes: 0,
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        ipAddress: "Must be an IP address or IPv4 CIDR block",
+        durationMinutes: "Must be positive",
+      },
+    });
+  });
+});
+
+describe("updateSettingsRequestSchema", () => {
+  const integrations = {
+    siemEnabled: false,
+    siemUrl: "",
+    rfidGatewayEnabled: false,
+    rfidGatewayUrl: "",
+  };
+
+  it("should require a URL while an integration is enabled", () => {
+    expect(
+      parseWith(updateSettingsRequestSchema, {
+        integrations: {
+          ...integrations,
+          siemEnabled: true,
+          rfidGatewayUrl: "ftp://gateway",
+        },
+      }),
+    ).toEqual({
+      success: false,
+      errors: {
+        "integrations.siemUrl": "Required while the integration is enabled",
+        "integrations.rfidGatewayUrl": "Must be an http(s) URL",
+      },
+    });
+  });
+
+  it("should reject partial sections and empty requests", () => {
+    expect(
+      parseWith(updateSettingsRequestSchema, {
+        retention: { maxEvents: 500 },
+      }),
+    ).toEqual({
+      success: false,
+      errors: { "retention.historyEntries": "Required" },
+    });
+    expect(parseWith(updateSettingsRequestSchema, {}).success).toBe(false);
+  });
+});
+
+describe("issueCredentialRequestSchema", () => {
+  it("should store card numbers in upper case", () => {
+    expect(
+      parseWith(issueCredentialRequestSchema, {
+        cardNumber: " card-a1b2c3 ",
+        cardholderId: "ch-1",
+        format: "wiegand26",
+      }),
+    ).toMatchObject({ success: true, data: { cardNumber: "CARD-A1B2C3" } });
+  });
+
+  it("should reject expiry before the issue date", () => {
+    expect(
+      parseWith(issueCredentialRequestSchema, {
+        cardNumber: "CARD 1",
+        cardholderId: "ch-1",
+        format: "magstripe",
+        issuedAt: "2024-06-01T00:00:00.000Z",
+        expiresAt: "2024-01-01T00:00:00.000Z",
+      }),
+    ).toMatchObject({
+      success: false,
+      errors: {
+        cardNumber: "Must be 1-64 characters: letters, digits or dash",
+        format: expect.stringContaining("Must be one of"),
+      },
+    });
+    expect(
+      parseWith(issueCredentialRequestSchema, {
+        cardNumber: "CARD-1",
+        cardholderId: "ch-1",
+        format: "iclass",
+        issuedAt: "2024-06-01T00:00:00.000Z",
+        expiresAt: "2024-01-01T00:00:00.000Z",
+      }),
+    ).toEqual({
+      success: false,
+      errors: { expiresAt: "Must be after the issue date" },
+    });
+  });
+});
+
+describe("accessPolicySchema", () => {
+  const schedule = {
+    id: "office",
+    name: "Office",
+    timeZone: "Europe/Berlin",
+    windows: [{ days: ["mon"], start: "08:00", end: "18:00" }],
+  };
+  const zone = { id: "lobby", name: "Lobby", locations: ["Lobby"] };
+
+  it("should accept a consistent policy", () => {
+    expect(
+      parseWith(accessPolicySchema, {
+        schedules: [schedule],
+        zones: [zone],
+        groups: [
+          {
+            id: "staff",
+            name: "Staff",
+            cardholderIds: ["ch-1"],
+            zoneIds: ["lobby"],
+            scheduleId: "office",
+          },
+        ],
+      }),
+    ).toMatchObject({ success: true });
+  });
+
+  it("should reject bad times, duplicate ids and unknown references", () => {
+    expect(
+      parseWith(accessPolicySchema, {
+        schedules: [
+          {
+            ...schedule,
+            timeZone: "Mars/Olympus",
+            windows: [{ days: ["mon"], start: "18:00", end: "08:00" }],
+          },
+        ],
+        zones: [zone, zone],
+        groups: [
+          {
+            id: "staff",
+            name: "Staff",
+            cardholderIds: [],
+            zoneIds: ["roof"],
+            scheduleId: "night",
+          },
+        ],
+      }),
+    ).toMatchObject({
+      success: false,
+      errors: {
+        "schedules.0.timeZone": expect.any(String),
+        "schedules.0.windows.0.end": expect.any(String),
+        "zones.1.id": "Id is already used",
+        "groups.0.zoneIds.0": "Unknown zone",
+        "groups.0.scheduleId": "Unknown schedule",
+      },
+    });
+  });
+});
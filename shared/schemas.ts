@@ -0,0 +1,1029 @@
+/**
+ * Runtime schemas for the API types in ./api.ts. The server validates
+ * request bodies and query strings with them; the client parses responses.
+ */
+import { z } from "zod";
+import {
+  ACTIVITY_RANGES,
+  ActivityRange,
+  CARDHOLDER_STATUSES,
+  CREDENTIAL_FORMATS,
+  CREDENTIAL_STATES,
+  CardFormat,
+  CardholderStatus,
+  LOCATION_KINDS,
+  LocationKind,
+  READER_STATUSES,
+  SECURITY_EVENT_SEVERITIES,
+  SECURITY_EVENT_STATUSES,
+  SECURITY_EVENT_TYPES,
+  SETTINGS_SECTIONS,
+  SecurityEvent,
+  WEEKDAYS,
+} from "./api";
+import { ROLES } from "./permissions";
+import { queryDate, queryEnum, queryText } from "./validation";
+import { isValidIpPattern } from "./event-query";
+import { isTimeOfDay, isValidTimeZone } from "./access";
+import {
+  MAX_FIELD_BITS,
+  MAX_FORMAT_BITS,
+  cardFormatProblems,
+  isBitString,
+} from "./wiegand";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const oneOf = <T extends string>(values: readonly T[]) =>
+  z.enum(values as [T, ...T[]], {
+    errorMap: () => ({ message: `Must be one of: ${values.join(", ")}` }),
+  });
+
+const required = (message = "Required") =>
+  z.string({ required_error: message }).trim().min(1, message);
+
+/** Body of responses that only confirm, e.g. of deletes */
+export const messageResponseSchema = z.object({ message: z.string() });
+
+/**
+ * Security Events
+ */
+export const securityEventTypeSchema = oneOf(SECURITY_EVENT_TYPES);
+export const securityEventStatusSchema = oneOf(SECURITY_EVENT_STATUSES);
+export const securityEventSeveritySchema = oneOf(SECURITY_EVENT_SEVERITIES);
+
+export const securityEventSchema = z.object({
+  id: z.string(),
+  type: securityEventTypeSchema,
+  status: securityEventStatusSchema,
+  timestamp: z.string().datetime({ offset: true }),
+  location: z.string().optional(),
+  locationId: z.string().optional(),
+  locationPath: z.array(z.string()).optional(),
+  cardId: z.string().optional(),
+  rawBits: z.string().optional(),
+  cardFormat: z.string().optional(),
+  ipAddress: z.string().optional(),
+  severity: securityEventSeveritySchema,
+  description: z.string().optional(),
+  cardholderId: z.string().optional(),
+  cardholderName: z.string().optional(),
+  relatedEventIds: z.array(z.string()).optional(),
+});
+
+// Statuses that make sense for each kind of event
+const EVENT_STATUSES: Record<
+  SecurityEvent["type"],
+  readonly SecurityEvent["status"][]
+> = {
+  rfid: ["authorized", "unauthorized", "parity_error"],
+  dos: ["blocked", "detected"],
+  auth: ["blocked"],
+  reader: ["online", "offline"],
+  anomaly: ["detected"],
+};
+
+/**
+ * Body of POST /api/security/events, see AddSecurityEventRequest
+ */
+export const newSecurityEventSchema = z
+  .object({
+    type: securityEventTypeSchema,
+    status: securityEventStatusSchema.optional(),
+    location: z.string().trim().min(1).max(200).optional(),
+    locationId: z.string().trim().min(1).max(64).optional(),
+    cardId: z.string().trim().min(1).max(64).optional(),
+    rawBits: z
+      .string()
+      .trim()
+      .max(MAX_FORMAT_BITS, `Must be at most ${MAX_FORMAT_BITS} bits`)
+      .refine(isBitString, "Must be a string of 0s and 1s")
+      .optional(),
+    cardFormat: z.string().trim().min(1).max(64).optional(),
+    ipAddress: z.string().ip({ message: "Must be an IP address" }).optional(),
+    severity: securityEventSeveritySchema.default("medium"),
+    description: z.string().trim().max(500).optional(),
+  })
+  .strict()
+  .superRefine((event, ctx) => {
+    const allowed = EVENT_STATUSES[event.type];
+    if (event.type === "rfid") {
+      if (event.status !== undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["status"],
+          message: "Decided by the access policy for rfid events; leave it out",
+        });
+      }
+      if (event.cardId === undefined && event.rawBits === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["cardId"],
+          message: "Give a cardId or rawBits",
+        });
+      }
+    } else if (event.status === undefined) {
+      ctx.addIssue({ code: "custom", path: ["status"], message: "Required" });
+    } else if (allowed && !allowed.includes(event.status)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["status"],
+        message: `Must be one of: ${allowed.join(", ")} for ${event.type} events`,
+      });
+    }
+    if (event.rawBits !== undefined && event.type !== "rfid") {
+      ctx.addIssue({
+        code: "custom",
+        path: ["rawBits"],
+        message: "Only RFID events carry card reads",
+      });
+    } else if (event.rawBits !== undefined && event.cardId !== undefined) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["cardId"],
+        message: "Give either a cardId or rawBits",
+      });
+    }
+    if (event.cardFormat !== undefined && event.rawBits === undefined) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["cardFormat"],
+        message: "Only used to decode rawBits",
+      });
+    }
+  });
+
+export const securityEventsResponseSchema = z.object({
+  events: z.array(securityEventSchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int().positive(),
+  limit: z.number().int().positive(),
+  cursors: z.object({
+    before: z.string().optional(),
+    after: z.string().optional(),
+  }),
+});
+
+/**
+ * Security Stats
+ */
+export const securityStatsQuerySchema = z
+  .object({ since: queryDate, until: queryDate })
+  .refine(({ since, until }) => !since || !until || since <= until, {
+    path: ["until"],
+    message: "Must not be before since",
+  });
+
+export const securityStatsResponseSchema = z.object({
+  totalScans: z.number().int().nonnegative(),
+  authorizedScans: z.number().int().nonnegative(),
+  unauthorizedScans: z.number().int().nonnegative(),
+  dosAttacks: z.number().int().nonnegative(),
+  activeThreats: z.number().int().nonnegative(),
+  systemStatus: z.enum(["operational", "warning", "critical"]),
+  since: z.string().optional(),
+  until: z.string().optional(),
+});
+
+const ruleValue = z
+  .number({ invalid_type_error: "Must be a number" })
+  .int("Must be a whole number")
+  .nonnegative("Must not be negative");
+
+// The reader monitor checks every few seconds, so shorter silences would
+// flag readers between two heartbeats
+const readerOfflineSeconds = ruleValue.min(10, "Must be at least 10 seconds");
+
+export const statsRulesSchema = z.object({
+  activeThreatWindowMinutes: ruleValue,
+  warningThreats: ruleValue,
+  criticalThreats: ruleValue,
+  readerOfflineSeconds,
+});
+
+/**
+ * Body of PUT /api/security/stats/rules: any subset of the rules
+ */
+export const statsRulesUpdateSchema = z
+  .object({
+    activeThreatWindowMinutes: ruleValue.optional(),
+    warningThreats: ruleValue.optional(),
+    criticalThreats: ruleValue.optional(),
+    readerOfflineSeconds: readerOfflineSeconds.optional(),
+  })
+  .strict();
+
+const travelTimeSchema = z
+  .object({
+    from: required().pipe(z.string().max(64)),
+    to: required().pipe(z.string().max(64)),
+    minutes: ruleValue.max(24 * 60, "Must be at most a day"),
+  })
+  .strict();
+
+/**
+ * Body of PUT /api/security/travel-rules: each pair of buildings at most
+ * once, in either order
+ */
+export const travelRulesSchema = z
+  .object({
+    concurrentSeconds: ruleValue.max(3600, "Must be at most an hour"),
+    defaultMinutes: ruleValue.max(24 * 60, "Must be at most a day"),
+    times: z.array(travelTimeSchema).max(500),
+  })
+  .strict()
+  .superRefine((rules, ctx) => {
+    const pairs = rules.times.map(({ from, to }) => [from, to].sort().join());
+    const duplicate = findDuplicate(pairs);
+    if (duplicate !== -1) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["times", duplicate],
+        message: "These buildings are already listed",
+      });
+    }
+  });
+
+/**
+ * RFID Activity
+ */
+export const rfidActivityQuerySchema = z.object({
+  range: queryEnum(ACTIVITY_RANGES as [ActivityRange, ...ActivityRange[]]),
+  location: queryText,
+  locationId: queryText,
+  cardId: queryText,
+  level: queryEnum(LOCATION_KINDS as [LocationKind, ...LocationKind[]]),
+});
+
+const scanCount = z.number().int().nonnegative();
+
+const rfidActivityGroupSchema = z.object({
+  key: z.string(),
+  locationId: z.string().optional(),
+  authorized: scanCount,
+  unauthorized: scanCount,
+  lastSeen: z.string(),
+});
+
+export const rfidActivityResponseSchema = z.object({
+  range: oneOf(ACTIVITY_RANGES),
+  since: z.string(),
+  until: z.string(),
+  bucketMinutes: z.number().positive(),
+  trend: z.array(
+    z.object({
+      start: z.string(),
+      authorized: scanCount,
+      unauthorized: scanCount,
+    }),
+  ),
+  locations: z.array(rfidActivityGroupSchema),
+  cards: z.array(rfidActivityGroupSchema),
+});
+
+/**
+ * DoS Protection
+ */
+export const dosActivityQuerySchema = z.object({
+  range: queryEnum(ACTIVITY_RANGES as [ActivityRange, ...ActivityRange[]]),
+  ipAddress: queryText.refine(
+    (value) => value === undefined || isValidIpPattern(value),
+    { message: "Must be an IP address or IPv4 CIDR block" },
+  ),
+});
+
+export const dosActivityResponseSchema = z.object({
+  range: oneOf(ACTIVITY_RANGES),
+  since: z.string(),
+  until: z.string(),
+  bucketMinutes: z.number().positive(),
+  trend: z.array(
+    z.object({
+      start: z.string(),
+      blocked: scanCount,
+      detected: scanCount,
+    }),
+  ),
+  offenders: z.array(
+    z.object({
+      ipAddress: z.string(),
+      blocked: scanCount,
+      detected: scanCount,
+      firstSeen: z.string(),
+      lastSeen: z.string(),
+    }),
+  ),
+});
+
+const ipAddressSchema = z.string().ip();
+const ipv4BlockSchema = z.string().cidr({ version: "v4" });
+
+// A year; longer blocks should simply not expire
+const MAX_BLOCK_MINUTES = 365 * 24 * 60;
+
+export const blockIpRequestSchema = z
+  .object({
+    ipAddress: required("IP address is required").refine(
+      (value) =>
+        ipAddressSchema.safeParse(value).success ||
+        ipv4BlockSchema.safeParse(value).success,
+      "Must be an IP address or IPv4 CIDR block",
+    ),
+    durationMinutes: z
+      .number({ invalid_type_error: "Must be a number" })
+      .int("Must be a whole number")
+      .positive("Must be positive")
+      .max(MAX_BLOCK_MINUTES, "Must be at most a year")
+      .optional(),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .strict();
+
+export const ipBlockSchema = z.object({
+  ipAddress: z.string(),
+  reason: z.string().optional(),
+  blockedBy: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+});
+
+export const ipBlocksResponseSchema = z.object({
+  blocks: z.array(ipBlockSchema),
+});
+
+/**
+ * System Health
+ */
+const healthComponent = <T extends string>(statuses: readonly [T, ...T[]]) =>
+  z.object({ status: z.enum(statuses), percentage: z.number() });
+
+export const systemHealthResponseSchema = z.object({
+  rfidReaders: z.object({
+    online: z.number().int().nonnegative(),
+    total: z.number().int().nonnegative(),
+    percentage: z.number(),
+  }),
+  dosProtection: healthComponent(["active", "inactive", "maintenance"]),
+  database: healthComponent(["operational", "degraded", "down"]),
+  network: healthComponent(["normal", "moderate", "high", "critical"]),
+});
+
+/**
+ * Authentication
+ */
+export const roleSchema = oneOf(ROLES);
+
+export const loginRequestSchema = z.object({
+  username: required("Username is required"),
+  password: z
+    .string({ required_error: "Password is required" })
+    .min(1, "Password is required"),
+  rememberMe: z.boolean().optional(),
+});
+
+export const mfaLoginRequestSchema = z
+  .object({
+    challengeToken: required(),
+    code: z.string().trim().min(1).optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine(({ code, recoveryCode }) => code || recoveryCode, {
+    path: ["code"],
+    message: "Enter an authentication code or a recovery code",
+  });
+
+export const refreshTokenRequestSchema = z.object({ refreshToken: required() });
+
+export const logoutRequestSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+export const mfaSetupRequestSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+});
+
+export const mfaCodeRequestSchema = z.object({
+  code: required("Enter the code from your authenticator app"),
+});
+
+/**
+ * DELETE /api/auth/mfa: the code may be left out to abandon a pending setup
+ */
+export const mfaDisableRequestSchema = z.object({
+  code: z.string().trim().min(1).optional(),
+});
+
+export const authUserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: roleSchema,
+  permissions: z.array(z.string()),
+  mfaEnabled: z.boolean(),
+});
+
+export const verifyTokenResponseSchema = z.object({
+  valid: z.boolean(),
+  user: authUserSchema.optional(),
+});
+
+export const refreshTokenResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+  expiresIn: z.number(),
+});
+
+export const mfaSetupResponseSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+});
+
+export const mfaRecoveryCodesResponseSchema = z.object({
+  recoveryCodes: z.array(z.string()),
+});
+
+export const mfaStatusResponseSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+});
+
+/**
+ * User Management
+ */
+
+const usernameSchema = z
+  .string({ required_error: "Required" })
+  .regex(
+    /^[a-zA-Z0-9._-]{3,32}$/,
+    "Must be 3-32 characters: letters, digits, dot, dash or underscore",
+  );
+
+const passwordSchema = z
+  .string({ required_error: "Required" })
+  .min(
+    MIN_PASSWORD_LENGTH,
+    `Must be at least ${MIN_PASSWORD_LENGTH} characters`,
+  );
+
+export const createUserRequestSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+  role: roleSchema,
+});
+
+export const updateUserRequestSchema = z
+  .object({
+    role: roleSchema.optional(),
+    disabled: z.boolean({ invalid_type_error: "Must be a boolean" }).optional(),
+  })
+  .strict();
+
+export const resetPasswordRequestSchema = z.object({
+  password: passwordSchema,
+});
+
+export const managedUserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: roleSchema,
+  disabled: z.boolean(),
+  mfaEnabled: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const usersResponseSchema = z.object({
+  users: z.array(managedUserSchema),
+});
+
+/**
+ * System Settings
+ */
+const settingsFlag = z.boolean({
+  required_error: "Required",
+  invalid_type_error: "Must be a boolean",
+});
+
+const settingsCount = (min: number, max: number) =>
+  z
+    .number({
+      required_error: "Required",
+      invalid_type_error: "Must be a number",
+    })
+    .int("Must be a whole number")
+    .min(min, `Must be at least ${min}`)
+    .max(max, `Must be at most ${max}`);
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Blank while the integration is not configured
+const webhookUrl = z
+  .string({ required_error: "Required" })
+  .trim()
+  .refine(
+    (value) => value === "" || isHttpUrl(value),
+    "Must be an http(s) URL",
+  );
+
+export const settingsSectionSchema = oneOf(SETTINGS_SECTIONS);
+
+export const alertingSettingsSchema = z
+  .object({
+    enabled: settingsFlag,
+    minimumSeverity: securityEventSeveritySchema,
+    unauthorizedAccess: settingsFlag,
+    dosAttacks: settingsFlag,
+    // Blank entries are ignored, e.g. empty lines of a text area
+    emailRecipients: z.preprocess(
+      (value) =>
+        Array.isArray(value)
+          ? value.filter((v) => typeof v !== "string" || v.trim())
+          : value,
+      z
+        .array(z.string().trim().email("Must be an email address"))
+        .max(20, "At most 20 recipients"),
+    ),
+  })
+  .strict();
+
+export const retentionSettingsSchema = z
+  .object({
+    maxEvents: settingsCount(100, 1000000),
+    historyEntries: settingsCount(10, 1000),
+  })
+  .strict();
+
+export const integrationSettingsSchema = z
+  .object({
+    siemEnabled: settingsFlag,
+    siemUrl: webhookUrl,
+    rfidGatewayEnabled: settingsFlag,
+    rfidGatewayUrl: webhookUrl,
+  })
+  .strict()
+  .superRefine((settings, ctx) => {
+    if (settings.siemEnabled && !settings.siemUrl) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["siemUrl"],
+        message: "Required while the integration is enabled",
+      });
+    }
+    if (settings.rfidGatewayEnabled && !settings.rfidGatewayUrl) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["rfidGatewayUrl"],
+        message: "Required while the integration is enabled",
+      });
+    }
+  });
+
+export const systemSettingsSchema = z.object({
+  detection: statsRulesSchema,
+  alerting: alertingSettingsSchema,
+  retention: retentionSettingsSchema,
+  integrations: integrationSettingsSchema,
+});
+
+/**
+ * Body of PUT /api/settings: any subset of whole sections
+ */
+export const updateSettingsRequestSchema = z
+  .object({
+    detection: statsRulesSchema.strict().optional(),
+    alerting: alertingSettingsSchema.optional(),
+    retention: retentionSettingsSchema.optional(),
+    integrations: integrationSettingsSchema.optional(),
+  })
+  .strict()
+  .refine((request) => Object.keys(request).length > 0, {
+    message: "Include at least one settings section",
+  });
+
+export const settingsHistoryResponseSchema = z.object({
+  changes: z.array(
+    z.object({
+      id: z.string(),
+      section: settingsSectionSchema,
+      changedBy: z.string(),
+      changedAt: z.string(),
+      changes: z.array(
+        z.object({
+          field: z.string(),
+          from: z.unknown(),
+          to: z.unknown(),
+        }),
+      ),
+    }),
+  ),
+});
+
+/**
+ * Cardholders and Credentials
+ */
+export const cardholderStatusSchema = oneOf(CARDHOLDER_STATUSES);
+export const credentialStateSchema = oneOf(CREDENTIAL_STATES);
+export const credentialFormatSchema = oneOf(CREDENTIAL_FORMATS);
+
+export const cardholdersQuerySchema = z.object({
+  q: queryText,
+  status: queryEnum(
+    CARDHOLDER_STATUSES as [CardholderStatus, ...CardholderStatus[]],
+  ),
+});
+
+const cardholderName = required("Name is required").pipe(
+  z.string().max(100, "Must be at most 100 characters"),
+);
+
+// Blank clears the field on update
+const department = z.string().trim().max(100, "Must be at most 100 characters");
+
+const photoUrl = z
+  .string()
+  .trim()
+  .refine(
+    (value) => value === "" || isHttpUrl(value),
+    "Must be an http(s) URL",
+  );
+
+export const createCardholderRequestSchema = z
+  .object({
+    name: cardholderName,
+    department: department.optional(),
+    photoUrl: photoUrl.optional(),
+    status: cardholderStatusSchema.default("active"),
+  })
+  .strict();
+
+export const updateCardholderRequestSchema = z
+  .object({
+    name: cardholderName.optional(),
+    department: department.optional(),
+    photoUrl: photoUrl.optional(),
+    status: cardholderStatusSchema.optional(),
+  })
+  .strict();
+
+const isoDate = z
+  .string({ invalid_type_error: "Must be a date" })
+  .datetime({ offset: true, message: "Must be an ISO date" });
+
+export const issueCredentialRequestSchema = z
+  .object({
+    // Readers report card ids in upper case
+    cardNumber: required("Card number is required")
+      .pipe(
+        z
+          .string()
+          .regex(
+            /^[A-Za-z0-9-]{1,64}$/,
+            "Must be 1-64 characters: letters, digits or dash",
+          ),
+      )
+      .transform((value) => value.toUpperCase()),
+    cardholderId: required("Cardholder is required"),
+    format: credentialFormatSchema,
+    issuedAt: isoDate.optional(),
+    expiresAt: isoDate.optional(),
+  })
+  .strict()
+  .refine(
+    ({ issuedAt, expiresAt }) =>
+      !issuedAt || !expiresAt || Date.parse(expiresAt) > Date.parse(issuedAt),
+    { path: ["expiresAt"], message: "Must be after the issue date" },
+  );
+
+export const updateCredentialRequestSchema = z
+  .object({
+    state: credentialStateSchema.optional(),
+    stateReason: z.string().trim().max(200).optional(),
+    expiresAt: isoDate.nullable().optional(),
+  })
+  .strict()
+  .refine((request) => Object.keys(request).length > 0, {
+    message: "Include at least one field to change",
+  });
+
+export const credentialSchema = z.object({
+  id: z.string(),
+  cardNumber: z.string(),
+  cardholderId: z.string(),
+  format: credentialFormatSchema,
+  issuedAt: z.string(),
+  expiresAt: z.string().optional(),
+  state: credentialStateSchema,
+  stateReason: z.string().optional(),
+  stateChangedAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const cardholderDetailsSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  department: z.string().optional(),
+  photoUrl: z.string().optional(),
+  status: cardholderStatusSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  credentials: z.array(credentialSchema),
+});
+
+export const cardholdersResponseSchema = z.object({
+  cardholders: z.array(cardholderDetailsSchema),
+});
+
+/**
+ * Access Policy
+ */
+const policyId = z
+  .string({ required_error: "Required" })
+  .regex(
+    /^[a-zA-Z0-9_-]{1,64}$/,
+    "Must be 1-64 characters: letters, digits, dash or underscore",
+  );
+
+const policyName = required("Name is required").pipe(
+  z.string().max(100, "Must be at most 100 characters"),
+);
+
+const timeOfDay = z
+  .string({ required_error: "Required" })
+  .refine(isTimeOfDay, "Must be a time as HH:MM");
+
+export const scheduleWindowSchema = z
+  .object({
+    days: z.array(oneOf(WEEKDAYS)).min(1, "Pick at least one day"),
+    start: timeOfDay,
+    end: timeOfDay,
+  })
+  .strict()
+  .refine(({ start, end }) => end > start, {
+    path: ["end"],
+    message: "Must be after the start; split windows that cross midnight",
+  });
+
+export const accessScheduleSchema = z
+  .object({
+    id: policyId,
+    name: policyName,
+    timeZone: required().refine(isValidTimeZone, "Unknown time zone"),
+    windows: z.array(scheduleWindowSchema),
+  })
+  .strict();
+
+export const accessZoneSchema = z
+  .object({
+    id: policyId,
+    name: policyName,
+    locations: z.array(required().pipe(z.string().max(200))),
+    locationIds: z.array(required().pipe(z.string().max(64))).optional(),
+  })
+  .strict()
+  .refine(
+    (zone) => zone.locations.length + (zone.locationIds?.length ?? 0) > 0,
+    { path: ["locations"], message: "Add at least one location" },
+  );
+
+export const accessGroupSchema = z
+  .object({
+    id: policyId,
+    name: policyName,
+    cardholderIds: z.array(z.string()),
+    zoneIds: z.array(z.string()).min(1, "Grant at least one zone"),
+    scheduleId: z.string().optional(),
+  })
+  .strict();
+
+const findDuplicate = (ids: string[]) =>
+  ids.findIndex((id, index) => ids.indexOf(id) !== index);
+
+/**
+ * Body of PUT /api/access/policy: ids are unique per kind and groups only
+ * refer to zones and schedules of the same policy
+ */
+export const accessPolicySchema = z
+  .object({
+    schedules: z.array(accessScheduleSchema),
+    zones: z.array(accessZoneSchema),
+    groups: z.array(accessGroupSchema),
+  })
+  .strict()
+  .superRefine((policy, ctx) => {
+    for (const kind of ["schedules", "zones", "groups"] as const) {
+      const duplicate = findDuplicate(policy[kind].map((item) => item.id));
+      if (duplicate !== -1) {
+        ctx.addIssue({
+          code: "custom",
+          path: [kind, duplicate, "id"],
+          message: "Id is already used",
+        });
+      }
+    }
+
+    const zoneIds = new Set(policy.zones.map((zone) => zone.id));
+    const scheduleIds = new Set(policy.schedules.map((s) => s.id));
+    policy.groups.forEach((group, index) => {
+      const unknownZone = group.zoneIds.findIndex((id) => !zoneIds.has(id));
+      if (unknownZone !== -1) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["groups", index, "zoneIds", unknownZone],
+          message: "Unknown zone",
+        });
+      }
+      if (group.scheduleId && !scheduleIds.has(group.scheduleId)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["groups", index, "scheduleId"],
+          message: "Unknown schedule",
+        });
+      }
+    });
+  });
+
+export const accessDecisionRequestSchema = z
+  .object({
+    cardId: required("Card is required").pipe(z.string().max(64)),
+    location: required().pipe(z.string().max(200)).optional(),
+    locationId: required().pipe(z.string().max(64)).optional(),
+  })
+  .strict()
+  .refine(({ location, locationId }) => !location !== !locationId, {
+    path: ["locationId"],
+    message: "Give either a location or a locationId",
+  });
+
+/**
+ * Locations
+ */
+export const locationKindSchema = oneOf(LOCATION_KINDS);
+
+const locationName = required("Name is required").pipe(
+  z.string().max(100, "Must be at most 100 characters"),
+);
+
+export const createLocationRequestSchema = z
+  .object({
+    name: locationName,
+    kind: locationKindSchema,
+    parentId: required().optional(),
+  })
+  .strict();
+
+export const updateLocationRequestSchema = z
+  .object({
+    name: locationName.optional(),
+    parentId: required().optional(),
+  })
+  .strict()
+  .refine((request) => Object.keys(request).length > 0, {
+    message: "Include at least one field to change",
+  });
+
+export const locationNodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: locationKindSchema,
+  parentId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const locationsResponseSchema = z.object({
+  locations: z.array(locationNodeSchema),
+});
+
+/**
+ * RFID Readers
+ */
+const readerText = (max: number) =>
+  required().pipe(z.string().max(max, `Must be at most ${max} characters`));
+
+const readerIp = z.string().trim().ip({ message: "Must be an IP address" });
+
+// Blank clears the field on update
+const clearable = <T extends z.ZodTypeAny>(schema: T) =>
+  z.literal("").or(schema);
+
+export const registerReaderRequestSchema = z
+  .object({
+    id: policyId,
+    name: readerText(100),
+    locationId: required().optional(),
+    model: readerText(100),
+    firmware: readerText(50),
+    ipAddress: readerIp.optional(),
+  })
+  .strict();
+
+export const updateReaderRequestSchema = z
+  .object({
+    name: readerText(100).optional(),
+    locationId: clearable(required()).optional(),
+    model: readerText(100).optional(),
+    firmware: readerText(50).optional(),
+    ipAddress: clearable(readerIp).optional(),
+  })
+  .strict()
+  .refine((request) => Object.keys(request).length > 0, {
+    message: "Include at least one field to change",
+  });
+
+export const readerHeartbeatRequestSchema = z
+  .object({
+    firmware: readerText(50).optional(),
+    ipAddress: readerIp.optional(),
+  })
+  .strict();
+
+export const rfidReaderSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  locationId: z.string().optional(),
+  model: z.string(),
+  firmware: z.string(),
+  ipAddress: z.string().optional(),
+  status: oneOf(READER_STATUSES),
+  lastHeartbeat: z.string().optional(),
+  statusChangedAt: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const readersResponseSchema = z.object({
+  readers: z.array(rfidReaderSchema),
+});
+
+/**
+ * Card Formats
+ */
+const bitPosition = z
+  .number({ invalid_type_error: "Must be a number" })
+  .int("Must be a whole number")
+  .min(0, "Must not be negative");
+
+const bitFieldSchema = z
+  .object({
+    start: bitPosition,
+    length: bitPosition
+      .min(1, "Must be at least 1 bit")
+      .max(MAX_FIELD_BITS, `Must be at most ${MAX_FIELD_BITS} bits`),
+  })
+  .strict();
+
+const parityCheckSchema = z
+  .object({
+    bit: bitPosition,
+    parity: oneOf(["even", "odd"] as const),
+    over: z.array(bitPosition).min(1, "Must cover at least one bit"),
+  })
+  .strict();
+
+export const cardFormatSchema = z
+  .object({
+    // Upper case, as the built-in ids, so they read the same in events
+    id: policyId.transform((id) => id.toUpperCase()),
+    name: required().pipe(
+      z.string().max(100, "Must be at most 100 characters"),
+    ),
+    length: bitPosition
+      .min(2, "Must be at least 2 bits")
+      .max(MAX_FORMAT_BITS, `Must be at most ${MAX_FORMAT_BITS} bits`),
+    facilityCode: bitFieldSchema.optional(),
+    cardNumber: bitFieldSchema,
+    parity: z.array(parityCheckSchema),
+  })
+  .strict()
+  .superRefine((format, ctx) => {
+    Object.entries(cardFormatProblems(format as CardFormat)).forEach(
+      ([path, message]) =>
+        ctx.addIssue({ code: "custom", path: path.split("."), message }),
+    );
+  });
+
+export const listedCardFormatSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  length: z.number(),
+  facilityCode: z.object({ start: z.number(), length: z.number() }).optional(),
+  cardNumber: z.object({ start: z.number(), length: z.number() }),
+  parity: z.array(
+    z.object({
+      bit: z.number(),
+      parity: z.enum(["even", "odd"]),
+      over: z.array(z.number()),
+    }),
+  ),
+  builtIn: z.boolean(),
+});
+
+export const cardFormatsResponseSchema = z.object({
+  formats: z.array(listedCardFormatSchema),
+});
@@ -0,0 +1,107 @@
+/**
+ * Helpers for validating API input with zod, shared by the server
+ * (request validation) and the client (response parsing).
+ */
+import { z } from "zod";
+
+/** First problem per field, keyed by dotted path; "body" for the whole input */
+export type FieldErrors = Record<string, string>;
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors };
+
+export const fieldErrors = (error: z.ZodError): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  for (const issue of error.issues) {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      for (const key of issue.keys) {
+        errors[[...issue.path, key].join(".")] ??= "Unknown field";
+      }
+      continue;
+    }
+    errors[issue.path.join(".") || "body"] ??= issue.message;
+  }
+
+  return errors;
+};
+
+export const parseWith = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown,
+): ParseResult<T> => {
+  const result = schema.safeParse(input);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, errors: fieldErrors(result.error) };
+};
+
+// Query string values arrive as strings or repeated (array) values; these
+// coerce them and treat blank values as absent.
+
+const firstValue = (value: unknown) => {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined || first === null) return undefined;
+  return String(first).trim() || undefined;
+};
+
+export const queryText = z.preprocess(firstValue, z.string().optional());
+
+/**
+ * Comma separated or repeated values, each one of `allowed`
+ */
+export const queryList = <T extends string>(allowed: readonly T[]) =>
+  z.preprocess(
+    (value) => {
+      const values = (Array.isArray(value) ? value : [value])
+        .flatMap((item) => String(item ?? "").split(","))
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return values.length > 0 ? values : undefined;
+    },
+    z
+      .array(z.string())
+      .refine((values) => values.every((v) => allowed.includes(v as T)), {
+        message: `Must be one of: ${allowed.join(", ")}`,
+      })
+      .transform((values) => values as T[])
+      .optional(),
+  );
+
+export const queryInt = (max?: number) =>
+  queryText.transform((value, ctx) => {
+    if (value === undefined) return undefined;
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+      ctx.addIssue({ code: "custom", message: "Must be a positive integer" });
+      return z.NEVER;
+    }
+    if (max !== undefined && number > max) {
+      ctx.addIssue({ code: "custom", message: `Must be at most ${max}` });
+      return z.NEVER;
+    }
+    return number;
+  });
+
+/**
+ * Any date Date.parse understands, normalised to an ISO string
+ */
+export const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), {
+    message: "Must be an ISO date",
+  })
+  .transform((value) => new Date(value).toISOString());
+
+export const queryDate = queryText.pipe(isoDate.optional());
+
+export const queryEnum = <T extends string>(allowed: readonly [T, ...T[]]) =>
+  queryText.pipe(
+    z
+      .enum(allowed, {
+        errorMap: () => ({ message: `Must be one of: ${allowed.join(", ")}` }),
+      })
+      .optional(),
+  );
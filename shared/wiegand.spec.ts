@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { CardFormat } from "./api";
+import {
+  BUILT_IN_CARD_FORMATS,
+  cardFormatProblems,
+  decodeWiegand,
+  encodeWiegand,
+} from "./wiegand";
+
+const format = (id: string) =>
+  BUILT_IN_CARD_FORMATS.find((f) => f.id === id) as CardFormat;
+
+const flip = (bits: string, position: number) =>
+  bits.slice(0, position) +
+  (bits[position] === "1" ? "0" : "1") +
+  bits.slice(position + 1);
+
+describe("decodeWiegand", () => {
+  it("should decode a 26-bit H10301 read", () => {
+    // Even parity 1, facility 1, card 1, odd parity 0
+    expect(
+      decodeWiegand("10000000100000000000000010", format("H10301")),
+    ).toEqual({
+      success: true,
+      card: { format: "H10301", facilityCode: 1, cardNumber: 1, cardId: "1-1" },
+    });
+  });
+
+  it("should round-trip every built-in format", () => {
+    for (const f of BUILT_IN_CARD_FORMATS) {
+      const bits = encodeWiegand(f, { facilityCode: 123, cardNumber: 45678 });
+
+      expect(bits).toHaveLength(f.length);
+      expect(decodeWiegand(bits, f)).toMatchObject({
+        success: true,
+        card: { facilityCode: 123, cardNumber: 45678, cardId: "123-45678" },
+      });
+    }
+  });
+
+  it("should report the parity bits that fail", () => {
+    const h10301 = format("H10301");
+    const bits = encodeWiegand(h10301, { facilityCode: 12, cardNumber: 3456 });
+
+    expect(decodeWiegand(flip(bits, 3), h10301)).toEqual({
+      success: false,
+      failedParityBits: [0],
+    });
+    expect(decodeWiegand(flip(bits, 20), h10301)).toEqual({
+      success: false,
+      failedParityBits: [25],
+    });
+  });
+
+  it("should catch single bit errors anywhere in a Corporate 1000 read", () => {
+    const c1k35 = format("C1K35");
+    const bits = encodeWiegand(c1k35, { facilityCode: 900, cardNumber: 7 });
+
+    for (let i = 0; i < bits.length; i++) {
+      expect(decodeWiegand(flip(bits, i), c1k35).success).toBe(false);
+    }
+  });
+
+  it("should use the card number alone without a facility code", () => {
+    const custom: CardFormat = {
+      id: "PLAIN8",
+      name: "Plain 8-bit",
+      length: 8,
+      cardNumber: { start: 0, length: 8 },
+      parity: [],
+    };
+
+    expect(decodeWiegand("00101010", custom)).toMatchObject({
+      success: true,
+      card: { cardNumber: 42, cardId: "42" },
+    });
+  });
+});
+
+describe("cardFormatProblems", () => {
+  it("should accept the built-in formats", () => {
+    BUILT_IN_CARD_FORMATS.forEach((f) =>
+      expect(cardFormatProblems(f)).toEqual({}),
+    );
+  });
+
+  it("should reject fields outside the format or on top of each other", () => {
+    expect(
+      cardFormatProblems({
+        length: 26,
+        facilityCode: { start: 1, length: 8 },
+        cardNumber: { start: 8, length: 20 },
+        parity: [
+          { bit: 8, parity: "even", over: [1, 2] },
+          { bit: 25, parity: "odd", over: [25] },
+        ],
+      }),
+    ).toEqual({
+      cardNumber: "Must fit in 26 bits",
+      "parity.0.bit": "Overlaps facilityCode at bit 8",
+      "parity.1.over": "Must not include the parity bit itself",
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Decoding the raw bits Wiegand readers send. Shared so custom card formats
+ * are validated by the same rules the server decodes with.
+ */
+import type { BitField, CardFormat } from "./api";
+
+/** Fields wider than this would not fit in a JavaScript number */
+export const MAX_FIELD_BITS = 48;
+export const MAX_FORMAT_BITS = 128;
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+/**
+ * Standard formats. Parity checks are listed in the order they are
+ * computed, which matters when one covers another's bit.
+ */
+export const BUILT_IN_CARD_FORMATS: CardFormat[] = [
+  {
+    id: "H10301",
+    name: "HID 26-bit standard",
+    length: 26,
+    facilityCode: { start: 1, length: 8 },
+    cardNumber: { start: 9, length: 16 },
+    parity: [
+      { bit: 0, parity: "even", over: range(1, 12) },
+      { bit: 25, parity: "odd", over: range(13, 24) },
+    ],
+  },
+  {
+    id: "H10306",
+    name: "HID 34-bit",
+    length: 34,
+    facilityCode: { start: 1, length: 16 },
+    cardNumber: { start: 17, length: 16 },
+    parity: [
+      { bit: 0, parity: "even", over: range(1, 16) },
+      { bit: 33, parity: "odd", over: range(17, 32) },
+    ],
+  },
+  {
+    id: "C1K35",
+    name: "Corporate 1000 35-bit",
+    length: 35,
+    // The company id takes the place of the facility code
+    facilityCode: { start: 2, length: 12 },
+    cardNumber: { start: 14, length: 20 },
+    parity: [
+      {
+        bit: 1,
+        parity: "even",
+        over: range(2, 33).filter((i) => i % 3 !== 1),
+      },
+      {
+        bit: 34,
+        parity: "odd",
+        over: range(1, 33).filter((i) => i % 3 !== 0),
+      },
+      { bit: 0, parity: "odd", over: range(1, 34) },
+    ],
+  },
+  {
+    id: "H10304",
+    name: "HID 37-bit with facility code",
+    length: 37,
+    facilityCode: { start: 1, length: 16 },
+    cardNumber: { start: 17, length: 19 },
+    parity: [
+      { bit: 0, parity: "even", over: range(1, 18) },
+      { bit: 36, parity: "odd", over: range(18, 35) },
+    ],
+  },
+];
+
+export const isBitString = (value: string) => /^[01]+$/.test(value);
+
+/**
+ * How cards appear in events and credentials: "<facility>-<number>", or
+ * just the number for formats without a facility code
+ */
+export const wiegandCardId = (cardNumber: number, facilityCode?: number) =>
+  facilityCode === undefined
+    ? String(cardNumber)
+    : `${facilityCode}-${cardNumber}`;
+
+export interface DecodedCard {
+  /** Id of the format it was decoded with */
+  format: string;
+  facilityCode?: number;
+  cardNumber: number;
+  cardId: string;
+}
+
+export type WiegandDecodeResult =
+  | { success: true; card: DecodedCard }
+  | { success: false; failedParityBits: number[] };
+
+const ones = (bits: string, positions: number[]) =>
+  positions.filter((i) => bits[i] === "1").length;
+
+const readField = (bits: string, { start, length }: BitField) =>
+  parseInt(bits.slice(start, start + length), 2);
+
+/**
+ * Decode bits laid out as `format`; the caller has checked they are
+ * `format.length` 0s and 1s
+ */
+export const decodeWiegand = (
+  bits: string,
+  format: CardFormat,
+): WiegandDecodeResult => {
+  const failedParityBits = format.parity
+    .filter((check) => {
+      const count = ones(bits, [check.bit, ...check.over]);
+      return check.parity === "even" ? count % 2 !== 0 : count % 2 !== 1;
+    })
+    .map((check) => check.bit);
+  if (failedParityBits.length > 0) return { success: false, failedParityBits };
+
+  const facilityCode =
+    format.facilityCode && readField(bits, format.facilityCode);
+  const cardNumber = readField(bits, format.cardNumber);
+  return {
+    success: true,
+    card: {
+      format: format.id,
+      facilityCode,
+      cardNumber,
+      cardId: wiegandCardId(cardNumber, facilityCode),
+    },
+  };
+};
+
+/** Bits a reader would send for the card, parity included */
+export const encodeWiegand = (
+  format: CardFormat,
+  {
+    facilityCode = 0,
+    cardNumber,
+  }: { facilityCode?: number; cardNumber: number },
+): string => {
+  const bits: string[] = Array(format.length).fill("0");
+  const write = ({ start, length }: BitField, value: number) =>
+    value
+      .toString(2)
+      .padStart(length, "0")
+      .slice(-length)
+      .split("")
+      .forEach((bit, i) => (bits[start + i] = bit));
+
+  if (format.facilityCode) write(format.facilityCode, facilityCode);
+  write(format.cardNumber, cardNumber);
+
+  for (const check of format.parity) {
+    const odd = ones(bits.join(""), check.over) % 2 === 1;
+    bits[check.bit] = odd === (check.parity === "even") ? "1" : "0";
+  }
+  return bits.join("");
+};
+
+const fieldPositions = ({ start, length }: BitField) =>
+  range(start, start + length - 1);
+
+/**
+ * Problems with where a format puts its bits, keyed by the path of the
+ * offending field. Data fields and parity bits may not overlap, and every
+ * position has to fall inside the format.
+ */
+export const cardFormatProblems = (
+  format: Pick<CardFormat, "length" | "facilityCode" | "cardNumber" | "parity">,
+): Record<string, string> => {
+  const problems: Record<string, string> = {};
+  const inside = (position: number) =>
+    position >= 0 && position < format.length;
+  const taken = new Map<number, string>();
+
+  const claim = (path: string, positions: number[]) => {
+    if (!positions.every(inside)) {
+      problems[path] = `Must fit in ${format.length} bits`;
+      return;
+    }
+    const clash = positions.find((position) => taken.has(position));
+    if (clash !== undefined) {
+      problems[path] = `Overlaps ${taken.get(clash)} at bit ${clash}`;
+      return;
+    }
+    positions.forEach((position) => taken.set(position, path));
+  };
+
+  if (format.facilityCode) {
+    claim("facilityCode", fieldPositions(format.facilityCode));
+  }
+  claim("cardNumber", fieldPositions(format.cardNumber));
+  format.parity.forEach((check, i) => {
+    claim(`parity.${i}.bit`, [check.bit]);
+    if (!check.over.every(inside)) {
+      problems[`parity.${i}.over`] = `Must fit in ${format.length} bits`;
+    } else if (check.over.includes(check.bit)) {
+      problems[`parity.${i}.over`] = "Must not include the parity bit itself";
+    }
+  });
+
+  return problems;
+};
@@ -1,7 +1,6 @@
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -29,7 +28,11 @@ function expressPlugin(): Plugin {
   return {
     name: "express-plugin",
     apply: "serve", // Only apply during development (serve mode)
-    configureServer(server) {
+    // Loaded through Vite so the server resolves the @shared alias
+    async configureServer(server) {
+      const { createServer } = (await server.ssrLoadModule(
+        "./server/index.ts",
+      )) as typeof import("./server");
       const app = createServer();
 
       // Add Express app as middleware to Vite dev server